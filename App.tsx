@@ -4,190 +4,103 @@ import { Dashboard } from './components/Dashboard';
 import { CalendarView } from './components/CalendarView';
 import { AdminView } from './components/AdminView';
 import { BottomNav } from './components/BottomNav';
-import type { TimeEntry, AbsenceRequest, UserAccount, Employee, Customer, Activity, Holiday, CompanySettings, TimeBalanceAdjustment, HolidaysByYear, WeeklySchedule, Shift } from './types';
+import type { TimeEntry, AbsenceRequest, UserAccount, Employee, Customer, Activity, Holiday, CompanySettings, TimeBalanceAdjustment, HolidaysByYear, WeeklySchedule, Shift, MonthClosing, AuditLogEntry, PasswordCredential, PasswordResetToken, OpenPunch, GpsPosition, PunchMethod, PunchEvent, NfcTag, NfcTagMedium, KioskPin, Team, AdminPermission } from './types';
 import { View, EmploymentType, AbsenceType, TargetHoursModel, AdminViewType } from './types';
-import { INITIAL_CUSTOMERS, INITIAL_ACTIVITIES, INITIAL_USER_ACCOUNT, INITIAL_EMPLOYEES, getHolidays, GermanState } from './constants';
+import { INITIAL_USER_ACCOUNT, DEFAULT_COMPANY_SETTINGS, getHolidays, GermanState } from './constants';
 import { LoginScreen } from './components/LoginScreen';
+import { KioskScreen } from './components/KioskScreen';
 import { RegistrationScreen } from './components/RegistrationScreen';
+import { SetPasswordScreen } from './components/SetPasswordScreen';
 import { LogoutIcon } from './components/icons/LogoutIcon';
 // FIX: Removed unused and unexported 'calculateTargetHours' from import.
-import { getContractDetailsForDate, calculateAnnualVacationTaken, calculateBalance, calculateMonthlyBreakdown } from './components/utils';
+import { calculateBalance, calculateMonthlyBreakdown, findLaterMonthClosings } from './components/utils';
+import { getVacationStatement } from './components/vacationLedger';
 import { SwitchHorizontalIcon } from './components/icons/SwitchHorizontalIcon';
 import { ActionSheet } from './components/ui/ActionSheet';
 import { AbsenceRequestModal } from './components/AbsenceRequestModal';
 import { CheckCircleIcon } from './components/icons/CheckCircleIcon';
+import { ExclamationTriangleIcon } from './components/icons/ExclamationTriangleIcon';
 import { ManualEntryFormModal } from './components/ManualEntryFormModal';
 import { UserCircleIcon } from './components/icons/UserCircleIcon';
 import { CogIcon } from './components/icons/CogIcon';
 import { OverviewView } from './components/OverviewView';
-
-const generateDemoData = () => {
-    const timeEntries: TimeEntry[] = [];
-    const absenceRequests: AbsenceRequest[] = [];
-    const shifts: Shift[] = [];
-    let entryIdCounter = 1000;
-
-    // --- Jan Demo 2025 ---
-    const janEmployeeId = 1;
-    const janYear = 2025;
-    
-    // Shifts for Jan (Current Week + Next Week)
-    const today = new Date();
-    const startOfWeek = new Date(today);
-    startOfWeek.setDate(today.getDate() - today.getDay() + 1); // Monday
-    
-    for (let i = 0; i < 14; i++) {
-        const d = new Date(startOfWeek);
-        d.setDate(d.getDate() + i);
-        const day = d.getDay();
-        
-        if (day >= 1 && day <= 5) { // Mon-Fri
-            const start = new Date(d);
-            start.setHours(8, 0, 0, 0);
-            const end = new Date(d);
-            end.setHours(16, 30, 0, 0);
-            
-            shifts.push({
-                id: `shift-${entryIdCounter++}`,
-                employeeId: janEmployeeId,
-                start: start.toISOString(),
-                end: end.toISOString(),
-                label: 'Frühschicht',
-                color: '#3b82f6' // Blue
-            });
-        }
-    }
-
-    absenceRequests.push({
-        id: entryIdCounter++,
-        employeeId: janEmployeeId,
-        type: AbsenceType.Vacation,
-        status: 'approved',
-        startDate: new Date(janYear, 6, 1).toLocaleDateString('sv-SE'),
-        endDate: new Date(janYear, 7, 4).toLocaleDateString('sv-SE'),
-    });
-    absenceRequests.push({
-        id: entryIdCounter++,
-        employeeId: janEmployeeId,
-        type: AbsenceType.TimeOff,
-        status: 'approved',
-        startDate: '2025-02-10', // Monday
-        endDate: '2025-02-11',   // Tuesday
-    });
-
-    let currentDateJan = new Date(janYear, 0, 1);
-    while(currentDateJan <= new Date(janYear, 11, 31)) {
-        const dayOfWeek = currentDateJan.getDay();
-        const dateStr = currentDateJan.toLocaleDateString('sv-SE');
-        const hasAbsence = absenceRequests.some(
-            req => req.employeeId === janEmployeeId && req.status !== 'rejected' && dateStr >= req.startDate && dateStr <= req.endDate
-        );
-
-        if (dayOfWeek !== 0 && dayOfWeek !== 6 && !hasAbsence) {
-            const startTime = new Date(currentDateJan);
-            startTime.setHours(8, Math.floor(Math.random() * 21) - 10, 0, 0);
-            const endTime = new Date(currentDateJan);
-            endTime.setHours(17, Math.floor(Math.random() * 41) - 20, 0, 0);
-            timeEntries.push({
-                id: entryIdCounter++, employeeId: janEmployeeId, start: startTime.toISOString(), end: endTime.toISOString(),
-                breakDurationMinutes: 60, customerId: INITIAL_CUSTOMERS[0].id, activityId: INITIAL_ACTIVITIES[0].id,
-                type: 'manual',
-            });
-        }
-        currentDateJan.setDate(currentDateJan.getDate() + 1);
-    }
-    
-    // --- Tina Teilzeit 2026 ---
-    const tinaEmployeeId = 2;
-    const tinaYear = 2026;
-    absenceRequests.push({
-        id: entryIdCounter++,
-        employeeId: tinaEmployeeId,
-        type: AbsenceType.TimeOff,
-        status: 'approved',
-        startDate: '2026-01-12', // This is a Monday
-        endDate: '2026-01-12',
-    });
-
-    let currentDateTina = new Date(tinaYear, 0, 1);
-    while (currentDateTina <= new Date(tinaYear, 11, 31)) {
-        const dayOfWeek = currentDateTina.getDay(); // 0=Sun, 1=Mon, 2=Tue, 3=Wed
-        const dateStr = currentDateTina.toLocaleDateString('sv-SE');
-        const hasAbsence = absenceRequests.some(
-            req => req.employeeId === tinaEmployeeId && req.status !== 'rejected' && dateStr >= req.startDate && dateStr <= req.endDate
-        );
-
-        let dailyHours = 0;
-        if (dayOfWeek === 1) dailyHours = 8; // Monday
-        if (dayOfWeek === 2) dailyHours = 8; // Tuesday
-        if (dayOfWeek === 3) dailyHours = 4; // Wednesday
-        
-        if (dailyHours > 0 && !hasAbsence) {
-             const startTime = new Date(currentDateTina);
-             startTime.setHours(8, 30, 0, 0); 
-             const endTime = new Date(startTime.getTime() + (dailyHours * 3600 * 1000));
-             timeEntries.push({
-                 id: entryIdCounter++, employeeId: tinaEmployeeId, start: startTime.toISOString(), end: endTime.toISOString(),
-                 breakDurationMinutes: 0, customerId: 'c4', activityId: 'a4',
-                 type: 'manual',
-             });
-        }
-        currentDateTina.setDate(currentDateTina.getDate() + 1);
-    }
-
-    // --- Admin User Demo 2025 ---
-    const adminEmployeeId = 0;
-    const adminYear = 2025;
-    const adminStartDate = new Date(adminYear, 6, 1); // July 1st
-    const adminEndDate = new Date(adminYear, 11, 31); // End of 2025
-
-    let currentDateAdmin = new Date(adminStartDate);
-    while (currentDateAdmin <= adminEndDate) {
-        const dayOfWeek = currentDateAdmin.getDay();
-        if (dayOfWeek !== 0 && dayOfWeek !== 6) { // Mon-Fri
-            const startTime = new Date(currentDateAdmin);
-            startTime.setHours(9, Math.floor(Math.random() * 15) - 5, 0, 0); // around 9 AM
-            const endTime = new Date(currentDateAdmin);
-            endTime.setHours(17, 30 + Math.floor(Math.random() * 31) - 15, 0, 0); // around 5:30 PM
-            timeEntries.push({
-                id: entryIdCounter++,
-                employeeId: adminEmployeeId,
-                start: startTime.toISOString(),
-                end: endTime.toISOString(),
-                breakDurationMinutes: 45,
-                customerId: INITIAL_CUSTOMERS[3].id, // Interne Verwaltung
-                activityId: INITIAL_ACTIVITIES[3].id, // Büroarbeit
-                type: 'manual',
-            });
-        }
-        currentDateAdmin.setDate(currentDateAdmin.getDate() + 1);
-    }
-
-    return { timeEntries, absenceRequests, shifts };
+import { SyncStatusBar } from './components/SyncStatusBar';
+import { SyncConflictModal } from './components/SyncConflictModal';
+import { createRepository, type Repository, type CollectionName, type EntityCollections, type PersistedData } from './services/repository';
+import { createDemoData } from './services/demoData';
+import { getEditLockStatus, getMonthClosingLockStatus, isEditBlocked } from './components/editLockPolicy';
+import { createApiClient, loadAllFromApi, type ApiClient } from './services/apiClient';
+import {
+    createPendingMutation, replayPendingMutations, applyPendingMutations, QUEUED_COLLECTIONS,
+    type PendingMutation, type NewPendingMutation, type QueuedCollection, type QueuedEntity,
+} from './services/offlineQueue';
+import { createAuditLogEntry, type AuditChange } from './components/auditTrail';
+import { applyAutomaticBreaks } from './components/breakRules';
+import { checkAbsenceConflicts, formatAbsenceConflicts, type AbsenceConflictCheck } from './components/absenceConflicts';
+import { createPunchEvent, recordManualPunches, recordCorrectedPunches } from './components/punchMetadata';
+import { applyGeofenceCheck } from './components/geofencePolicy';
+import {
+    getAbsenceApprovalState, getAbsenceApprovalSteps, canDecideAbsenceRequest, describeAbsenceApprover, applyAbsenceDecision,
+    isAbsenceEscalationDue, getAbsenceEscalationTime, escalateAbsenceRequest, createSubmittedEvent, submitAbsenceAsApprover,
+} from './components/absenceApproval';
+import { getAdminAccess, canAccess, isSelfEditableEmployeeChange } from './components/adminPermissions';
+import { resolveNfcTag, isPauseTag, isBadgeTag, getNfcTapSettings, getNfcTapDecision } from './components/nfcTagPolicy';
+import { closeOpenPunch, getOpenPunchAutoCloseHours, getOpenPunchAutoCloseTime, getOpenPunchChainEntries, getOpenPunchElapsedMs, isOpenPunchOverdue } from './components/openPunchPolicy';
+import {
+    createPasswordCredential, verifyPassword, verifyPasswordWithoutCredential, isCredentialLocked, registerFailedLogin, registerSuccessfulLogin,
+    startSession, restoreSession, touchSession, getCurrentSession, getSessionEndReason, endSession, migrateLegacyPasswords,
+    isKioskDevice, setKioskDevice, DEFAULT_IDLE_LOGOUT_MINUTES, type LoginFailure,
+} from './services/auth';
+import { createMailTransport } from './services/mail';
+import {
+    createPasswordResetToken, hashResetToken, isResetTokenUsable, buildPasswordTokenLink, readPasswordTokenFromUrl,
+    clearPasswordTokenFromUrl, getAccountMailAddress, buildPasswordResetMail, buildInvitationMail,
+} from './services/passwordReset';
+
+/**
+ * Writes a collection back to the repository whenever it changes, but only after the initial load
+ * so that the empty initial state never overwrites stored data.
+ */
+const usePersistedCollection = <K extends CollectionName>(repository: Repository, name: K, items: EntityCollections[K], isLoaded: boolean) => {
+    useEffect(() => {
+        if (!isLoaded) return;
+        repository.saveCollection(name, items).catch(error => console.error(`Fehler beim Speichern von "${name}":`, error));
+    }, [repository, name, items, isLoaded]);
 };
 
-const applyAutomaticBreaks = (entryData: Omit<TimeEntry, 'id' | 'employeeId'> | TimeEntry, employee: Employee): Omit<TimeEntry, 'id' | 'employeeId'> | TimeEntry => {
-    if (!employee.automaticBreakDeduction) {
-        return entryData;
-    }
-
-    const durationMs = new Date(entryData.end).getTime() - new Date(entryData.start).getTime();
-    const durationHours = durationMs / (1000 * 60 * 60);
-
-    let requiredBreak = 0;
-    if (durationHours > 9) {
-        requiredBreak = 45;
-    } else if (durationHours > 6) {
-        requiredBreak = 30;
-    }
-
-    const newBreakDuration = Math.max(entryData.breakDurationMinutes || 0, requiredBreak);
-    
-    return { ...entryData, breakDurationMinutes: newBreakDuration };
+/**
+ * Forwards a mutation to the backend if one is configured. The React state has already been
+ * updated optimistically, so failures are only logged.
+ */
+const syncWithBackend = (operation: (client: ApiClient) => Promise<unknown>) => {
+    if (!apiClient) return;
+    operation(apiClient).catch(error => console.error('Fehler bei der Synchronisierung mit dem Server:', error));
 };
 
+const INVALID_LOGIN_MESSAGE = 'Benutzername oder Passwort ist falsch.';
+const SESSION_ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+const SESSION_ACTIVITY_THROTTLE_MS = 15_000;
+const SESSION_CHECK_INTERVAL_MS = 30_000;
+const SYNC_RETRY_INTERVAL_MS = 60_000;
+
+/**
+ * Hashes plaintext passwords of data stored by older versions and writes the result back to the backend.
+ */
+const withMigratedPasswords = async (data: PersistedData): Promise<PersistedData> => {
+    const migrated = await migrateLegacyPasswords(data.employees, data.credentials);
+    if (migrated.migratedEmployeeIds.length === 0) return data;
+    migrated.employees
+        .filter(e => migrated.migratedEmployeeIds.includes(e.id))
+        .forEach(e => syncWithBackend(client => client.employees.update(e)));
+    migrated.credentials
+        .filter(c => !data.credentials.includes(c))
+        .forEach(c => syncWithBackend(client => client.credentials.create(c)));
+    return { ...data, employees: migrated.employees, credentials: migrated.credentials };
+};
 
-const DEMO_DATA = generateDemoData();
+const repository = createRepository();
+const apiClient = createApiClient();
+const mailTransport = createMailTransport(apiClient);
 const MOCK_CURRENT_YEAR = 2026;
 
 const App: React.FC = () => {
@@ -195,39 +108,44 @@ const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<View>(View.Dashboard);
   const [adminViewMode, setAdminViewMode] = useState<'admin' | 'employee'>('admin');
   const [adminActiveView, setAdminActiveView] = useState<AdminViewType>(AdminViewType.Planner);
-  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>(DEMO_DATA.timeEntries);
-  const [absenceRequests, setAbsenceRequests] = useState<AbsenceRequest[]>(DEMO_DATA.absenceRequests);
-  const [shifts, setShifts] = useState<Shift[]>(DEMO_DATA.shifts);
+  const [isDataLoaded, setIsDataLoaded] = useState(false);
+  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
+  const [absenceRequests, setAbsenceRequests] = useState<AbsenceRequest[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
   const [timeBalanceAdjustments, setTimeBalanceAdjustments] = useState<TimeBalanceAdjustment[]>([]);
+  const [monthClosings, setMonthClosings] = useState<MonthClosing[]>([]);
+  const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+  const [credentials, setCredentials] = useState<PasswordCredential[]>([]);
+  const [passwordResetTokens, setPasswordResetTokens] = useState<PasswordResetToken[]>([]);
+  const [openPunches, setOpenPunches] = useState<OpenPunch[]>([]);
+  const [nfcTags, setNfcTags] = useState<NfcTag[]>([]);
+  const [kioskPins, setKioskPins] = useState<KioskPin[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  // The device is a shared kiosk; loggedInUser is then the employee currently at the terminal.
+  const [isKioskMode, setIsKioskMode] = useState(isKioskDevice);
+  // Changes not yet sent to the server; the ref always holds the latest queue for the replay
+  const [pendingMutations, setPendingMutations] = useState<PendingMutation[]>([]);
+  const pendingMutationsRef = useRef<PendingMutation[]>([]);
+  const isReplayingRef = useRef(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isSyncConflictModalOpen, setIsSyncConflictModalOpen] = useState(false);
+  const [loginNotice, setLoginNotice] = useState<string | null>(null);
+  // Token from a reset or invitation link the app was opened with
+  const [passwordLinkToken, setPasswordLinkToken] = useState<string | null>(readPasswordTokenFromUrl);
+  const [passwordLinkTokenHash, setPasswordLinkTokenHash] = useState<string | null>(null);
   const [userAccount, setUserAccount] = useState<UserAccount>(INITIAL_USER_ACCOUNT);
-  const [employees, setEmployees] = useState<Employee[]>(INITIAL_EMPLOYEES);
-  const [customers, setCustomers] = useState<Customer[]>(INITIAL_CUSTOMERS);
-  const [activities, setActivities] = useState<Activity[]>(INITIAL_ACTIVITIES);
-  const [companySettings, setCompanySettings] = useState<CompanySettings>({
-    companyName: 'Musterfirma GmbH',
-    street: 'Hauptstraße',
-    houseNumber: '1',
-    postalCode: '10115',
-    city: 'Berlin',
-    email: 'admin@musterfirma.de',
-    editLockRule: 'currentMonth',
-    employeeCanExport: true,
-    allowHalfDayVacations: true,
-    customerLabel: 'Zeitkategorie 1',
-    activityLabel: 'Zeitkategorie 2',
-    adminTimeFormat: 'hoursMinutes',
-    employeeTimeFormat: 'hoursMinutes',
-    shiftPlannerStartHour: 0,
-    shiftPlannerEndHour: 24,
-  });
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [companySettings, setCompanySettings] = useState<CompanySettings>(DEFAULT_COMPANY_SETTINGS);
   const [authView, setAuthView] = useState<'login' | 'register'>('login');
   const [isActionSheetOpen, setIsActionSheetOpen] = useState(false);
   const [isAbsenceRequestModalOpen, setIsAbsenceRequestModalOpen] = useState(false);
   const [isManualEntryModalOpen, setIsManualEntryModalOpen] = useState(false);
   const [showAbsenceSuccess, setShowAbsenceSuccess] = useState(false);
   const [showTimeEntrySuccess, setShowTimeEntrySuccess] = useState(false);
-  const [showNfcSuccess, setShowNfcSuccess] = useState(false);
-  const [nfcSuccessMessage, setNfcSuccessMessage] = useState('');
+  // Result of the last NFC or QR scan, shown as toast
+  const [scanToast, setScanToast] = useState<{ message: string; isError: boolean } | null>(null);
 
   // Settings state
   const [selectedState, setSelectedState] = useState<GermanState>('BW'); // Default: Baden-Württemberg
@@ -235,17 +153,179 @@ const App: React.FC = () => {
   const [holidaysByYear, setHolidaysByYear] = useState<HolidaysByYear>({});
 
   // Stopwatch state (lifted up)
-  const [isRunning, setIsRunning] = useState(false);
-  const [startTime, setStartTime] = useState<Date | null>(null);
   const [stopTime, setStopTime] = useState<Date | null>(null);
   const [elapsedTime, setElapsedTime] = useState(0);
   const [stopwatchCustomerId, setStopwatchCustomerId] = useState('');
   const [stopwatchActivityId, setStopwatchActivityId] = useState('');
   const [stopwatchComment, setStopwatchComment] = useState('');
   const [isBreakModalOpen, setIsBreakModalOpen] = useState(false);
-  const intervalRef = React.useRef<number | null>(null);
   const mainScrollRef = useRef<HTMLDivElement>(null);
 
+  const updatePendingMutations = useCallback((update: (mutations: PendingMutation[]) => PendingMutation[]) => {
+    pendingMutationsRef.current = update(pendingMutationsRef.current);
+    setPendingMutations(pendingMutationsRef.current);
+  }, []);
+
+  // Sends the queued changes in order. Only one replay runs at a time; changes queued meanwhile are picked up by it.
+  const replaceLocalRecord = useCallback((collection: QueuedCollection, id: number, item: QueuedEntity | null) => {
+    const replace = <T extends { id: number }>(items: T[], replacement: T | null) => [...items.filter(i => i.id !== id), ...(replacement ? [replacement] : [])];
+    switch (collection) {
+        case 'timeEntries': setTimeEntries(prev => replace(prev, item as TimeEntry | null)); break;
+        case 'absenceRequests': setAbsenceRequests(prev => replace(prev, item as AbsenceRequest | null)); break;
+        case 'openPunches': setOpenPunches(prev => replace(prev, item as OpenPunch | null)); break;
+        case 'auditLog': setAuditLog(prev => replace(prev, item as AuditLogEntry | null)); break;
+    }
+  }, []);
+
+  const replayOutbox = useCallback(async () => {
+    if (!apiClient || isReplayingRef.current || !navigator.onLine) return;
+    isReplayingRef.current = true;
+    try {
+        await replayPendingMutations(apiClient, {
+            getNext: () => pendingMutationsRef.current[0],
+            onSent: (mutation) => updatePendingMutations(prev => prev.filter(m => m.id !== mutation.id)),
+            onConflict: (mutation, conflict) => updatePendingMutations(prev => prev.map(m => m.id === mutation.id ? { ...m, conflict } : m)),
+            onSuperseded: (mutation, serverItem) => {
+                updatePendingMutations(prev => prev.filter(m => m.id !== mutation.id));
+                replaceLocalRecord(mutation.collection, mutation.entityId, serverItem);
+            },
+        });
+    } catch (error) {
+        console.error('Fehler bei der Synchronisierung mit dem Server:', error);
+    } finally {
+        isReplayingRef.current = false;
+    }
+  }, [updatePendingMutations, replaceLocalRecord]);
+
+  /**
+   * Queues a change to time entries, absences, open punches or the change log for the backend.
+   * Unlike `syncWithBackend` the change survives being offline and is checked for conflicts.
+   */
+  const queueMutation = useCallback((mutation: NewPendingMutation) => {
+    if (!apiClient) return;
+    updatePendingMutations(prev => [...prev, createPendingMutation(mutation)]);
+    replayOutbox();
+  }, [updatePendingMutations, replayOutbox]);
+
+  const applyPersistedData = useCallback((data: PersistedData) => {
+    setTimeEntries(data.timeEntries);
+    setAbsenceRequests(data.absenceRequests);
+    setShifts(data.shifts);
+    setTimeBalanceAdjustments(data.timeBalanceAdjustments);
+    setMonthClosings(data.monthClosings);
+    setAuditLog(data.auditLog);
+    setCredentials(data.credentials);
+    setPasswordResetTokens(data.passwordResetTokens);
+    setOpenPunches(data.openPunches);
+    setNfcTags(data.nfcTags);
+    setKioskPins(data.kioskPins);
+    setTeams(data.teams);
+    setEmployees(data.employees);
+    setCustomers(data.customers);
+    setActivities(data.activities);
+    setCompanySettings(data.companySettings || DEFAULT_COMPANY_SETTINGS);
+    pendingMutationsRef.current = data.outbox;
+    setPendingMutations(data.outbox);
+    if (data.preferences) {
+        setSelectedState(data.preferences.selectedState);
+        setTimeTrackingMethod(data.preferences.timeTrackingMethod);
+    }
+  }, []);
+
+  // Load the company data once on startup. With a backend the server is the source of truth and
+  // IndexedDB only serves as a local copy; if the server is unreachable, the local copy is used.
+  useEffect(() => {
+    const loadData = async (): Promise<PersistedData> => {
+        const localData = await repository.load();
+        if (!apiClient) return localData;
+        try {
+            const remoteData = await loadAllFromApi(apiClient);
+            const data: PersistedData = { ...remoteData, preferences: localData.preferences, outbox: localData.outbox };
+            // Changes made offline stay visible until they have been sent.
+            QUEUED_COLLECTIONS.forEach(name => {
+                (data as Record<QueuedCollection, unknown>)[name] = applyPendingMutations(name, data[name], localData.outbox);
+            });
+            return data;
+        } catch (error) {
+            console.error('Server nicht erreichbar, lokale Daten werden verwendet:', error);
+            return localData;
+        }
+    };
+    loadData()
+        .then(withMigratedPasswords)
+        .then(data => {
+            applyPersistedData(data);
+            // Stay logged in across reloads as long as the stored session is valid.
+            const session = restoreSession(data.companySettings?.idleLogoutMinutes ?? DEFAULT_IDLE_LOGOUT_MINUTES);
+            const sessionUser = session && data.employees.find(e => e.id === session.employeeId);
+            if (sessionUser) {
+                setLoggedInUser(sessionUser);
+            } else if (session) {
+                endSession();
+            }
+        })
+        .catch(error => console.error('Fehler beim Laden der gespeicherten Daten:', error))
+        .finally(() => setIsDataLoaded(true));
+  }, [applyPersistedData]);
+
+  usePersistedCollection(repository, 'timeEntries', timeEntries, isDataLoaded);
+  usePersistedCollection(repository, 'absenceRequests', absenceRequests, isDataLoaded);
+  usePersistedCollection(repository, 'shifts', shifts, isDataLoaded);
+  usePersistedCollection(repository, 'timeBalanceAdjustments', timeBalanceAdjustments, isDataLoaded);
+  usePersistedCollection(repository, 'monthClosings', monthClosings, isDataLoaded);
+  usePersistedCollection(repository, 'auditLog', auditLog, isDataLoaded);
+  usePersistedCollection(repository, 'credentials', credentials, isDataLoaded);
+  usePersistedCollection(repository, 'passwordResetTokens', passwordResetTokens, isDataLoaded);
+  usePersistedCollection(repository, 'openPunches', openPunches, isDataLoaded);
+  usePersistedCollection(repository, 'nfcTags', nfcTags, isDataLoaded);
+  usePersistedCollection(repository, 'kioskPins', kioskPins, isDataLoaded);
+  usePersistedCollection(repository, 'teams', teams, isDataLoaded);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    repository.saveOutbox(pendingMutations).catch(error => console.error('Fehler beim Speichern der offenen Änderungen:', error));
+  }, [pendingMutations, isDataLoaded]);
+
+  // Replays the queue after loading, when the connection returns and periodically, since
+  // the browser may report being online while the server is still unreachable.
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const handleOnline = () => {
+        setIsOnline(true);
+        replayOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    replayOutbox();
+    const interval = window.setInterval(() => {
+        if (pendingMutationsRef.current.length > 0) replayOutbox();
+    }, SYNC_RETRY_INTERVAL_MS);
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+        clearInterval(interval);
+    };
+  }, [isDataLoaded, replayOutbox]);
+
+  useEffect(() => {
+    if (!passwordLinkToken) return;
+    hashResetToken(passwordLinkToken).then(setPasswordLinkTokenHash);
+  }, [passwordLinkToken]);
+  usePersistedCollection(repository, 'employees', employees, isDataLoaded);
+  usePersistedCollection(repository, 'customers', customers, isDataLoaded);
+  usePersistedCollection(repository, 'activities', activities, isDataLoaded);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    repository.saveCompanySettings(companySettings).catch(error => console.error('Fehler beim Speichern der Firmeneinstellungen:', error));
+  }, [companySettings, isDataLoaded]);
+
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    repository.savePreferences({ selectedState, timeTrackingMethod }).catch(error => console.error('Fehler beim Speichern der Einstellungen:', error));
+  }, [selectedState, timeTrackingMethod, isDataLoaded]);
+
   // SCROLL RESET - Targeted at the internal container
   useLayoutEffect(() => {
     if (mainScrollRef.current) {
@@ -271,26 +351,77 @@ const App: React.FC = () => {
   }, [showTimeEntrySuccess]);
   
   useEffect(() => {
-    if (showNfcSuccess) {
-        const timer = setTimeout(() => setShowNfcSuccess(false), 4000);
+    if (scanToast) {
+        const timer = setTimeout(() => setScanToast(null), 4000);
         return () => clearTimeout(timer);
     }
-  }, [showNfcSuccess]);
+  }, [scanToast]);
+
+  // The stopwatch session of the logged-in user is persisted as an open punch; the stopwatch state is derived from it.
+  const activeOpenPunch = useMemo(
+    () => (loggedInUser && openPunches.find(p => p.employeeId === loggedInUser.id)) || null,
+    [openPunches, loggedInUser]
+  );
+  const isRunning = !!activeOpenPunch && !stopTime;
 
   // Stopwatch timer logic
   useEffect(() => {
-    if (isRunning && startTime) {
-      intervalRef.current = window.setInterval(() => {
-        setElapsedTime(Date.now() - startTime.getTime());
-      }, 1000);
-    } else if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+    if (!activeOpenPunch) {
+      // Ended here, on another device or automatically
+      setElapsedTime(0);
+      setStopTime(null);
+      setIsBreakModalOpen(false);
+      return;
     }
-    return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current);
+    const updateElapsedTime = () => setElapsedTime(getOpenPunchElapsedMs(activeOpenPunch, stopTime || new Date()));
+    updateElapsedTime();
+    if (stopTime) return;
+    const interval = window.setInterval(updateElapsedTime, 1000);
+    return () => clearInterval(interval);
+  }, [activeOpenPunch, stopTime]);
+
+  const startOpenPunch = useCallback((session: Omit<OpenPunch, 'id' | 'employeeId' | 'start' | 'breakSegments' | 'clockIn'>, gps?: GpsPosition, method: PunchMethod = 'stopwatch') => {
+    if (!loggedInUser || openPunches.some(p => p.employeeId === loggedInUser.id)) return;
+    const start = new Date();
+    const punch: OpenPunch = {
+        ...session, id: loggedInUser.id, employeeId: loggedInUser.id, start: start.toISOString(), breakSegments: [],
+        clockIn: createPunchEvent(method, loggedInUser.id, gps, start),
+    };
+    setOpenPunches(prev => [...prev, punch]);
+    queueMutation({ collection: 'openPunches', action: 'create', entityId: punch.id, item: punch });
+  }, [loggedInUser, openPunches, queueMutation]);
+
+  const toggleOpenPunchPause = useCallback(() => {
+    if (!activeOpenPunch) return;
+    const now = new Date().toISOString();
+    const updatedPunch: OpenPunch = activeOpenPunch.pauseStart
+        ? { ...activeOpenPunch, breakSegments: [...activeOpenPunch.breakSegments, { start: activeOpenPunch.pauseStart, end: now }], pauseStart: undefined }
+        : { ...activeOpenPunch, pauseStart: now };
+    setOpenPunches(prev => prev.map(p => p.id === updatedPunch.id ? updatedPunch : p));
+    queueMutation({ collection: 'openPunches', action: 'update', entityId: updatedPunch.id, item: updatedPunch, base: activeOpenPunch });
+  }, [activeOpenPunch, queueMutation]);
+
+  const removeOpenPunch = useCallback((punch: OpenPunch) => {
+    setOpenPunches(prev => prev.filter(p => p.id !== punch.id));
+    queueMutation({ collection: 'openPunches', action: 'remove', entityId: punch.id, base: punch });
+  }, [queueMutation]);
+
+  // Another device of the employee may have started or ended a session in the meantime.
+  useEffect(() => {
+    const client = apiClient;
+    if (!client || !loggedInUser) return;
+    const refreshOpenPunches = () => {
+        client.openPunches.list()
+            .then(punches => setOpenPunches(applyPendingMutations('openPunches', punches, pendingMutationsRef.current)))
+            .catch(error => console.error('Fehler beim Laden der laufenden Zeiterfassungen:', error));
+    };
+    refreshOpenPunches();
+    const handleVisibilityChange = () => {
+        if (document.visibilityState === 'visible') refreshOpenPunches();
     };
-  }, [isRunning, startTime]);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [loggedInUser?.id]);
 
   // Clear holidays when state changes to force a reload
   useEffect(() => {
@@ -310,86 +441,35 @@ const App: React.FC = () => {
     }
   }, [holidaysByYear, selectedState]);
 
-  const isDisplayingAdminView = loggedInUser?.role === 'admin' && adminViewMode === 'admin';
-
-  // NFC Reader Logic (remains the same) ...
-  useEffect(() => {
-    // @ts-ignore
-    if (!('NDEFReader' in window)) {
-      console.log("Web NFC wird von diesem Browser nicht unterstützt.");
-      return;
-    }
-    if (!loggedInUser || isDisplayingAdminView) {
-      return;
+  const adminAccess = useMemo(
+    () => loggedInUser ? getAdminAccess(loggedInUser, employees, teams, companySettings) : null,
+    [loggedInUser, employees, teams, companySettings]
+  );
+  const isDisplayingAdminView = !isKioskMode && canAccess(adminAccess, 'view') && adminViewMode === 'admin';
+
+  // Every change from the admin area is checked here as well, not only by hiding the buttons. The
+  // user's own records follow the employee rules instead.
+  const requirePermission = useCallback((permission: AdminPermission, ...employeeIds: number[]): boolean => {
+    const isAllowed = employeeIds.length === 0
+        ? canAccess(adminAccess, permission)
+        : employeeIds.every(employeeId => canAccess(adminAccess, permission, employeeId));
+    if (!isAllowed) {
+        alert('Für diese Aktion fehlt Ihnen die Berechtigung.');
     }
+    return isAllowed;
+  }, [adminAccess]);
 
-    const abortController = new AbortController();
-
-    const startScan = async () => {
-      try {
-        // @ts-ignore
-        const reader = new NDEFReader();
-        await reader.scan({ signal: abortController.signal });
-
-        reader.onreading = (event: any) => {
-          const message = event.message;
-          for (const record of message.records) {
-            if (record.recordType === "text") {
-              const textDecoder = new TextDecoder();
-              const text = textDecoder.decode(record.data);
-              
-              try {
-                const data = JSON.parse(text);
-                
-                if (data.customerId && data.activityId) {
-                  if (isRunning) {
-                      setNfcSuccessMessage(`Stempeluhr läuft bereits.`);
-                      setShowNfcSuccess(true);
-                      return;
-                  }
-
-                  const todayStr = new Date().toLocaleDateString('sv-SE');
-                  const todaysAbsence = absenceRequests.find(req => 
-                      req.employeeId === loggedInUser.id &&
-                      req.status !== 'rejected' &&
-                      todayStr >= req.startDate &&
-                      todayStr <= req.endDate
-                  );
-                  if (todaysAbsence) {
-                      setNfcSuccessMessage('Start wegen Abwesenheit nicht möglich.');
-                      setShowNfcSuccess(true);
-                      return;
-                  }
-
-                  setStopwatchCustomerId(data.customerId);
-                  setStopwatchActivityId(data.activityId);
-                  setStartTime(new Date());
-                  setIsRunning(true);
-                  setCurrentView(View.Dashboard);
-
-                  const customerName = customers.find(c => c.id === data.customerId)?.name || data.customerId;
-                  const activityName = activities.find(a => a.id === data.activityId)?.name || data.activityId;
-                  setNfcSuccessMessage(`Zeiterfassung für "${customerName} / ${activityName}" gestartet.`);
-                  setShowNfcSuccess(true);
-                }
-              } catch (e) {
-                console.error("Fehler beim Parsen der NFC-Daten als JSON:", e);
-              }
-            }
-          }
-        };
-      } catch (error) {
-        console.error("Fehler beim Starten des NFC-Scans:", error);
-      }
-    };
-
-    startScan();
-
-    return () => {
-      abortController.abort();
-    };
-  }, [loggedInUser, isDisplayingAdminView, isRunning, absenceRequests, customers, activities]);
+  // The employee app manages the user's own time entries and absence requests without any admin permission.
+  const requireOwnOrPermission = useCallback((permission: AdminPermission, ...employeeIds: number[]): boolean =>
+    (!!loggedInUser && employeeIds.every(employeeId => employeeId === loggedInUser.id)) || requirePermission(permission, ...employeeIds),
+  [loggedInUser, requirePermission]);
 
+  // Employee records are settings: unlike with requirePermission, the own record is not exempt.
+  const rejectWithoutEmployeeSettingsAccess = useCallback((employeeId: number): boolean => {
+    if (canAccess(adminAccess, 'manageSettings', employeeId)) return false;
+    alert('Für diese Aktion fehlt Ihnen die Berechtigung.');
+    return true;
+  }, [adminAccess]);
 
   useEffect(() => {
     const loadMissingHolidays = () => {
@@ -413,7 +493,7 @@ const App: React.FC = () => {
     loadMissingHolidays();
   }, [employees, timeEntries, absenceRequests, shifts, ensureHolidaysForYear]);
   
-  const isUserAdmin = loggedInUser?.role === 'admin';
+  const isUserAdmin = canAccess(adminAccess, 'view');
   const currentUser = isDisplayingAdminView ? null : loggedInUser;
 
   const handleSetCurrentView = (view: View) => {
@@ -428,24 +508,141 @@ const App: React.FC = () => {
     }
   };
 
-  const handleLogin = useCallback((username: string, password: string): string | null => {
-    if (!password) return 'Bitte geben Sie ein Passwort ein.';
+  const saveCredential = useCallback((credential: PasswordCredential) => {
+    const exists = credentials.some(c => c.id === credential.id);
+    setCredentials(prev => exists ? prev.map(c => c.id === credential.id ? credential : c) : [...prev, credential]);
+    syncWithBackend(client => exists ? client.credentials.update(credential) : client.credentials.create(credential));
+  }, [credentials]);
+
+  const setEmployeePassword = useCallback(async (employeeId: number, password: string) => {
+    saveCredential(await createPasswordCredential(employeeId, password));
+  }, [saveCredential]);
+
+  const saveKioskPin = useCallback((kioskPin: KioskPin) => {
+    const exists = kioskPins.some(p => p.id === kioskPin.id);
+    setKioskPins(prev => exists ? prev.map(p => p.id === kioskPin.id ? kioskPin : p) : [...prev, kioskPin]);
+    syncWithBackend(client => exists ? client.kioskPins.update(kioskPin) : client.kioskPins.create(kioskPin));
+  }, [kioskPins]);
+
+  const setEmployeeKioskPin = useCallback(async (employeeId: number, pin: string) => {
+    saveKioskPin(await createPasswordCredential(employeeId, pin));
+  }, [saveKioskPin]);
+
+  // Marks all open reset and invitation links of the employee as used.
+  const invalidatePasswordTokens = useCallback((employeeId: number) => {
+    const usedAt = new Date().toISOString();
+    const openTokens = passwordResetTokens.filter(t => t.employeeId === employeeId && isResetTokenUsable(t));
+    if (openTokens.length === 0) return;
+    setPasswordResetTokens(prev => prev.map(t => openTokens.some(o => o.id === t.id) ? { ...t, usedAt } : t));
+    openTokens.forEach(t => syncWithBackend(client => client.passwordResetTokens.update({ ...t, usedAt })));
+  }, [passwordResetTokens]);
+
+  /**
+   * Issues a new single-use link for setting the password and mails it to the employee.
+   * Older links of the employee stop working. Returns false if there is no address or sending failed.
+   */
+  const sendPasswordLink = useCallback(async (employee: Employee, purpose: PasswordResetToken['purpose']): Promise<boolean> => {
+    const to = getAccountMailAddress(employee, companySettings.email);
+    if (!to) return false;
+    const { token, record } = await createPasswordResetToken(employee.id, purpose);
+    invalidatePasswordTokens(employee.id);
+    setPasswordResetTokens(prev => [...prev, record]);
+    syncWithBackend(client => client.passwordResetTokens.create(record));
+
+    const link = buildPasswordTokenLink(token);
+    const mail = purpose === 'invitation'
+        ? buildInvitationMail(employee, to, link, companySettings.companyName)
+        : buildPasswordResetMail(employee, to, link, companySettings.companyName);
+    try {
+        await mailTransport.send(mail);
+        return true;
+    } catch (error) {
+        console.error('E-Mail konnte nicht versendet werden:', error);
+        return false;
+    }
+  }, [companySettings, invalidatePasswordTokens]);
+
+  const handleRequestPasswordReset = useCallback(async (usernameOrEmail: string) => {
+    const identifier = usernameOrEmail.toLowerCase();
+    const employee = employees.find(e => e.isActive && (e.username.toLowerCase() === identifier || e.email?.toLowerCase() === identifier));
+    // The login screen shows the same message either way, so it does not reveal which accounts exist.
+    if (employee) {
+        await sendPasswordLink(employee, 'reset');
+    }
+  }, [employees, sendPasswordLink]);
+
+  const passwordLinkRecord = useMemo(() => {
+    const record = passwordResetTokens.find(t => t.tokenHash === passwordLinkTokenHash);
+    const employee = record && employees.find(e => e.id === record.employeeId && e.isActive);
+    return record && employee && isResetTokenUsable(record) ? record : null;
+  }, [passwordResetTokens, passwordLinkTokenHash, employees]);
+
+  const leavePasswordLink = useCallback(() => {
+    clearPasswordTokenFromUrl();
+    setPasswordLinkToken(null);
+    setPasswordLinkTokenHash(null);
+  }, []);
+
+  const handleSetPasswordFromLink = useCallback(async (password: string): Promise<string | null> => {
+    if (!passwordLinkRecord || !isResetTokenUsable(passwordLinkRecord)) {
+        return 'Dieser Link ist ungültig oder abgelaufen.';
+    }
+    await setEmployeePassword(passwordLinkRecord.employeeId, password);
+    invalidatePasswordTokens(passwordLinkRecord.employeeId);
+    leavePasswordLink();
+    setAuthView('login');
+    setLoginNotice('Ihr Passwort wurde gespeichert. Sie können sich jetzt anmelden.');
+    return null;
+  }, [passwordLinkRecord, setEmployeePassword, invalidatePasswordTokens, leavePasswordLink]);
+
+  /**
+   * Checks a secret against a stored credential and records the attempt, so that repeated failures lock it.
+   * Used for passwords and for kiosk PINs. Unknown users, wrong secrets and locked credentials all get the
+   * same answer, so that the answer does not reveal which accounts exist; only the correct secret learns of a lock.
+   */
+  const checkCredential = useCallback(async (
+      secret: string, credential: PasswordCredential | undefined, save: (credential: PasswordCredential) => void, invalidMessage: string,
+  ): Promise<LoginFailure | null> => {
+    if (!credential) {
+        await verifyPasswordWithoutCredential(secret);
+        return { message: invalidMessage };
+    }
+    const isLocked = isCredentialLocked(credential);
+    if (!(await verifyPassword(secret, credential))) {
+        // Attempts during a lock are not counted, otherwise guessing would keep the lock going.
+        if (!isLocked) save(registerFailedLogin(credential));
+        return { message: invalidMessage };
+    }
+    if (isLocked) {
+        return { message: 'Zu viele fehlgeschlagene Anmeldeversuche.', lockedUntil: credential.lockedUntil };
+    }
+    if (credential.failedLoginAttempts > 0 || credential.lockedUntil) {
+        save(registerSuccessfulLogin(credential));
+    }
+    return null;
+  }, []);
+
+  const handleLogin = useCallback(async (username: string, password: string): Promise<LoginFailure | null> => {
+    if (!password) return { message: 'Bitte geben Sie ein Passwort ein.' };
     const user = employees.find(e => e.username.toLowerCase() === username.toLowerCase());
-    if (!user) return 'Benutzer nicht gefunden.';
-    if (user.password !== password) return 'Falsches Passwort.';
+    const failure = await checkCredential(password, user && credentials.find(c => c.id === user.id), saveCredential, INVALID_LOGIN_MESSAGE);
+    if (!user || failure) return failure ?? { message: INVALID_LOGIN_MESSAGE };
     
     // CLOSE KEYBOARD
     if (document.activeElement instanceof HTMLElement) {
         document.activeElement.blur();
     }
     
+    startSession(user.id);
+    setLoginNotice(null);
     setLoggedInUser(user);
     return null;
-  }, [employees]);
+  }, [employees, credentials, saveCredential, checkCredential]);
 
-  const handleRegister = useCallback((
+  const handleRegister = useCallback(async (
       employeeData: Omit<Employee, 'id' | 'lastModified' | 'contractHistory' | 'role' | 'isActive'>,
-      companyData: Omit<CompanySettings, 'adminTimeFormat' | 'employeeTimeFormat'>
+      companyData: Omit<CompanySettings, 'adminTimeFormat' | 'employeeTimeFormat'>,
+      password: string
   ) => {
       // CLOSE KEYBOARD
       if (document.activeElement instanceof HTMLElement) {
@@ -467,206 +664,827 @@ const App: React.FC = () => {
               street: '', houseNumber: '', postalCode: '', city: ''
           }]
       };
-      setEmployees([newAdmin]);
-      setCompanySettings({
+      const newCompanySettings: CompanySettings = {
         ...companyData,
         adminTimeFormat: 'hoursMinutes',
         employeeTimeFormat: 'hoursMinutes',
         shiftPlannerStartHour: 0,
         shiftPlannerEndHour: 24,
-      });
+      };
+      const adminCredential = await createPasswordCredential(newAdmin.id, password);
+      setEmployees([newAdmin]);
+      setCredentials([adminCredential]);
+      setCompanySettings(newCompanySettings);
+      syncWithBackend(client => client.employees.create(newAdmin));
+      syncWithBackend(client => client.credentials.create(adminCredential));
+      syncWithBackend(client => client.companySettings.update(newCompanySettings));
+      startSession(newAdmin.id);
       setLoggedInUser(newAdmin);
   }, []);
 
-  const handleLogout = () => {
-    if (isRunning) {
-        setIsRunning(false);
-        setElapsedTime(0);
-        setStartTime(null);
-        setStopTime(null);
-        setStopwatchComment('');
-    }
+  const handleLoadDemoData = useCallback(() => {
+      const demoData = createDemoData();
+      applyPersistedData(demoData);
+      syncWithBackend(client => client.replaceAll(demoData));
+      setAuthView('login');
+  }, [applyPersistedData]);
+
+  // A running stopwatch is kept as open punch and continues after the next login.
+  const handleLogout = useCallback(() => {
+    setStopTime(null);
+    setIsBreakModalOpen(false);
+    setStopwatchCustomerId('');
+    setStopwatchActivityId('');
+    setStopwatchComment('');
+    endSession();
     setLoggedInUser(null);
     setCurrentView(View.Dashboard);
     setAdminViewMode('admin');
-  };
+  }, []);
+
+  // The admin turns this device into a shared kiosk; the admin's own login ends.
+  const startKioskMode = useCallback(() => {
+    if (!requirePermission('manageSettings')) return;
+    handleLogout();
+    setKioskDevice(true);
+    setIsKioskMode(true);
+  }, [handleLogout, requirePermission]);
+
+  // Leaving the kiosk requires the password of an admin, who is then logged in as usual. Other users get
+  // the same message as for a wrong password, so the shared terminal does not reveal who has an account.
+  const exitKioskMode = useCallback(async (username: string, password: string): Promise<LoginFailure | null> => {
+    if (!password) return { message: 'Bitte geben Sie ein Passwort ein.' };
+    const user = employees.find(e => e.username.toLowerCase() === username.toLowerCase());
+    const failure = await checkCredential(password, user && credentials.find(c => c.id === user.id), saveCredential, INVALID_LOGIN_MESSAGE);
+    if (!user || failure || user.role !== 'admin') return failure ?? { message: INVALID_LOGIN_MESSAGE };
+    startSession(user.id);
+    setLoginNotice(null);
+    setLoggedInUser(user);
+    setKioskDevice(false);
+    setIsKioskMode(false);
+    return null;
+  }, [employees, credentials, saveCredential, checkCredential]);
+
+  // Logs an employee in at the kiosk for a single action; there is no session, so a reload logs out.
+  const handleKioskPinLogin = useCallback(async (employeeId: number, pin: string): Promise<LoginFailure | null> => {
+    const employee = employees.find(e => e.id === employeeId && e.isActive);
+    const kioskPin = kioskPins.find(p => p.id === employeeId);
+    if (!employee || !kioskPin) return { message: 'Für Sie ist keine PIN hinterlegt. Bitte wenden Sie sich an die Verwaltung.' };
+    const failure = await checkCredential(pin, kioskPin, saveKioskPin, 'Die PIN ist falsch.');
+    if (failure) return failure;
+    setLoggedInUser(employee);
+    return null;
+  }, [employees, kioskPins, saveKioskPin, checkCredential]);
+
+  const idleLogoutMinutes = companySettings.idleLogoutMinutes ?? DEFAULT_IDLE_LOGOUT_MINUTES;
 
-  const addTimeEntry = useCallback((entry: Omit<TimeEntry, 'id' | 'employeeId'>) => {
-    if (loggedInUser) {
-      const finalEntry = applyAutomaticBreaks(entry, loggedInUser);
-      setTimeEntries(prev => [...prev, { ...finalEntry, id: Date.now(), employeeId: loggedInUser.id }]);
+  // Ends the login when the session expires or after the configured inactivity. Activity is stored
+  // with the session, so the idle time also counts across reloads.
+  useEffect(() => {
+    if (!loggedInUser || isKioskMode) return;
+    let lastTouch = 0;
+
+    const endSessionIfInvalid = () => {
+        const session = getCurrentSession();
+        const endReason = session ? getSessionEndReason(session, idleLogoutMinutes) : 'expired';
+        if (!endReason) return false;
+        handleLogout();
+        setLoginNotice(endReason === 'idle'
+            ? 'Sie wurden wegen Inaktivität automatisch abgemeldet.'
+            : 'Ihre Sitzung ist abgelaufen. Bitte melden Sie sich erneut an.');
+        return true;
+    };
+    const handleActivity = () => {
+        const now = Date.now();
+        if (now - lastTouch < SESSION_ACTIVITY_THROTTLE_MS) return;
+        lastTouch = now;
+        if (!endSessionIfInvalid()) touchSession();
+    };
+
+    SESSION_ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    const interval = window.setInterval(endSessionIfInvalid, SESSION_CHECK_INTERVAL_MS);
+    return () => {
+        SESSION_ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+        window.clearInterval(interval);
+    };
+  }, [loggedInUser, isKioskMode, idleLogoutMinutes, handleLogout]);
+
+  // Appends a record to the immutable change log. Every mutation of audited data reports its change here.
+  // `changedBy` null records the change as made by the system.
+  const recordAudit = useCallback((change: AuditChange, changedBy: Employee | null = loggedInUser) => {
+    const auditEntry = createAuditLogEntry(change, changedBy);
+    setAuditLog(prev => [...prev, auditEntry]);
+    queueMutation({ collection: 'auditLog', action: 'create', entityId: auditEntry.id, item: auditEntry });
+  }, [loggedInUser, queueMutation]);
+
+  // Replay stops at the first conflict, so there is at most one.
+  const syncConflict = pendingMutations.find(m => m.conflict);
+
+  /**
+   * Keeps the local change (it is sent again, overwriting the server version) or takes over the
+   * server version; later queued changes of the same record build on the local one and are dropped too.
+   */
+  const resolveSyncConflict = useCallback((keepLocal: boolean) => {
+    const mutation = pendingMutationsRef.current.find(m => m.conflict);
+    if (!mutation?.conflict || !apiClient) return;
+    const { serverItem } = mutation.conflict;
+    setIsSyncConflictModalOpen(false);
+    if (keepLocal) {
+        // A rejected change is retried as it is; a change made on an outdated version overwrites the server.
+        updatePendingMutations(prev => prev.map(m => m.id === mutation.id ? { ...m, conflict: undefined, force: serverItem !== undefined } : m));
+        replayOutbox();
+        return;
+    }
+    updatePendingMutations(prev => prev.filter(m => m.collection !== mutation.collection || m.entityId !== mutation.entityId));
+    const takeOver = (item: QueuedEntity | null) => {
+        replaceLocalRecord(mutation.collection, mutation.entityId, item);
+        // Time entries and absences are audited, so the log has to show that the local change was undone.
+        if (mutation.collection === 'timeEntries' || mutation.collection === 'absenceRequests') {
+            const localItem = mutation.collection === 'timeEntries'
+                ? timeEntries.find(e => e.id === mutation.entityId)
+                : absenceRequests.find(r => r.id === mutation.entityId);
+            const record = (item || localItem) as TimeEntry | AbsenceRequest | undefined;
+            if (record) {
+                recordAudit({
+                    entityType: mutation.collection === 'timeEntries' ? 'timeEntry' : 'absenceRequest',
+                    entityId: mutation.entityId,
+                    employeeId: record.employeeId,
+                    action: !localItem ? 'create' : item ? 'update' : 'delete',
+                    before: localItem || null,
+                    after: item,
+                    reason: 'Synchronisierungskonflikt: Version des Servers übernommen',
+                });
+            }
+        }
+        replayOutbox();
+    };
+    if (serverItem !== undefined) {
+        takeOver(serverItem);
+    } else {
+        const client: ApiClient = apiClient;
+        client[mutation.collection].list()
+            .then((items: QueuedEntity[]) => takeOver(items.find(i => i.id === mutation.entityId) ?? null))
+            .catch(error => console.error('Fehler beim Laden der Server-Version:', error));
     }
-  }, [loggedInUser]);
+  }, [timeEntries, absenceRequests, updatePendingMutations, replayOutbox, replaceLocalRecord, recordAudit]);
+
+  // Closed months are frozen for everyone, admins included; they have to be reopened first.
+  const rejectIfMonthClosed = useCallback((employeeId: number, startDate: string, endDate: string = startDate): boolean => {
+    const status = getMonthClosingLockStatus(startDate, endDate, monthClosings.filter(c => c.employeeId === employeeId));
+    if (status.isLocked) {
+        alert(status.reason);
+    }
+    return status.isLocked;
+  }, [monthClosings]);
+
+  const addTimeEntry = useCallback((entry: Omit<TimeEntry, 'id' | 'employeeId'>, chainEntries: TimeEntry[] = []): TimeEntry | null => {
+    // Stopwatch entries record the actual time and are therefore never subject to the edit lock.
+    if (entry.type === 'manual' && isEditBlocked(getEditLockStatus(entry.start, companySettings))) {
+        console.warn('Zeiteintrag abgelehnt: Der Tag ist für Änderungen gesperrt.');
+        return null;
+    }
+    if (!loggedInUser || rejectIfMonthClosed(loggedInUser.id, entry.start)) return null;
+    const recordedEntry = entry.type === 'manual' ? recordManualPunches(entry, 'manual', loggedInUser.id) : entry;
+    const finalEntry = applyGeofenceCheck(applyAutomaticBreaks(recordedEntry, loggedInUser, companySettings, chainEntries), customers);
+    const newEntry: TimeEntry = { ...finalEntry, id: Date.now(), employeeId: loggedInUser.id };
+    setTimeEntries(prev => [...prev, newEntry]);
+    queueMutation({ collection: 'timeEntries', action: 'create', entityId: newEntry.id, item: newEntry });
+    recordAudit({ entityType: 'timeEntry', entityId: newEntry.id, employeeId: newEntry.employeeId, action: 'create', before: null, after: newEntry });
+    return newEntry;
+  }, [loggedInUser, companySettings, customers, rejectIfMonthClosed, recordAudit, queueMutation]);
+
+  // Saves the session as time entry; the open punch is only removed once the entry is stored. Without a
+  // break duration, the recorded pauses are used.
+  const endOpenPunch = useCallback((end: Date, clockOut: PunchEvent, breakDurationMinutes?: number): boolean => {
+    if (!activeOpenPunch) return false;
+    const chainEntries = getOpenPunchChainEntries(activeOpenPunch, timeEntries);
+    if (!addTimeEntry(closeOpenPunch(activeOpenPunch, end, clockOut, breakDurationMinutes), chainEntries)) return false;
+    removeOpenPunch(activeOpenPunch);
+    return true;
+  }, [activeOpenPunch, timeEntries, addTimeEntry, removeOpenPunch]);
+
+  const finishOpenPunch = useCallback((breakDurationMinutes: number, gps?: GpsPosition): boolean => {
+    if (!activeOpenPunch || !stopTime) return false;
+    return endOpenPunch(stopTime, createPunchEvent('stopwatch', activeOpenPunch.employeeId, gps, stopTime), breakDurationMinutes);
+  }, [activeOpenPunch, stopTime, endOpenPunch]);
+
+  // Closes the running session now and continues it with another customer or activity. A running
+  // pause goes on in the new session.
+  const switchOpenPunch = useCallback((session: Omit<OpenPunch, 'id' | 'employeeId' | 'start' | 'breakSegments' | 'clockIn'>, gps?: GpsPosition, method: PunchMethod = 'stopwatch'): boolean => {
+    if (!activeOpenPunch || stopTime) return false;
+    const switchTime = new Date();
+    // The switch ends the previous entry and starts the next one at the same place.
+    const switchPunch = createPunchEvent(method, activeOpenPunch.employeeId, gps, switchTime);
+    const chainEntries = getOpenPunchChainEntries(activeOpenPunch, timeEntries);
+    const closedEntry = addTimeEntry(closeOpenPunch(activeOpenPunch, switchTime, switchPunch), chainEntries);
+    if (!closedEntry) return false;
+    const updatedPunch: OpenPunch = {
+        ...session,
+        id: activeOpenPunch.id,
+        employeeId: activeOpenPunch.employeeId,
+        start: switchTime.toISOString(),
+        breakSegments: [],
+        pauseStart: activeOpenPunch.pauseStart ? switchTime.toISOString() : undefined,
+        clockIn: switchPunch,
+        chainEntryIds: [...(activeOpenPunch.chainEntryIds || []), closedEntry.id],
+    };
+    setOpenPunches(prev => prev.map(p => p.id === updatedPunch.id ? updatedPunch : p));
+    queueMutation({ collection: 'openPunches', action: 'update', entityId: updatedPunch.id, item: updatedPunch, base: activeOpenPunch });
+    return true;
+  }, [activeOpenPunch, stopTime, timeEntries, addTimeEntry, queueMutation]);
+
+  const isAbsentToday = useCallback((employeeId: number): boolean => {
+    const todayStr = new Date().toLocaleDateString('sv-SE');
+    return absenceRequests.some(req =>
+        req.employeeId === employeeId &&
+        req.status !== 'rejected' &&
+        todayStr >= req.startDate &&
+        todayStr <= req.endDate
+    );
+  }, [absenceRequests]);
+
+  // A registered NFC tag or QR code starts the stopwatch; while it runs, the tag's settings decide whether
+  // a tap stops, switches or pauses the session.
+  const handleTagScan = useCallback((text: string, medium: NfcTagMedium, serialNumber?: string) => {
+    // Only registered tags are accepted; customer and activity come from the registry.
+    const { tag, error } = resolveNfcTag(text, serialNumber, nfcTags, medium);
+    if (tag && isBadgeTag(tag)) {
+        const badgeOwner = employees.find(e => e.id === tag.employeeId && e.isActive);
+        if (!isKioskMode || !badgeOwner) {
+            setScanToast({ message: isKioskMode ? 'Der Ausweis gehört keinem aktiven Mitarbeiter.' : 'Mitarbeiterausweise werden nur am Kiosk verwendet.', isError: true });
+            return;
+        }
+        setLoggedInUser(badgeOwner);
+        return;
+    }
+    if (!loggedInUser) return;
+    if (isKioskMode) {
+        setScanToast({ message: 'Am Kiosk werden nur Mitarbeiterausweise gelesen.', isError: true });
+        return;
+    }
+    const customer = tag && customers.find(c => c.id === tag.customerId);
+    const activity = tag && activities.find(a => a.id === tag.activityId);
+    if (!tag || !customer || (!isPauseTag(tag) && !activity)) {
+        setScanToast({ message: error || `Der ${medium === 'qr' ? 'QR-Code' : 'NFC-Tag'} verweist auf einen gelöschten Eintrag.`, isError: true });
+        return;
+    }
+    // The stop dialog of the stopwatch is open; the session is being ended there.
+    if (stopTime) {
+        setScanToast({ message: 'Bitte schließen Sie zuerst das Beenden der Stempeluhr ab.', isError: true });
+        return;
+    }
+
+    const decision = getNfcTapDecision(tag, activeOpenPunch, getNfcTapSettings(tag, customer));
+    const sessionName = `"${customer.name} / ${activity?.name}"`;
+    switch (decision.action) {
+        case 'ignore':
+            setScanToast({ message: decision.message, isError: decision.isError });
+            return;
+        case 'pause':
+        case 'resume':
+            toggleOpenPunchPause();
+            setScanToast({ message: decision.action === 'pause' ? 'Pause gestartet.' : 'Pause beendet, die Zeiterfassung läuft weiter.', isError: false });
+            return;
+        case 'stop':
+            if (endOpenPunch(new Date(), createPunchEvent(medium, loggedInUser.id))) {
+                setScanToast({ message: `Zeiterfassung für ${sessionName} beendet.`, isError: false });
+            }
+            return;
+        case 'switch':
+            if (switchOpenPunch({ customerId: tag.customerId, activityId: tag.activityId }, undefined, medium)) {
+                setStopwatchCustomerId(tag.customerId);
+                setStopwatchActivityId(tag.activityId);
+                setScanToast({ message: `Gewechselt zu ${sessionName}.`, isError: false });
+            }
+            return;
+    }
+
+    if (isAbsentToday(loggedInUser.id)) {
+        setScanToast({ message: 'Start wegen Abwesenheit nicht möglich.', isError: true });
+        return;
+    }
+
+    setStopwatchCustomerId(tag.customerId);
+    setStopwatchActivityId(tag.activityId);
+    startOpenPunch({ customerId: tag.customerId, activityId: tag.activityId }, undefined, medium);
+    setCurrentView(View.Dashboard);
+    setScanToast({ message: `Zeiterfassung für ${sessionName} gestartet.`, isError: false });
+  }, [loggedInUser, isKioskMode, activeOpenPunch, stopTime, startOpenPunch, toggleOpenPunchPause, endOpenPunch, switchOpenPunch, isAbsentToday, employees, customers, activities, nfcTags]);
+
+  const startKioskPunch = useCallback((customerId: string, activityId: string): string | null => {
+    if (!loggedInUser) return null;
+    if (isAbsentToday(loggedInUser.id)) return 'Start wegen Abwesenheit nicht möglich.';
+    startOpenPunch({ customerId, activityId }, undefined, 'kiosk');
+    return null;
+  }, [loggedInUser, isAbsentToday, startOpenPunch]);
+
+  const stopKioskPunch = useCallback((): boolean =>
+    !!loggedInUser && endOpenPunch(new Date(), createPunchEvent('kiosk', loggedInUser.id)),
+  [loggedInUser, endOpenPunch]);
+
+  useEffect(() => {
+    // @ts-ignore
+    if (!('NDEFReader' in window)) {
+      console.log("Web NFC wird von diesem Browser nicht unterstützt.");
+      return;
+    }
+    if ((!loggedInUser && !isKioskMode) || isDisplayingAdminView) {
+      return;
+    }
+
+    const abortController = new AbortController();
+
+    const startScan = async () => {
+      try {
+        // @ts-ignore
+        const reader = new NDEFReader();
+        await reader.scan({ signal: abortController.signal });
+
+        reader.onreading = (event: any) => {
+          const message = event.message;
+          for (const record of message.records) {
+            if (record.recordType === "text") {
+              const textDecoder = new TextDecoder();
+              handleTagScan(textDecoder.decode(record.data), 'nfc', event.serialNumber || undefined);
+            }
+          }
+        };
+      } catch (error) {
+        console.error("Fehler beim Starten des NFC-Scans:", error);
+      }
+    };
+
+    startScan();
+
+    return () => {
+      abortController.abort();
+    };
+  }, [loggedInUser, isKioskMode, isDisplayingAdminView, handleTagScan]);
+
+  // Ends sessions that were left running longer than allowed, for all employees. The entry ends at the
+  // limit and is flagged, so that the admin can correct it. Every open device does this, so the entry is
+  // built from the session alone: its id is the auto-close time and the clock-out is recorded at that time.
+  // The same entry queued by two devices is then sent once instead of being duplicated.
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const closeOverduePunches = () => {
+        openPunches.filter(punch => isOpenPunchOverdue(punch, companySettings)).forEach(punch => {
+            const closingLock = getMonthClosingLockStatus(punch.start, punch.start, monthClosings.filter(c => c.employeeId === punch.employeeId));
+            if (closingLock.isLocked) return;
+            const autoCloseTime = getOpenPunchAutoCloseTime(punch, companySettings)!;
+            if (timeEntries.some(e => e.id === autoCloseTime.getTime() && e.employeeId === punch.employeeId)) {
+                // Already closed on another device; only the session is left over.
+                removeOpenPunch(punch);
+                return;
+            }
+            const employee = employees.find(e => e.id === punch.employeeId);
+            const entry = { ...closeOpenPunch(punch, autoCloseTime, createPunchEvent('system', null, undefined, autoCloseTime)), autoClosed: true };
+            const newEntry: TimeEntry = { ...(employee ? applyAutomaticBreaks(entry, employee, companySettings, getOpenPunchChainEntries(punch, timeEntries)) : entry), id: autoCloseTime.getTime(), employeeId: punch.employeeId };
+            setTimeEntries(prev => [...prev, newEntry]);
+            queueMutation({ collection: 'timeEntries', action: 'create', entityId: newEntry.id, item: newEntry });
+            recordAudit({
+                entityType: 'timeEntry', entityId: newEntry.id, employeeId: newEntry.employeeId, action: 'create', before: null, after: newEntry,
+                reason: `Stempeluhr nach ${getOpenPunchAutoCloseHours(companySettings)} Stunden automatisch beendet`,
+            }, null);
+            removeOpenPunch(punch);
+        });
+    };
+    closeOverduePunches();
+    const interval = window.setInterval(closeOverduePunches, 60_000);
+    return () => clearInterval(interval);
+  }, [isDataLoaded, openPunches, timeEntries, employees, monthClosings, companySettings, recordAudit, removeOpenPunch, queueMutation]);
 
   const adminAddTimeEntry = useCallback((entry: Omit<TimeEntry, 'id' | 'employeeId'>, employeeId: number) => {
+    if (!requirePermission('editTime', employeeId) || rejectIfMonthClosed(employeeId, entry.start)) return;
     const employee = employees.find(e => e.id === employeeId);
-    if (employee) {
-        const finalEntry = applyAutomaticBreaks(entry, employee);
-        setTimeEntries(prev => [...prev, { ...finalEntry, id: Date.now(), employeeId: employeeId }]);
-    } else {
-        setTimeEntries(prev => [...prev, { ...entry, id: Date.now(), employeeId: employeeId }]);
+    const recordedEntry = recordManualPunches(entry, 'admin', loggedInUser?.id ?? null);
+    const finalEntry = employee ? applyAutomaticBreaks(recordedEntry, employee, companySettings) : recordedEntry;
+    const newEntry: TimeEntry = { ...finalEntry, id: Date.now(), employeeId: employeeId };
+    setTimeEntries(prev => [...prev, newEntry]);
+    queueMutation({ collection: 'timeEntries', action: 'create', entityId: newEntry.id, item: newEntry });
+    recordAudit({ entityType: 'timeEntry', entityId: newEntry.id, employeeId, action: 'create', before: null, after: newEntry });
+  }, [loggedInUser, employees, companySettings, requirePermission, rejectIfMonthClosed, recordAudit, queueMutation]);
+
+  const updateTimeEntry = useCallback((updatedEntry: TimeEntry, reason?: string, isEmployeeApp = false) => {
+    const existingEntry = timeEntries.find(e => e.id === updatedEntry.id);
+    const checkPermission = isEmployeeApp ? requireOwnOrPermission : requirePermission;
+    if (!checkPermission('editTime', updatedEntry.employeeId, ...(existingEntry ? [existingEntry.employeeId] : []))) return;
+    if ((existingEntry && rejectIfMonthClosed(existingEntry.employeeId, existingEntry.start)) ||
+        rejectIfMonthClosed(updatedEntry.employeeId, updatedEntry.start)) {
+        return;
     }
-  }, [employees]);
-
-  const updateTimeEntry = useCallback((updatedEntry: TimeEntry) => {
     const employee = employees.find(e => e.id === updatedEntry.employeeId);
-    if (employee) {
-        const finalEntry = applyAutomaticBreaks(updatedEntry, employee) as TimeEntry;
-        setTimeEntries(prev => prev.map(entry => entry.id === finalEntry.id ? finalEntry : entry));
-    } else {
-        setTimeEntries(prev => prev.map(entry => entry.id === updatedEntry.id ? updatedEntry : entry));
+    const correctedEntry = existingEntry
+        ? recordCorrectedPunches(existingEntry, updatedEntry, loggedInUser?.id === updatedEntry.employeeId ? 'manual' : 'admin', loggedInUser?.id ?? null)
+        : updatedEntry;
+    const finalEntry = applyGeofenceCheck(employee ? applyAutomaticBreaks(correctedEntry, employee, companySettings) : correctedEntry, customers);
+    setTimeEntries(prev => prev.map(entry => entry.id === finalEntry.id ? finalEntry : entry));
+    queueMutation({ collection: 'timeEntries', action: 'update', entityId: finalEntry.id, item: finalEntry, base: existingEntry });
+    recordAudit({ entityType: 'timeEntry', entityId: finalEntry.id, employeeId: finalEntry.employeeId, action: 'update', before: existingEntry || null, after: finalEntry, reason });
+  }, [loggedInUser, employees, customers, timeEntries, companySettings, requirePermission, requireOwnOrPermission, rejectIfMonthClosed, recordAudit, queueMutation]);
+
+  const deleteTimeEntry = useCallback((id: number, isEmployeeApp = false) => {
+    const existingEntry = timeEntries.find(e => e.id === id);
+    const checkPermission = isEmployeeApp ? requireOwnOrPermission : requirePermission;
+    if (!existingEntry || !checkPermission('editTime', existingEntry.employeeId) || rejectIfMonthClosed(existingEntry.employeeId, existingEntry.start)) return;
+    setTimeEntries(prev => prev.filter(entry => entry.id !== id));
+    queueMutation({ collection: 'timeEntries', action: 'remove', entityId: id, base: existingEntry });
+    recordAudit({ entityType: 'timeEntry', entityId: id, employeeId: existingEntry.employeeId, action: 'delete', before: existingEntry, after: null });
+  }, [timeEntries, requirePermission, requireOwnOrPermission, rejectIfMonthClosed, recordAudit, queueMutation]);
+
+  // Employee-facing variants of update/delete that enforce the edit lock for both the old and the new date.
+  const employeeUpdateTimeEntry = useCallback((updatedEntry: TimeEntry, reason?: string) => {
+    const existingEntry = timeEntries.find(e => e.id === updatedEntry.id);
+    if ((existingEntry && isEditBlocked(getEditLockStatus(existingEntry.start, companySettings))) ||
+        isEditBlocked(getEditLockStatus(updatedEntry.start, companySettings))) {
+        console.warn('Änderung abgelehnt: Der Tag ist für Änderungen gesperrt.');
+        return;
+    }
+    updateTimeEntry(updatedEntry, reason, true);
+  }, [timeEntries, companySettings, updateTimeEntry]);
+
+  const employeeDeleteTimeEntry = useCallback((id: number) => {
+    const existingEntry = timeEntries.find(e => e.id === id);
+    if (existingEntry && isEditBlocked(getEditLockStatus(existingEntry.start, companySettings))) {
+        console.warn('Löschen abgelehnt: Der Tag ist für Änderungen gesperrt.');
+        return;
     }
-  }, [employees]);
+    deleteTimeEntry(id, true);
+  }, [timeEntries, companySettings, deleteTimeEntry]);
+
+  // Blocking staffing rules and blackout periods apply to admins as well; warnings are shown in the forms only.
+  const rejectIfAbsenceBlocked = useCallback((request: AbsenceConflictCheck): boolean => {
+    const blocking = checkAbsenceConflicts(request, employees, absenceRequests, teams, holidaysByYear, companySettings).filter(c => c.severity === 'blocking');
+    if (blocking.length > 0) {
+        alert(formatAbsenceConflicts(blocking));
+    }
+    return blocking.length > 0;
+  }, [employees, absenceRequests, teams, holidaysByYear, companySettings]);
 
-  const deleteTimeEntry = useCallback((id: number) => {
-    setTimeEntries(prev => prev.filter(entry => entry.id !== id));
-  }, []);
+  // Tells the admin who still has to approve an absence they entered or rescheduled.
+  const notifyIfAbsenceAwaitsApproval = useCallback((request: AbsenceRequest) => {
+    if (request.status !== 'pending') return;
+    const approvalState = getAbsenceApprovalState(request, employees, absenceRequests, companySettings);
+    alert(`Die Abwesenheit wurde eingetragen und wartet noch auf die Genehmigung von ${describeAbsenceApprover(approvalState, employees)}.`);
+  }, [employees, absenceRequests, companySettings]);
 
+  // Absences entered in the admin area ('approved') still go through the approval chain as far as the user may not decide it.
   const addAbsenceRequest = useCallback((request: Omit<AbsenceRequest, 'id' | 'status'>, status: AbsenceRequest['status'] = 'pending') => {
-    setAbsenceRequests(prev => [...prev, { ...request, id: Date.now(), status }]);
+    // Employees submit their own requests; entering an absence directly needs the permission.
+    const checkPermission = status === 'pending' ? requireOwnOrPermission : requirePermission;
+    if (!loggedInUser || !checkPermission('editTime', request.employeeId) || rejectIfMonthClosed(request.employeeId, request.startDate, request.endDate)) return;
+    if (rejectIfAbsenceBlocked(request)) return;
+    const newRequest: AbsenceRequest = status === 'approved'
+        ? submitAbsenceAsApprover({ ...request, id: Date.now(), status: 'pending' }, loggedInUser, employees, absenceRequests, adminAccess, companySettings)
+        : { ...request, id: Date.now(), status, approvalHistory: status === 'pending' ? [createSubmittedEvent(request.employeeId)] : undefined };
+    if (status === 'approved') notifyIfAbsenceAwaitsApproval(newRequest);
+    setAbsenceRequests(prev => [...prev, newRequest]);
+    queueMutation({ collection: 'absenceRequests', action: 'create', entityId: newRequest.id, item: newRequest });
+    recordAudit({ entityType: 'absenceRequest', entityId: newRequest.id, employeeId: newRequest.employeeId, action: 'create', before: null, after: newRequest });
     setShowAbsenceSuccess(true);
-  }, []);
+  }, [loggedInUser, employees, absenceRequests, adminAccess, companySettings, requirePermission, requireOwnOrPermission, rejectIfMonthClosed, rejectIfAbsenceBlocked, notifyIfAbsenceAwaitsApproval, recordAudit, queueMutation]);
+
+  const rejectIfAbsenceInClosedMonth = useCallback((request: AbsenceRequest | undefined): boolean =>
+    !!request && rejectIfMonthClosed(request.employeeId, request.startDate, request.endDate),
+  [rejectIfMonthClosed]);
 
   const updateAbsenceRequest = useCallback((updatedRequest: AbsenceRequest) => {
-    setAbsenceRequests(prev => prev.map(req => req.id === updatedRequest.id ? updatedRequest : req));
-  }, []);
+    const existingRequest = absenceRequests.find(req => req.id === updatedRequest.id);
+    if (!existingRequest || !requirePermission('editTime', updatedRequest.employeeId, existingRequest.employeeId)) return;
+    // Decisions are only made through the approval chain in updateAbsenceRequestStatus.
+    if (updatedRequest.status !== existingRequest.status || JSON.stringify(updatedRequest.approvalHistory) !== JSON.stringify(existingRequest.approvalHistory)) {
+        alert('Der Status eines Antrags kann nur über die Genehmigung geändert werden.');
+        return;
+    }
+    if (rejectIfAbsenceInClosedMonth(existingRequest) || rejectIfAbsenceInClosedMonth(updatedRequest)) return;
+    const isRescheduled = !existingRequest || existingRequest.startDate !== updatedRequest.startDate || existingRequest.endDate !== updatedRequest.endDate || existingRequest.type !== updatedRequest.type;
+    if (isRescheduled && rejectIfAbsenceBlocked(updatedRequest)) return;
+    // The approval covered the old period; with a chain, the new one has to be approved again.
+    const needsApproval = isRescheduled && !!loggedInUser && updatedRequest.status === 'approved' && getAbsenceApprovalSteps(companySettings).length > 0;
+    const savedRequest = needsApproval ? submitAbsenceAsApprover(updatedRequest, loggedInUser, employees, absenceRequests, adminAccess, companySettings) : updatedRequest;
+    if (needsApproval) notifyIfAbsenceAwaitsApproval(savedRequest);
+    setAbsenceRequests(prev => prev.map(req => req.id === savedRequest.id ? savedRequest : req));
+    queueMutation({ collection: 'absenceRequests', action: 'update', entityId: savedRequest.id, item: savedRequest, base: existingRequest });
+    recordAudit({ entityType: 'absenceRequest', entityId: savedRequest.id, employeeId: savedRequest.employeeId, action: 'update', before: existingRequest || null, after: savedRequest });
+  }, [loggedInUser, employees, absenceRequests, adminAccess, companySettings, requirePermission, rejectIfAbsenceInClosedMonth, rejectIfAbsenceBlocked, notifyIfAbsenceAwaitsApproval, recordAudit, queueMutation]);
   
-  const retractAbsenceRequest = useCallback((id: number) => {
+  const removeAbsenceRequest = useCallback((id: number, isEmployeeApp = false) => {
+    const existingRequest = absenceRequests.find(req => req.id === id);
+    if (!existingRequest) return;
+    // Employees may retract their own requests as long as nobody has decided them.
+    const isOwnPendingRequest = isEmployeeApp && existingRequest.status === 'pending' && existingRequest.employeeId === loggedInUser?.id;
+    if ((!isOwnPendingRequest && !requirePermission('editTime', existingRequest.employeeId)) || rejectIfAbsenceInClosedMonth(existingRequest)) return;
     setAbsenceRequests(prev => prev.filter(req => req.id !== id));
-  }, []);
+    queueMutation({ collection: 'absenceRequests', action: 'remove', entityId: id, base: existingRequest });
+    recordAudit({ entityType: 'absenceRequest', entityId: id, employeeId: existingRequest.employeeId, action: 'delete', before: existingRequest, after: null });
+  }, [loggedInUser, absenceRequests, requirePermission, rejectIfAbsenceInClosedMonth, recordAudit, queueMutation]);
+
+  const retractAbsenceRequest = useCallback((id: number) => removeAbsenceRequest(id, true), [removeAbsenceRequest]);
 
+  // Decides the current step of the approval chain; the request keeps pending until the last step approves it.
   const updateAbsenceRequestStatus = useCallback((id: number, status: 'approved' | 'rejected', comment?: string) => {
-    setAbsenceRequests(prev => prev.map(req => req.id === id ? { ...req, status, adminComment: comment } : req));
-  }, []);
+    const existingRequest = absenceRequests.find(req => req.id === id);
+    if (!loggedInUser || !existingRequest || rejectIfAbsenceInClosedMonth(existingRequest)) return;
+    const approvalState = getAbsenceApprovalState(existingRequest, employees, absenceRequests, companySettings);
+    if (!canDecideAbsenceRequest(existingRequest, loggedInUser, approvalState, adminAccess)) {
+        alert(canAccess(adminAccess, 'approve')
+            ? `Dieser Antrag wartet auf die Entscheidung von ${describeAbsenceApprover(approvalState, employees)}.`
+            : 'Für diese Aktion fehlt Ihnen die Berechtigung.');
+        return;
+    }
+    if (status === 'approved' && rejectIfAbsenceBlocked(existingRequest)) return;
+    const updatedRequest = applyAbsenceDecision(existingRequest, status, loggedInUser, approvalState, comment);
+    setAbsenceRequests(prev => prev.map(req => req.id === id ? updatedRequest : req));
+    queueMutation({ collection: 'absenceRequests', action: updatedRequest.status === 'pending' ? 'update' : 'updateStatus', entityId: id, item: updatedRequest, base: existingRequest });
+    recordAudit({ entityType: 'absenceRequest', entityId: id, employeeId: existingRequest.employeeId, action: 'update', before: existingRequest, after: updatedRequest });
+  }, [loggedInUser, adminAccess, absenceRequests, employees, companySettings, rejectIfAbsenceInClosedMonth, rejectIfAbsenceBlocked, recordAudit, queueMutation]);
+
+  // Releases approval steps left pending too long to all admins. Like the auto-close of stopwatch
+  // sessions, this runs on every device; the history records it once per step. The change is queued as
+  // automatic, so a device that escalates on outdated data does not confront its user with a conflict.
+  useEffect(() => {
+    if (!isDataLoaded) return;
+    const escalateOverdueRequests = () => {
+        const now = new Date();
+        absenceRequests.filter(req => req.status === 'pending').forEach(request => {
+            const approvalState = getAbsenceApprovalState(request, employees, absenceRequests, companySettings, now);
+            if (!isAbsenceEscalationDue(request, approvalState, companySettings, now)) return;
+            const escalatedRequest = escalateAbsenceRequest(request, approvalState, getAbsenceEscalationTime(request, approvalState, companySettings)!);
+            setAbsenceRequests(prev => prev.map(req => req.id === request.id ? escalatedRequest : req));
+            queueMutation({ collection: 'absenceRequests', action: 'update', entityId: request.id, item: escalatedRequest, base: request, automatic: true });
+        });
+    };
+    escalateOverdueRequests();
+    const interval = window.setInterval(escalateOverdueRequests, 60 * 60_000);
+    return () => clearInterval(interval);
+  }, [isDataLoaded, absenceRequests, employees, companySettings, queueMutation]);
 
-  const deleteAbsenceRequest = useCallback((id: number) => {
-    setAbsenceRequests(prev => prev.filter(req => req.id !== id));
-  }, []);
+  const deleteAbsenceRequest = removeAbsenceRequest;
 
   const addTimeBalanceAdjustment = useCallback((adjustment: Omit<TimeBalanceAdjustment, 'id'>) => {
-    setTimeBalanceAdjustments(prev => [...prev, { ...adjustment, id: Date.now() }]);
-  }, []);
+    if (!requirePermission('editTime', adjustment.employeeId) || rejectIfMonthClosed(adjustment.employeeId, adjustment.date)) return;
+    const newAdjustment: TimeBalanceAdjustment = { ...adjustment, id: Date.now() };
+    setTimeBalanceAdjustments(prev => [...prev, newAdjustment]);
+    syncWithBackend(client => client.timeBalanceAdjustments.create(newAdjustment));
+    recordAudit({ entityType: 'timeBalanceAdjustment', entityId: newAdjustment.id, employeeId: newAdjustment.employeeId, action: 'create', before: null, after: newAdjustment });
+  }, [requirePermission, rejectIfMonthClosed, recordAudit]);
 
   const updateTimeBalanceAdjustment = useCallback((updatedAdjustment: TimeBalanceAdjustment) => {
+    const existingAdjustment = timeBalanceAdjustments.find(adj => adj.id === updatedAdjustment.id);
+    if (!requirePermission('editTime', updatedAdjustment.employeeId, ...(existingAdjustment ? [existingAdjustment.employeeId] : []))) return;
+    if ((existingAdjustment && rejectIfMonthClosed(existingAdjustment.employeeId, existingAdjustment.date)) ||
+        rejectIfMonthClosed(updatedAdjustment.employeeId, updatedAdjustment.date)) {
+        return;
+    }
     setTimeBalanceAdjustments(prev => prev.map(adj => adj.id === updatedAdjustment.id ? updatedAdjustment : adj));
-  }, []);
+    syncWithBackend(client => client.timeBalanceAdjustments.update(updatedAdjustment));
+    recordAudit({ entityType: 'timeBalanceAdjustment', entityId: updatedAdjustment.id, employeeId: updatedAdjustment.employeeId, action: 'update', before: existingAdjustment || null, after: updatedAdjustment });
+  }, [timeBalanceAdjustments, requirePermission, rejectIfMonthClosed, recordAudit]);
 
   const deleteTimeBalanceAdjustment = useCallback((id: number) => {
+    const existingAdjustment = timeBalanceAdjustments.find(adj => adj.id === id);
+    if (!existingAdjustment || !requirePermission('editTime', existingAdjustment.employeeId) || rejectIfMonthClosed(existingAdjustment.employeeId, existingAdjustment.date)) return;
     setTimeBalanceAdjustments(prev => prev.filter(adj => adj.id !== id));
-  }, []);
+    syncWithBackend(client => client.timeBalanceAdjustments.remove(id));
+    recordAudit({ entityType: 'timeBalanceAdjustment', entityId: id, employeeId: existingAdjustment.employeeId, action: 'delete', before: existingAdjustment, after: null });
+  }, [timeBalanceAdjustments, requirePermission, rejectIfMonthClosed, recordAudit]);
+
+  // Freezes the current breakdown of the month; later balance calculations continue from this snapshot.
+  const closeMonth = useCallback((employeeId: number, year: number, month: number) => {
+    const employee = employees.find(e => e.id === employeeId);
+    if (!employee || !loggedInUser || !requirePermission('editTime', employeeId)) return;
+    if (monthClosings.some(c => c.employeeId === employeeId && c.year === year && c.month === month && !c.reopenedAt)) return;
+    const snapshot = calculateMonthlyBreakdown(employee, year, month, timeEntries, absenceRequests, timeBalanceAdjustments, holidaysByYear, monthClosings);
+    const newClosing: MonthClosing = {
+        id: Date.now(),
+        employeeId,
+        year,
+        month,
+        snapshot,
+        closedAt: new Date().toISOString(),
+        closedBy: loggedInUser.id,
+    };
+    setMonthClosings(prev => [...prev, newClosing]);
+    syncWithBackend(client => client.monthClosings.create(newClosing));
+  }, [employees, loggedInUser, requirePermission, monthClosings, timeEntries, absenceRequests, timeBalanceAdjustments, holidaysByYear]);
+
+  // The closing record is kept as audit trail; closing the month again creates a new record.
+  const reopenMonth = useCallback((closingId: number, reason: string) => {
+    const closing = monthClosings.find(c => c.id === closingId);
+    if (!closing || closing.reopenedAt || !loggedInUser || !requirePermission('editTime', closing.employeeId)) return;
+    const laterClosings = findLaterMonthClosings(closing, monthClosings);
+    if (laterClosings.length > 0) {
+        const latest = laterClosings[laterClosings.length - 1];
+        alert(`Der Monat kann erst wieder geöffnet werden, wenn alle späteren Abschlüsse wieder geöffnet sind (zuletzt ${new Date(latest.year, latest.month).toLocaleString('de-DE', { month: 'long', year: 'numeric' })}).`);
+        return;
+    }
+    const reopenedClosing: MonthClosing = { ...closing, reopenedAt: new Date().toISOString(), reopenedBy: loggedInUser.id, reopenReason: reason };
+    setMonthClosings(prev => prev.map(c => c.id === closingId ? reopenedClosing : c));
+    syncWithBackend(client => client.monthClosings.update(reopenedClosing));
+  }, [monthClosings, loggedInUser, requirePermission]);
 
   const addShift = useCallback((shift: Omit<Shift, 'id'>) => {
-      setShifts(prev => [...prev, { ...shift, id: `shift-${Date.now()}` }]);
-  }, []);
+      if (!requirePermission('editTime', shift.employeeId)) return;
+      const newShift: Shift = { ...shift, id: `shift-${Date.now()}` };
+      setShifts(prev => [...prev, newShift]);
+      syncWithBackend(client => client.shifts.create(newShift));
+      recordAudit({ entityType: 'shift', entityId: newShift.id, employeeId: newShift.employeeId, action: 'create', before: null, after: newShift });
+  }, [requirePermission, recordAudit]);
 
   const updateShift = useCallback((updatedShift: Shift) => {
+      const existingShift = shifts.find(s => s.id === updatedShift.id);
+      if (!requirePermission('editTime', updatedShift.employeeId, ...(existingShift ? [existingShift.employeeId] : []))) return;
       setShifts(prev => prev.map(s => s.id === updatedShift.id ? updatedShift : s));
-  }, []);
+      syncWithBackend(client => client.shifts.update(updatedShift));
+      recordAudit({ entityType: 'shift', entityId: updatedShift.id, employeeId: updatedShift.employeeId, action: 'update', before: existingShift || null, after: updatedShift });
+  }, [shifts, requirePermission, recordAudit]);
 
   const deleteShift = useCallback((id: string) => {
+      const existingShift = shifts.find(s => s.id === id);
+      if (existingShift && !requirePermission('editTime', existingShift.employeeId)) return;
       setShifts(prev => prev.filter(s => s.id !== id));
-  }, []);
-
-  const addEmployee = useCallback((employee: Omit<Employee, 'id'>) => {
-    setEmployees(prev => [...prev, { ...employee, id: Date.now() }]);
-  }, []);
+      syncWithBackend(client => client.shifts.remove(id));
+      if (existingShift) {
+          recordAudit({ entityType: 'shift', entityId: id, employeeId: existingShift.employeeId, action: 'delete', before: existingShift, after: null });
+      }
+  }, [shifts, requirePermission, recordAudit]);
 
-  const updateEmployee = useCallback((updatedEmployee: Employee) => {
+  const sendInvitation = useCallback((employee: Employee) => {
+    sendPasswordLink(employee, 'invitation').then(isSent => {
+        if (!isSent) {
+            alert(`Die Einladung an ${employee.firstName} ${employee.lastName} konnte nicht versendet werden. Bitte prüfen Sie die E-Mail-Adresse oder vergeben Sie ein Passwort.`);
+        }
+    });
+  }, [sendPasswordLink]);
+
+  const addEmployee = useCallback((employee: Omit<Employee, 'id'>, password?: string, inviteByEmail = false, kioskPin?: string) => {
+    if (!requirePermission('manageSettings')) return;
+    const newEmployee: Employee = { ...employee, id: Date.now() };
+    setEmployees(prev => [...prev, newEmployee]);
+    syncWithBackend(client => client.employees.create(newEmployee));
+    recordAudit({ entityType: 'employeeContract', entityId: newEmployee.id, employeeId: newEmployee.id, action: 'create', before: null, after: { contractHistory: newEmployee.contractHistory } });
+    if (password) {
+        setEmployeePassword(newEmployee.id, password);
+    } else if (inviteByEmail) {
+        sendInvitation(newEmployee);
+    }
+    if (kioskPin) {
+        setEmployeeKioskPin(newEmployee.id, kioskPin);
+    }
+  }, [requirePermission, recordAudit, setEmployeePassword, setEmployeeKioskPin, sendInvitation]);
+
+  const updateEmployee = useCallback((updatedEmployee: Employee, password?: string, inviteByEmail = false, kioskPin?: string) => {
+    const existingEmployee = employees.find(emp => emp.id === updatedEmployee.id);
+    // Everyone edits their own profile and password; everything else needs the settings permission, also on the own record.
+    const isOwnProfileChange = !!existingEmployee && existingEmployee.id === loggedInUser?.id && !inviteByEmail && !kioskPin
+        && isSelfEditableEmployeeChange(existingEmployee, updatedEmployee);
+    if (!isOwnProfileChange && rejectWithoutEmployeeSettingsAccess(updatedEmployee.id)) return;
     setEmployees(prev => prev.map(emp => emp.id === updatedEmployee.id ? updatedEmployee : emp));
+    syncWithBackend(client => client.employees.update(updatedEmployee));
+    // Only contract data is audited; profile fields like name or dashboard type are not.
+    if (existingEmployee && JSON.stringify(existingEmployee.contractHistory) !== JSON.stringify(updatedEmployee.contractHistory)) {
+        recordAudit({ entityType: 'employeeContract', entityId: updatedEmployee.id, employeeId: updatedEmployee.id, action: 'update', before: { contractHistory: existingEmployee.contractHistory }, after: { contractHistory: updatedEmployee.contractHistory } });
+    }
+    if (password) {
+        setEmployeePassword(updatedEmployee.id, password);
+    } else if (inviteByEmail) {
+        sendInvitation(updatedEmployee);
+    }
+    if (kioskPin) {
+        setEmployeeKioskPin(updatedEmployee.id, kioskPin);
+    }
     if (loggedInUser && loggedInUser.id === updatedEmployee.id) {
         setLoggedInUser(updatedEmployee);
     }
-  }, [loggedInUser]);
+  }, [employees, loggedInUser, rejectWithoutEmployeeSettingsAccess, recordAudit, setEmployeePassword, setEmployeeKioskPin, sendInvitation]);
 
   const deleteEmployee = useCallback((id: number) => {
+    if (rejectWithoutEmployeeSettingsAccess(id)) return;
+    const existingEmployee = employees.find(emp => emp.id === id);
     setEmployees(prev => prev.filter(emp => emp.id !== id));
-  }, []);
+    syncWithBackend(client => client.employees.remove(id));
+    if (credentials.some(c => c.id === id)) {
+        setCredentials(prev => prev.filter(c => c.id !== id));
+        syncWithBackend(client => client.credentials.remove(id));
+    }
+    if (kioskPins.some(p => p.id === id)) {
+        setKioskPins(prev => prev.filter(p => p.id !== id));
+        syncWithBackend(client => client.kioskPins.remove(id));
+    }
+    if (existingEmployee) {
+        recordAudit({ entityType: 'employeeContract', entityId: id, employeeId: id, action: 'delete', before: { contractHistory: existingEmployee.contractHistory }, after: null });
+    }
+  }, [employees, credentials, kioskPins, rejectWithoutEmployeeSettingsAccess, recordAudit]);
 
   const addCustomer = useCallback((customer: Omit<Customer, 'id'>) => {
-    setCustomers(prev => [...prev, { ...customer, id: `c${Date.now()}` }]);
-  }, []);
+    if (!requirePermission('manageSettings')) return;
+    const newCustomer: Customer = { ...customer, id: `c${Date.now()}` };
+    setCustomers(prev => [...prev, newCustomer]);
+    syncWithBackend(client => client.customers.create(newCustomer));
+  }, [requirePermission]);
   
   const updateCustomer = useCallback((updatedCustomer: Customer) => {
+    if (!requirePermission('manageSettings')) return;
     setCustomers(prev => prev.map(c => c.id === updatedCustomer.id ? updatedCustomer : c));
-  }, []);
+    syncWithBackend(client => client.customers.update(updatedCustomer));
+  }, [requirePermission]);
 
   const deleteCustomer = useCallback((id: string) => {
+    if (!requirePermission('manageSettings')) return;
     setCustomers(prev => prev.filter(c => c.id !== id));
-  }, []);
+    syncWithBackend(client => client.customers.remove(id));
+  }, [requirePermission]);
+
+  // The tag record is created by the admin once the payload has been written to the tag.
+  const registerNfcTag = useCallback((tag: NfcTag) => {
+    if (!requirePermission('manageSettings')) return;
+    setNfcTags(prev => [...prev, tag]);
+    syncWithBackend(client => client.nfcTags.create(tag));
+  }, [requirePermission]);
+
+  const updateNfcTag = useCallback((updatedTag: NfcTag) => {
+    if (!requirePermission('manageSettings')) return;
+    setNfcTags(prev => prev.map(t => t.id === updatedTag.id ? updatedTag : t));
+    syncWithBackend(client => client.nfcTags.update(updatedTag));
+  }, [requirePermission]);
+
+  const revokeNfcTag = useCallback((id: number, reason?: string) => {
+    const tag = nfcTags.find(t => t.id === id);
+    if (!tag || tag.revokedAt || !requirePermission('manageSettings')) return;
+    const revokedTag: NfcTag = { ...tag, revokedAt: new Date().toISOString(), revokedReason: reason || undefined };
+    setNfcTags(prev => prev.map(t => t.id === id ? revokedTag : t));
+    syncWithBackend(client => client.nfcTags.update(revokedTag));
+  }, [nfcTags, requirePermission]);
 
   const addActivity = useCallback((activity: Omit<Activity, 'id'>) => {
-    setActivities(prev => [...prev, { ...activity, id: `a${Date.now()}` }]);
-  }, []);
+    if (!requirePermission('manageSettings')) return;
+    const newActivity: Activity = { ...activity, id: `a${Date.now()}` };
+    setActivities(prev => [...prev, newActivity]);
+    syncWithBackend(client => client.activities.create(newActivity));
+  }, [requirePermission]);
 
   const updateActivity = useCallback((updatedActivity: Activity) => {
+    if (!requirePermission('manageSettings')) return;
     setActivities(prev => prev.map(a => a.id === updatedActivity.id ? updatedActivity : a));
-  }, []);
+    syncWithBackend(client => client.activities.update(updatedActivity));
+  }, [requirePermission]);
 
   const deleteActivity = useCallback((id: string) => {
+    if (!requirePermission('manageSettings')) return;
     setActivities(prev => prev.filter(a => a.id !== id));
-  }, []);
+    syncWithBackend(client => client.activities.remove(id));
+  }, [requirePermission]);
+
+  const updateCompanySettings = useCallback((settings: CompanySettings) => {
+    if (!requirePermission('manageSettings')) return;
+    setCompanySettings(settings);
+    syncWithBackend(client => client.companySettings.update(settings));
+  }, [requirePermission]);
+
+  const changeSelectedState = useCallback((state: string) => {
+    if (requirePermission('manageSettings')) setSelectedState(state as GermanState);
+  }, [requirePermission]);
+
+  const changeTimeTrackingMethod = useCallback((method: 'all' | 'manual') => {
+    if (requirePermission('manageSettings')) setTimeTrackingMethod(method);
+  }, [requirePermission]);
+
+  const addTeam = useCallback((team: Omit<Team, 'id'>) => {
+    if (!requirePermission('manageSettings')) return;
+    const newTeam: Team = { ...team, id: Date.now() };
+    setTeams(prev => [...prev, newTeam]);
+    syncWithBackend(client => client.teams.create(newTeam));
+  }, [requirePermission]);
+
+  const updateTeam = useCallback((updatedTeam: Team) => {
+    if (!requirePermission('manageSettings')) return;
+    setTeams(prev => prev.map(t => t.id === updatedTeam.id ? updatedTeam : t));
+    syncWithBackend(client => client.teams.update(updatedTeam));
+  }, [requirePermission]);
+
+  // The members stay employees, just without a team.
+  const deleteTeam = useCallback((id: number) => {
+    if (!requirePermission('manageSettings')) return;
+    setTeams(prev => prev.filter(t => t.id !== id));
+    syncWithBackend(client => client.teams.remove(id));
+    employees.filter(e => e.teamId === id).forEach(member => {
+        const { teamId, ...updatedMember } = member;
+        setEmployees(prev => prev.map(e => e.id === member.id ? updatedMember : e));
+        syncWithBackend(client => client.employees.update(updatedMember));
+    });
+  }, [employees, requirePermission]);
   
-  useEffect(() => {
-      // ... (Carryover logic remains same)
-      const calculateAndSetCarryoverForAll = () => {
-          const currentYear = MOCK_CURRENT_YEAR;
-          const previousYear = currentYear - 1;
-          const holidaysForPreviousYear = holidaysByYear[previousYear] || [];
-          if (holidaysForPreviousYear.length === 0) return;
-
-          const updatedEmployeesMap = new Map<number, Employee>();
-
-          for (const employee of employees) {
-              if (employee.vacationCarryover?.[previousYear] !== undefined) continue;
-              const firstWorkYear = new Date(employee.firstWorkDay).getFullYear();
-              if (firstWorkYear > previousYear) continue;
-              
-              const dateInPreviousYear = new Date(previousYear, 11, 31);
-              const contractDetailsForPreviousYear = getContractDetailsForDate(employee, dateInPreviousYear);
-              
-              const vacationTakenPreviousYear = calculateAnnualVacationTaken(employee.id, absenceRequests, previousYear, holidaysForPreviousYear);
-              const remainingVacation = contractDetailsForPreviousYear.vacationDays - vacationTakenPreviousYear;
-
-              if (remainingVacation >= 0) {
-                  updatedEmployeesMap.set(employee.id, {
-                      ...employee,
-                      vacationCarryover: { ...employee.vacationCarryover, [previousYear]: remainingVacation },
-                      lastModified: new Date().toISOString()
-                  });
-              }
-          }
-
-          if (updatedEmployeesMap.size > 0) {
-              setEmployees(prev => prev.map(emp => updatedEmployeesMap.get(emp.id) || emp));
-          }
-      };
-
-      if (employees.length > 0 && holidaysByYear[MOCK_CURRENT_YEAR - 1]) {
-          calculateAndSetCarryoverForAll();
-      }
-  }, [employees, absenceRequests, holidaysByYear]);
-
   const vacationInfo = useMemo(() => {
-    // ... (Vacation info logic remains same)
-    if (!currentUser) return { vacationDaysLeft: 0, annualEntitlement: 0, carryover: 0 };
-    
-    const currentYear = MOCK_CURRENT_YEAR;
-    const previousYear = currentYear - 1;
-    const holidaysForCurrentYear = holidaysByYear[currentYear] || [];
-    
-    const dateInCurrentYear = new Date(currentYear, 6, 1); 
-    const contract = getContractDetailsForDate(currentUser, dateInCurrentYear);
-    const annualEntitlement = contract.vacationDays;
-    
-    const carryover = currentUser.vacationCarryover?.[previousYear] || 0;
-    
-    const totalAvailableDays = annualEntitlement + carryover;
-    const vacationTakenThisYear = calculateAnnualVacationTaken(currentUser.id, absenceRequests, currentYear, holidaysForCurrentYear);
-
-    const vacationDaysLeft = totalAvailableDays - vacationTakenThisYear;
-
-    return { vacationDaysLeft, annualEntitlement, carryover };
-  }, [currentUser, absenceRequests, holidaysByYear]);
+    if (!currentUser) return { vacationDaysLeft: 0, annualEntitlement: 0, carryover: 0, carryoverExpiring: 0 };
+    const statement = getVacationStatement(currentUser, MOCK_CURRENT_YEAR, absenceRequests, holidaysByYear, companySettings);
+    return {
+        vacationDaysLeft: statement.remaining,
+        annualEntitlement: statement.entitlement,
+        carryover: statement.carryover,
+        carryoverExpiring: statement.expiring,
+        carryoverExpiresOn: statement.carryoverExpiresOn,
+    };
+  }, [currentUser, absenceRequests, holidaysByYear, companySettings]);
 
   const timeBalanceHours = useMemo(() => {
     if (!currentUser) return 0;
@@ -681,9 +1499,10 @@ const App: React.FC = () => {
       timeEntries, 
       absenceRequests,
       timeBalanceAdjustments,
-      holidaysByYear
+      holidaysByYear,
+      monthClosings
     );
-  }, [currentUser, timeEntries, absenceRequests, timeBalanceAdjustments, holidaysByYear]);
+  }, [currentUser, timeEntries, absenceRequests, timeBalanceAdjustments, holidaysByYear, monthClosings]);
 
 
   const currentMonthWorkedHours = useMemo(() => {
@@ -700,15 +1519,17 @@ const App: React.FC = () => {
         timeEntries,
         absenceRequests,
         timeBalanceAdjustments,
-        holidaysByYear
+        holidaysByYear,
+        monthClosings
     );
 
     return breakdown.totalCredited;
-  }, [currentUser, timeEntries, absenceRequests, timeBalanceAdjustments, holidaysByYear]);
+  }, [currentUser, timeEntries, absenceRequests, timeBalanceAdjustments, holidaysByYear, monthClosings]);
 
   const renderEmployeeView = () => {
     if (!currentUser) return null;
     const userTimeEntries = timeEntries.filter(entry => entry.employeeId === currentUser.id);
+    const userMonthClosings = monthClosings.filter(c => c.employeeId === currentUser.id);
     const holidaysForCurrentYear = holidaysByYear[MOCK_CURRENT_YEAR] || [];
     
     // Check if user is late for a shift
@@ -726,20 +1547,23 @@ const App: React.FC = () => {
             vacationDaysLeft: vacationInfo.vacationDaysLeft,
             vacationAnnualEntitlement: vacationInfo.annualEntitlement,
             vacationCarryover: vacationInfo.carryover,
+            vacationCarryoverExpiring: vacationInfo.carryoverExpiring,
+            vacationCarryoverExpiresOn: vacationInfo.carryoverExpiresOn,
         },
         currentMonthWorkedHours: currentMonthWorkedHours,
         timeTrackingMethod: timeTrackingMethod,
         dashboardType: currentUser.dashboardType || 'standard',
         absenceRequests: absenceRequests,
         holidays: holidaysForCurrentYear,
+        holidaysByYear: holidaysByYear,
+        onEnsureHolidaysForYear: ensureHolidaysForYear,
         selectedState: selectedState,
         companySettings: companySettings,
-        mockCurrentYear: MOCK_CURRENT_YEAR,
         // Shifts data
         shifts: shiftsForUser,
         // Stopwatch props
         isRunning: isRunning,
-        startTime: startTime,
+        openPunch: activeOpenPunch,
         stopTime: stopTime,
         elapsedTime: elapsedTime,
         stopwatchCustomerId: stopwatchCustomerId,
@@ -747,13 +1571,15 @@ const App: React.FC = () => {
         stopwatchComment: stopwatchComment,
         isBreakModalOpen: isBreakModalOpen,
         setIsBreakModalOpen: setIsBreakModalOpen,
-        setIsRunning: setIsRunning,
-        setStartTime: setStartTime,
         setStopTime: setStopTime,
-        setElapsedTime: setElapsedTime,
         setStopwatchCustomerId: setStopwatchCustomerId,
         setStopwatchActivityId: setStopwatchActivityId,
         setStopwatchComment: setStopwatchComment,
+        onStartPunch: startOpenPunch,
+        onTogglePause: toggleOpenPunchPause,
+        onFinishPunch: finishOpenPunch,
+        onSwitchPunch: switchOpenPunch,
+        onScanQrCode: (text: string) => handleTagScan(text, 'qr'),
     };
     
     switch (currentView) {
@@ -764,20 +1590,24 @@ const App: React.FC = () => {
                   currentUser={currentUser}
                   timeEntries={userTimeEntries} 
                   absenceRequests={absenceRequests.filter(r => r.employeeId === currentUser.id)}
+                  employees={employees}
                   customers={customers}
                   activities={activities}
-                  onUpdateTimeEntry={updateTimeEntry}
-                  onDeleteTimeEntry={deleteTimeEntry}
+                  onUpdateTimeEntry={employeeUpdateTimeEntry}
+                  onDeleteTimeEntry={employeeDeleteTimeEntry}
                   holidaysByYear={holidaysByYear}
                   companySettings={companySettings}
                   onEnsureHolidaysForYear={ensureHolidaysForYear}
                   onAddAbsenceClick={() => setIsAbsenceRequestModalOpen(true)}
+                  monthClosings={userMonthClosings}
+                  auditLog={auditLog.filter(a => a.employeeId === currentUser.id)}
                 />;
        case View.Overview:
         return <OverviewView 
                   currentUser={currentUser}
                   timeEntries={userTimeEntries}
                   timeBalanceAdjustments={timeBalanceAdjustments.filter(adj => adj.employeeId === currentUser.id)}
+                  monthClosings={userMonthClosings}
                   absenceRequests={absenceRequests.filter(r => r.employeeId === currentUser.id)}
                   customers={customers}
                   activities={activities}
@@ -793,17 +1623,60 @@ const App: React.FC = () => {
     }
   };
 
+  const scanToastElement = scanToast && (
+    <div className={`fixed bottom-20 sm:bottom-4 left-1/2 -translate-x-1/2 w-full max-w-md sm:w-auto p-4 rounded-lg flex items-center gap-3 shadow-lg z-50 animate-toast-in ${scanToast.isError ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}`}>
+    {scanToast.isError
+        ? <ExclamationTriangleIcon className="h-6 w-6 text-red-500 flex-shrink-0" />
+        : <CheckCircleIcon className="h-6 w-6 text-blue-500 flex-shrink-0" />}
+    <div>
+        <p className="font-semibold">{scanToast.isError ? 'Scan abgelehnt' : 'Scan erfolgreich'}</p>
+        <p className="text-sm">{scanToast.message}</p>
+    </div>
+    </div>
+  );
+
   // ... (App Layout return remains largely same, just updating AdminView props)
   return (
     <div className="fixed inset-0 w-full h-full flex flex-row overflow-hidden bg-gray-50">
         <div className="flex-1 flex flex-col relative h-full w-full min-w-0">
-            {!loggedInUser ? (
+            {!isDataLoaded ? (
+                <div className="h-[100dvh] w-full flex items-center justify-center bg-gray-100">
+                    <p className="text-gray-500">Daten werden geladen…</p>
+                </div>
+            ) : isKioskMode ? (
+                <>
+                    <KioskScreen
+                        employees={employees}
+                        customers={customers}
+                        activities={activities}
+                        timeEntries={timeEntries}
+                        companySettings={companySettings}
+                        currentEmployee={loggedInUser}
+                        openPunch={activeOpenPunch}
+                        elapsedTime={elapsedTime}
+                        onPinLogin={handleKioskPinLogin}
+                        onStart={startKioskPunch}
+                        onStop={stopKioskPunch}
+                        onLogout={handleLogout}
+                        onExit={exitKioskMode}
+                    />
+                    {scanToastElement}
+                </>
+            ) : !loggedInUser ? (
                 // ... (Login/Reg screens)
                 <div className="h-[100dvh] w-full overflow-y-auto bg-gray-100">
-                    {authView === 'login' && employees.some(e => e.role === 'admin') ? (
-                        <LoginScreen onLogin={handleLogin} onSwitchToRegister={() => setAuthView('register')} employees={employees} />
+                    {passwordLinkToken ? (
+                        <SetPasswordScreen
+                            isChecking={!passwordLinkTokenHash}
+                            tokenRecord={passwordLinkRecord}
+                            username={employees.find(e => e.id === passwordLinkRecord?.employeeId)?.username}
+                            onSubmit={handleSetPasswordFromLink}
+                            onCancel={leavePasswordLink}
+                        />
+                    ) : authView === 'login' && employees.some(e => e.role === 'admin') ? (
+                        <LoginScreen onLogin={handleLogin} onSwitchToRegister={() => setAuthView('register')} onRequestPasswordReset={handleRequestPasswordReset} employees={employees} notice={loginNotice} />
                     ) : (
-                        <RegistrationScreen onRegister={handleRegister} onSwitchToLogin={() => setAuthView('login')} />
+                        <RegistrationScreen onRegister={handleRegister} onSwitchToLogin={() => setAuthView('login')} onLoadDemoData={handleLoadDemoData} />
                     )}
                 </div>
             ) : (
@@ -826,6 +1699,7 @@ const App: React.FC = () => {
                                 >
                                 <UserCircleIcon className="h-5 w-5" />
                                 </button>
+                                {canAccess(adminAccess, 'manageSettings') && (
                                 <button
                                 onClick={() => setAdminActiveView(AdminViewType.Settings)}
                                 className="md:hidden flex items-center gap-2 p-2 rounded-lg transition-colors text-sm font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200"
@@ -833,6 +1707,7 @@ const App: React.FC = () => {
                                 >
                                 <CogIcon className="h-5 w-5" />
                                 </button>
+                                )}
                             </>
                             )}
                             {isUserAdmin && (
@@ -851,6 +1726,14 @@ const App: React.FC = () => {
                             </button>
                         </div>
                         </div>
+                        {apiClient && (
+                            <SyncStatusBar
+                                isOnline={isOnline}
+                                pendingCount={pendingMutations.length}
+                                hasConflict={!!syncConflict}
+                                onShowConflict={() => setIsSyncConflictModalOpen(true)}
+                            />
+                        )}
                     </header>
 
                     {/* Main Scrollable Area */}
@@ -876,27 +1759,43 @@ const App: React.FC = () => {
                             onAddEmployee={addEmployee}
                             onUpdateEmployee={updateEmployee}
                             onDeleteEmployee={deleteEmployee}
+                            kioskPins={kioskPins}
+                            onStartKioskMode={startKioskMode}
+                            adminAccess={adminAccess}
+                            teams={teams}
+                            onAddTeam={addTeam}
+                            onUpdateTeam={updateTeam}
+                            onDeleteTeam={deleteTeam}
                             customers={customers}
                             onAddCustomer={addCustomer}
                             onUpdateCustomer={updateCustomer}
                             onDeleteCustomer={deleteCustomer}
+                            nfcTags={nfcTags}
+                            onRegisterNfcTag={registerNfcTag}
+                            onUpdateNfcTag={updateNfcTag}
+                            onRevokeNfcTag={revokeNfcTag}
                             activities={activities}
                             onAddActivity={addActivity}
                             onUpdateActivity={updateActivity}
                             onDeleteActivity={deleteActivity}
                             selectedState={selectedState}
-                            onStateChange={(state) => setSelectedState(state as GermanState)}
+                            onStateChange={changeSelectedState}
                             timeTrackingMethod={timeTrackingMethod}
-                            onTimeTrackingMethodChange={(method) => setTimeTrackingMethod(method)}
+                            onTimeTrackingMethodChange={changeTimeTrackingMethod}
                             holidaysByYear={holidaysByYear}
                             onEnsureHolidaysForYear={ensureHolidaysForYear}
                             addAbsenceRequest={addAbsenceRequest}
                             companySettings={companySettings}
-                            onUpdateCompanySettings={setCompanySettings}
+                            onUpdateCompanySettings={updateCompanySettings}
                             timeBalanceAdjustments={timeBalanceAdjustments}
                             addTimeBalanceAdjustment={addTimeBalanceAdjustment}
                             onUpdateTimeBalanceAdjustment={updateTimeBalanceAdjustment}
                             onDeleteTimeBalanceAdjustment={deleteTimeBalanceAdjustment}
+                            monthClosings={monthClosings}
+                            onCloseMonth={closeMonth}
+                            onReopenMonth={reopenMonth}
+                            auditLog={auditLog}
+                            openPunches={openPunches}
                             // Shifts
                             shifts={shifts}
                             addShift={addShift}
@@ -939,11 +1838,13 @@ const App: React.FC = () => {
                             onSubmit={addAbsenceRequest}
                             currentUser={currentUser}
                             existingAbsences={absenceRequests.filter(r => r.employeeId === currentUser.id)}
+                            employees={employees}
+                            allAbsenceRequests={absenceRequests}
+                            teams={teams}
                             timeEntries={timeEntries.filter(entry => entry.employeeId === currentUser.id)}
                             companySettings={companySettings}
                             holidaysByYear={holidaysByYear}
                             onEnsureHolidaysForYear={ensureHolidaysForYear}
-                            vacationDaysLeft={vacationInfo.vacationDaysLeft}
                             timeBalanceHours={timeBalanceHours}
                         />
                     )}
@@ -958,6 +1859,21 @@ const App: React.FC = () => {
                             activities={activities}
                             companySettings={companySettings}
                             absenceRequests={absenceRequests.filter(r => r.employeeId === currentUser.id)}
+                            monthClosings={monthClosings.filter(c => c.employeeId === currentUser.id)}
+                            holidaysByYear={holidaysByYear}
+                            onEnsureHolidaysForYear={ensureHolidaysForYear}
+                            employee={currentUser}
+                        />
+                    )}
+                    {isSyncConflictModalOpen && syncConflict && (
+                        <SyncConflictModal
+                            mutation={syncConflict}
+                            onClose={() => setIsSyncConflictModalOpen(false)}
+                            onKeepLocal={() => resolveSyncConflict(true)}
+                            onTakeServer={() => resolveSyncConflict(false)}
+                            customers={customers}
+                            activities={activities}
+                            employees={employees}
                         />
                     )}
                     {/* Toasts */}
@@ -979,15 +1895,7 @@ const App: React.FC = () => {
                         </div>
                         </div>
                     )}
-                    {showNfcSuccess && (
-                        <div className="fixed bottom-20 sm:bottom-4 left-1/2 -translate-x-1/2 w-full max-w-md sm:w-auto p-4 bg-blue-100 text-blue-800 rounded-lg flex items-center gap-3 shadow-lg z-50 animate-toast-in">
-                        <CheckCircleIcon className="h-6 w-6 text-blue-500 flex-shrink-0" />
-                        <div>
-                            <p className="font-semibold">NFC-Scan erfolgreich</p>
-                            <p className="text-sm">{nfcSuccessMessage}</p>
-                        </div>
-                        </div>
-                    )}
+                    {scanToastElement}
                 </>
             )}
         </div>
@@ -0,0 +1,24 @@
+// Types for the libraries that are loaded from esm.sh on first use.
+
+declare module 'https://esm.sh/jsqr@1.4.0' {
+    interface QRCode {
+        data: string;
+    }
+    interface Options {
+        inversionAttempts?: 'dontInvert' | 'onlyInvert' | 'attemptBoth' | 'invertFirst';
+    }
+    const jsQR: (data: Uint8ClampedArray, width: number, height: number, options?: Options) => QRCode | null;
+    export default jsQR;
+}
+
+declare module 'https://esm.sh/qrcode@1.5.4' {
+    interface ToDataURLOptions {
+        errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
+        margin?: number;
+        width?: number;
+    }
+    const QRCode: {
+        toDataURL: (text: string, options?: ToDataURLOptions) => Promise<string>;
+    };
+    export default QRCode;
+}
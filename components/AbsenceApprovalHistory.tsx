@@ -0,0 +1,47 @@
+import React from 'react';
+import type { AbsenceRequest, Employee } from '../types';
+import { describeAbsenceApprovalEvent } from './absenceApproval';
+
+interface AbsenceApprovalHistoryProps {
+  request: AbsenceRequest;
+  employees: Employee[];
+  pendingText?: string; // current step of a pending request, e.g. "Stufe 2 von 2: Personalabteilung"
+}
+
+const EVENT_DOT_CLASSES = {
+  submitted: 'bg-gray-400',
+  approved: 'bg-green-500',
+  rejected: 'bg-red-500',
+  escalated: 'bg-yellow-500',
+};
+
+const formatEventTime = (iso: string) => new Date(iso).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Processing history of an absence request, oldest step first.
+ */
+export const AbsenceApprovalHistory: React.FC<AbsenceApprovalHistoryProps> = ({ request, employees, pendingText }) => {
+  const history = request.approvalHistory || [];
+  if (history.length === 0 && !pendingText) return null;
+
+  return (
+    <ol className="mt-2 pt-2 border-t border-gray-200 space-y-1 text-sm">
+      {history.map((event, index) => (
+        <li key={index} className="flex items-start gap-2">
+          <span className={`mt-1.5 h-2 w-2 rounded-full flex-shrink-0 ${EVENT_DOT_CLASSES[event.action]}`} />
+          <div>
+            <span className="text-gray-700">{describeAbsenceApprovalEvent(event, employees)}</span>
+            <span className="text-gray-400"> · {formatEventTime(event.at)}</span>
+            {event.comment && <p className="text-gray-600 italic">"{event.comment}"</p>}
+          </div>
+        </li>
+      ))}
+      {request.status === 'pending' && pendingText && (
+        <li className="flex items-start gap-2">
+          <span className="mt-1.5 h-2 w-2 rounded-full flex-shrink-0 border border-yellow-500" />
+          <span className="text-yellow-800">{pendingText}</span>
+        </li>
+      )}
+    </ol>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import type { AbsenceConflict } from './absenceConflicts';
+import { hasBlockingConflict } from './absenceConflicts';
+import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
+
+interface AbsenceConflictListProps {
+  conflicts: AbsenceConflict[];
+}
+
+/**
+ * Staffing and blackout conflicts of an absence request, shown before it is submitted or approved.
+ */
+export const AbsenceConflictList: React.FC<AbsenceConflictListProps> = ({ conflicts }) => {
+  if (conflicts.length === 0) return null;
+  const isBlocked = hasBlockingConflict(conflicts);
+
+  return (
+    <div className={`p-3 rounded-md border text-sm ${isBlocked ? 'bg-red-50 border-red-200 text-red-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}>
+      <div className="flex items-center gap-2 font-semibold mb-1">
+        <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+        {isBlocked ? 'Dieser Zeitraum ist gesperrt' : 'Bitte beachten'}
+      </div>
+      <ul className="list-disc pl-5 space-y-1">
+        {conflicts.map((conflict, index) => (
+          <li key={index} className={conflict.severity === 'blocking' ? 'font-medium' : ''}>{conflict.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import ReactDOM from 'react-dom';
-import type { AbsenceRequest, Employee, TimeEntry, CompanySettings, HolidaysByYear, Holiday, WeeklySchedule } from '../types';
-import { AbsenceType, TargetHoursModel } from '../types';
+import type { AbsenceRequest, Employee, TimeEntry, CompanySettings, HolidaysByYear, Holiday, Team } from '../types';
+import { AbsenceType } from '../types';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
+import { HoursMinutesInput } from './ui/HoursMinutesInput';
 import { Card } from './ui/Card';
 import { CalendarModal } from './ui/CalendarModal';
 import { DateSelectorButton } from './ui/DateSelectorButton';
@@ -14,7 +15,10 @@ import { VacationSunIcon } from './icons/VacationSunIcon';
 import { SickFaceIcon } from './icons/SickFaceIcon';
 import { ClockIcon } from './icons/ClockIcon';
 import { InformationCircleIcon } from './icons/InformationCircleIcon';
-import { getContractDetailsForDate, formatHoursAndMinutes } from './utils';
+import { formatHoursAndMinutes, calculateTimeOffHours, getDailyTargetHours, getTimeRangeHours } from './utils';
+import { getVacationStatement, countVacationDays, formatVacationDays } from './vacationLedger';
+import { checkAbsenceConflicts, hasBlockingConflict, formatAbsenceConflicts } from './absenceConflicts';
+import { AbsenceConflictList } from './AbsenceConflictList';
 
 
 interface AbsenceRequestModalProps {
@@ -23,11 +27,13 @@ interface AbsenceRequestModalProps {
   isOpen: boolean;
   onClose: () => void;
   existingAbsences: AbsenceRequest[];
+  employees: Employee[];
+  allAbsenceRequests: AbsenceRequest[]; // of all employees, for the staffing rules
+  teams: Team[];
   timeEntries: TimeEntry[];
   companySettings: CompanySettings;
   holidaysByYear: HolidaysByYear;
   onEnsureHolidaysForYear: (year: number) => void;
-  vacationDaysLeft: number;
   timeBalanceHours: number;
 }
 
@@ -40,7 +46,7 @@ const formatDate = (dateString: string) => {
     });
 };
 
-export const AbsenceRequestModal: React.FC<AbsenceRequestModalProps> = ({ currentUser, onSubmit, isOpen, onClose, existingAbsences, timeEntries, companySettings, holidaysByYear, onEnsureHolidaysForYear, vacationDaysLeft, timeBalanceHours }) => {
+export const AbsenceRequestModal: React.FC<AbsenceRequestModalProps> = ({ currentUser, onSubmit, isOpen, onClose, existingAbsences, employees, allAbsenceRequests, teams, timeEntries, companySettings, holidaysByYear, onEnsureHolidaysForYear, timeBalanceHours }) => {
   const [type, setType] = useState<AbsenceType>(AbsenceType.Vacation);
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
@@ -49,7 +55,10 @@ export const AbsenceRequestModal: React.FC<AbsenceRequestModalProps> = ({ curren
   const [isRangePickerOpen, setIsRangePickerOpen] = useState(false);
   const [infoModal, setInfoModal] = useState({ isOpen: false, title: '', message: '' });
   const [isClosing, setIsClosing] = useState(false);
-  const [timeOffHours, setTimeOffHours] = useState<number | null>(null);
+  const [timeOffPortion, setTimeOffPortion] = useState<'full' | 'hours' | 'range'>('full');
+  const [timeOffAmount, setTimeOffAmount] = useState<number | undefined>();
+  const [timeOffStart, setTimeOffStart] = useState('');
+  const [timeOffEnd, setTimeOffEnd] = useState('');
   
   // Reset form on open
   useEffect(() => {
@@ -58,63 +67,75 @@ export const AbsenceRequestModal: React.FC<AbsenceRequestModalProps> = ({ curren
         setStartDate('');
         setEndDate('');
         setDayPortion('full');
+        setTimeOffPortion('full');
+        setTimeOffAmount(undefined);
+        setTimeOffStart('');
+        setTimeOffEnd('');
         setPhoto(undefined);
     }
   }, [isOpen]);
 
+  // Half-day vacation and hourly time off cover a single day.
+  const isSingleDay = (type === AbsenceType.Vacation && dayPortion !== 'full') || (type === AbsenceType.TimeOff && timeOffPortion !== 'full');
+
   useEffect(() => {
-    if (dayPortion !== 'full' && startDate) {
+    if (isSingleDay && startDate) {
       setEndDate(startDate);
     }
-  }, [dayPortion, startDate]);
+  }, [isSingleDay, startDate]);
 
   useEffect(() => {
-    if (type !== AbsenceType.TimeOff || !startDate || !endDate) {
-        setTimeOffHours(null);
-        return;
+    if (type !== AbsenceType.TimeOff || !startDate || !endDate) return;
+    const startYear = new Date(`${startDate}T00:00:00`).getFullYear();
+    const endYear = new Date(`${endDate}T00:00:00`).getFullYear();
+    onEnsureHolidaysForYear(startYear);
+    if (startYear !== endYear) {
+        onEnsureHolidaysForYear(endYear);
     }
+  }, [type, startDate, endDate, onEnsureHolidaysForYear]);
 
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
-    onEnsureHolidaysForYear(start.getFullYear());
-    if (start.getFullYear() !== end.getFullYear()) {
-        onEnsureHolidaysForYear(end.getFullYear());
-    }
-
-    const holidaysForStartYear = holidaysByYear[start.getFullYear()] || [];
-    const holidaysForEndYear = holidaysByYear[end.getFullYear()] || [];
-    const holidayDates = new Set([
-        ...holidaysForStartYear.map(h => h.date),
-        ...holidaysForEndYear.map(h => h.date)
-    ]);
-    
-    let totalHours = 0;
-    const loopDate = new Date(start);
-
-    while(loopDate <= end) {
-        const dateString = loopDate.toLocaleDateString('sv-SE');
-        const dayOfWeek = loopDate.getDay();
-        
-        if (dayOfWeek !== 0 && dayOfWeek !== 6 && !holidayDates.has(dateString)) {
-            const contract = getContractDetailsForDate(currentUser, loopDate);
-            let dailyScheduledHours = 0;
-
-            if (contract.targetHoursModel === TargetHoursModel.Weekly && contract.weeklySchedule) {
-                const dayKeys: (keyof WeeklySchedule)[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-                dailyScheduledHours = contract.weeklySchedule[dayKeys[dayOfWeek]] || 0;
-            } else {
-                dailyScheduledHours = contract.dailyTargetHours;
-            }
-            totalHours += dailyScheduledHours;
-        }
-        loopDate.setDate(loopDate.getDate() + 1);
-    }
-    
-    setTimeOffHours(totalHours);
+  const requestedHours = timeOffPortion === 'range'
+    ? (timeOffStart && timeOffEnd ? getTimeRangeHours(timeOffStart, timeOffEnd) : undefined)
+    : timeOffPortion === 'hours' ? timeOffAmount : undefined;
+  const timeOffHours = type === AbsenceType.TimeOff && startDate && endDate && (timeOffPortion === 'full' || requestedHours !== undefined)
+    ? calculateTimeOffHours(currentUser, { startDate, endDate, hours: requestedHours }, holidaysByYear)
+    : null;
 
-  }, [type, startDate, endDate, currentUser, holidaysByYear, onEnsureHolidaysForYear]);
+  // The balance shown is the one at the end of last month; time off from this month on is not debited yet.
+  const openTimeOffHours = useMemo(() => {
+    const now = new Date();
+    const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1).toLocaleDateString('sv-SE');
+    return existingAbsences
+        .filter(r => r.type === AbsenceType.TimeOff && r.status !== 'rejected')
+        .reduce((sum, r) => sum + calculateTimeOffHours(currentUser, r, holidaysByYear, currentMonthStart), 0);
+  }, [currentUser, existingAbsences, holidaysByYear]);
+  const availableTimeOffHours = timeBalanceHours - openTimeOffHours;
   
+  // The vacation account of the year the request starts in, without the days already requested.
+  const vacationYear = startDate ? new Date(`${startDate}T00:00:00`).getFullYear() : new Date().getFullYear();
+
+  useEffect(() => {
+    if (type !== AbsenceType.Vacation) return;
+    onEnsureHolidaysForYear(vacationYear);
+    onEnsureHolidaysForYear(vacationYear - 1);
+  }, [type, vacationYear, onEnsureHolidaysForYear]);
+
+  const vacationStatement = useMemo(
+    () => getVacationStatement(currentUser, vacationYear, existingAbsences, holidaysByYear, companySettings),
+    [currentUser, vacationYear, existingAbsences, holidaysByYear, companySettings]
+  );
+  const vacationAvailable = vacationStatement.remaining - vacationStatement.requested;
+  const requestedVacationDays = type === AbsenceType.Vacation && startDate && endDate
+    ? countVacationDays(currentUser, [{ id: 0, employeeId: currentUser.id, type, startDate, endDate, status: 'pending', dayPortion }], startDate, endDate, holidaysByYear)
+    : null;
+
+  const conflicts = useMemo(
+    () => startDate && endDate
+      ? checkAbsenceConflicts({ employeeId: currentUser.id, type, startDate, endDate }, employees, allAbsenceRequests, teams, holidaysByYear, companySettings)
+      : [],
+    [currentUser.id, type, startDate, endDate, employees, allAbsenceRequests, teams, holidaysByYear, companySettings]
+  );
+
   if (!isOpen) return null;
 
   const handleClose = () => {
@@ -147,7 +168,27 @@ export const AbsenceRequestModal: React.FC<AbsenceRequestModalProps> = ({ curren
         return;
     }
 
-    const timeEntryConflict = timeEntries.find(entry => {
+    if (type === AbsenceType.TimeOff && timeOffPortion !== 'full') {
+        const dailyTargetHours = getDailyTargetHours(currentUser, new Date(`${startDate}T00:00:00`));
+        if (!requestedHours || requestedHours <= 0) {
+            setInfoModal({ isOpen: true, title: 'Ungültige Dauer', message: timeOffPortion === 'range' ? 'Bitte geben Sie eine Uhrzeit "Von" vor der Uhrzeit "Bis" an.' : 'Bitte geben Sie die Anzahl der Stunden an.' });
+            return;
+        }
+        if (requestedHours > dailyTargetHours) {
+            setInfoModal({ isOpen: true, title: 'Ungültige Dauer', message: dailyTargetHours > 0
+                ? `An diesem Tag beträgt Ihre Soll-Arbeitszeit nur ${formatHoursAndMinutes(dailyTargetHours, 'hoursMinutes')}. Beantragen Sie in diesem Fall den ganzen Tag.`
+                : 'An diesem Tag haben Sie keine Soll-Arbeitszeit.' });
+            return;
+        }
+    }
+
+    if (type === AbsenceType.TimeOff && timeOffHours !== null && timeOffHours > availableTimeOffHours) {
+        setInfoModal({ isOpen: true, title: 'Nicht genügend Stunden', message: `Der Antrag umfasst ${formatHoursAndMinutes(timeOffHours, 'hoursMinutes')}, auf Ihrem Stundenkonto stehen nach bereits beantragtem Freizeitausgleich aber nur ${formatHoursAndMinutes(Math.max(0, availableTimeOffHours), 'hoursMinutes')} zur Verfügung.` });
+        return;
+    }
+
+    // Hourly time off leaves the rest of the day for time entries.
+    const timeEntryConflict = !(type === AbsenceType.TimeOff && timeOffPortion !== 'full') && timeEntries.find(entry => {
         const entryDate = new Date(entry.start).toLocaleDateString('sv-SE');
         return entryDate >= startDate && entryDate <= endDate;
     });
@@ -157,13 +198,20 @@ export const AbsenceRequestModal: React.FC<AbsenceRequestModalProps> = ({ curren
         return;
     }
 
+    if (hasBlockingConflict(conflicts)) {
+        setInfoModal({ isOpen: true, title: 'Zeitraum gesperrt', message: formatAbsenceConflicts(conflicts.filter(c => c.severity === 'blocking')) });
+        return;
+    }
+
     const requestData: Omit<AbsenceRequest, 'id' | 'status'> = { 
         employeeId: currentUser.id, 
         type, 
         startDate, 
         endDate, 
         photo,
-        dayPortion: type === AbsenceType.Vacation ? dayPortion : 'full'
+        dayPortion: type === AbsenceType.Vacation ? dayPortion : 'full',
+        ...(type === AbsenceType.TimeOff && timeOffPortion !== 'full' && { hours: requestedHours }),
+        ...(type === AbsenceType.TimeOff && timeOffPortion === 'range' && { startTime: timeOffStart, endTime: timeOffEnd }),
     };
 
     // Close logic
@@ -251,15 +299,55 @@ export const AbsenceRequestModal: React.FC<AbsenceRequestModalProps> = ({ curren
             </div>
             
             {type === AbsenceType.Vacation && (
-                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700 text-center">
-                    Verfügbarer Urlaub: <span className="font-bold text-green-600">{vacationDaysLeft.toLocaleString('de-DE')} Tage</span>
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700 text-center space-y-1">
+                    <p>Verfügbarer Urlaub {vacationYear}: <span className={`font-bold ${vacationAvailable > 0 ? 'text-green-600' : 'text-red-600'}`}>{formatVacationDays(vacationAvailable)}</span></p>
+                    {vacationStatement.expiring > 0 && (
+                        <p className="text-xs text-yellow-700">Davon {formatVacationDays(vacationStatement.expiring)} Resturlaub aus dem Vorjahr, die am {formatDate(vacationStatement.carryoverExpiresOn!)} verfallen.</p>
+                    )}
+                    {requestedVacationDays !== null && (
+                        <p className={requestedVacationDays > vacationAvailable ? 'text-red-600 font-semibold' : ''}>
+                            Dieser Antrag: {formatVacationDays(requestedVacationDays)}{requestedVacationDays > vacationAvailable && ' – mehr als verfügbar'}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {type === AbsenceType.TimeOff && (
+                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700 text-center space-y-1">
+                    <p>Aktuelles Stundenkonto: <span className={`font-bold ${timeBalanceHours >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatHoursAndMinutes(timeBalanceHours, 'hoursMinutes')}</span></p>
+                    {openTimeOffHours > 0 && (
+                        <p className="text-xs text-gray-500">Davon bereits für Freizeitausgleich vorgesehen: {formatHoursAndMinutes(openTimeOffHours, 'hoursMinutes')}</p>
+                    )}
                 </div>
             )}
 
             {type === AbsenceType.TimeOff && (
-                <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-700 text-center">
-                    Aktuelles Stundenkonto: <span className={`font-bold ${timeBalanceHours >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatHoursAndMinutes(timeBalanceHours, 'hoursMinutes')}</span>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Dauer</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {[
+                    { value: 'full', label: 'Ganzer Tag' },
+                    { value: 'hours', label: 'Stunden' },
+                    { value: 'range', label: 'Von - Bis' },
+                  ].map(option => (
+                    <label key={option.value} className={`flex items-center justify-center p-3 border rounded-md cursor-pointer transition-colors text-center text-sm ${
+                      timeOffPortion === option.value
+                        ? 'bg-green-50 border-green-400 ring-1 ring-green-400 font-semibold'
+                        : 'hover:bg-gray-50'
+                    }`}>
+                      <input
+                        type="radio"
+                        name="timeOffPortion"
+                        value={option.value}
+                        checked={timeOffPortion === option.value}
+                        onChange={(e) => setTimeOffPortion(e.target.value as 'full' | 'hours' | 'range')}
+                        className="sr-only"
+                      />
+                      {option.label}
+                    </label>
+                  ))}
                 </div>
+              </div>
             )}
             
             {type === AbsenceType.Vacation && companySettings.allowHalfDayVacations && (
@@ -298,15 +386,29 @@ export const AbsenceRequestModal: React.FC<AbsenceRequestModalProps> = ({ curren
                 placeholder="Auswählen..."
             />
             
+            {type === AbsenceType.TimeOff && timeOffPortion === 'hours' && (
+                <HoursMinutesInput label="Stunden" value={timeOffAmount} onChange={setTimeOffAmount} />
+            )}
+
+            {type === AbsenceType.TimeOff && timeOffPortion === 'range' && (
+                <div className="grid grid-cols-2 gap-4">
+                    <Input label="Von" type="time" value={timeOffStart} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTimeOffStart(e.target.value)} />
+                    <Input label="Bis" type="time" value={timeOffEnd} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTimeOffEnd(e.target.value)} />
+                </div>
+            )}
+
             {type === AbsenceType.TimeOff && timeOffHours !== null && timeOffHours > 0 && (
-                <div className="p-3 bg-blue-50 rounded-lg border border-blue-200 flex items-start gap-3 text-sm text-blue-800">
+                <div className={`p-3 rounded-lg border flex items-start gap-3 text-sm ${timeOffHours > availableTimeOffHours ? 'bg-red-50 border-red-200 text-red-800' : 'bg-blue-50 border-blue-200 text-blue-800'}`}>
                     <InformationCircleIcon className="h-5 w-5 flex-shrink-0 mt-0.5" />
                     <p>
-                        Basierend auf Ihrer Soll-Arbeitszeit entspricht dieser Zeitraum <span className="font-bold">{timeOffHours.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} Stunden</span> Freizeitausgleich.
+                        {timeOffPortion === 'full' ? 'Basierend auf Ihrer Soll-Arbeitszeit entspricht dieser Zeitraum' : 'Dieser Antrag umfasst'} <span className="font-bold">{timeOffHours.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} Stunden</span> Freizeitausgleich, die vom Stundenkonto abgezogen werden.
+                        {timeOffHours > availableTimeOffHours && ' Ihr Stundenkonto reicht dafür nicht aus.'}
                     </p>
                 </div>
             )}
 
+            <AbsenceConflictList conflicts={conflicts} />
+
             {type === AbsenceType.SickLeave && (
               <Input id="photo-upload" label="Foto hochladen (z.B. Krankenschein)" type="file" onChange={handleFileChange} />
             )}
@@ -331,7 +433,7 @@ export const AbsenceRequestModal: React.FC<AbsenceRequestModalProps> = ({ curren
         onSelectRange={handleRangeSelect}
         onSelectDate={handleSingleDateSelect}
         title="Zeitraum auswählen"
-        selectionMode={type === AbsenceType.Vacation && dayPortion !== 'full' ? 'single' : 'range'}
+        selectionMode={isSingleDay ? 'single' : 'range'}
         initialStartDate={startDate}
         initialEndDate={endDate}
       />
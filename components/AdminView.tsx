@@ -1,17 +1,19 @@
 
 import React, { useState, useEffect } from 'react';
-import type { AbsenceRequest, TimeEntry, Employee, Customer, Activity, Holiday, CompanySettings, TimeBalanceAdjustment, HolidaysByYear, Shift } from '../types';
+import type { AbsenceRequest, TimeEntry, Employee, Customer, Activity, Holiday, CompanySettings, TimeBalanceAdjustment, HolidaysByYear, Shift, MonthClosing, AuditLogEntry, OpenPunch, NfcTag, KioskPin, Team } from '../types';
 import { AdminViewType } from '../types';
 import { AdminNav } from './admin/AdminNav';
 import { SettingsView } from './admin/SettingsView';
 import { TimeTrackingManagement } from './admin/TimeTrackingManagement';
 import { ProfileSettings } from './admin/ProfileSettings';
-import { ReportsView } from './admin/ReportsView';
+import { ReportsSection } from './admin/ReportsSection';
 import { PlannerView } from './admin/PlannerView';
 import { EmployeeSection } from './admin/EmployeeSection';
 import { VerwaltungView } from './admin/VerwaltungView';
 import { ShiftPlannerView } from './admin/ShiftPlannerView';
 import { AdminBottomNav } from './admin/AdminBottomNav';
+import { type AdminAccess, canAccess, canOpenAdminView, isInAccessScope, filterToAccessScope } from './adminPermissions';
+import { getAbsenceApprovalState, isNamedAbsenceApprover } from './absenceApproval';
 
 interface AdminViewProps {
   loggedInUser: Employee;
@@ -34,14 +36,27 @@ interface AdminViewProps {
   onUpdateAbsenceRequest: (request: AbsenceRequest) => void;
   onDeleteAbsenceRequest: (id: number) => void;
   onAddTimeEntry: (entry: Omit<TimeEntry, 'id' | 'employeeId'>, employeeId: number) => void;
-  onUpdateTimeEntry: (entry: TimeEntry) => void;
+  onUpdateTimeEntry: (entry: TimeEntry, reason?: string) => void;
   onDeleteTimeEntry: (id: number) => void;
-  onAddEmployee: (employee: Omit<Employee, 'id'>) => void;
-  onUpdateEmployee: (employee: Employee) => void;
+  onAddEmployee: (employee: Omit<Employee, 'id'>, password?: string, inviteByEmail?: boolean, kioskPin?: string) => void;
+  onUpdateEmployee: (employee: Employee, password?: string, inviteByEmail?: boolean, kioskPin?: string) => void;
   onDeleteEmployee: (id: number) => void;
+  kioskPins: KioskPin[];
+  onStartKioskMode: () => void;
+  // Teams and permissions
+  adminAccess: AdminAccess;
+  teams: Team[];
+  onAddTeam: (team: Omit<Team, 'id'>) => void;
+  onUpdateTeam: (team: Team) => void;
+  onDeleteTeam: (id: number) => void;
   onAddCustomer: (customer: Omit<Customer, 'id'>) => void;
   onUpdateCustomer: (customer: Customer) => void;
   onDeleteCustomer: (id: string) => void;
+  // NFC tag registry
+  nfcTags: NfcTag[];
+  onRegisterNfcTag: (tag: NfcTag) => void;
+  onUpdateNfcTag: (tag: NfcTag) => void;
+  onRevokeNfcTag: (id: number, reason?: string) => void;
   onAddActivity: (activity: Omit<Activity, 'id'>) => void;
   onUpdateActivity: (activity: Activity) => void;
   onDeleteActivity: (id: string) => void;
@@ -50,6 +65,14 @@ interface AdminViewProps {
   onUpdateCompanySettings: (settings: CompanySettings) => void;
   onUpdateTimeBalanceAdjustment: (adjustment: TimeBalanceAdjustment) => void;
   onDeleteTimeBalanceAdjustment: (id: number) => void;
+  // Month-end closing
+  monthClosings: MonthClosing[];
+  onCloseMonth: (employeeId: number, year: number, month: number) => void;
+  onReopenMonth: (closingId: number, reason: string) => void;
+  // Change log
+  auditLog: AuditLogEntry[];
+  // Running stopwatch sessions
+  openPunches: OpenPunch[];
   // Shifts
   shifts: Shift[];
   addShift: (shift: Omit<Shift, 'id'>) => void;
@@ -57,8 +80,38 @@ interface AdminViewProps {
   deleteShift: (id: string) => void;
 }
 
-export const AdminView: React.FC<AdminViewProps> = (props) => {
-  const { activeView, setActiveView } = props;
+export const AdminView: React.FC<AdminViewProps> = (allProps) => {
+  const { activeView, setActiveView, adminAccess } = allProps;
+
+  // Team leads only see the members of their teams; all views below work on this reduced data.
+  const props: AdminViewProps = adminAccess.employeeIds === null ? allProps : {
+    ...allProps,
+    employees: allProps.employees.filter(e => isInAccessScope(adminAccess, e.id)),
+    timeEntries: filterToAccessScope(adminAccess, allProps.timeEntries),
+    absenceRequests: filterToAccessScope(adminAccess, allProps.absenceRequests),
+    timeBalanceAdjustments: filterToAccessScope(adminAccess, allProps.timeBalanceAdjustments),
+    monthClosings: filterToAccessScope(adminAccess, allProps.monthClosings),
+    auditLog: filterToAccessScope(adminAccess, allProps.auditLog),
+    openPunches: filterToAccessScope(adminAccess, allProps.openPunches),
+    shifts: filterToAccessScope(adminAccess, allProps.shifts),
+  };
+
+  // Requests of other teams that wait for the user as named approver or deputy are shown in the planner as well.
+  const requestsToDecide = adminAccess.employeeIds === null ? [] : allProps.absenceRequests.filter(req =>
+    req.status === 'pending' && !isInAccessScope(adminAccess, req.employeeId) &&
+    isNamedAbsenceApprover(allProps.loggedInUser, getAbsenceApprovalState(req, allProps.employees, allProps.absenceRequests, allProps.companySettings))
+  );
+  const plannerProps: AdminViewProps = requestsToDecide.length === 0 ? props : {
+    ...props,
+    employees: [...props.employees, ...allProps.employees.filter(e => !isInAccessScope(adminAccess, e.id) && requestsToDecide.some(req => req.employeeId === e.id))],
+    absenceRequests: [...props.absenceRequests, ...requestsToDecide],
+  };
+
+  useEffect(() => {
+    if (!canOpenAdminView(adminAccess, activeView)) {
+      setActiveView(AdminViewType.Planner);
+    }
+  }, [adminAccess, activeView, setActiveView]);
 
   useEffect(() => {
     window.scrollTo({
@@ -70,7 +123,8 @@ export const AdminView: React.FC<AdminViewProps> = (props) => {
   const renderActiveView = () => {
     switch (activeView) {
       case AdminViewType.Planner:
-        return <PlannerView {...props} />;
+        // The approval chain can lead outside the own team, so it is resolved with all employees.
+        return <PlannerView {...plannerProps} allEmployees={allProps.employees} allAbsenceRequests={allProps.absenceRequests} />;
       case AdminViewType.ShiftPlanner:
         return <ShiftPlannerView 
                   employees={props.employees} 
@@ -78,19 +132,31 @@ export const AdminView: React.FC<AdminViewProps> = (props) => {
                   addShift={props.addShift} 
                   updateShift={props.updateShift} 
                   deleteShift={props.deleteShift}
+                  canEdit={canAccess(adminAccess, 'editTime')}
                   customers={props.customers}
                   activities={props.activities}
                   companySettings={props.companySettings}
                />;
       case AdminViewType.TimeTracking:
-        return <TimeTrackingManagement {...props} />;
+        return <TimeTrackingManagement {...props} allEmployees={allProps.employees} allAbsenceRequests={allProps.absenceRequests} />;
       case AdminViewType.Reports:
-        return <ReportsView
+      case AdminViewType.Compliance:
+      case AdminViewType.Map:
+        return <ReportsSection
+                  initialView={activeView}
+                  setActiveView={setActiveView}
                   timeEntries={props.timeEntries}
                   customers={props.customers}
                   activities={props.activities}
                   companySettings={props.companySettings}
                   employees={props.employees}
+                  holidaysByYear={props.holidaysByYear}
+                  onEnsureHolidaysForYear={props.onEnsureHolidaysForYear}
+                  monthClosings={props.monthClosings}
+                  auditLog={props.auditLog}
+                  onUpdateTimeEntry={props.onUpdateTimeEntry}
+                  onDeleteTimeEntry={props.onDeleteTimeEntry}
+                  adminAccess={adminAccess}
                />;
       case AdminViewType.Employees:
         return <EmployeeSection
@@ -100,6 +166,13 @@ export const AdminView: React.FC<AdminViewProps> = (props) => {
                   onUpdateEmployee={props.onUpdateEmployee}
                   onDeleteEmployee={props.onDeleteEmployee}
                   companySettings={props.companySettings}
+                  kioskPins={props.kioskPins}
+                  allEmployees={allProps.employees}
+                  adminAccess={adminAccess}
+                  teams={props.teams}
+                  onAddTeam={props.onAddTeam}
+                  onUpdateTeam={props.onUpdateTeam}
+                  onDeleteTeam={props.onDeleteTeam}
                 />;
       case AdminViewType.Customers:
       case AdminViewType.Activities:
@@ -114,6 +187,7 @@ export const AdminView: React.FC<AdminViewProps> = (props) => {
                   onUpdate={props.onUpdateEmployee}
                   companySettings={props.companySettings}
                   onUpdateCompanySettings={props.onUpdateCompanySettings}
+                  canManageCompany={canAccess(adminAccess, 'manageSettings')}
                 />;
       case AdminViewType.Settings:
         return <SettingsView 
@@ -123,6 +197,9 @@ export const AdminView: React.FC<AdminViewProps> = (props) => {
                   onTimeTrackingMethodChange={props.onTimeTrackingMethodChange}
                   companySettings={props.companySettings}
                   onUpdateCompanySettings={props.onUpdateCompanySettings}
+                  onStartKioskMode={props.onStartKioskMode}
+                  employees={allProps.employees}
+                  teams={allProps.teams}
                 />;
       default:
         return null;
@@ -137,7 +214,8 @@ export const AdminView: React.FC<AdminViewProps> = (props) => {
                   activeView={activeView} 
                   setActiveView={setActiveView} 
                   companySettings={props.companySettings} 
-                  absenceRequests={props.absenceRequests}
+                  absenceRequests={plannerProps.absenceRequests}
+                  adminAccess={adminAccess}
               />
             </div>
             <main className="flex-grow w-full overflow-x-auto pb-16 md:pb-0 md:pt-6">
@@ -147,7 +225,8 @@ export const AdminView: React.FC<AdminViewProps> = (props) => {
         <AdminBottomNav
             activeView={activeView}
             setActiveView={setActiveView}
-            absenceRequests={props.absenceRequests}
+            absenceRequests={plannerProps.absenceRequests}
+            adminAccess={adminAccess}
         />
     </div>
   );
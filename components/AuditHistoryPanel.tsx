@@ -0,0 +1,68 @@
+import React, { useMemo, useState } from 'react';
+import type { AuditLogEntry } from '../types';
+import { AUDIT_ACTION_LABELS, AUDIT_ENTITY_LABELS, formatAuditValue, getAuditFieldChanges, type AuditValueLookups } from './auditTrail';
+
+interface AuditHistoryPanelProps extends AuditValueLookups {
+  entries: AuditLogEntry[];
+  showEntityType?: boolean;
+  initialVisibleCount?: number;
+}
+
+const ACTION_CLASSES: Record<AuditLogEntry['action'], string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+export const AuditHistoryPanel: React.FC<AuditHistoryPanelProps> = ({ entries, showEntityType = false, initialVisibleCount = 10, employees, customers, activities }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const sortedEntries = useMemo(
+    () => [...entries].sort((a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime()),
+    [entries]
+  );
+  const visibleEntries = showAll ? sortedEntries : sortedEntries.slice(0, initialVisibleCount);
+  const lookups = { employees, customers, activities };
+
+  if (sortedEntries.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">Keine Änderungen protokolliert.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {visibleEntries.map(entry => {
+        const changes = getAuditFieldChanges(entry);
+        return (
+          <div key={entry.id} className="p-3 bg-gray-50 rounded-lg border text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${ACTION_CLASSES[entry.action]}`}>{AUDIT_ACTION_LABELS[entry.action]}</span>
+              {showEntityType && <span className="font-semibold">{AUDIT_ENTITY_LABELS[entry.entityType]}</span>}
+              <span className="text-gray-500">
+                {new Date(entry.changedAt).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' })} von {entry.changedByName}
+              </span>
+            </div>
+            {entry.reason && <p className="mt-1 text-gray-600 italic">Grund: „{entry.reason}“</p>}
+            {changes.length > 0 && (
+              <ul className="mt-2 space-y-0.5 text-gray-700">
+                {changes.map(change => (
+                  <li key={change.label}>
+                    <span className="text-gray-500">{change.label}:</span>{' '}
+                    {entry.action === 'update' && (
+                      <><span className="line-through text-gray-400">{formatAuditValue(entry.entityType, change.field, change.before, lookups)}</span>{' → '}</>
+                    )}
+                    <span>{formatAuditValue(entry.entityType, change.field, entry.action === 'delete' ? change.before : change.after, lookups)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+      {sortedEntries.length > initialVisibleCount && (
+        <button onClick={() => setShowAll(prev => !prev)} className="w-full text-sm font-semibold text-blue-600 hover:text-blue-800 py-1">
+          {showAll ? 'Weniger anzeigen' : `Alle ${sortedEntries.length} Änderungen anzeigen`}
+        </button>
+      )}
+    </div>
+  );
+};
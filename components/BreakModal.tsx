@@ -3,15 +3,32 @@ import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { XIcon } from './icons/XIcon';
+import type { BreakRules, BreakSegment } from '../types';
+import { DEFAULT_BREAK_RULES, getRequiredBreakMinutes } from './breakRules';
+import { formatBreakSegments, getBreakSegmentsMinutes } from './utils';
 
 interface BreakModalProps {
   onClose: () => void;
   onSave: (breakMinutes: number) => void;
+  durationHours?: number; // length of the stopped session, used for the suggestion
+  breakRules?: BreakRules;
+  breakSegments?: BreakSegment[]; // pauses recorded with "Pause"/"Weiter"
+  previousBreakMinutes?: number; // breaks of the entries closed earlier in the session by "Wechseln"
 }
 
-export const BreakModal: React.FC<BreakModalProps> = ({ onClose, onSave }) => {
-  const [breakMinutes, setBreakMinutes] = useState('');
+export const BreakModal: React.FC<BreakModalProps> = ({ onClose, onSave, durationHours = 0, breakRules = DEFAULT_BREAK_RULES, breakSegments = [], previousBreakMinutes = 0 }) => {
+  const requiredBreak = Math.max(getRequiredBreakMinutes(durationHours, breakRules) - previousBreakMinutes, 0);
+  const recordedMinutes = Math.round(getBreakSegmentsMinutes(breakSegments));
+  const [breakMinutes, setBreakMinutes] = useState(() => {
+    const initialMinutes = breakSegments.length > 0 ? recordedMinutes : requiredBreak;
+    return initialMinutes > 0 ? String(initialMinutes) : '';
+  });
   const [isClosing, setIsClosing] = useState(false);
+  const enteredMinutes = Number(breakMinutes) || 0;
+  const suggestions = Array.from(new Set([recordedMinutes, ...breakRules.tiers.map(t => t.breakMinutes - previousBreakMinutes)]))
+    .filter(minutes => minutes >= recordedMinutes)
+    .sort((a, b) => a - b);
+  const hasShortSegment = breakSegments.some(segment => getBreakSegmentsMinutes([segment]) < breakRules.minSegmentMinutes);
 
   useEffect(() => {
     // This effect is only to handle the initial mount state,
@@ -25,6 +42,7 @@ export const BreakModal: React.FC<BreakModalProps> = ({ onClose, onSave }) => {
   };
   
   const handleSaveClick = () => {
+    if (enteredMinutes < recordedMinutes) return;
     setIsClosing(true);
     setTimeout(() => onSave(Number(breakMinutes) || 0), 300);
   };
@@ -37,20 +55,55 @@ export const BreakModal: React.FC<BreakModalProps> = ({ onClose, onSave }) => {
         </button>
         <div className="space-y-4">
           <h2 className="text-xl font-bold text-center">Pause eintragen</h2>
+          {breakSegments.length > 0 && (
+            <div className="p-3 bg-gray-50 border rounded-md text-sm">
+              <p className="font-medium text-gray-700">Erfasste Pausen: {recordedMinutes} Min.</p>
+              <p className="text-gray-500">{formatBreakSegments(breakSegments)}</p>
+            </div>
+          )}
           <Input 
             label="Pause (m)" 
             type="number" 
             value={breakMinutes} 
             onChange={(e) => setBreakMinutes(e.target.value)} 
-            min="0"
+            min={recordedMinutes}
             placeholder="0"
             autoFocus 
           />
+          <div className="flex flex-wrap gap-2">
+            {suggestions.map(minutes => (
+              <button
+                key={minutes}
+                type="button"
+                onClick={() => setBreakMinutes(String(minutes))}
+                className={`px-3 py-1 rounded-full text-sm border ${enteredMinutes === minutes ? 'bg-blue-100 border-blue-300 text-blue-700' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+              >
+                {minutes} Min.
+              </button>
+            ))}
+          </div>
+          {requiredBreak > 0 && (
+            <p className={`text-sm ${enteredMinutes < requiredBreak ? 'text-yellow-700' : 'text-gray-500'}`}>
+              {previousBreakMinutes > 0
+                ? `Seit Arbeitsbeginn sind noch mindestens ${requiredBreak} Minuten Pause vorgeschrieben, ${previousBreakMinutes} Minuten sind in den vorherigen Einträgen erfasst.`
+                : `Bei dieser Arbeitszeit sind mindestens ${requiredBreak} Minuten Pause vorgeschrieben.`}
+            </p>
+          )}
+          {enteredMinutes < recordedMinutes && (
+            <p className="text-sm text-red-600">
+              Die Pause kann nicht kürzer sein als die erfassten Pausen ({recordedMinutes} Minuten).
+            </p>
+          )}
+          {(breakSegments.length > 0 ? hasShortSegment : enteredMinutes > 0 && enteredMinutes < breakRules.minSegmentMinutes) && (
+            <p className="text-sm text-yellow-700">
+              Pausen unter {breakRules.minSegmentMinutes} Minuten gelten nicht als Ruhepause.
+            </p>
+          )}
           <div className="flex gap-4 pt-2">
             <Button type="button" onClick={handleClose} className="w-full bg-gray-500 hover:bg-gray-600">
               Abbrechen
             </Button>
-            <Button type="button" onClick={handleSaveClick} className="w-full bg-blue-600 hover:bg-blue-700">
+            <Button type="button" onClick={handleSaveClick} disabled={enteredMinutes < recordedMinutes} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed">
               Speichern
             </Button>
           </div>
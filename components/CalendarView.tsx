@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect, useRef, useCallback, useLayoutEffect } from 'react';
-import type { TimeEntry, AbsenceRequest, Customer, Activity, Holiday, CompanySettings, HolidaysByYear, Employee } from '../types';
+import type { TimeEntry, AbsenceRequest, Customer, Activity, Holiday, CompanySettings, HolidaysByYear, Employee, MonthClosing, AuditLogEntry } from '../types';
 import { AbsenceType } from '../types';
 import { EntryDetailModal } from './EntryDetailModal';
 import { Card } from './ui/Card';
@@ -8,7 +8,9 @@ import { ConfirmModal } from './ui/ConfirmModal';
 import { ChevronLeftIcon } from './icons/ChevronLeftIcon';
 import { ChevronRightIcon } from './icons/ChevronRightIcon';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
-import { formatHoursAndMinutes } from './utils';
+import { LockClosedIcon } from './icons/LockClosedIcon';
+import { formatHoursAndMinutes, getEntryWorkedHours } from './utils';
+import { getEntryLockStatus } from './editLockPolicy';
 
 interface CalendarViewProps {
   currentUser: Employee;
@@ -17,11 +19,13 @@ interface CalendarViewProps {
   customers: Customer[];
   activities: Activity[];
   holidaysByYear: HolidaysByYear;
-  onUpdateTimeEntry: (entry: TimeEntry) => void;
+  onUpdateTimeEntry: (entry: TimeEntry, reason?: string) => void;
   onDeleteTimeEntry: (id: number) => void;
   companySettings: CompanySettings;
   onEnsureHolidaysForYear: (year: number) => void;
   onAddAbsenceClick: () => void;
+  monthClosings: MonthClosing[];
+  auditLog: AuditLogEntry[];
 }
 
 // --- GLOBAL CACHE ---
@@ -295,7 +299,7 @@ export const CalendarView: React.FC<CalendarViewProps> = (props) => {
   const { 
     currentUser, timeEntries, absenceRequests, customers, activities,
     holidaysByYear, onUpdateTimeEntry, onDeleteTimeEntry, companySettings,
-    onEnsureHolidaysForYear, onAddAbsenceClick
+    onEnsureHolidaysForYear, onAddAbsenceClick, monthClosings, auditLog
   } = props;
   
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -572,6 +576,7 @@ export const CalendarView: React.FC<CalendarViewProps> = (props) => {
   const handleSelectDate = useCallback((dateStr: string) => setSelectedDateString(dateStr), []);
 
   const selectedDateObject = useMemo(() => selectedDateString ? new Date(selectedDateString) : null, [selectedDateString]);
+  const selectedDayLockStatus = useMemo(() => selectedDateString ? getEntryLockStatus(selectedDateString, companySettings, monthClosings) : null, [selectedDateString, companySettings, monthClosings]);
 
   return (
     <div className="space-y-6 max-w-2xl mx-auto">
@@ -631,10 +636,10 @@ export const CalendarView: React.FC<CalendarViewProps> = (props) => {
       </div>
 
       {selectedDateObject && (
-        <div ref={entriesListRef} className="animate-fade-in"><h3 className="text-lg font-bold mb-3">Einträge für den {selectedDateObject.toLocaleDateString('de-DE', { weekday: 'long', day: '2-digit', month: '2-digit' })}</h3><Card><div className="space-y-3">{holidayForSelectedDay && (<div className="p-3 bg-red-50 rounded-lg border border-red-200 flex items-center"><div className="w-2.5 h-2.5 bg-red-500 rounded-full mr-3"></div><p className="font-semibold text-red-800">{holidayForSelectedDay.name} (Feiertag)</p></div>)}{absencesForSelectedDayList.map(absence => { const d = getAbsenceStyle(absence.type); const dayPortionText = absence.dayPortion === 'am' ? ' (Vormittags)' : absence.dayPortion === 'pm' ? ' (Nachmittags)' : ''; return (<div key={absence.id} className={`p-3 rounded-lg border flex items-center ${d.bgClass} ${d.borderClass}`}><div className={`w-2.5 h-2.5 ${d.dotClass} rounded-full mr-3`}></div><p className={`font-semibold ${d.textClass}`}>{d.label}{dayPortionText}</p></div>);})}{entriesForSelectedDay.map(entry => {const d = (new Date(entry.end).getTime() - new Date(entry.start).getTime())/36e5-(entry.breakDurationMinutes/60); return (<button key={entry.id} onClick={()=>setSelectedEntryId(entry.id)} className="w-full p-3 bg-gray-50 rounded-lg border flex justify-between items-center text-left hover:bg-gray-100"><div><p className="font-semibold">{activities.find(a=>a.id===entry.activityId)?.name||'N/A'}</p><p className="text-sm text-gray-600">{customers.find(c=>c.id===entry.customerId)?.name||'N/A'}</p><p className="text-xs text-gray-500 mt-1">{new Date(entry.start).toLocaleTimeString('de-DE',{hour:'2-digit',minute:'2-digit'})} - {new Date(entry.end).toLocaleTimeString('de-DE',{hour:'2-digit',minute:'2-digit'})}</p></div><p className="font-bold text-lg text-blue-600">{formatHoursAndMinutes(d, timeFormat)}</p></button>);})}{entriesForSelectedDay.length===0 && absencesForSelectedDayList.length===0 && !holidayForSelectedDay && <p className="text-center text-gray-500 py-4">Keine Einträge für diesen Tag.</p>}</div></Card></div>
+        <div ref={entriesListRef} className="animate-fade-in"><h3 className="text-lg font-bold mb-3">Einträge für den {selectedDateObject.toLocaleDateString('de-DE', { weekday: 'long', day: '2-digit', month: '2-digit' })}</h3><Card><div className="space-y-3">{holidayForSelectedDay && (<div className="p-3 bg-red-50 rounded-lg border border-red-200 flex items-center"><div className="w-2.5 h-2.5 bg-red-500 rounded-full mr-3"></div><p className="font-semibold text-red-800">{holidayForSelectedDay.name} (Feiertag)</p></div>)}{selectedDayLockStatus?.isLocked && (<div className="p-3 bg-yellow-50 rounded-lg border border-yellow-200 flex items-start gap-3 text-sm text-yellow-800"><LockClosedIcon className="h-5 w-5 flex-shrink-0" /><div><p className="font-semibold">Nur lesbar</p><p>{selectedDayLockStatus.reason}</p></div></div>)}{absencesForSelectedDayList.map(absence => { const d = getAbsenceStyle(absence.type); const dayPortionText = absence.dayPortion === 'am' ? ' (Vormittags)' : absence.dayPortion === 'pm' ? ' (Nachmittags)' : ''; return (<div key={absence.id} className={`p-3 rounded-lg border flex items-center ${d.bgClass} ${d.borderClass}`}><div className={`w-2.5 h-2.5 ${d.dotClass} rounded-full mr-3`}></div><p className={`font-semibold ${d.textClass}`}>{d.label}{dayPortionText}</p></div>);})}{entriesForSelectedDay.map(entry => {const d = getEntryWorkedHours(entry); return (<button key={entry.id} onClick={()=>setSelectedEntryId(entry.id)} className="w-full p-3 bg-gray-50 rounded-lg border flex justify-between items-center text-left hover:bg-gray-100"><div><p className="font-semibold">{activities.find(a=>a.id===entry.activityId)?.name||'N/A'}</p><p className="text-sm text-gray-600">{customers.find(c=>c.id===entry.customerId)?.name||'N/A'}</p><p className="text-xs text-gray-500 mt-1">{new Date(entry.start).toLocaleTimeString('de-DE',{hour:'2-digit',minute:'2-digit'})} - {new Date(entry.end).toLocaleTimeString('de-DE',{hour:'2-digit',minute:'2-digit'})}</p></div><div className="flex items-center gap-2">{selectedDayLockStatus?.isLocked && <LockClosedIcon className="h-4 w-4 text-gray-400" />}<p className="font-bold text-lg text-blue-600">{formatHoursAndMinutes(d, timeFormat)}</p></div></button>);})}{entriesForSelectedDay.length===0 && absencesForSelectedDayList.length===0 && !holidayForSelectedDay && <p className="text-center text-gray-500 py-4">Keine Einträge für diesen Tag.</p>}</div></Card></div>
       )}
 
-      {selectedEntry && (<EntryDetailModal entry={selectedEntry} customers={customers} activities={activities} timeEntries={timeEntries} onClose={handleCloseModal} onUpdate={onUpdateTimeEntry} onDelete={onDeleteTimeEntry} companySettings={companySettings}/>)}
+      {selectedEntry && (<EntryDetailModal entry={selectedEntry} customers={customers} activities={activities} timeEntries={timeEntries} onClose={handleCloseModal} onUpdate={onUpdateTimeEntry} onDelete={onDeleteTimeEntry} companySettings={companySettings} monthClosings={monthClosings} auditLog={auditLog.filter(a => a.entityType === 'timeEntry' && a.entityId === selectedEntry.id)}/>)}
     </div>
   );
 };
\ No newline at end of file
@@ -1,15 +1,19 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import type { TimeEntry, Customer, Activity, UserAccount, Employee, AbsenceRequest, Holiday, CompanySettings, Shift } from '../types';
+import type { TimeEntry, Customer, Activity, UserAccount, Employee, AbsenceRequest, Holiday, CompanySettings, Shift, HolidaysByYear, OpenPunch, GpsPosition } from '../types';
 import { Stopwatch } from './Stopwatch';
 import { ManualEntryForm } from './ManualEntryForm';
 import { Card } from './ui/Card';
 import { DocumentArrowDownIcon } from './icons/DocumentArrowDownIcon';
 import { TimesheetExportModal } from './admin/TimesheetExportModal';
 import { formatHoursAndMinutes, exportTimesheet } from './utils';
+import { formatVacationDays } from './vacationLedger';
 import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
 import { CheckCircleIcon } from './icons/CheckCircleIcon';
 import { ClockIcon } from './icons/ClockIcon';
+import { getBreakRules } from './breakRules';
+import { QrScannerModal } from './QrScannerModal';
+import { QrCodeIcon } from './icons/QrCodeIcon';
 
 
 interface DashboardProps {
@@ -24,14 +28,15 @@ interface DashboardProps {
   dashboardType: 'standard' | 'simplified';
   absenceRequests: AbsenceRequest[];
   holidays: Holiday[];
+  holidaysByYear: HolidaysByYear;
+  onEnsureHolidaysForYear: (year: number) => void;
   selectedState: string;
   companySettings: CompanySettings;
-  mockCurrentYear: number;
   // Shift Props
   shifts: Shift[];
   // Stopwatch state and handlers
   isRunning: boolean;
-  startTime: Date | null;
+  openPunch: OpenPunch | null;
   stopTime: Date | null;
   elapsedTime: number;
   stopwatchCustomerId: string;
@@ -39,29 +44,35 @@ interface DashboardProps {
   stopwatchComment: string;
   isBreakModalOpen: boolean;
   setIsBreakModalOpen: (isOpen: boolean) => void;
-  setIsRunning: (isRunning: boolean) => void;
-  setStartTime: (date: Date | null) => void;
   setStopTime: (date: Date | null) => void;
-  setElapsedTime: (time: number) => void;
   setStopwatchCustomerId: (id: string) => void;
   setStopwatchActivityId: (id: string) => void;
   setStopwatchComment: (comment: string) => void;
+  onStartPunch: (session: Omit<OpenPunch, 'id' | 'employeeId' | 'start' | 'breakSegments' | 'clockIn'>, gps?: GpsPosition) => void;
+  onTogglePause: () => void;
+  onFinishPunch: (breakDurationMinutes: number, gps?: GpsPosition) => boolean;
+  onSwitchPunch: (session: Omit<OpenPunch, 'id' | 'employeeId' | 'start' | 'breakSegments' | 'clockIn'>, gps?: GpsPosition) => boolean;
+  onScanQrCode: (text: string) => void;
 }
 
 export const Dashboard: React.FC<DashboardProps> = (props) => {
   const { 
     currentUser, addTimeEntry, timeEntries, customers, activities, userAccount, 
     currentMonthWorkedHours, timeTrackingMethod, dashboardType, absenceRequests, holidays, 
-    selectedState, companySettings, mockCurrentYear, shifts,
+    holidaysByYear, onEnsureHolidaysForYear, selectedState, companySettings, shifts,
     // Stopwatch props
-    isRunning, startTime, stopTime, elapsedTime, stopwatchCustomerId, stopwatchActivityId,
-    stopwatchComment, isBreakModalOpen, setIsBreakModalOpen, setIsRunning, setStartTime, setStopTime, setElapsedTime,
-    setStopwatchCustomerId, setStopwatchActivityId, setStopwatchComment
+    isRunning, openPunch, stopTime, elapsedTime, stopwatchCustomerId, stopwatchActivityId,
+    stopwatchComment, isBreakModalOpen, setIsBreakModalOpen, setStopTime,
+    setStopwatchCustomerId, setStopwatchActivityId, setStopwatchComment,
+    onStartPunch, onTogglePause, onFinishPunch, onSwitchPunch, onScanQrCode
   } = props;
   
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isQrScannerOpen, setIsQrScannerOpen] = useState(false);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
 
+  const userTimeEntries = useMemo(() => timeEntries.filter(e => e.employeeId === currentUser.id), [timeEntries, currentUser.id]);
+
   useEffect(() => {
     if (showSuccessMessage) {
         const timer = setTimeout(() => {
@@ -139,9 +150,8 @@ export const Dashboard: React.FC<DashboardProps> = (props) => {
   const carryoverDays = userAccount.vacationCarryover || 0;
   const annualEntitlement = userAccount.vacationAnnualEntitlement || 0;
 
-  const MOCK_TODAY = new Date(mockCurrentYear, 1, 15);
-  const deadline = new Date(mockCurrentYear, 2, 31);
-  const showCarryoverWarning = carryoverDays > 0 && MOCK_TODAY <= deadline;
+  const expiringCarryoverDays = userAccount.vacationCarryoverExpiring || 0;
+  const showCarryoverWarning = expiringCarryoverDays > 0 && currentUser.showVacationWarning !== false;
 
   const statsCards = (
       <div className={`grid ${dashboardType === 'standard' ? 'grid-cols-3' : 'grid-cols-2'} gap-2 sm:gap-4`}>
@@ -172,26 +182,28 @@ export const Dashboard: React.FC<DashboardProps> = (props) => {
           <Card>
             <ManualEntryForm 
               addTimeEntry={addTimeEntry}
-              timeEntries={timeEntries}
+              timeEntries={userTimeEntries}
               customers={customers}
               activities={activities}
               onCancel={undefined}
               companySettings={companySettings}
               onSuccess={() => setShowSuccessMessage(true)}
               absenceRequests={absenceRequests}
+              holidaysByYear={holidaysByYear}
+              onEnsureHolidaysForYear={onEnsureHolidaysForYear}
+              employee={currentUser}
             />
           </Card>
       ) : (
           <Card>
             <Stopwatch 
-              addTimeEntry={addTimeEntry}
               timeEntries={timeEntries}
               customers={customers}
               activities={activities}
               companySettings={companySettings}
               absenceRequests={absenceRequests}
               isRunning={isRunning}
-              startTime={startTime}
+              openPunch={openPunch}
               stopTime={stopTime}
               elapsedTime={elapsedTime}
               customerId={stopwatchCustomerId}
@@ -199,14 +211,16 @@ export const Dashboard: React.FC<DashboardProps> = (props) => {
               comment={stopwatchComment}
               isBreakModalOpen={isBreakModalOpen}
               setIsBreakModalOpen={setIsBreakModalOpen}
-              setIsRunning={setIsRunning}
-              setStartTime={setStartTime}
               setStopTime={setStopTime}
-              setElapsedTime={setElapsedTime}
               setCustomerId={setStopwatchCustomerId}
               setActivityId={setStopwatchActivityId}
               setComment={setStopwatchComment}
+              onStartPunch={onStartPunch}
+              onTogglePause={onTogglePause}
+              onFinishPunch={onFinishPunch}
+              onSwitchPunch={onSwitchPunch}
               onSuccess={() => setShowSuccessMessage(true)}
+              breakRules={getBreakRules(companySettings, currentUser, openPunch ? new Date(openPunch.start) : new Date())}
             />
           </Card>
       )
@@ -265,7 +279,7 @@ export const Dashboard: React.FC<DashboardProps> = (props) => {
                 <div>
                   <h4 className="font-bold">Resturlaub verfällt bald</h4>
                   <p className="text-sm">
-                    Bitte beachten Sie: Ihr Resturlaub aus dem Vorjahr ({carryoverDays} {carryoverDays === 1 ? 'Tag' : 'Tage'}) muss bis zum 31. März {mockCurrentYear} genommen werden, da er sonst verfällt.
+                    Bitte beachten Sie: Ihr Resturlaub aus dem Vorjahr ({formatVacationDays(expiringCarryoverDays)}) muss bis zum {new Date(`${userAccount.vacationCarryoverExpiresOn}T00:00:00`).toLocaleDateString('de-DE', { day: 'numeric', month: 'long', year: 'numeric' })} genommen werden, da er sonst verfällt.
                   </p>
                 </div>
             </div>
@@ -284,8 +298,30 @@ export const Dashboard: React.FC<DashboardProps> = (props) => {
         )}
 
         {mainContent}
+
+        {timeTrackingMethod !== 'manual' && !stopTime && (
+          <Card onClick={() => setIsQrScannerOpen(true)} className="cursor-pointer hover:bg-gray-50 transition-colors">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-700">QR-Code scannen</h3>
+                    <p className="text-xs sm:text-sm text-gray-500">Stempeln mit dem QR-Code am Einsatzort</p>
+                </div>
+                <QrCodeIcon className="h-6 w-6 text-blue-600" />
+            </div>
+          </Card>
+        )}
       </div>
       
+      {isQrScannerOpen && (
+        <QrScannerModal
+          onClose={() => setIsQrScannerOpen(false)}
+          onScan={(text) => {
+            setIsQrScannerOpen(false);
+            onScanQrCode(text);
+          }}
+        />
+      )}
+
       {isExportModalOpen && (
         <TimesheetExportModal
           isOpen={isExportModalOpen}
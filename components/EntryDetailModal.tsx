@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import type { TimeEntry, Customer, Activity, CompanySettings } from '../types';
+import type { TimeEntry, Customer, Activity, CompanySettings, MonthClosing, AuditLogEntry, Employee, PunchEvent } from '../types';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
@@ -7,6 +7,11 @@ import { Select } from './ui/Select';
 import { XIcon } from './icons/XIcon';
 import { ConfirmModal } from './ui/ConfirmModal';
 import { Textarea } from './ui/Textarea';
+import { getEntryLockStatus, isEditBlocked } from './editLockPolicy';
+import { AuditHistoryPanel } from './AuditHistoryPanel';
+import { formatBreakSegments, getBreakSegmentsMinutes } from './utils';
+import { formatGeofenceBreach } from './geofencePolicy';
+import { formatPunchMethod, formatPunchLocation, getPunchMapUrl, hasPunchLocation, isPunchRecordedLater } from './punchMetadata';
 
 interface EntryDetailModalProps {
   entry: TimeEntry;
@@ -14,10 +19,14 @@ interface EntryDetailModalProps {
   activities: Activity[];
   timeEntries: TimeEntry[];
   onClose: () => void;
-  onUpdate: (entry: TimeEntry) => void;
+  onUpdate: (entry: TimeEntry, reason?: string) => void;
   onDelete: (id: number) => void;
   companySettings?: CompanySettings;
   isAdminView?: boolean;
+  monthClosings?: MonthClosing[];
+  auditLog?: AuditLogEntry[]; // change log records of this entry
+  employees?: Employee[]; // to show who recorded the entry
+  isReadOnly?: boolean; // details only, e.g. for team leads without permission to edit times
 }
 
 const isOverlapping = (newStart: Date, newEnd: Date, existingEntries: TimeEntry[], entryIdToIgnore: number): boolean => {
@@ -39,12 +48,47 @@ const isOverlapping = (newStart: Date, newEnd: Date, existingEntries: TimeEntry[
   return false;
 };
 
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+
+interface PunchEventDetailsProps {
+  label: string;
+  punchedAt: string;
+  event?: PunchEvent;
+  recordedByName: string;
+}
+
+const PunchEventDetails: React.FC<PunchEventDetailsProps> = ({ label, punchedAt, event, recordedByName }) => (
+  <div className="space-y-1">
+    <p className="font-semibold">{label} {formatTime(punchedAt)}</p>
+    {!event ? (
+      <p className="text-gray-500">Keine Angaben</p>
+    ) : (
+      <>
+        <p><span className="text-gray-500">Art:</span> {formatPunchMethod(event)}</p>
+        {recordedByName && <p><span className="text-gray-500">Erfasst von:</span> {recordedByName}</p>}
+        {isPunchRecordedLater(event, punchedAt) && (
+          <p><span className="text-gray-500">Erfasst am:</span> {new Date(event.recordedAt).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' })}</p>
+        )}
+        {event.device && <p><span className="text-gray-500">Gerät:</span> {event.device}</p>}
+        {hasPunchLocation(event) && (
+          <p>
+            <span className="text-gray-500">Standort:</span>{' '}
+            <a href={getPunchMapUrl(event)} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{formatPunchLocation(event)}</a>
+          </p>
+        )}
+      </>
+    )}
+  </div>
+);
+
 const getLocalTimeString = (d: Date) => `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
 
-export const EntryDetailModal: React.FC<EntryDetailModalProps> = ({ entry, customers, activities, timeEntries, onClose, onUpdate, onDelete, companySettings, isAdminView }) => {
+export const EntryDetailModal: React.FC<EntryDetailModalProps> = ({ entry, customers, activities, timeEntries, onClose, onUpdate, onDelete, companySettings, isAdminView, monthClosings, auditLog = [], employees = [], isReadOnly = false }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [changeReason, setChangeReason] = useState('');
   const [formData, setFormData] = useState(() => {
     const entryStartDate = new Date(entry.start);
     const entryEndDate = new Date(entry.end);
@@ -59,45 +103,11 @@ export const EntryDetailModal: React.FC<EntryDetailModalProps> = ({ entry, custo
     };
   });
 
-  const isEntryLocked = useMemo(() => {
-    if (isAdminView) {
-        return false;
-    }
-    // Employee view locking logic
-    if (!companySettings) {
-        return false;
-    }
-
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const entryDate = new Date(entry.start);
-    entryDate.setHours(0, 0, 0, 0);
-
-    switch (companySettings.editLockRule) {
-        case 'unlimited':
-            return false;
-            
-        case 'sameDay':
-            return entryDate.getTime() !== today.getTime();
-        
-        case 'previousWeek':
-            const getStartOfWeek = (date: Date): Date => {
-                const d = new Date(date);
-                d.setHours(0, 0, 0, 0);
-                const day = d.getDay();
-                const diff = d.getDate() - day + (day === 0 ? -6 : 1); // adjust when day is sunday
-                return new Date(d.setDate(diff));
-            };
-            const startOfThisWeek = getStartOfWeek(today);
-            const startOfLastWeek = new Date(startOfThisWeek);
-            startOfLastWeek.setDate(startOfLastWeek.getDate() - 7);
-            return entryDate.getTime() < startOfLastWeek.getTime();
-
-        case 'currentMonth':
-        default:
-            return entryDate.getFullYear() !== today.getFullYear() || entryDate.getMonth() !== today.getMonth();
-    }
-  }, [entry, companySettings, isAdminView]);
+  const lockStatus = useMemo(
+    () => getEntryLockStatus(entry.start, companySettings, monthClosings, isAdminView),
+    [entry, companySettings, monthClosings, isAdminView]
+  );
+  const isEntryLocked = isEditBlocked(lockStatus);
 
   useEffect(() => {
     if (entry) {
@@ -114,6 +124,7 @@ export const EntryDetailModal: React.FC<EntryDetailModalProps> = ({ entry, custo
             comment: entry.comment || '',
         });
         setIsEditing(false);
+        setChangeReason('');
     }
   }, [entry]);
   
@@ -137,20 +148,40 @@ export const EntryDetailModal: React.FC<EntryDetailModalProps> = ({ entry, custo
       return;
     }
 
+    const targetLockStatus = getEntryLockStatus(startDateTime, companySettings, monthClosings, isAdminView);
+    if (isEditBlocked(targetLockStatus)) {
+      alert(`Der Eintrag kann nicht auf diesen Tag verschoben werden. ${targetLockStatus.reason}`);
+      return;
+    }
+
     if (isOverlapping(startDateTime, endDateTime, timeEntries, entry.id)) {
       alert('Dieser Zeiteintrag überschneidet sich mit einem bestehenden Eintrag. Bitte korrigieren Sie die Zeiten.');
       return;
     }
 
+    // Recorded pause times only stay valid as long as the entry still covers them.
+    const keepsBreakSegments = (entry.breakSegments || []).every(segment =>
+        new Date(segment.start) >= startDateTime && new Date(segment.end) <= endDateTime)
+        && Number(formData.breakDurationMinutes) >= Math.floor(getBreakSegmentsMinutes(entry.breakSegments));
+
+    // The form only shows minutes; a time left as it was keeps the seconds of the punch, so that it does not count as corrected.
+    const keepIfUnchanged = (edited: Date, original: string) =>
+      Math.floor(edited.getTime() / 60_000) === Math.floor(new Date(original).getTime() / 60_000) ? original : edited.toISOString();
+    const start = keepIfUnchanged(startDateTime, entry.start);
+    const end = keepIfUnchanged(endDateTime, entry.end);
+
     onUpdate({
       ...entry,
-      start: startDateTime.toISOString(),
-      end: endDateTime.toISOString(),
+      start,
+      end,
       breakDurationMinutes: Number(formData.breakDurationMinutes),
+      breakSegments: keepsBreakSegments ? entry.breakSegments : undefined,
+      // A corrected end time replaces the one set by the automatic close.
+      autoClosed: entry.autoClosed && end === entry.end ? true : undefined,
       customerId: formData.customerId,
       activityId: formData.activityId,
       comment: formData.comment || undefined,
-    });
+    }, changeReason);
     handleClose();
   };
 
@@ -167,6 +198,14 @@ export const EntryDetailModal: React.FC<EntryDetailModalProps> = ({ entry, custo
   const customerLabel = companySettings?.customerLabel || 'Kunde';
   const activityLabel = companySettings?.activityLabel || 'Tätigkeit';
 
+  const getRecordedByName = (event?: PunchEvent) => {
+    if (!event || event.recordedBy === undefined) return '';
+    if (event.recordedBy === null) return 'System';
+    const employee = employees.find(e => e.id === event.recordedBy);
+    if (employee) return `${employee.firstName} ${employee.lastName}`;
+    return event.recordedBy === entry.employeeId ? 'Mitarbeiter selbst' : 'Administrator';
+  };
+
   const customerName = customers.find(c => c.id === entry.customerId)?.name || `(${customerLabel} nicht gefunden)`;
   const activityName = activities.find(a => a.id === entry.activityId)?.name || `(${activityLabel} nicht gefunden)`;
   
@@ -179,27 +218,69 @@ export const EntryDetailModal: React.FC<EntryDetailModalProps> = ({ entry, custo
           </button>
 
           {!isEditing ? (
-            <div className="space-y-4">
+            <div className="space-y-4 overflow-y-auto">
               <h2 className="text-xl font-bold pr-8">Eintragsdetails</h2>
               {isEntryLocked && (
                 <div className="p-3 bg-yellow-50 text-yellow-800 border border-yellow-200 rounded-lg text-sm">
-                    Dieser Eintrag ist gesperrt und kann nicht mehr geändert oder gelöscht werden.
+                    <p className="font-semibold">Dieser Eintrag ist gesperrt und kann nicht mehr geändert oder gelöscht werden.</p>
+                    {lockStatus.reason && <p className="mt-1">{lockStatus.reason}</p>}
+                </div>
+              )}
+              {lockStatus.isLocked && lockStatus.canOverride && (
+                <div className="p-3 bg-blue-50 text-blue-800 border border-blue-200 rounded-lg text-sm">
+                    Für Mitarbeiter gesperrt. Als Administrator können Sie den Eintrag trotzdem ändern.
+                </div>
+              )}
+              {entry.autoClosed && (
+                <div className="p-3 bg-orange-50 text-orange-800 border border-orange-200 rounded-lg text-sm">
+                    Die Stempeluhr wurde nicht gestoppt und automatisch beendet. Bitte prüfen Sie die Endzeit.
+                </div>
+              )}
+              {entry.geofenceBreach && (
+                <div className="p-3 bg-red-50 text-red-800 border border-red-200 rounded-lg text-sm">
+                    Die Stempeluhr wurde außerhalb des Bereichs gestoppt: {formatGeofenceBreach(entry.geofenceBreach)}.
                 </div>
               )}
               <div className="space-y-2 text-sm border-t pt-4">
                   <p><strong>Datum:</strong> {new Date(entry.start).toLocaleDateString('de-DE')}</p>
                   <p><strong>Zeit:</strong> {new Date(entry.start).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })} - {new Date(entry.end).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}</p>
                    <p><strong>Pause:</strong> {entry.breakDurationMinutes} m</p>
+                  {entry.breakSegments?.length ? (
+                     <p><strong>Pausenzeiten:</strong> {formatBreakSegments(entry.breakSegments)}</p>
+                  ) : null}
                   <p><strong>{customerLabel}:</strong> {customerName}</p>
                   <p><strong>{activityLabel}:</strong> {activityName}</p>
                   {entry.comment && (
                      <p><strong>Kommentar:</strong> {entry.comment}</p>
                   )}
               </div>
-              <div className="pt-4 border-t flex gap-4">
-                  <Button onClick={handleDelete} className="w-full bg-red-600 hover:bg-red-700 disabled:bg-red-300 disabled:cursor-not-allowed" disabled={isEntryLocked}>Löschen</Button>
-                  <Button onClick={() => setIsEditing(true)} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed" disabled={isEntryLocked}>Bearbeiten</Button>
-              </div>
+              {(entry.clockIn || entry.clockOut) && (
+                <div className="border-t pt-4 text-sm">
+                  <h3 className="font-semibold mb-2">Erfassung</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <PunchEventDetails label="Kommen" punchedAt={entry.start} event={entry.clockIn} recordedByName={getRecordedByName(entry.clockIn)} />
+                    <PunchEventDetails label="Gehen" punchedAt={entry.end} event={entry.clockOut} recordedByName={getRecordedByName(entry.clockOut)} />
+                  </div>
+                </div>
+              )}
+              {auditLog.length > 0 && (
+                <div className="border-t pt-4">
+                  <button type="button" onClick={() => setShowHistory(prev => !prev)} className="text-sm font-semibold text-blue-600 hover:text-blue-800">
+                    {showHistory ? 'Änderungsverlauf ausblenden' : `Änderungsverlauf anzeigen (${auditLog.length})`}
+                  </button>
+                  {showHistory && (
+                    <div className="mt-3 max-h-64 overflow-y-auto pr-1">
+                      <AuditHistoryPanel entries={auditLog} customers={customers} activities={activities} />
+                    </div>
+                  )}
+                </div>
+              )}
+              {!isReadOnly && (
+                <div className="pt-4 border-t flex gap-4">
+                    <Button onClick={handleDelete} className="w-full bg-red-600 hover:bg-red-700 disabled:bg-red-300 disabled:cursor-not-allowed" disabled={isEntryLocked}>Löschen</Button>
+                    <Button onClick={() => setIsEditing(true)} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed" disabled={isEntryLocked}>Bearbeiten</Button>
+                </div>
+              )}
             </div>
           ) : (
             <form onSubmit={handleUpdate} className="flex flex-col flex-grow min-h-0">
@@ -224,6 +305,13 @@ export const EntryDetailModal: React.FC<EntryDetailModalProps> = ({ entry, custo
                         onChange={handleInputChange}
                         rows={3}
                     />
+                   <Textarea
+                        name="changeReason"
+                        label="Grund der Änderung (optional)"
+                        value={changeReason}
+                        onChange={(e) => setChangeReason(e.target.value)}
+                        rows={2}
+                    />
               </div>
               <div className="flex justify-end items-center pt-4 border-t">
                   <div className="flex gap-4">
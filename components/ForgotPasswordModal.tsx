@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
@@ -7,29 +7,30 @@ import { XIcon } from './icons/XIcon';
 interface ForgotPasswordModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onFindPassword: (username: string) => string | null;
+  onRequestReset: (usernameOrEmail: string) => Promise<void>;
 }
 
-export const ForgotPasswordModal: React.FC<ForgotPasswordModalProps> = ({ isOpen, onClose, onFindPassword }) => {
-  const [username, setUsername] = useState('');
-  const [result, setResult] = useState<string | null>(null);
+export const ForgotPasswordModal: React.FC<ForgotPasswordModalProps> = ({ isOpen, onClose, onRequestReset }) => {
+  const [identifier, setIdentifier] = useState('');
+  const [isSent, setIsSent] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [isClosing, setIsClosing] = useState(false);
-  
-  const handleSubmit = (e: React.FormEvent) => {
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const foundPassword = onFindPassword(username);
-    if (foundPassword) {
-      setResult(`Das Passwort für den Admin "${username}" lautet: ${foundPassword}`);
-    } else {
-      setResult(`Kein Admin-Account mit dem Benutzernamen "${username}" gefunden.`);
-    }
+    if (!identifier.trim()) return;
+    setIsSubmitting(true);
+    await onRequestReset(identifier.trim());
+    setIsSubmitting(false);
+    setIsSent(true);
   };
-  
+
   const handleClose = () => {
       setIsClosing(true);
       setTimeout(() => {
-          setUsername('');
-          setResult(null);
+          setIdentifier('');
+          setIsSent(false);
+          setIsClosing(false);
           onClose();
       }, 300);
   }
@@ -43,26 +44,36 @@ export const ForgotPasswordModal: React.FC<ForgotPasswordModalProps> = ({ isOpen
           <XIcon className="h-6 w-6" />
         </button>
         <form onSubmit={handleSubmit} className="space-y-4">
-          <h2 className="text-xl font-bold text-center">Passwort wiederherstellen</h2>
-          <p className="text-sm text-center text-gray-600">Geben Sie den Benutzernamen des Admins ein, um das Passwort anzuzeigen (Demo).</p>
-          <Input 
-            label="Admin-Benutzername" 
-            type="text" 
-            value={username} 
-            onChange={(e) => setUsername(e.target.value)} 
-            required
-            autoFocus 
-          />
-          {result && (
+          <h2 className="text-xl font-bold text-center">Passwort zurücksetzen</h2>
+          {isSent ? (
+            <>
+              {/* Deliberately the same message whether or not the account exists. */}
               <div className="p-3 bg-blue-50 border border-blue-200 text-blue-800 rounded-md text-sm">
-                  {result}
+                Falls ein Konto mit hinterlegter E-Mail-Adresse existiert, wurde ein Link zum Zurücksetzen versendet. Der Link ist eine Stunde gültig.
+                Ohne E-Mail-Adresse wenden Sie sich bitte an Ihren Administrator.
+              </div>
+              <Button type="button" onClick={handleClose} className="w-full bg-blue-600 hover:bg-blue-700">
+                Schließen
+              </Button>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-center text-gray-600">Geben Sie Ihren Benutzernamen oder Ihre E-Mail-Adresse ein. Sie erhalten einen Link, mit dem Sie ein neues Passwort festlegen.</p>
+              <Input
+                label="Benutzername oder E-Mail"
+                type="text"
+                value={identifier}
+                onChange={(e) => setIdentifier(e.target.value)}
+                required
+                autoFocus
+              />
+              <div className="flex gap-4 pt-2">
+                <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300" disabled={isSubmitting}>
+                  {isSubmitting ? 'Wird gesendet...' : 'Link anfordern'}
+                </Button>
               </div>
+            </>
           )}
-          <div className="flex gap-4 pt-2">
-            <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700">
-              Passwort anzeigen
-            </Button>
-          </div>
         </form>
       </Card>
     </div>
@@ -0,0 +1,325 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { Employee, Customer, Activity, CompanySettings, OpenPunch, TimeEntry } from '../types';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
+import { PlayIcon } from './icons/PlayIcon';
+import { StopIcon } from './icons/StopIcon';
+import { LockClosedIcon } from './icons/LockClosedIcon';
+import { KIOSK_IDLE_LOGOUT_SECONDS, type LoginFailure } from '../services/auth';
+
+interface KioskScreenProps {
+  employees: Employee[];
+  customers: Customer[];
+  activities: Activity[];
+  timeEntries: TimeEntry[];
+  companySettings: CompanySettings;
+  // Employee who is logged in for a single action
+  currentEmployee: Employee | null;
+  openPunch: OpenPunch | null;
+  elapsedTime: number;
+  onPinLogin: (employeeId: number, pin: string) => Promise<LoginFailure | null>;
+  onStart: (customerId: string, activityId: string) => string | null; // error message
+  onStop: () => boolean;
+  onLogout: () => void;
+  onExit: (username: string, password: string) => Promise<LoginFailure | null>;
+}
+
+const CONFIRMATION_SECONDS = 3;
+const PIN_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const formatClock = (date: Date) => date.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Shared terminal for clocking in and out. Employees log in with their PIN or badge for a single action;
+ * afterwards, or after a short time without input, the terminal returns to the employee selection.
+ */
+export const KioskScreen: React.FC<KioskScreenProps> = ({
+  employees, customers, activities, timeEntries, companySettings,
+  currentEmployee, openPunch, elapsedTime,
+  onPinLogin, onStart, onStop, onLogout, onExit,
+}) => {
+  const [now, setNow] = useState(() => new Date());
+  const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [customerId, setCustomerId] = useState('');
+  const [activityId, setActivityId] = useState('');
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+  const [isExitFormOpen, setIsExitFormOpen] = useState(false);
+  const [adminUsername, setAdminUsername] = useState('');
+  const [adminPassword, setAdminPassword] = useState('');
+  const lastInputAtRef = useRef(Date.now());
+
+  const customerLabel = companySettings.customerLabel || 'Zeitkategorie 1';
+  const activityLabel = companySettings.activityLabel || 'Zeitkategorie 2';
+  const activeEmployees = employees
+    .filter(e => e.isActive)
+    .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName));
+  const isNfcSupported = 'NDEFReader' in window;
+
+  const resetSelection = () => {
+    setSelectedEmployee(null);
+    setPin('');
+    setError(null);
+    setIsExitFormOpen(false);
+    setAdminUsername('');
+    setAdminPassword('');
+  };
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Any input at the terminal restarts the idle countdown.
+  useEffect(() => {
+    const handleInput = () => { lastInputAtRef.current = Date.now(); };
+    const events = ['pointerdown', 'keydown'];
+    events.forEach(event => window.addEventListener(event, handleInput));
+    return () => events.forEach(event => window.removeEventListener(event, handleInput));
+  }, []);
+
+  // Without input, a logged-in employee is logged out and an unfinished PIN entry is discarded.
+  useEffect(() => {
+    if (!currentEmployee && !selectedEmployee && !isExitFormOpen) return;
+    if (now.getTime() - lastInputAtRef.current < KIOSK_IDLE_LOGOUT_SECONDS * 1000) return;
+    resetSelection();
+    if (currentEmployee) onLogout();
+  }, [now, currentEmployee, selectedEmployee, isExitFormOpen, onLogout]);
+
+  // A new employee starts with the selection of their last entry.
+  useEffect(() => {
+    setConfirmation(null);
+    resetSelection();
+    if (!currentEmployee) return;
+    const lastEntry = timeEntries
+      .filter(e => e.employeeId === currentEmployee.id)
+      .reduce((latest: TimeEntry | null, entry: TimeEntry) => !latest || entry.start > latest.start ? entry : latest, null);
+    setCustomerId(lastEntry && customers.some(c => c.id === lastEntry.customerId) ? lastEntry.customerId : '');
+    setActivityId(lastEntry && activities.some(a => a.id === lastEntry.activityId) ? lastEntry.activityId : '');
+    lastInputAtRef.current = Date.now();
+  }, [currentEmployee?.id]);
+
+  // The confirmation stays visible briefly, then the terminal is free for the next employee.
+  useEffect(() => {
+    if (!confirmation) return;
+    const timer = setTimeout(onLogout, CONFIRMATION_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [confirmation, onLogout]);
+
+  const handlePinSubmit = async () => {
+    if (!selectedEmployee || !pin || isSubmitting) return;
+    setIsSubmitting(true);
+    const failure = await onPinLogin(selectedEmployee.id, pin);
+    setIsSubmitting(false);
+    setPin('');
+    setError(failure ? (failure.lockedUntil ? `${failure.message} Gesperrt bis ${formatClock(new Date(failure.lockedUntil))} Uhr.` : failure.message) : null);
+  };
+
+  const handlePinKey = (key: string) => {
+    setError(null);
+    if (key === 'clear') setPin('');
+    else if (key === 'back') setPin(prev => prev.slice(0, -1));
+    else setPin(prev => (prev.length < 8 ? prev + key : prev));
+  };
+
+  const handleExitSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    const failure = await onExit(adminUsername, adminPassword);
+    setIsSubmitting(false);
+    if (failure) {
+      setAdminPassword('');
+      setError(failure.message);
+    }
+  };
+
+  const handleStart = () => {
+    if (!customerId || !activityId) {
+      setError(`Bitte wählen Sie ${customerLabel} und ${activityLabel} aus.`);
+      return;
+    }
+    const startError = onStart(customerId, activityId);
+    if (startError) {
+      setError(startError);
+      return;
+    }
+    setConfirmation(`Kommen um ${formatClock(new Date())} Uhr gebucht.`);
+  };
+
+  const handleStop = () => {
+    if (!onStop()) {
+      setError('Die Zeit konnte nicht gebucht werden. Bitte wenden Sie sich an die Verwaltung.');
+      return;
+    }
+    setConfirmation(`Gehen um ${formatClock(new Date())} Uhr gebucht. Arbeitszeit: ${formatTime(elapsedTime)}.`);
+  };
+
+  const renderEmployeeAction = (employee: Employee) => {
+    if (confirmation) {
+      return (
+        <div className="flex flex-col items-center gap-4 py-8 text-center">
+          <CheckCircleIcon className="h-20 w-20 text-green-500" />
+          <p className="text-2xl font-bold">{employee.firstName} {employee.lastName}</p>
+          <p className="text-lg text-gray-700">{confirmation}</p>
+          <p className="text-sm text-gray-500">Sie werden automatisch abgemeldet.</p>
+        </div>
+      );
+    }
+    const runningCustomer = customers.find(c => c.id === openPunch?.customerId)?.name;
+    const runningActivity = activities.find(a => a.id === openPunch?.activityId)?.name;
+    return (
+      <div className="space-y-6">
+        <div className="text-center">
+          <p className="text-sm text-gray-500">Angemeldet</p>
+          <p className="text-2xl font-bold">{employee.firstName} {employee.lastName}</p>
+        </div>
+        {openPunch ? (
+          <div className="text-center space-y-2">
+            <div className={`text-5xl font-mono font-bold tracking-wider rounded-lg p-4 ${openPunch.pauseStart ? 'text-yellow-700 bg-yellow-50' : 'text-gray-800 bg-gray-100'}`}>
+              {formatTime(elapsedTime)}
+            </div>
+            <p className="text-gray-600">
+              Seit {formatClock(new Date(openPunch.start))} Uhr · {runningCustomer || '-'} / {runningActivity || '-'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Select label={customerLabel} value={customerId} onChange={(e) => setCustomerId(e.target.value)} className="h-12 text-base">
+              <option value="">Auswählen...</option>
+              {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </Select>
+            <Select label={activityLabel} value={activityId} onChange={(e) => setActivityId(e.target.value)} className="h-12 text-base">
+              <option value="">Auswählen...</option>
+              {activities.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </Select>
+          </div>
+        )}
+        {error && <div className="p-3 bg-red-50 text-red-800 border border-red-200 rounded-lg text-sm text-center">{error}</div>}
+        <Button
+          onClick={openPunch ? handleStop : handleStart}
+          className={`w-full h-28 text-3xl font-bold flex items-center justify-center gap-4 ${openPunch ? 'bg-red-500 hover:bg-red-600' : 'bg-green-500 hover:bg-green-600'}`}
+        >
+          {openPunch ? <StopIcon className="h-10 w-10" /> : <PlayIcon className="h-10 w-10" />}
+          {openPunch ? 'Gehen' : 'Kommen'}
+        </Button>
+        <Button onClick={onLogout} className="w-full bg-gray-500 hover:bg-gray-600">Abbrechen</Button>
+      </div>
+    );
+  };
+
+  const renderPinPad = (employee: Employee) => (
+    <div className="space-y-6 max-w-xs mx-auto">
+      <div className="text-center">
+        <p className="text-2xl font-bold">{employee.firstName} {employee.lastName}</p>
+        <p className="text-sm text-gray-500">Bitte geben Sie Ihre PIN ein.</p>
+      </div>
+      <div className="h-12 flex items-center justify-center gap-3" aria-label="PIN">
+        {pin.length > 0
+          ? pin.split('').map((_, index) => <span key={index} className="h-4 w-4 rounded-full bg-gray-800" />)
+          : <span className="text-gray-400">&nbsp;</span>}
+      </div>
+      {error && <div className="p-3 bg-red-50 text-red-800 border border-red-200 rounded-lg text-sm text-center">{error}</div>}
+      <div className="grid grid-cols-3 gap-3">
+        {PIN_KEYS.map(key => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => handlePinKey(key)}
+            disabled={isSubmitting}
+            className="h-16 rounded-lg bg-gray-100 hover:bg-gray-200 text-2xl font-semibold disabled:opacity-50"
+          >
+            {key === 'clear' ? 'C' : key === 'back' ? '⌫' : key}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <Button onClick={resetSelection} className="bg-gray-500 hover:bg-gray-600">Zurück</Button>
+        <Button onClick={handlePinSubmit} disabled={!pin || isSubmitting} className="bg-blue-600 hover:bg-blue-700">Anmelden</Button>
+      </div>
+    </div>
+  );
+
+  const renderExitForm = () => (
+    <form onSubmit={handleExitSubmit} className="space-y-4 max-w-sm mx-auto">
+      <h2 className="text-xl font-bold text-center">Kiosk-Modus beenden</h2>
+      <p className="text-sm text-gray-500 text-center">Melden Sie sich als Administrator an, um das Gerät wieder normal zu verwenden.</p>
+      <Input name="username" label="Benutzername" value={adminUsername} onChange={(e) => setAdminUsername(e.target.value)} autoComplete="off" required />
+      <Input name="password" label="Passwort" type="password" value={adminPassword} onChange={(e) => setAdminPassword(e.target.value)} autoComplete="off" required />
+      {error && <div className="p-3 bg-red-50 text-red-800 border border-red-200 rounded-lg text-sm">{error}</div>}
+      <div className="grid grid-cols-2 gap-3">
+        <Button type="button" onClick={resetSelection} className="bg-gray-500 hover:bg-gray-600">Abbrechen</Button>
+        <Button type="submit" disabled={isSubmitting} className="bg-blue-600 hover:bg-blue-700">Beenden</Button>
+      </div>
+    </form>
+  );
+
+  const renderEmployeeSelection = () => (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-xl font-bold">Wer stempelt?</h2>
+        {isNfcSupported && <p className="text-sm text-gray-500">Wählen Sie Ihren Namen oder halten Sie Ihren Ausweis an das Gerät.</p>}
+      </div>
+      {activeEmployees.length > 0 ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+          {activeEmployees.map(employee => (
+            <button
+              key={employee.id}
+              type="button"
+              onClick={() => { setSelectedEmployee(employee); setPin(''); setError(null); }}
+              className="h-20 rounded-lg border bg-white hover:bg-blue-50 hover:border-blue-300 font-semibold text-lg px-2 truncate"
+            >
+              {employee.firstName} {employee.lastName}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-center text-gray-500">Keine aktiven Mitarbeiter vorhanden.</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="h-[100dvh] w-full overflow-y-auto bg-gray-100 flex flex-col">
+      <header className="flex-none bg-white shadow-md px-4 py-4 flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900 truncate pr-2">{companySettings.companyName || 'Zeiterfassung'}</h1>
+        <div className="text-right">
+          <p className="text-3xl font-mono font-bold">{formatClock(now)}</p>
+          <p className="text-sm text-gray-500">{now.toLocaleDateString('de-DE', { weekday: 'long', day: '2-digit', month: '2-digit', year: 'numeric' })}</p>
+        </div>
+      </header>
+      <main className="flex-1 w-full max-w-4xl mx-auto p-4">
+        <Card>
+          {currentEmployee
+            ? renderEmployeeAction(currentEmployee)
+            : isExitFormOpen
+            ? renderExitForm()
+            : selectedEmployee
+            ? renderPinPad(selectedEmployee)
+            : renderEmployeeSelection()}
+        </Card>
+      </main>
+      {!currentEmployee && !isExitFormOpen && (
+        <footer className="flex-none p-4 flex justify-end">
+          <button type="button" onClick={() => { resetSelection(); setIsExitFormOpen(true); }} className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-700">
+            <LockClosedIcon className="h-4 w-4" />
+            Kiosk beenden
+          </button>
+        </footer>
+      )}
+    </div>
+  );
+};
@@ -1,24 +1,42 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import type { Employee } from '../types';
 import { ForgotPasswordModal } from './ForgotPasswordModal';
+import type { LoginFailure } from '../services/auth';
 
 interface LoginScreenProps {
-  onLogin: (username: string, password: string) => string | null;
+  onLogin: (username: string, password: string) => Promise<LoginFailure | null>;
   onSwitchToRegister: () => void;
+  onRequestPasswordReset: (usernameOrEmail: string) => Promise<void>;
   employees: Employee[];
+  notice?: string | null; // e.g. the reason for an automatic logout
 }
 
-export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSwitchToRegister, employees }) => {
+const formatLockTime = (iso: string) => new Date(iso).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSwitchToRegister, onRequestPasswordReset, employees, notice }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [isForgotModalOpen, setIsForgotModalOpen] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Re-enable the form as soon as the lockout is over.
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setTimeout(() => {
+        setLockedUntil(null);
+        setError(null);
+    }, Math.max(0, new Date(lockedUntil).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [lockedUntil]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (isSubmitting || lockedUntil) return;
     setError(null); // Reset error on new submission
     if (!username) {
         setError("Bitte geben Sie einen Benutznamen ein.");
@@ -28,20 +46,20 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSwitchToReg
         setError("Bitte geben Sie ein Passwort ein.");
         return;
     }
-    const errorMsg = onLogin(username, password);
-    if (errorMsg) {
-      setError(errorMsg);
+    setIsSubmitting(true);
+    const failure = await onLogin(username, password);
+    setIsSubmitting(false);
+    if (failure) {
+      setPassword('');
+      if (failure.lockedUntil) {
+        setLockedUntil(failure.lockedUntil);
+        setError(`${failure.message} Anmeldung wieder möglich ab ${formatLockTime(failure.lockedUntil)} Uhr.`);
+      } else {
+        setError(failure.message);
+      }
     }
   };
 
-  const handleForgotPassword = (username: string): string | null => {
-    const user = employees.find(e => e.username.toLowerCase() === username.toLowerCase());
-    if (user && user.role === 'admin') {
-        return user.password || 'Kein Passwort für diesen Admin-Account hinterlegt.';
-    }
-    return null;
-  };
-
   const hasAdminAccount = employees.some(e => e.role === 'admin');
 
   return (
@@ -49,6 +67,11 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSwitchToReg
       <div className="min-h-screen bg-gray-100 flex items-start sm:items-center justify-center p-4 pt-16 sm:pt-4 relative z-50">
         <Card className="w-full max-w-sm">
           <h1 className="text-2xl font-bold text-center text-gray-800 mb-6">Willkommen bei TimePro</h1>
+          {notice && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-200 text-blue-800 rounded-md text-sm text-center">
+              {notice}
+            </div>
+          )}
           <form onSubmit={handleSubmit} className="space-y-4" noValidate>
             <Input 
               label="Benutzername"
@@ -72,8 +95,8 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSwitchToReg
               <p className="text-sm text-red-600 text-center h-10 flex items-center justify-center">
                 {error || '\u00A0'}
               </p>
-              <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700">
-                Anmelden
+              <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed" disabled={isSubmitting || !!lockedUntil}>
+                {isSubmitting ? 'Wird geprüft...' : 'Anmelden'}
               </Button>
             </div>
           </form>
@@ -97,7 +120,7 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, onSwitchToReg
       <ForgotPasswordModal
         isOpen={isForgotModalOpen}
         onClose={() => setIsForgotModalOpen(false)}
-        onFindPassword={handleForgotPassword}
+        onRequestReset={onRequestPasswordReset}
       />
     </>
   );
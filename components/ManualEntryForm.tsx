@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import type { TimeEntry, Customer, Activity, CompanySettings, AbsenceRequest } from '../types';
+import type { TimeEntry, Customer, Activity, CompanySettings, AbsenceRequest, MonthClosing, HolidaysByYear, ComplianceViolation, Employee } from '../types';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { SelectionModal } from './ui/SelectionModal';
@@ -8,6 +8,9 @@ import { CalendarModal } from './ui/CalendarModal';
 import { DateSelectorButton } from './ui/DateSelectorButton';
 import { Textarea } from './ui/Textarea';
 import { InfoModal } from './ui/InfoModal';
+import { getEntryLockStatus, isEditBlocked } from './editLockPolicy';
+import { checkEntryCompliance, COMPLIANCE_RULE_LABELS } from './complianceRules';
+import { applyAutomaticBreaks } from './breakRules';
 
 interface ManualEntryFormProps {
   addTimeEntry: (entry: Omit<TimeEntry, 'id' | 'employeeId'>) => void;
@@ -20,6 +23,11 @@ interface ManualEntryFormProps {
   companySettings: CompanySettings;
   onSuccess?: () => void;
   isModal?: boolean;
+  isAdminView?: boolean;
+  monthClosings?: MonthClosing[];
+  holidaysByYear?: HolidaysByYear;
+  onEnsureHolidaysForYear?: (year: number) => void;
+  employee?: Employee; // the employee the entry is for; their break rules are used for the compliance check
 }
 
 const isOverlapping = (newStart: Date, newEnd: Date, existingEntries: TimeEntry[]): boolean => {
@@ -48,7 +56,7 @@ const formatDate = (dateString: string) => {
     });
 };
 
-export const ManualEntryForm: React.FC<ManualEntryFormProps> = ({ addTimeEntry, timeEntries, customers, activities, absenceRequests, onCancel, initialDate, companySettings, onSuccess, isModal = false }) => {
+export const ManualEntryForm: React.FC<ManualEntryFormProps> = ({ addTimeEntry, timeEntries, customers, activities, absenceRequests, onCancel, initialDate, companySettings, onSuccess, isModal = false, isAdminView = false, monthClosings = [], holidaysByYear = {}, onEnsureHolidaysForYear, employee }) => {
   const [date, setDate] = useState(initialDate || new Date().toLocaleDateString('sv-SE'));
   const [startTime, setStartTime] = useState('08:00');
   const [endTime, setEndTime] = useState('17:00');
@@ -61,7 +69,12 @@ export const ManualEntryForm: React.FC<ManualEntryFormProps> = ({ addTimeEntry,
   const [isCustomerModalOpen, setIsCustomerModalOpen] = useState(false);
   const [isActivityModalOpen, setIsActivityModalOpen] = useState(false);
   const [infoModal, setInfoModal] = useState({ isOpen: false, title: '', message: '' });
+  // Set after a save attempt that breaks working time rules; saving again confirms the entry.
+  const [complianceWarnings, setComplianceWarnings] = useState<ComplianceViolation[] | null>(null);
   
+  const lockStatus = getEntryLockStatus(date, companySettings, monthClosings, isAdminView);
+  const isDateLocked = isEditBlocked(lockStatus);
+
   const customerLabel = companySettings.customerLabel || 'Zeitkategorie 1';
   const activityLabel = companySettings.activityLabel || 'Zeitkategorie 2';
 
@@ -70,6 +83,14 @@ export const ManualEntryForm: React.FC<ManualEntryFormProps> = ({ addTimeEntry,
     setDate(initialDate || new Date().toLocaleDateString('sv-SE'));
   }, [initialDate]);
 
+  useEffect(() => {
+    onEnsureHolidaysForYear?.(parseInt(date.substring(0, 4), 10));
+  }, [date, onEnsureHolidaysForYear]);
+
+  useEffect(() => {
+    setComplianceWarnings(null);
+  }, [date, startTime, endTime, breakDurationMinutes]);
+
   // Logic to set Start Time based on previous entries
   useEffect(() => {
     const entriesForDate = timeEntries.filter(entry => 
@@ -118,6 +139,11 @@ export const ManualEntryForm: React.FC<ManualEntryFormProps> = ({ addTimeEntry,
       return;
     }
 
+    if (isDateLocked) {
+        setInfoModal({ isOpen: true, title: 'Zeitraum gesperrt', message: lockStatus.reason || 'Für diesen Tag können keine Einträge mehr erfasst werden.' });
+        return;
+    }
+
     const existingAbsence = absenceRequests.find(req => 
         req.status !== 'rejected' &&
         date >= req.startDate &&
@@ -142,7 +168,7 @@ export const ManualEntryForm: React.FC<ManualEntryFormProps> = ({ addTimeEntry,
         return;
     }
 
-    addTimeEntry({
+    const newEntry: Omit<TimeEntry, 'id' | 'employeeId'> = {
       start: startDateTime.toISOString(),
       end: endDateTime.toISOString(),
       customerId,
@@ -150,7 +176,20 @@ export const ManualEntryForm: React.FC<ManualEntryFormProps> = ({ addTimeEntry,
       breakDurationMinutes: Number(breakDurationMinutes) || 0,
       type: 'manual',
       comment: comment || undefined,
-    });
+    };
+
+    if (!complianceWarnings) {
+        // Checked as it will be saved, i.e. including an automatically deducted break.
+        const entryToCheck = employee ? applyAutomaticBreaks(newEntry, employee, companySettings) : newEntry;
+        const violations = checkEntryCompliance(entryToCheck, timeEntries, holidaysByYear[startDateTime.getFullYear()] || [], companySettings, employee);
+        if (violations.length > 0) {
+            setComplianceWarnings(violations);
+            return;
+        }
+    }
+
+    addTimeEntry(newEntry);
+    setComplianceWarnings(null);
 
     onSuccess?.();
     
@@ -195,6 +234,12 @@ export const ManualEntryForm: React.FC<ManualEntryFormProps> = ({ addTimeEntry,
           onClick={() => setIsDatePickerOpen(true)}
           placeholder="Auswählen..."
       />
+      {isDateLocked && (
+          <div className="p-3 bg-yellow-50 text-yellow-800 border border-yellow-200 rounded-lg text-sm">
+              <p className="font-semibold">Dieser Tag ist gesperrt.</p>
+              <p className="mt-1">{lockStatus.reason}</p>
+          </div>
+      )}
       
       <div className="grid grid-cols-2 gap-4">
           <Input 
@@ -234,6 +279,19 @@ export const ManualEntryForm: React.FC<ManualEntryFormProps> = ({ addTimeEntry,
           onChange={(e) => setComment(e.target.value)}
           rows={2}
       />
+      {complianceWarnings && (
+          <div className="p-3 bg-red-50 text-red-800 border border-red-200 rounded-lg text-sm">
+              <p className="font-semibold">Der Eintrag verstößt gegen das Arbeitszeitgesetz:</p>
+              <ul className="mt-1 space-y-1 list-disc list-inside">
+                  {complianceWarnings.map((violation, index) => (
+                      <li key={index}>
+                          <span className="font-medium">{COMPLIANCE_RULE_LABELS[violation.rule]}:</span> {violation.message}
+                      </li>
+                  ))}
+              </ul>
+              <p className="mt-2">Bitte prüfen Sie die Zeiten oder speichern Sie erneut, um den Eintrag trotzdem zu erfassen.</p>
+          </div>
+      )}
     </>
   );
 
@@ -244,8 +302,8 @@ export const ManualEntryForm: React.FC<ManualEntryFormProps> = ({ addTimeEntry,
           Abbrechen
         </Button>
       )}
-      <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 text-white">
-        Speichern
+      <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 text-white disabled:bg-blue-300 disabled:cursor-not-allowed" disabled={isDateLocked}>
+        {complianceWarnings ? 'Trotzdem speichern' : 'Speichern'}
       </Button>
     </>
   );
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import ReactDOM from 'react-dom';
-import type { TimeEntry, Customer, Activity, CompanySettings, AbsenceRequest } from '../types';
+import type { TimeEntry, Customer, Activity, CompanySettings, AbsenceRequest, MonthClosing, HolidaysByYear, Employee } from '../types';
 import { Card } from './ui/Card';
 import { XIcon } from './icons/XIcon';
 import { ManualEntryForm } from './ManualEntryForm';
@@ -16,6 +16,10 @@ interface ManualEntryFormModalProps {
   absenceRequests: AbsenceRequest[];
   onSuccess: () => void;
   initialDate?: string | null;
+  monthClosings?: MonthClosing[];
+  holidaysByYear?: HolidaysByYear;
+  onEnsureHolidaysForYear?: (year: number) => void;
+  employee?: Employee;
 }
 
 export const ManualEntryFormModal: React.FC<ManualEntryFormModalProps> = ({
@@ -29,6 +33,10 @@ export const ManualEntryFormModal: React.FC<ManualEntryFormModalProps> = ({
     absenceRequests,
     onSuccess,
     initialDate,
+    monthClosings,
+    holidaysByYear,
+    onEnsureHolidaysForYear,
+    employee,
 }) => {
     const [isClosing, setIsClosing] = useState(false);
 
@@ -57,6 +65,10 @@ export const ManualEntryFormModal: React.FC<ManualEntryFormModalProps> = ({
                         onSuccess={onSuccess}
                         absenceRequests={absenceRequests}
                         initialDate={initialDate}
+                        monthClosings={monthClosings}
+                        holidaysByYear={holidaysByYear}
+                        onEnsureHolidaysForYear={onEnsureHolidaysForYear}
+                        employee={employee}
                     />
                 </div>
             </Card>
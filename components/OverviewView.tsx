@@ -1,15 +1,18 @@
 import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
-import type { TimeEntry, Customer, Activity, UserAccount, Employee, AbsenceRequest, Holiday, CompanySettings, HolidaysByYear, TimeBalanceAdjustment, WeeklySchedule } from '../types';
+import type { TimeEntry, Customer, Activity, UserAccount, Employee, AbsenceRequest, Holiday, CompanySettings, HolidaysByYear, TimeBalanceAdjustment, WeeklySchedule, MonthClosing } from '../types';
 import { Card } from './ui/Card';
 import { DocumentArrowDownIcon } from './icons/DocumentArrowDownIcon';
 import { TimesheetExportModal } from './admin/TimesheetExportModal';
-import { formatHoursAndMinutes, exportTimesheet, calculateBalance, getContractDetailsForDate, calculateAbsenceDaysInMonth, exportTimesheetAsPdf, calculateMonthlyBreakdown } from './utils';
+import { formatHoursAndMinutes, exportTimesheet, calculateBalance, exportTimesheetAsPdf, calculateMonthlyBreakdown, formatAbsencePortion } from './utils';
 import { ChevronLeftIcon } from './icons/ChevronLeftIcon';
 import { ChevronRightIcon } from './icons/ChevronRightIcon';
 import { Button } from './ui/Button';
 import { ConfirmModal } from './ui/ConfirmModal';
 import { AbsenceType, TargetHoursModel } from '../types';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
+import { AbsenceApprovalHistory } from './AbsenceApprovalHistory';
+import { getAbsenceApprovalState, describeAbsenceApprovalStep } from './absenceApproval';
+import { getVacationStatement, countVacationDays, formatVacationDays } from './vacationLedger';
 
 interface OverviewViewProps {
   currentUser: Employee;
@@ -18,10 +21,12 @@ interface OverviewViewProps {
   activities: Activity[];
   userAccount: UserAccount;
   absenceRequests: AbsenceRequest[];
+  employees: Employee[]; // names in the approval history
   holidaysByYear: HolidaysByYear;
   selectedState: string;
   companySettings: CompanySettings;
   timeBalanceAdjustments: TimeBalanceAdjustment[];
+  monthClosings: MonthClosing[];
   onRetractAbsenceRequest: (id: number) => void;
   onEnsureHolidaysForYear: (year: number) => void;
 }
@@ -43,7 +48,7 @@ const getAbsenceStyle = (type: AbsenceType) => {
 };
 
 export const OverviewView: React.FC<OverviewViewProps> = (props) => {
-    const { currentUser, userAccount, absenceRequests, timeEntries, timeBalanceAdjustments, holidaysByYear, companySettings, onRetractAbsenceRequest, onEnsureHolidaysForYear, customers, activities, selectedState } = props;
+    const { currentUser, userAccount, absenceRequests, employees, timeEntries, timeBalanceAdjustments, holidaysByYear, companySettings, onRetractAbsenceRequest, onEnsureHolidaysForYear, customers, activities, selectedState, monthClosings } = props;
     
     const [isExportModalOpen, setIsExportModalOpen] = useState(false);
     const [balanceDate, setBalanceDate] = useState(new Date(2026, 0, 1)); // Start in mock year for consistency
@@ -115,42 +120,21 @@ export const OverviewView: React.FC<OverviewViewProps> = (props) => {
         const year = balanceDate.getFullYear();
         const month = balanceDate.getMonth();
         onEnsureHolidaysForYear(year);
+        onEnsureHolidaysForYear(year - 1);
 
-        const holidaysForYear = holidaysByYear[year] || [];
-        
-        // Dynamically calculate entitlement and carryover based on the view's current date state
-        const contractForYear = getContractDetailsForDate(currentUser, new Date(year, 6, 1)); // Mid-year for safety
-        const annualEntitlement = contractForYear.vacationDays;
-
-        const previousYear = year - 1;
-        const carryover = currentUser.vacationCarryover?.[previousYear] || 0;
-        
-        const totalAvailable = annualEntitlement + carryover;
-
-        let vacationTakenBeforeThisMonth = 0;
-        for (let i = 0; i < month; i++) {
-            const monthAbsences = calculateAbsenceDaysInMonth(currentUser.id, absenceRequests.filter(r => r.type === AbsenceType.Vacation && r.status === 'approved'), year, i, holidaysForYear);
-            vacationTakenBeforeThisMonth += monthAbsences.vacationDays;
-        }
-
-        const thisMonthApprovedAbsences = calculateAbsenceDaysInMonth(currentUser.id, absenceRequests.filter(r => r.type === AbsenceType.Vacation && r.status === 'approved'), year, month, holidaysForYear);
-        const vacationTakenThisMonth = thisMonthApprovedAbsences.vacationDays;
-
-        const thisMonthPendingAbsences = calculateAbsenceDaysInMonth(currentUser.id, absenceRequests.filter(r => r.type === AbsenceType.Vacation && r.status === 'pending'), year, month, holidaysForYear);
-        const pendingThisMonth = thisMonthPendingAbsences.vacationDays;
-
-        const remainingAtEndOfMonth = totalAvailable - vacationTakenBeforeThisMonth - vacationTakenThisMonth;
+        // The statement as of the end of the viewed month, so later months count as planned.
+        const monthEnd = new Date(year, month + 1, 0);
+        const statement = getVacationStatement(currentUser, year, absenceRequests, holidaysByYear, companySettings, monthEnd);
+        const approved = absenceRequests.filter(r => r.status === 'approved');
+        const vacationTakenThisMonth = countVacationDays(currentUser, approved, new Date(year, month, 1).toLocaleDateString('sv-SE'), monthEnd.toLocaleDateString('sv-SE'), holidaysByYear);
 
         return {
-            annualEntitlement,
-            carryover,
-            totalAvailable,
-            vacationTakenBeforeThisMonth,
+            ...statement,
+            totalAvailable: statement.entitlement + statement.carryover - statement.expired,
+            vacationTakenBeforeThisMonth: statement.taken - vacationTakenThisMonth,
             vacationTakenThisMonth,
-            pendingThisMonth,
-            remainingAtEndOfMonth,
         };
-    }, [balanceDate, currentUser, absenceRequests, holidaysByYear, onEnsureHolidaysForYear]);
+    }, [balanceDate, currentUser, absenceRequests, holidaysByYear, companySettings, onEnsureHolidaysForYear]);
 
 
     const monthlyBalanceDetails = useMemo(() => {
@@ -166,9 +150,10 @@ export const OverviewView: React.FC<OverviewViewProps> = (props) => {
             timeEntries,
             absenceRequests,
             timeBalanceAdjustments,
-            holidaysByYear
+            holidaysByYear,
+            monthClosings
         );
-    }, [balanceDate, currentUser, timeEntries, absenceRequests, timeBalanceAdjustments, holidaysByYear, onEnsureHolidaysForYear]);
+    }, [balanceDate, currentUser, timeEntries, absenceRequests, timeBalanceAdjustments, holidaysByYear, monthClosings, onEnsureHolidaysForYear]);
 
     const handleConfirmExport = (selectedEmployees: Employee[], year: number, selectedMonths: number[], format: 'excel' | 'pdf') => {
       selectedMonths.forEach(month => {
@@ -181,6 +166,7 @@ export const OverviewView: React.FC<OverviewViewProps> = (props) => {
               companySettings,
               holidays: holidaysByYear[year] || [],
               timeFormat,
+              monthClosings,
           };
           if (format === 'pdf') {
             exportTimesheetAsPdf(exportParams);
@@ -229,6 +215,12 @@ export const OverviewView: React.FC<OverviewViewProps> = (props) => {
                         )}
                         <div className="flex justify-between border-t pt-2 mt-2"><span className="font-semibold">Gesamtstunden (Plus)</span><span className="font-semibold">{formatHoursAndMinutes(monthlyBalanceDetails.totalCredited, timeFormat)}</span></div>
                         <div className="flex justify-between"><span className="text-gray-600">Soll-Stunden</span><span>{formatHoursAndMinutes(monthlyBalanceDetails.targetHours, timeFormat)}</span></div>
+                        {(monthlyBalanceDetails.timeOffHours ?? 0) > 0 && (
+                            <div className="flex justify-between text-xs">
+                                <span className="text-gray-500">davon Freizeitausgleich (vom Stundenkonto)</span>
+                                <span className="text-red-600">{formatHoursAndMinutes(-(monthlyBalanceDetails.timeOffHours ?? 0), timeFormat)}</span>
+                            </div>
+                        )}
                         
                         {/* --- Balance Summary --- */}
                         <div className="flex justify-between border-t pt-2 mt-2">
@@ -254,15 +246,27 @@ export const OverviewView: React.FC<OverviewViewProps> = (props) => {
                     <h2 className="text-xl font-bold">Urlaubsübersicht</h2>
                     <ChevronDownIcon className={`h-6 w-6 text-gray-400 transition-transform duration-300 ${isVacationOpen ? 'rotate-180' : ''}`} />
                 </div>
-                <div id="vacation-details" className={`transition-all duration-300 ease-in-out overflow-hidden ${isVacationOpen ? 'max-h-[500px] mt-4' : 'max-h-0 mt-0'}`}>
+                <div id="vacation-details" className={`transition-all duration-300 ease-in-out overflow-hidden ${isVacationOpen ? 'max-h-[700px] mt-4' : 'max-h-0 mt-0'}`}>
                     <div className="space-y-2 text-sm">
-                        <div className="flex justify-between"><span className="text-gray-600">Jahresanspruch</span><span className="font-semibold">{monthlyVacationDetails.annualEntitlement} Tage</span></div>
-                        <div className="flex justify-between"><span className="text-gray-600">Resturlaub Vorjahr</span><span className="font-semibold">{monthlyVacationDetails.carryover} Tage</span></div>
-                        <div className="flex justify-between border-t pt-2 mt-2"><span className="font-bold">Gesamt verfügbar</span><span className="font-bold">{monthlyVacationDetails.totalAvailable} Tage</span></div>
-                        <div className="flex justify-between"><span className="text-gray-600">Genommen (bis Vormonat)</span><span className="font-semibold">{monthlyVacationDetails.vacationTakenBeforeThisMonth > 0 && '- '}{monthlyVacationDetails.vacationTakenBeforeThisMonth} Tage</span></div>
-                        <div className="flex justify-between"><span className="text-gray-600">Genommen (diesen Monat)</span><span className="font-semibold">{monthlyVacationDetails.vacationTakenThisMonth > 0 && '- '}{monthlyVacationDetails.vacationTakenThisMonth} Tage</span></div>
-                        <div className="flex justify-between"><span className="text-yellow-600">Beantragt (diesen Monat)</span><span className="font-semibold text-yellow-600">{monthlyVacationDetails.pendingThisMonth > 0 && '- '}{monthlyVacationDetails.pendingThisMonth} Tage</span></div>
-                        <div className="flex justify-between border-t pt-2 mt-2"><span className="font-bold text-green-600">Verbleibend (am Monatsende)</span><span className="font-bold text-green-600">{monthlyVacationDetails.remainingAtEndOfMonth} Tage</span></div>
+                        <div className="flex justify-between"><span className="text-gray-600">Jahresanspruch</span><span className="font-semibold">{formatVacationDays(monthlyVacationDetails.entitlement)}</span></div>
+                        {monthlyVacationDetails.extraDays > 0 && (
+                            <div className="flex justify-between text-xs text-gray-500"><span>davon gesetzlich / vertraglich</span><span>{monthlyVacationDetails.legalMinimum.toLocaleString('de-DE')} / {monthlyVacationDetails.extraDays.toLocaleString('de-DE')}</span></div>
+                        )}
+                        <div className="flex justify-between"><span className="text-gray-600">Resturlaub Vorjahr</span><span className="font-semibold">{formatVacationDays(monthlyVacationDetails.carryover)}</span></div>
+                        {monthlyVacationDetails.expired > 0 && (
+                            <div className="flex justify-between"><span className="text-red-600">Verfallen am {new Date(`${monthlyVacationDetails.carryoverExpiresOn}T00:00:00`).toLocaleDateString('de-DE')}</span><span className="font-semibold text-red-600">- {formatVacationDays(monthlyVacationDetails.expired)}</span></div>
+                        )}
+                        {monthlyVacationDetails.expiring > 0 && (
+                            <p className="text-xs text-yellow-700">{formatVacationDays(monthlyVacationDetails.expiring)} Resturlaub verfallen am {new Date(`${monthlyVacationDetails.carryoverExpiresOn}T00:00:00`).toLocaleDateString('de-DE')}, wenn sie bis dahin nicht genommen werden.</p>
+                        )}
+                        <div className="flex justify-between border-t pt-2 mt-2"><span className="font-bold">Gesamt verfügbar</span><span className="font-bold">{formatVacationDays(monthlyVacationDetails.totalAvailable)}</span></div>
+                        <div className="flex justify-between"><span className="text-gray-600">Genommen (bis Vormonat)</span><span className="font-semibold">{monthlyVacationDetails.vacationTakenBeforeThisMonth > 0 && '- '}{formatVacationDays(monthlyVacationDetails.vacationTakenBeforeThisMonth)}</span></div>
+                        <div className="flex justify-between"><span className="text-gray-600">Genommen (diesen Monat)</span><span className="font-semibold">{monthlyVacationDetails.vacationTakenThisMonth > 0 && '- '}{formatVacationDays(monthlyVacationDetails.vacationTakenThisMonth)}</span></div>
+                        <div className="flex justify-between"><span className="text-gray-600">Geplant (genehmigt)</span><span className="font-semibold">{monthlyVacationDetails.planned > 0 && '- '}{formatVacationDays(monthlyVacationDetails.planned)}</span></div>
+                        <div className="flex justify-between border-t pt-2 mt-2"><span className="font-bold text-green-600">Verbleibend</span><span className="font-bold text-green-600">{formatVacationDays(monthlyVacationDetails.remaining)}</span></div>
+                        {monthlyVacationDetails.requested > 0 && (
+                            <div className="flex justify-between"><span className="text-yellow-600">Beantragt (noch offen)</span><span className="font-semibold text-yellow-600">{formatVacationDays(monthlyVacationDetails.requested)}</span></div>
+                        )}
                     </div>
                 </div>
             </Card>
@@ -279,7 +283,7 @@ export const OverviewView: React.FC<OverviewViewProps> = (props) => {
                           <h3 className="text-lg font-bold text-gray-800">{year}</h3>
                           <div className="space-y-3">
                             {groupedRequests[year].map(req => {
-                              const dayPortionText = req.dayPortion === 'am' ? ' (Vormittags)' : req.dayPortion === 'pm' ? ' (Nachmittags)' : '';
+                              const dayPortionText = formatAbsencePortion(req);
                               const dateText = req.startDate === req.endDate
                                   ? `${new Date(req.startDate).toLocaleDateString('de-DE')}${dayPortionText}`
                                   : `${new Date(req.startDate).toLocaleDateString('de-DE')} - ${new Date(req.endDate).toLocaleDateString('de-DE')}`;
@@ -295,7 +299,13 @@ export const OverviewView: React.FC<OverviewViewProps> = (props) => {
                                       {req.status==='pending' && (<Button onClick={()=>setRequestToRetract(req)} className="text-xs bg-gray-500 hover:bg-gray-600 px-2 py-1">Zurückziehen</Button>)}
                                     </div>
                                   </div>
-                                  {req.adminComment && req.status!=='pending' && (<p className="mt-2 pt-2 border-t text-sm italic"><span className="font-medium not-italic text-gray-700">Kommentar:</span> "{req.adminComment}"</p>)}
+                                  {req.approvalHistory ? (
+                                    <AbsenceApprovalHistory
+                                      request={req}
+                                      employees={employees}
+                                      pendingText={describeAbsenceApprovalStep(getAbsenceApprovalState(req, employees, absenceRequests, companySettings)) || undefined}
+                                    />
+                                  ) : req.adminComment && req.status!=='pending' && (<p className="mt-2 pt-2 border-t text-sm italic"><span className="font-medium not-italic text-gray-700">Kommentar:</span> "{req.adminComment}"</p>)}
                                 </div>
                               );
                             })}
@@ -0,0 +1,120 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { XIcon } from './icons/XIcon';
+
+interface QrScannerModalProps {
+  onClose: () => void;
+  onScan: (text: string) => void;
+}
+
+type QrDecoder = typeof import('https://esm.sh/jsqr@1.4.0').default;
+
+/**
+ * Reads a QR code with the back camera. Decoding runs in the page, so it also works in Safari on the iPhone,
+ * which has neither Web NFC nor a native barcode detector. The decoder is only loaded when the scanner opens.
+ */
+export const QrScannerModal: React.FC<QrScannerModalProps> = ({ onClose, onScan }) => {
+  const [errorMessage, setErrorMessage] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The camera keeps running while the parent re-renders, so the latest callback is read from a ref.
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setErrorMessage('Dieser Browser unterstützt keinen Kamerazugriff.');
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let frameRequest = 0;
+    let isStopped = false;
+    let jsQR: QrDecoder | null = null;
+
+    import('https://esm.sh/jsqr@1.4.0')
+      .then(module => { jsQR = module.default; })
+      .catch(error => {
+        console.error('Fehler beim Laden des QR-Scanners:', error);
+        if (!isStopped) setErrorMessage('Der QR-Scanner konnte nicht geladen werden. Bitte prüfen Sie die Internetverbindung.');
+      });
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (isStopped || !video || !canvas) return;
+      if (jsQR && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+          if (code?.data) {
+            isStopped = true;
+            onScanRef.current(code.data);
+            return;
+          }
+        }
+      }
+      frameRequest = requestAnimationFrame(scanFrame);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(mediaStream => {
+        stream = mediaStream;
+        if (isStopped || !videoRef.current) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = mediaStream;
+        videoRef.current.play().catch(() => { /* autoplay is allowed for muted inline video */ });
+        frameRequest = requestAnimationFrame(scanFrame);
+      })
+      .catch(error => {
+        console.error('Fehler beim Starten der Kamera:', error);
+        setErrorMessage(error?.name === 'NotAllowedError'
+          ? 'Der Zugriff auf die Kamera wurde nicht erlaubt. Bitte erlauben Sie ihn in den Einstellungen des Browsers.'
+          : 'Die Kamera konnte nicht gestartet werden.');
+      });
+
+    return () => {
+      isStopped = true;
+      cancelAnimationFrame(frameRequest);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const handleClose = () => {
+    setIsClosing(true);
+    setTimeout(onClose, 300);
+  };
+
+  return (
+    <div className={`fixed inset-0 bg-black flex items-center justify-center z-30 p-4 ${isClosing ? 'animate-modal-fade-out' : 'animate-modal-fade-in'}`} onClick={handleClose}>
+      <Card className={`w-full max-w-sm relative ${isClosing ? 'animate-modal-slide-down' : 'animate-modal-slide-up'}`} onClick={(e) => e.stopPropagation()}>
+        <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 z-10">
+          <XIcon className="h-6 w-6" />
+        </button>
+        <div className="space-y-4">
+          <h2 className="text-xl font-bold text-center">QR-Code scannen</h2>
+          {errorMessage ? (
+            <div className="p-3 bg-red-50 text-red-800 border border-red-200 rounded-lg text-sm">{errorMessage}</div>
+          ) : (
+            <>
+              <div className="relative aspect-square bg-gray-900 rounded-lg overflow-hidden">
+                <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+                <div className="absolute inset-[15%] border-4 border-white/80 rounded-lg pointer-events-none" />
+              </div>
+              <p className="text-sm text-gray-500 text-center">Richten Sie die Kamera auf den QR-Code am Einsatzort.</p>
+            </>
+          )}
+          <canvas ref={canvasRef} className="hidden" />
+          <Button onClick={handleClose} className="w-full bg-gray-500 hover:bg-gray-600">Abbrechen</Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
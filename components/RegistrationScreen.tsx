@@ -7,13 +7,15 @@ import { Input } from './ui/Input';
 interface RegistrationScreenProps {
   onRegister: (
       employeeData: Omit<Employee, 'id' | 'lastModified' | 'contractHistory' | 'role' | 'isActive'>,
-      companyData: Omit<CompanySettings, 'adminTimeFormat' | 'employeeTimeFormat'>
+      companyData: Omit<CompanySettings, 'adminTimeFormat' | 'employeeTimeFormat'>,
+      password: string
   ) => void;
   onSwitchToLogin: () => void;
+  onLoadDemoData?: () => void;
   hasAdminAccount?: boolean;
 }
 
-export const RegistrationScreen: React.FC<RegistrationScreenProps> = ({ onRegister, onSwitchToLogin, hasAdminAccount }) => {
+export const RegistrationScreen: React.FC<RegistrationScreenProps> = ({ onRegister, onSwitchToLogin, onLoadDemoData, hasAdminAccount }) => {
     const [formData, setFormData] = useState({
         // Admin user
         firstName: '',
@@ -53,12 +55,11 @@ export const RegistrationScreen: React.FC<RegistrationScreenProps> = ({ onRegist
             lastName, 
             dateOfBirth: '', // Set to empty as it's removed from form
             username, 
-            password, 
             firstWorkDay: new Date().toLocaleDateString('sv-SE') 
         };
         const companyData = { companyName, street, houseNumber, postalCode, city, email };
 
-        onRegister(employeeData, companyData);
+        onRegister(employeeData, companyData, password);
     };
 
     return (
@@ -99,6 +100,16 @@ export const RegistrationScreen: React.FC<RegistrationScreenProps> = ({ onRegist
                         </Button>
                     </div>
                 </form>
+                 {onLoadDemoData && (
+                    <div className="mt-6 pt-4 border-t text-center text-sm">
+                        <p className="text-gray-600">
+                            Nur ausprobieren?{' '}
+                            <button onClick={onLoadDemoData} className="font-medium text-blue-600 hover:text-blue-500">
+                                Mit Demo-Daten starten
+                            </button>
+                        </p>
+                    </div>
+                 )}
                  {hasAdminAccount && (
                     <div className="mt-6 pt-4 border-t text-center text-sm">
                         <p className="text-gray-600">
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import type { PasswordResetToken } from '../types';
+
+interface SetPasswordScreenProps {
+  isChecking: boolean;
+  tokenRecord: PasswordResetToken | null; // null if the link is unknown, used or expired
+  username?: string;
+  onSubmit: (password: string) => Promise<string | null>;
+  onCancel: () => void;
+}
+
+/**
+ * Target of the links in password reset and invitation mails.
+ */
+export const SetPasswordScreen: React.FC<SetPasswordScreenProps> = ({ isChecking, tokenRecord, username, onSubmit, onCancel }) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (password.length < 6) {
+        setError('Das Passwort muss mindestens 6 Zeichen lang sein.');
+        return;
+    }
+    if (password !== confirmPassword) {
+        setError('Die Passwörter stimmen nicht überein.');
+        return;
+    }
+    setIsSubmitting(true);
+    const errorMsg = await onSubmit(password);
+    setIsSubmitting(false);
+    if (errorMsg) {
+        setError(errorMsg);
+    }
+  };
+
+  const title = tokenRecord?.purpose === 'invitation' ? 'Willkommen! Passwort festlegen' : 'Neues Passwort festlegen';
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-start sm:items-center justify-center p-4 pt-16 sm:pt-4 relative z-50">
+      <Card className="w-full max-w-sm">
+        <h1 className="text-2xl font-bold text-center text-gray-800 mb-6">{title}</h1>
+        {isChecking ? (
+            <p className="text-sm text-center text-gray-500">Link wird geprüft…</p>
+        ) : !tokenRecord ? (
+            <div className="space-y-4">
+                <p className="p-3 bg-red-50 border border-red-200 text-red-800 rounded-md text-sm text-center">
+                    Dieser Link ist ungültig, abgelaufen oder wurde bereits verwendet. Bitte fordern Sie einen neuen Link an.
+                </p>
+                <Button type="button" onClick={onCancel} className="w-full bg-blue-600 hover:bg-blue-700">Zur Anmeldung</Button>
+            </div>
+        ) : (
+            <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+                {username && <p className="text-sm text-center text-gray-600">Benutzername: <strong>{username}</strong></p>}
+                <Input label="Neues Passwort" type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoComplete="new-password" autoFocus placeholder="Mind. 6 Zeichen" />
+                <Input label="Passwort wiederholen" type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} autoComplete="new-password" />
+                <p className="text-sm text-red-600 text-center min-h-[1.25rem]">{error || ' '}</p>
+                <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed" disabled={isSubmitting}>
+                    {isSubmitting ? 'Wird gespeichert...' : 'Passwort speichern'}
+                </Button>
+                <div className="text-center text-sm">
+                    <button type="button" onClick={onCancel} className="font-medium text-blue-600 hover:text-blue-500">Abbrechen</button>
+                </div>
+            </form>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -1,19 +1,23 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import type { TimeEntry, Customer, Activity, CompanySettings, AbsenceRequest } from '../types';
+import type { TimeEntry, Customer, Activity, CompanySettings, AbsenceRequest, BreakRules, OpenPunch, GpsPosition } from '../types';
 import { Button } from './ui/Button';
 import { BreakModal } from './BreakModal';
 import { SelectionModal } from './ui/SelectionModal';
 import { SelectorButton } from './ui/SelectorButton';
 import { PlayIcon } from './icons/PlayIcon';
 import { StopIcon } from './icons/StopIcon';
+import { PauseIcon } from './icons/PauseIcon';
 import { Textarea } from './ui/Textarea';
 import { InfoModal } from './ui/InfoModal';
-import { getDistanceFromLatLonInMeters } from './utils';
+import { getDistanceFromLatLonInMeters, formatBreakSegments } from './utils';
+import { getGeofenceBreach, getGeofenceRadius, hasCustomerLocation, formatGeofenceBreach } from './geofencePolicy';
+import { getOpenPunchBreakSegments, getOpenPunchChainEntries } from './openPunchPolicy';
+import { SwitchSessionModal } from './SwitchSessionModal';
+import { SwitchHorizontalIcon } from './icons/SwitchHorizontalIcon';
 import { MapPinIcon } from './icons/MapPinIcon';
 
 interface StopwatchProps {
-  addTimeEntry: (entry: Omit<TimeEntry, 'id' | 'employeeId'>) => void;
   timeEntries: TimeEntry[];
   customers: Customer[];
   activities: Activity[];
@@ -21,7 +25,7 @@ interface StopwatchProps {
   absenceRequests: AbsenceRequest[];
   // Lifted state and handlers
   isRunning: boolean;
-  startTime: Date | null;
+  openPunch: OpenPunch | null;
   stopTime: Date | null;
   elapsedTime: number;
   customerId: string;
@@ -29,14 +33,17 @@ interface StopwatchProps {
   comment: string;
   isBreakModalOpen: boolean;
   setIsBreakModalOpen: (isOpen: boolean) => void;
-  setIsRunning: (isRunning: boolean) => void;
-  setStartTime: (date: Date | null) => void;
   setStopTime: (date: Date | null) => void;
-  setElapsedTime: (time: number) => void;
   setCustomerId: (id: string) => void;
   setActivityId: (id: string) => void;
   setComment: (comment: string) => void;
   onSuccess?: () => void;
+  breakRules?: BreakRules;
+  // The running session is persisted as open punch
+  onStartPunch: (session: Omit<OpenPunch, 'id' | 'employeeId' | 'start' | 'breakSegments' | 'clockIn'>, gps?: GpsPosition) => void;
+  onTogglePause: () => void;
+  onFinishPunch: (breakDurationMinutes: number, gps?: GpsPosition) => boolean;
+  onSwitchPunch: (session: Omit<OpenPunch, 'id' | 'employeeId' | 'start' | 'breakSegments' | 'clockIn'>, gps?: GpsPosition) => boolean;
 }
 
 const isOverlapping = (newStart: Date, newEnd: Date, existingEntries: TimeEntry[]): boolean => {
@@ -57,66 +64,162 @@ const isOverlapping = (newStart: Date, newEnd: Date, existingEntries: TimeEntry[
 };
 
 export const Stopwatch: React.FC<StopwatchProps> = ({ 
-  addTimeEntry, timeEntries, customers, activities, companySettings, absenceRequests,
-  isRunning, startTime, stopTime, elapsedTime, customerId, activityId, comment,
-  isBreakModalOpen, setIsBreakModalOpen, setIsRunning, setStartTime, setStopTime, setElapsedTime,
-  setCustomerId, setActivityId, setComment, onSuccess
+  timeEntries, customers, activities, companySettings, absenceRequests,
+  isRunning, openPunch, stopTime, elapsedTime, customerId, activityId, comment,
+  isBreakModalOpen, setIsBreakModalOpen, setStopTime,
+  setCustomerId, setActivityId, setComment, onSuccess, breakRules,
+  onStartPunch, onTogglePause, onFinishPunch, onSwitchPunch
 }) => {
   const [isCustomerModalOpen, setIsCustomerModalOpen] = useState(false);
   const [isActivityModalOpen, setIsActivityModalOpen] = useState(false);
   const [infoModal, setInfoModal] = useState({ isOpen: false, title: '', message: '' });
   const [isLocating, setIsLocating] = useState(false);
-  const [capturedGps, setCapturedGps] = useState<{lat: number, lng: number} | undefined>(undefined);
+  const [isSwitchModalOpen, setIsSwitchModalOpen] = useState(false);
+  const [stopGps, setStopGps] = useState<GpsPosition | undefined>(undefined);
+
+  const startTime = openPunch ? new Date(openPunch.start) : null;
+  const pauseStartTime = openPunch?.pauseStart ? new Date(openPunch.pauseStart) : null;
+  const breakSegments = openPunch?.breakSegments || [];
+  // Entries closed earlier in this session by "Wechseln"; break rules apply to the whole chain.
+  const chainEntries = openPunch ? getOpenPunchChainEntries(openPunch, timeEntries) : [];
+  const chainStartTime = chainEntries.length > 0 ? new Date(chainEntries[0].start) : startTime;
+  const chainBreakMinutes = chainEntries.reduce((sum, entry) => sum + (entry.breakDurationMinutes || 0), 0);
 
   const customerLabel = companySettings.customerLabel || 'Zeitkategorie 1';
   const activityLabel = companySettings.activityLabel || 'Zeitkategorie 2';
   
+  // Closing the break dialog without saving lets the session continue.
   const handleCloseModal = () => {
       setIsBreakModalOpen(false);
+      setStopTime(null);
+      setStopGps(undefined);
   };
 
   const handleSaveEntry = (breakDurationMinutes: number) => {
     if (!startTime || !stopTime) return;
 
-    const entryStartTime = startTime;
-    const endTime = stopTime;
-    
-    if (isOverlapping(entryStartTime, endTime, timeEntries)) {
+    if (isOverlapping(startTime, stopTime, timeEntries)) {
       setInfoModal({ isOpen: true, title: 'Überlappender Eintrag', message: 'Dieser Zeiteintrag überschneidet sich mit einem bestehenden Eintrag. Bitte korrigieren Sie die Zeiten.' });
       handleCloseModal();
       return;
     }
 
-    addTimeEntry({
-      start: entryStartTime.toISOString(),
-      end: endTime.toISOString(),
-      customerId,
-      activityId,
-      breakDurationMinutes,
-      type: 'stopwatch',
-      comment: comment || undefined,
-      startGpsLat: capturedGps?.lat,
-      startGpsLng: capturedGps?.lng,
-    });
+    if (!onFinishPunch(breakDurationMinutes, stopGps)) return;
     
     onSuccess?.();
     
-    setElapsedTime(0);
-    setStartTime(null);
     setStopTime(null);
-    setCapturedGps(undefined);
+    setStopGps(undefined);
     setCustomerId('');
     setActivityId('');
     setComment('');
     setIsBreakModalOpen(false);
   };
 
+  const startSession = (gps?: GpsPosition) => {
+    onStartPunch({
+      customerId,
+      activityId,
+      comment: comment || undefined,
+    }, gps);
+  };
+
+  // Determines the position for customers with a location without checking it; failures are ignored.
+  const locatePosition = (selectedCustomerId: string | undefined, onLocated: (gps?: GpsPosition) => void) => {
+    if (!hasCustomerLocation(customers.find(c => c.id === selectedCustomerId)) || !navigator.geolocation) {
+      onLocated();
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        onLocated({ lat: position.coords.latitude, lng: position.coords.longitude, accuracy: position.coords.accuracy });
+      },
+      (error) => {
+        setIsLocating(false);
+        console.error("GPS Error", error);
+        onLocated();
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
+    );
+  };
+
+  // Determines the position for customers with a location; with geofencing the employee has to be on site.
+  const checkLocation = (selectedCustomerId: string, onLocated: (gps?: GpsPosition) => void) => {
+    const selectedCustomer = customers.find(c => c.id === selectedCustomerId);
+    
+    // GPS CHECK LOGIC
+    if (selectedCustomer?.gpsLat && selectedCustomer?.gpsLng) {
+        setIsLocating(true);
+        if (!navigator.geolocation) {
+            setIsLocating(false);
+            setInfoModal({ isOpen: true, title: 'GPS Fehler', message: 'Ihr Browser unterstützt keine Standortbestimmung.' });
+            return;
+        }
+
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                const currentLat = position.coords.latitude;
+                const currentLng = position.coords.longitude;
+                
+                if (selectedCustomer.enforceGeofencing) {
+                    const dist = getDistanceFromLatLonInMeters(
+                        currentLat, 
+                        currentLng, 
+                        selectedCustomer.gpsLat!, 
+                        selectedCustomer.gpsLng!
+                    );
+                    
+                    const radius = getGeofenceRadius(selectedCustomer);
+                    
+                    if (dist > radius) {
+                        setIsLocating(false);
+                        setInfoModal({ 
+                            isOpen: true, 
+                            title: 'Außerhalb des Bereichs', 
+                            message: `Sie befinden sich ${Math.round(dist)}m entfernt vom Standort. Erlaubt sind max. ${radius}m.` 
+                        });
+                        return;
+                    }
+                }
+                
+                // Success - always capture the position if available
+                setIsLocating(false);
+                onLocated({ lat: currentLat, lng: currentLng, accuracy: position.coords.accuracy });
+            },
+            (error) => {
+                setIsLocating(false);
+                console.error("GPS Error", error);
+                if (selectedCustomer.enforceGeofencing) {
+                    setInfoModal({ isOpen: true, title: 'Standort erforderlich', message: 'Der Standort konnte nicht ermittelt werden. Für diesen Kunden ist eine Standorterfassung zwingend erforderlich.' });
+                } else {
+                    // Allow start without GPS if not enforced, but maybe warn? For now just continue.
+                    onLocated();
+                }
+            },
+            { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
+        );
+    } else {
+        // No GPS required
+        onLocated();
+    }
+  };
+
   const handleToggle = () => {
     if (isRunning) {
       // STOPPING
+      // Stopping is never blocked; an entry that ends outside the geofence is flagged for the admin.
+      const customer = customers.find(c => c.id === openPunch?.customerId);
       setStopTime(new Date());
-      setIsRunning(false);
-      setIsBreakModalOpen(true);
+      locatePosition(customer?.id, (gps) => {
+        setStopGps(gps);
+        setIsBreakModalOpen(true);
+        const breach = getGeofenceBreach(customer, gps);
+        if (breach) {
+          setInfoModal({ isOpen: true, title: 'Außerhalb des Bereichs', message: `Sie befinden sich ${formatGeofenceBreach(breach)}. Der Eintrag wird zur Prüfung markiert.` });
+        }
+      });
     } else {
       // STARTING
       const todayStr = new Date().toLocaleDateString('sv-SE');
@@ -136,75 +239,24 @@ export const Stopwatch: React.FC<StopwatchProps> = ({
         return;
       }
 
-      const selectedCustomer = customers.find(c => c.id === customerId);
-      
-      // GPS CHECK LOGIC
-      if (selectedCustomer?.gpsLat && selectedCustomer?.gpsLng) {
-          setIsLocating(true);
-          if (!navigator.geolocation) {
-              setIsLocating(false);
-              setInfoModal({ isOpen: true, title: 'GPS Fehler', message: 'Ihr Browser unterstützt keine Standortbestimmung.' });
-              return;
-          }
-
-          navigator.geolocation.getCurrentPosition(
-              (position) => {
-                  const currentLat = position.coords.latitude;
-                  const currentLng = position.coords.longitude;
-                  
-                  // Always capture if available
-                  setCapturedGps({ lat: currentLat, lng: currentLng });
+      checkLocation(customerId, startSession);
+    }
+  };
 
-                  if (selectedCustomer.enforceGeofencing) {
-                      const dist = getDistanceFromLatLonInMeters(
-                          currentLat, 
-                          currentLng, 
-                          selectedCustomer.gpsLat!, 
-                          selectedCustomer.gpsLng!
-                      );
-                      
-                      const radius = selectedCustomer.gpsRadius || 200;
-                      
-                      if (dist > radius) {
-                          setIsLocating(false);
-                          setInfoModal({ 
-                              isOpen: true, 
-                              title: 'Außerhalb des Bereichs', 
-                              message: `Sie befinden sich ${Math.round(dist)}m entfernt vom Standort. Erlaubt sind max. ${radius}m.` 
-                          });
-                          return;
-                      }
-                  }
-                  
-                  // Success - Start Timer
-                  setIsLocating(false);
-                  setElapsedTime(0);
-                  setStartTime(new Date());
-                  setStopTime(null);
-                  setIsRunning(true);
-              },
-              (error) => {
-                  setIsLocating(false);
-                  console.error("GPS Error", error);
-                  if (selectedCustomer.enforceGeofencing) {
-                      setInfoModal({ isOpen: true, title: 'Standort erforderlich', message: 'Der Standort konnte nicht ermittelt werden. Für diesen Kunden ist eine Standorterfassung zwingend erforderlich.' });
-                  } else {
-                      // Allow start without GPS if not enforced, but maybe warn? For now just start.
-                      setElapsedTime(0);
-                      setStartTime(new Date());
-                      setStopTime(null);
-                      setIsRunning(true);
-                  }
-              },
-              { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
-          );
-      } else {
-          // No GPS required
-          setElapsedTime(0);
-          setStartTime(new Date());
-          setStopTime(null);
-          setIsRunning(true);
-      }
+  const handleSwitch = (newCustomerId: string, newActivityId: string, newComment: string) => {
+    setIsSwitchModalOpen(false);
+    const onLocated = (gps?: GpsPosition) => {
+      onSwitchPunch({
+        customerId: newCustomerId,
+        activityId: newActivityId,
+        comment: newComment || undefined,
+      }, gps);
+    };
+    // The position also ends the previous entry, so it is determined if either customer has a location.
+    if (hasCustomerLocation(customers.find(c => c.id === newCustomerId))) {
+      checkLocation(newCustomerId, onLocated);
+    } else {
+      locatePosition(openPunch?.customerId, onLocated);
     }
   };
 
@@ -216,15 +268,28 @@ export const Stopwatch: React.FC<StopwatchProps> = ({
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const selectedCustomerName = customers.find(c => c.id === customerId)?.name || '';
-  const selectedActivityName = activities.find(a => a.id === activityId)?.name || '';
+  // A session restored after a reload or started on another device shows its own selection.
+  const selectedCustomerName = customers.find(c => c.id === (openPunch?.customerId ?? customerId))?.name || '';
+  const selectedActivityName = activities.find(a => a.id === (openPunch?.activityId ?? activityId))?.name || '';
 
   return (
     <>
       <div className="flex flex-col items-center space-y-4 p-4">
-        <div className="text-4xl sm:text-6xl font-mono font-bold tracking-wider text-gray-800 bg-gray-100 rounded-lg p-4 w-full text-center">
+        <div className={`text-4xl sm:text-6xl font-mono font-bold tracking-wider rounded-lg p-4 w-full text-center ${pauseStartTime ? 'text-yellow-700 bg-yellow-50' : 'text-gray-800 bg-gray-100'}`}>
           {formatTime(elapsedTime)}
         </div>
+        {isRunning && (pauseStartTime || breakSegments.length > 0) && (
+          <p className="text-sm text-gray-500 -mt-2">
+            {pauseStartTime
+              ? `Pause seit ${pauseStartTime.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })} Uhr`
+              : `Pausen: ${formatBreakSegments(breakSegments)}`}
+          </p>
+        )}
+        {isRunning && chainStartTime && chainEntries.length > 0 && (
+          <p className="text-sm text-gray-500 -mt-2">
+            Arbeitsbeginn {chainStartTime.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })} Uhr · {chainEntries.length === 1 ? '1 Wechsel' : `${chainEntries.length} Wechsel`}
+          </p>
+        )}
 
         <div className="w-full space-y-4">
            <SelectorButton
@@ -243,27 +308,50 @@ export const Stopwatch: React.FC<StopwatchProps> = ({
             />
           <Textarea
               label="Kommentar (optional)"
-              value={comment}
+              value={isRunning ? openPunch?.comment || '' : comment}
               onChange={(e) => setComment(e.target.value)}
               disabled={isRunning || isLocating}
               rows={2}
           />
         </div>
 
-        <Button
-          onClick={handleToggle}
-          className={`h-16 w-16 rounded-full flex items-center justify-center shadow-lg transition-all duration-300 ease-in-out transform hover:scale-105 ${
-            isLocating ? 'bg-blue-400 cursor-wait' : (isRunning ? 'bg-red-500 hover:bg-red-600' : 'bg-green-500 hover:bg-green-600')
-          }`}
-          aria-label={isRunning ? 'Zeiterfassung stoppen' : 'Zeiterfassung starten'}
-          disabled={isLocating}
-        >
-          {isLocating ? (
-              <MapPinIcon className="h-7 w-7 text-white animate-bounce" />
-          ) : (
-              isRunning ? <StopIcon className="h-7 w-7 text-white" /> : <PlayIcon className="h-7 w-7 text-white ml-0.5" />
+        <div className="flex items-center gap-6">
+          {isRunning && (
+            <Button
+              onClick={onTogglePause}
+              className={`h-12 w-12 rounded-full flex items-center justify-center shadow-lg transition-all duration-300 ease-in-out transform hover:scale-105 ${pauseStartTime ? 'bg-green-500 hover:bg-green-600' : 'bg-yellow-500 hover:bg-yellow-600'}`}
+              aria-label={pauseStartTime ? 'Weiter' : 'Pause'}
+              title={pauseStartTime ? 'Weiter' : 'Pause'}
+            >
+              {pauseStartTime ? <PlayIcon className="h-6 w-6 text-white ml-0.5" /> : <PauseIcon className="h-6 w-6 text-white" />}
+            </Button>
           )}
-        </Button>
+          {isRunning && (
+            <Button
+              onClick={() => setIsSwitchModalOpen(true)}
+              className="h-12 w-12 rounded-full flex items-center justify-center shadow-lg transition-all duration-300 ease-in-out transform hover:scale-105 bg-blue-500 hover:bg-blue-600"
+              aria-label="Wechseln"
+              title="Wechseln"
+              disabled={isLocating}
+            >
+              <SwitchHorizontalIcon className="h-6 w-6 text-white" />
+            </Button>
+          )}
+          <Button
+            onClick={handleToggle}
+            className={`h-16 w-16 rounded-full flex items-center justify-center shadow-lg transition-all duration-300 ease-in-out transform hover:scale-105 ${
+              isLocating ? 'bg-blue-400 cursor-wait' : (isRunning ? 'bg-red-500 hover:bg-red-600' : 'bg-green-500 hover:bg-green-600')
+            }`}
+            aria-label={isRunning ? 'Zeiterfassung stoppen' : 'Zeiterfassung starten'}
+            disabled={isLocating}
+          >
+            {isLocating ? (
+                <MapPinIcon className="h-7 w-7 text-white animate-bounce" />
+            ) : (
+                isRunning ? <StopIcon className="h-7 w-7 text-white" /> : <PlayIcon className="h-7 w-7 text-white ml-0.5" />
+            )}
+          </Button>
+        </div>
         {isLocating && <p className="text-sm text-gray-500 animate-pulse">Standort wird ermittelt...</p>}
       </div>
 
@@ -271,6 +359,23 @@ export const Stopwatch: React.FC<StopwatchProps> = ({
         <BreakModal 
           onClose={handleCloseModal}
           onSave={handleSaveEntry}
+          durationHours={chainStartTime && stopTime ? (stopTime.getTime() - chainStartTime.getTime()) / 3600000 : 0}
+          breakRules={breakRules}
+          breakSegments={openPunch && stopTime ? getOpenPunchBreakSegments(openPunch, stopTime) : breakSegments}
+          previousBreakMinutes={chainBreakMinutes}
+        />
+      )}
+
+      {isSwitchModalOpen && openPunch && (
+        <SwitchSessionModal
+          onClose={() => setIsSwitchModalOpen(false)}
+          onSwitch={handleSwitch}
+          customers={customers}
+          activities={activities}
+          customerLabel={customerLabel}
+          activityLabel={activityLabel}
+          currentCustomerId={openPunch.customerId}
+          currentActivityId={openPunch.activityId}
         />
       )}
       
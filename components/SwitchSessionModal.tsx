@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Textarea } from './ui/Textarea';
+import { SelectorButton } from './ui/SelectorButton';
+import { SelectionModal } from './ui/SelectionModal';
+import { XIcon } from './icons/XIcon';
+import type { Customer, Activity } from '../types';
+
+interface SwitchSessionModalProps {
+  onClose: () => void;
+  onSwitch: (customerId: string, activityId: string, comment: string) => void;
+  customers: Customer[];
+  activities: Activity[];
+  customerLabel: string;
+  activityLabel: string;
+  currentCustomerId: string;
+  currentActivityId: string;
+}
+
+/**
+ * Selection of the customer and activity the running stopwatch continues with.
+ */
+export const SwitchSessionModal: React.FC<SwitchSessionModalProps> = ({ onClose, onSwitch, customers, activities, customerLabel, activityLabel, currentCustomerId, currentActivityId }) => {
+  const [customerId, setCustomerId] = useState(currentCustomerId);
+  const [activityId, setActivityId] = useState(currentActivityId);
+  const [comment, setComment] = useState('');
+  const [isCustomerModalOpen, setIsCustomerModalOpen] = useState(false);
+  const [isActivityModalOpen, setIsActivityModalOpen] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const isUnchanged = customerId === currentCustomerId && activityId === currentActivityId;
+
+  const handleClose = () => {
+    setIsClosing(true);
+    setTimeout(onClose, 300);
+  };
+
+  const handleSwitchClick = () => {
+    if (isUnchanged) return;
+    setIsClosing(true);
+    setTimeout(() => onSwitch(customerId, activityId, comment), 300);
+  };
+
+  return (
+    <>
+      <div className={`fixed inset-0 bg-black flex items-center justify-center z-30 p-4 ${isClosing ? 'animate-modal-fade-out' : 'animate-modal-fade-in'}`} onClick={handleClose}>
+        <Card className={`w-full max-w-sm relative ${isClosing ? 'animate-modal-slide-down' : 'animate-modal-slide-up'}`} onClick={(e) => e.stopPropagation()}>
+          <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 z-10">
+            <XIcon className="h-6 w-6" />
+          </button>
+          <div className="space-y-4">
+            <h2 className="text-xl font-bold text-center">Wechseln</h2>
+            <p className="text-sm text-gray-500">Der bisherige Eintrag endet jetzt, die Stempeluhr läuft mit der neuen Auswahl weiter.</p>
+            <SelectorButton
+              label={customerLabel}
+              value={customers.find(c => c.id === customerId)?.name || ''}
+              placeholder="Auswählen..."
+              onClick={() => setIsCustomerModalOpen(true)}
+            />
+            <SelectorButton
+              label={activityLabel}
+              value={activities.find(a => a.id === activityId)?.name || ''}
+              placeholder="Auswählen..."
+              onClick={() => setIsActivityModalOpen(true)}
+            />
+            <Textarea
+              label="Kommentar (optional)"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+            />
+            {isUnchanged && (
+              <p className="text-sm text-gray-500">Die Auswahl entspricht der laufenden Erfassung.</p>
+            )}
+            <div className="flex gap-4 pt-2">
+              <Button type="button" onClick={handleClose} className="w-full bg-gray-500 hover:bg-gray-600">
+                Abbrechen
+              </Button>
+              <Button type="button" onClick={handleSwitchClick} disabled={isUnchanged} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed">
+                Wechseln
+              </Button>
+            </div>
+          </div>
+        </Card>
+      </div>
+
+      <SelectionModal
+        isOpen={isCustomerModalOpen}
+        onClose={() => setIsCustomerModalOpen(false)}
+        onSelect={(item) => setCustomerId(item.id)}
+        items={customers}
+        title={`${customerLabel} auswählen`}
+        selectedValue={customerId}
+      />
+      <SelectionModal
+        isOpen={isActivityModalOpen}
+        onClose={() => setIsActivityModalOpen(false)}
+        onSelect={(item) => setActivityId(item.id)}
+        items={activities}
+        title={`${activityLabel} auswählen`}
+        selectedValue={activityId}
+      />
+    </>
+  );
+};
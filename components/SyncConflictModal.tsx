@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import ReactDOM from 'react-dom';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { XIcon } from './icons/XIcon';
+import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
+import type { AuditEntityType, Customer, Activity, Employee } from '../types';
+import type { PendingMutation, QueuedCollection } from '../services/offlineQueue';
+import { getRecordFieldChanges, formatAuditValue } from './auditTrail';
+
+interface SyncConflictModalProps {
+  mutation: PendingMutation;
+  onClose: () => void;
+  onKeepLocal: () => void;
+  onTakeServer: () => void;
+  customers: Customer[];
+  activities: Activity[];
+  employees: Employee[];
+}
+
+const COLLECTION_LABELS: Record<QueuedCollection, string> = {
+  timeEntries: 'Zeiteintrag',
+  absenceRequests: 'Abwesenheit',
+  openPunches: 'Laufende Stempeluhr',
+  auditLog: 'Änderungsprotokoll',
+};
+
+// Collections whose fields can be compared with the labels of the change log.
+const AUDIT_ENTITY_TYPES: Partial<Record<QueuedCollection, AuditEntityType>> = {
+  timeEntries: 'timeEntry',
+  absenceRequests: 'absenceRequest',
+};
+
+/**
+ * Shows a change that could not be sent because the record was changed on the server in the
+ * meantime or the server rejected it, and lets the user decide which version is kept.
+ */
+export const SyncConflictModal: React.FC<SyncConflictModalProps> = ({ mutation, onClose, onKeepLocal, onTakeServer, customers, activities, employees }) => {
+  const [isClosing, setIsClosing] = useState(false);
+  const conflict = mutation.conflict;
+  if (!conflict) return null;
+
+  const isRejected = conflict.serverItem === undefined;
+  const entityType = AUDIT_ENTITY_TYPES[mutation.collection];
+  const localItem = mutation.action === 'remove' ? null : mutation.item || null;
+  const changes = entityType && !isRejected ? getRecordFieldChanges(entityType, conflict.serverItem || null, localItem) : [];
+
+  const closeWith = (action: () => void) => {
+    setIsClosing(true);
+    setTimeout(action, 300);
+  };
+
+  return ReactDOM.createPortal(
+    <div className={`fixed inset-0 bg-black flex items-center justify-center z-[270] p-4 ${isClosing ? 'animate-modal-fade-out' : 'animate-modal-fade-in'}`} onClick={() => closeWith(onClose)}>
+      <Card className={`w-full max-w-lg relative ${isClosing ? 'animate-modal-slide-down' : 'animate-modal-slide-up'}`} onClick={(e) => e.stopPropagation()}>
+        <button onClick={() => closeWith(onClose)} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 z-10">
+          <XIcon className="h-6 w-6" />
+        </button>
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <ExclamationTriangleIcon className="h-8 w-8 text-red-500 flex-shrink-0" />
+            <h2 className="text-xl font-bold">Synchronisierungskonflikt</h2>
+          </div>
+          <p className="text-sm text-gray-600">
+            {COLLECTION_LABELS[mutation.collection]}, geändert am {new Date(mutation.queuedAt).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' })}: {conflict.message}
+          </p>
+          {changes.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="text-left bg-gray-50 border-b">
+                  <tr>
+                    <th className="py-2 px-3 font-semibold text-gray-600">Feld</th>
+                    <th className="py-2 px-3 font-semibold text-gray-600">Server</th>
+                    <th className="py-2 px-3 font-semibold text-gray-600">Ihre Änderung</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {changes.map(change => (
+                    <tr key={change.field}>
+                      <td className="py-2 px-3 font-medium">{change.label}</td>
+                      <td className="py-2 px-3">{formatAuditValue(entityType!, change.field, change.before, { customers, activities, employees })}</td>
+                      <td className="py-2 px-3">{formatAuditValue(entityType!, change.field, change.after, { customers, activities, employees })}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-sm text-gray-500">Weitere Änderungen werden erst gesendet, wenn der Konflikt gelöst ist.</p>
+          <div className="flex flex-col sm:flex-row gap-3 pt-2">
+            <Button type="button" onClick={() => closeWith(onTakeServer)} className="w-full bg-gray-500 hover:bg-gray-600">
+              {isRejected ? 'Änderung verwerfen' : 'Server-Version übernehmen'}
+            </Button>
+            <Button type="button" onClick={() => closeWith(onKeepLocal)} className="w-full bg-blue-600 hover:bg-blue-700">
+              {isRejected ? 'Erneut senden' : 'Meine Änderung übernehmen'}
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon';
+
+interface SyncStatusBarProps {
+  isOnline: boolean;
+  pendingCount: number;
+  hasConflict: boolean;
+  onShowConflict: () => void;
+}
+
+const formatChanges = (count: number) => count === 1 ? '1 Änderung' : `${count} Änderungen`;
+
+/**
+ * Shows below the header whether changes are waiting to be sent; hidden while everything is in sync.
+ */
+export const SyncStatusBar: React.FC<SyncStatusBarProps> = ({ isOnline, pendingCount, hasConflict, onShowConflict }) => {
+  if (hasConflict) {
+    return (
+      <div className="px-4 py-2 bg-red-50 text-red-800 text-sm flex items-center justify-center gap-2">
+        <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+        <span>Synchronisierung angehalten: Eine Änderung steht im Konflikt mit dem Server.</span>
+        <button onClick={onShowConflict} className="font-semibold underline hover:text-red-900">Prüfen</button>
+      </div>
+    );
+  }
+  if (!isOnline) {
+    return (
+      <div className="px-4 py-2 bg-yellow-50 text-yellow-800 text-sm text-center">
+        Offline – {pendingCount > 0 ? `${formatChanges(pendingCount)} werden gesendet, sobald wieder eine Verbindung besteht.` : 'Änderungen werden gespeichert und später gesendet.'}
+      </div>
+    );
+  }
+  if (pendingCount > 0) {
+    return (
+      <div className="px-4 py-2 bg-gray-50 text-gray-600 text-sm text-center">
+        {formatChanges(pendingCount)} {pendingCount === 1 ? 'wird' : 'werden'} synchronisiert…
+      </div>
+    );
+  }
+  return null;
+};
@@ -0,0 +1,216 @@
+import type { AbsenceRequest, AbsenceApprovalEvent, AbsenceApprovalStep, CompanySettings, Employee } from '../types';
+import { canAccess, type AdminAccess } from './adminPermissions';
+
+export const DEFAULT_ABSENCE_ESCALATION_DAYS = 5;
+
+export const ABSENCE_APPROVER_LABELS: Record<AbsenceApprovalStep['approver'], string> = {
+    supervisor: 'Vorgesetzte/r des Mitarbeiters',
+    employee: 'Feste Person',
+};
+
+export const getAbsenceApprovalSteps = (companySettings?: CompanySettings): AbsenceApprovalStep[] =>
+    companySettings?.absenceApproval?.steps ?? [];
+
+export const getAbsenceEscalationDays = (companySettings?: CompanySettings): number =>
+    companySettings?.absenceApproval?.escalationDays ?? DEFAULT_ABSENCE_ESCALATION_DAYS;
+
+/**
+ * Where a pending request stands in the approval chain.
+ */
+export interface AbsenceApprovalState {
+    stepIndex: number;
+    stepCount: number;
+    step: AbsenceApprovalStep | null; // null without a configured chain
+    approverId?: number; // regular approver of the step; without one any admin decides
+    deputyId?: number; // set while the approver is absent
+    isEscalated: boolean;
+    since?: string; // ISO String, start of the current step
+}
+
+const isOnApprovedAbsence = (employeeId: number, date: string, absenceRequests: AbsenceRequest[]): boolean =>
+    absenceRequests.some(r => r.employeeId === employeeId && r.status === 'approved' && date >= r.startDate && date <= r.endDate);
+
+const getEmployeeName = (id: number, employees: Employee[]): string => {
+    const employee = employees.find(e => e.id === id);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Unbekannt';
+};
+
+const findActiveEmployee = (id: number | undefined, employees: Employee[]): Employee | undefined =>
+    id === undefined ? undefined : employees.find(e => e.id === id && e.isActive);
+
+export const getAbsenceApprovalState = (
+    request: AbsenceRequest,
+    employees: Employee[],
+    absenceRequests: AbsenceRequest[],
+    companySettings?: CompanySettings,
+    now: Date = new Date(),
+): AbsenceApprovalState => {
+    const steps = getAbsenceApprovalSteps(companySettings);
+    const history = request.approvalHistory || [];
+    // A rescheduled request is submitted again and goes through the chain from the start.
+    const round = history.slice(Math.max(0, history.map(event => event.action).lastIndexOf('submitted')));
+    // Each approval completes a step; a rejection ends the chain.
+    const stepIndex = round.filter(event => event.action === 'approved').length;
+    const step = steps[stepIndex] ?? null;
+    const state: AbsenceApprovalState = {
+        stepIndex,
+        stepCount: steps.length,
+        step,
+        isEscalated: round.some(event => event.action === 'escalated' && event.step === stepIndex),
+        since: history.length > 0 ? history[history.length - 1].at : undefined,
+    };
+    if (!step) return state;
+
+    const requester = employees.find(e => e.id === request.employeeId);
+    const approver = findActiveEmployee(step.approver === 'supervisor' ? requester?.supervisorId : step.approverId, employees);
+    // Nobody approves their own request; the step then falls to any other admin.
+    if (!approver || approver.id === request.employeeId) return state;
+    state.approverId = approver.id;
+
+    const today = now.toLocaleDateString('sv-SE');
+    const deputy = findActiveEmployee(approver.deputyId, employees);
+    if (deputy && deputy.id !== request.employeeId && isOnApprovedAbsence(approver.id, today, absenceRequests) && !isOnApprovedAbsence(deputy.id, today, absenceRequests)) {
+        state.deputyId = deputy.id;
+    }
+    return state;
+};
+
+// The approver and deputy are assigned explicitly and therefore decide even outside their own teams.
+export const isNamedAbsenceApprover = (user: Employee, state: AbsenceApprovalState): boolean =>
+    !!state.step && (user.id === state.approverId || user.id === state.deputyId);
+
+/**
+ * Whether the user may approve or reject the current step: the approver, their deputy, or anyone allowed
+ * to approve for the employee once the step is escalated or has no approver. The approver and deputy are
+ * assigned explicitly and therefore decide even outside their own teams.
+ */
+export const canDecideAbsenceRequest = (request: AbsenceRequest, user: Employee, state: AbsenceApprovalState, access: AdminAccess | null): boolean => {
+    if (request.status !== 'pending' || !canAccess(access, 'approve')) return false;
+    const mayApproveForEmployee = canAccess(access, 'approve', request.employeeId);
+    if (!state.step) return mayApproveForEmployee; // without a chain any admin decides, as before
+    if (isNamedAbsenceApprover(user, state)) return true;
+    return (state.approverId === undefined || state.isEscalated) && user.id !== request.employeeId && mayApproveForEmployee;
+};
+
+/**
+ * Name of whoever decides the current step, for display.
+ */
+export const describeAbsenceApprover = (state: AbsenceApprovalState, employees: Employee[]): string => {
+    if (!state.step || state.approverId === undefined) return 'Administrator';
+    const approverName = getEmployeeName(state.approverId, employees);
+    if (state.isEscalated) return `${approverName} oder Administrator (eskaliert)`;
+    return state.deputyId !== undefined ? `${getEmployeeName(state.deputyId, employees)} (Vertretung für ${approverName})` : approverName;
+};
+
+/**
+ * Position in the chain for display, e.g. "Stufe 2 von 2: Personalabteilung"; empty without a chain.
+ */
+export const describeAbsenceApprovalStep = (state: AbsenceApprovalState): string =>
+    state.step ? `Stufe ${state.stepIndex + 1} von ${state.stepCount}: ${state.step.label}` : '';
+
+/**
+ * Time at which the current step is escalated, or null if it is not escalated (anymore). Escalations are
+ * recorded at this time rather than when a device noticed them, so that all devices record the same event.
+ */
+export const getAbsenceEscalationTime = (
+    request: AbsenceRequest, state: AbsenceApprovalState, companySettings?: CompanySettings,
+): Date | null => {
+    const escalationDays = getAbsenceEscalationDays(companySettings);
+    if (request.status !== 'pending' || !state.step || state.isEscalated || !state.since || escalationDays <= 0) return null;
+    return new Date(new Date(state.since).getTime() + escalationDays * 86_400_000);
+};
+
+export const isAbsenceEscalationDue = (
+    request: AbsenceRequest, state: AbsenceApprovalState, companySettings?: CompanySettings, now: Date = new Date(),
+): boolean => {
+    const escalationTime = getAbsenceEscalationTime(request, state, companySettings);
+    return escalationTime !== null && now >= escalationTime;
+};
+
+export const createSubmittedEvent = (employeeId: number, now: Date = new Date()): AbsenceApprovalEvent =>
+    ({ action: 'submitted', byEmployeeId: employeeId, at: now.toISOString() });
+
+/**
+ * Records the decision of the current step. An approval moves the request to the next step; the
+ * request is only approved after the last one, while a rejection ends it at once.
+ */
+export const applyAbsenceDecision = (
+    request: AbsenceRequest,
+    decision: 'approved' | 'rejected',
+    user: Employee,
+    state: AbsenceApprovalState,
+    comment?: string,
+    now: Date = new Date(),
+): AbsenceRequest => {
+    const event: AbsenceApprovalEvent = {
+        action: decision,
+        step: state.step ? state.stepIndex : undefined,
+        stepLabel: state.step?.label,
+        byEmployeeId: user.id,
+        onBehalfOfId: state.approverId !== undefined && state.approverId !== user.id ? state.approverId : undefined,
+        at: now.toISOString(),
+        comment,
+    };
+    const isFinal = decision === 'rejected' || state.stepIndex + 1 >= state.stepCount;
+    return {
+        ...request,
+        approvalHistory: [...(request.approvalHistory || []), event],
+        status: isFinal ? decision : 'pending',
+        adminComment: isFinal ? comment : request.adminComment,
+    };
+};
+
+/**
+ * Submits an absence entered or rescheduled in the admin area and approves it as far as the user may decide
+ * the steps of the chain. It waits at the first step the user may not decide, so that entering an absence
+ * directly does not skip an approver. Without a chain it is approved right away, as before.
+ */
+export const submitAbsenceAsApprover = (
+    request: AbsenceRequest,
+    user: Employee,
+    employees: Employee[],
+    absenceRequests: AbsenceRequest[],
+    access: AdminAccess | null,
+    companySettings?: CompanySettings,
+    now: Date = new Date(),
+): AbsenceRequest => {
+    if (getAbsenceApprovalSteps(companySettings).length === 0) return { ...request, status: 'approved' };
+    let submitted: AbsenceRequest = {
+        ...request,
+        status: 'pending',
+        adminComment: undefined,
+        approvalHistory: [...(request.approvalHistory || []), createSubmittedEvent(user.id, now)],
+    };
+    while (submitted.status === 'pending') {
+        const state = getAbsenceApprovalState(submitted, employees, absenceRequests, companySettings, now);
+        if (!canDecideAbsenceRequest(submitted, user, state, access)) break;
+        submitted = applyAbsenceDecision(submitted, 'approved', user, state, undefined, now);
+    }
+    return submitted;
+};
+
+export const escalateAbsenceRequest = (request: AbsenceRequest, state: AbsenceApprovalState, now: Date = new Date()): AbsenceRequest => ({
+    ...request,
+    approvalHistory: [
+        ...(request.approvalHistory || []),
+        { action: 'escalated', step: state.stepIndex, stepLabel: state.step?.label, byEmployeeId: null, at: now.toISOString() },
+    ],
+});
+
+const APPROVAL_ACTION_LABELS: Record<AbsenceApprovalEvent['action'], string> = {
+    submitted: 'Eingereicht',
+    approved: 'Genehmigt',
+    rejected: 'Abgelehnt',
+    escalated: 'Eskaliert',
+};
+
+/**
+ * One line of the approval history, e.g. "Genehmigt (Teamleitung) von Max Muster in Vertretung für Eva Beispiel".
+ */
+export const describeAbsenceApprovalEvent = (event: AbsenceApprovalEvent, employees: Employee[]): string => {
+    const parts = [APPROVAL_ACTION_LABELS[event.action] + (event.stepLabel ? ` (${event.stepLabel})` : '')];
+    if (event.byEmployeeId === null) parts.push('automatisch, da die Frist überschritten wurde');
+    else parts.push(`von ${getEmployeeName(event.byEmployeeId, employees)}`);
+    if (event.onBehalfOfId !== undefined) parts.push(`in Vertretung für ${getEmployeeName(event.onBehalfOfId, employees)}`);
+    return parts.join(' ');
+};
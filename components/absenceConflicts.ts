@@ -0,0 +1,115 @@
+import type { AbsenceConflictSettings, AbsenceRequest, CompanySettings, Employee, HolidaysByYear, Team } from '../types';
+import { AbsenceType } from '../types';
+import { isScheduledWorkday } from './vacationLedger';
+
+export const ABSENCE_ENFORCEMENT_LABELS: Record<'warn' | 'block', string> = {
+    warn: 'Warnen',
+    block: 'Blockieren',
+};
+
+export const getAbsenceConflictSettings = (companySettings?: CompanySettings): AbsenceConflictSettings => ({
+    staffingRules: companySettings?.absenceConflicts?.staffingRules ?? [],
+    blackouts: companySettings?.absenceConflicts?.blackouts ?? [],
+});
+
+/**
+ * A reason to look at an absence request again before submitting or approving it. Blocking conflicts
+ * prevent both.
+ */
+export interface AbsenceConflict {
+    severity: 'warning' | 'blocking';
+    message: string;
+}
+
+export type AbsenceConflictCheck = Pick<AbsenceRequest, 'employeeId' | 'type' | 'startDate' | 'endDate'> & { id?: number };
+
+// Sick leave cannot be planned, so only vacation and time off are checked. Sick colleagues still count as absent.
+const CHECKED_TYPES: AbsenceType[] = [AbsenceType.Vacation, AbsenceType.TimeOff];
+
+const toDateKey = (date: Date) => date.toLocaleDateString('sv-SE');
+
+const formatDate = (dateKey: string) =>
+    new Date(`${dateKey}T00:00:00`).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+const toSeverity = (enforcement: 'warn' | 'block'): AbsenceConflict['severity'] => enforcement === 'block' ? 'blocking' : 'warning';
+
+const describeScope = (teamId: number | undefined, teams: Team[]): string => {
+    if (teamId === undefined) return 'Im Unternehmen';
+    return `Im Team ${teams.find(t => t.id === teamId)?.name ?? 'Unbekannt'}`;
+};
+
+/**
+ * Checks a new or changed request against the staffing rules and blackout periods of the company and
+ * against overlapping requests from the same team. Half-day absences count as absent for the whole day.
+ */
+export const checkAbsenceConflicts = (
+    request: AbsenceConflictCheck,
+    employees: Employee[],
+    absenceRequests: AbsenceRequest[],
+    teams: Team[],
+    holidaysByYear: HolidaysByYear,
+    companySettings?: CompanySettings,
+): AbsenceConflict[] => {
+    const requester = employees.find(e => e.id === request.employeeId);
+    if (!requester || !CHECKED_TYPES.includes(request.type) || !request.startDate || !request.endDate || request.startDate > request.endDate) return [];
+
+    const { staffingRules, blackouts } = getAbsenceConflictSettings(companySettings);
+    const conflicts: AbsenceConflict[] = [];
+
+    for (const blackout of blackouts) {
+        if (blackout.teamId !== undefined && blackout.teamId !== requester.teamId) continue;
+        if (request.startDate > blackout.endDate || request.endDate < blackout.startDate) continue;
+        conflicts.push({
+            severity: toSeverity(blackout.enforcement),
+            message: `Urlaubssperre "${blackout.label}" vom ${formatDate(blackout.startDate)} bis ${formatDate(blackout.endDate)}.`,
+        });
+    }
+
+    const otherRequests = absenceRequests.filter(r => r.id !== request.id && r.employeeId !== request.employeeId && r.status !== 'rejected');
+    const approvedAbsences = otherRequests.filter(r => r.status === 'approved');
+    const isAbsent = (employeeId: number, dateKey: string) =>
+        approvedAbsences.some(r => r.employeeId === employeeId && dateKey >= r.startDate && dateKey <= r.endDate);
+
+    for (const rule of staffingRules) {
+        if (rule.teamId !== undefined && rule.teamId !== requester.teamId) continue;
+        const members = employees.filter(e => e.isActive && (rule.teamId === undefined || e.teamId === rule.teamId));
+        const shortDays: { dateKey: string; present: number }[] = [];
+        for (const date = new Date(`${request.startDate}T00:00:00`); toDateKey(date) <= request.endDate; date.setDate(date.getDate() + 1)) {
+            const dateKey = toDateKey(date);
+            if (!isScheduledWorkday(requester, date) || holidaysByYear[date.getFullYear()]?.some(h => h.date === dateKey)) continue;
+            const present = members.filter(e =>
+                e.id !== requester.id && e.firstWorkDay <= dateKey && isScheduledWorkday(e, date) && !isAbsent(e.id, dateKey)
+            ).length;
+            if (present < rule.minPresent) shortDays.push({ dateKey, present });
+        }
+        if (shortDays.length === 0) continue;
+        const [first] = shortDays;
+        const moreDays = shortDays.length > 1 ? ` Betroffen sind ${shortDays.length} Arbeitstage.` : '';
+        conflicts.push({
+            severity: toSeverity(rule.enforcement),
+            message: `${describeScope(rule.teamId, teams)} wären am ${formatDate(first.dateKey)} nur ${first.present} von mindestens ${rule.minPresent} Mitarbeitern anwesend.${moreDays}`,
+        });
+    }
+
+    if (requester.teamId !== undefined) {
+        const teamMemberIds = employees.filter(e => e.teamId === requester.teamId).map(e => e.id);
+        const overlapping = otherRequests.filter(r =>
+            teamMemberIds.includes(r.employeeId) && CHECKED_TYPES.includes(r.type) && r.startDate <= request.endDate && r.endDate >= request.startDate
+        );
+        if (overlapping.length > 0) {
+            const pending = overlapping.filter(r => r.status === 'pending').length;
+            conflicts.push({
+                severity: 'warning',
+                message: `${overlapping.length === 1 ? 'Ein Antrag' : `${overlapping.length} Anträge`} aus dem Team ${overlapping.length === 1 ? 'überschneidet' : 'überschneiden'} sich mit diesem Zeitraum${pending > 0 ? `, davon ${pending} noch offen` : ''}.`,
+            });
+        }
+    }
+
+    return conflicts;
+};
+
+export const hasBlockingConflict = (conflicts: AbsenceConflict[]): boolean =>
+    conflicts.some(conflict => conflict.severity === 'blocking');
+
+export const formatAbsenceConflicts = (conflicts: AbsenceConflict[]): string =>
+    conflicts.map(conflict => conflict.message).join(' ');
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import ReactDOM from 'react-dom';
-import type { Employee, AbsenceRequest, TimeEntry, CompanySettings } from '../../types';
+import type { Employee, AbsenceRequest, TimeEntry, CompanySettings, HolidaysByYear, Team } from '../../types';
 import { AbsenceType } from '../../types';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
@@ -12,6 +12,11 @@ import { CalendarModal } from '../ui/CalendarModal';
 import { InfoModal } from '../ui/InfoModal';
 import { SelectorButton } from '../ui/SelectorButton';
 import { SelectionModal } from '../ui/SelectionModal';
+import { Input } from '../ui/Input';
+import { HoursMinutesInput } from '../ui/HoursMinutesInput';
+import { formatHoursAndMinutes, getDailyTargetHours, getTimeRangeHours } from '../utils';
+import { checkAbsenceConflicts, hasBlockingConflict, formatAbsenceConflicts } from '../absenceConflicts';
+import { AbsenceConflictList } from '../AbsenceConflictList';
 
 export type AbsenceFormData = Partial<AbsenceRequest>;
 
@@ -25,6 +30,9 @@ interface AbsenceFormModalProps {
   allAbsenceRequests: AbsenceRequest[];
   allTimeEntries: TimeEntry[];
   companySettings: CompanySettings;
+  allEmployees: Employee[]; // beyond the own teams, for the staffing rules
+  teams: Team[];
+  holidaysByYear: HolidaysByYear;
   isRotated?: boolean;
 }
 
@@ -43,7 +51,7 @@ const absenceTypeOptions = [
     { id: AbsenceType.TimeOff, name: 'Freizeitausgleich' },
 ];
 
-export const AbsenceFormModal: React.FC<AbsenceFormModalProps> = ({ isOpen, onClose, onSave, onDelete, employees, initialData, allAbsenceRequests, allTimeEntries, companySettings, isRotated = false }) => {
+export const AbsenceFormModal: React.FC<AbsenceFormModalProps> = ({ isOpen, onClose, onSave, onDelete, employees, initialData, allAbsenceRequests, allTimeEntries, companySettings, allEmployees, teams, holidaysByYear, isRotated = false }) => {
   const [formData, setFormData] = useState<Partial<AbsenceRequest>>({});
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isRangePickerOpen, setIsRangePickerOpen] = useState(false);
@@ -63,11 +71,32 @@ export const AbsenceFormModal: React.FC<AbsenceFormModalProps> = ({ isOpen, onCl
     }
   }, [initialData, isOpen]);
 
+  // Hourly time off is stored as hours, with the time range if it was entered as one.
+  const timeOffPortion = formData.startTime !== undefined ? 'range' : formData.hours !== undefined ? 'hours' : 'full';
+  const isSingleDay = (formData.type === AbsenceType.Vacation && !!formData.dayPortion && formData.dayPortion !== 'full')
+    || (formData.type === AbsenceType.TimeOff && timeOffPortion !== 'full');
+
   useEffect(() => {
-    if (formData.dayPortion && formData.dayPortion !== 'full' && formData.startDate) {
+    if (isSingleDay && formData.startDate) {
       setFormData(prev => ({ ...prev, endDate: prev.startDate }));
     }
-  }, [formData.dayPortion, formData.startDate]);
+  }, [isSingleDay, formData.startDate]);
+
+  const handleTimeOffPortionChange = (portion: 'full' | 'hours' | 'range') => {
+    setFormData(prev => ({
+      ...prev,
+      hours: portion === 'full' ? undefined : prev.hours ?? 0,
+      startTime: portion === 'range' ? prev.startTime ?? '' : undefined,
+      endTime: portion === 'range' ? prev.endTime ?? '' : undefined,
+    }));
+  };
+
+  const handleTimeOffRangeChange = (changes: { startTime?: string; endTime?: string }) => {
+    setFormData(prev => {
+      const next = { ...prev, ...changes };
+      return { ...next, hours: next.startTime && next.endTime ? getTimeRangeHours(next.startTime, next.endTime) : 0 };
+    });
+  };
 
   const handleClose = () => {
     setIsClosing(true);
@@ -85,6 +114,12 @@ export const AbsenceFormModal: React.FC<AbsenceFormModalProps> = ({ isOpen, onCl
     setIsRangePickerOpen(false);
   };
 
+  const conflicts = useMemo(() => {
+    const { employeeId, type, startDate, endDate } = formData;
+    if (employeeId === undefined || !type || !startDate || !endDate) return [];
+    return checkAbsenceConflicts({ id: formData.id, employeeId, type, startDate, endDate }, allEmployees, allAbsenceRequests, teams, holidaysByYear, companySettings);
+  }, [formData, allEmployees, allAbsenceRequests, teams, holidaysByYear, companySettings]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.employeeId && formData.employeeId !== 0 || !formData.type || !formData.startDate || !formData.endDate) {
@@ -116,7 +151,17 @@ export const AbsenceFormModal: React.FC<AbsenceFormModalProps> = ({ isOpen, onCl
         return;
     }
     
-    const timeEntryConflict = allTimeEntries.find(entry => {
+    if (formData.type === AbsenceType.TimeOff && timeOffPortion !== 'full') {
+        const employee = allEmployees.find(emp => emp.id === formData.employeeId);
+        const dailyTargetHours = employee ? getDailyTargetHours(employee, new Date(`${formData.startDate}T00:00:00`)) : 0;
+        if (!formData.hours || formData.hours <= 0 || formData.hours > dailyTargetHours) {
+            setInfoModal({ isOpen: true, title: 'Ungültige Dauer', message: `Die Stunden müssen größer als 0 sein und dürfen die Soll-Arbeitszeit des Tages (${formatHoursAndMinutes(dailyTargetHours)}) nicht überschreiten.` });
+            return;
+        }
+    }
+
+    // Hourly time off leaves the rest of the day for time entries.
+    const timeEntryConflict = !(formData.type === AbsenceType.TimeOff && timeOffPortion !== 'full') && allTimeEntries.find(entry => {
         if (entry.employeeId !== formData.employeeId) return false;
         const entryDate = new Date(entry.start).toLocaleDateString('sv-SE');
         return entryDate >= formData.startDate! && entryDate <= formData.endDate!;
@@ -126,10 +171,17 @@ export const AbsenceFormModal: React.FC<AbsenceFormModalProps> = ({ isOpen, onCl
         setInfoModal({ isOpen: true, title: 'Konflikt bei Abwesenheit', message: 'Für den ausgewählten Zeitraum existieren bereits Zeiteinträge. Bitte löschen Sie diese zuerst.' });
         return;
     }
+
+    if (hasBlockingConflict(conflicts)) {
+        setInfoModal({ isOpen: true, title: 'Zeitraum gesperrt', message: formatAbsenceConflicts(conflicts.filter(c => c.severity === 'blocking')) });
+        return;
+    }
     
+    const { hours, startTime, endTime, ...rest } = formData;
+    const dataToSave = formData.type === AbsenceType.TimeOff ? formData : rest;
     setIsClosing(true);
     setTimeout(() => {
-        onSave(formData);
+        onSave(dataToSave);
     }, 300);
   };
   
@@ -221,12 +273,54 @@ export const AbsenceFormModal: React.FC<AbsenceFormModalProps> = ({ isOpen, onCl
                 </div>
               )}
 
+              {formData.type === AbsenceType.TimeOff && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Dauer</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {[
+                      { value: 'full', label: 'Ganzer Tag' },
+                      { value: 'hours', label: 'Stunden' },
+                      { value: 'range', label: 'Von - Bis' },
+                    ].map(option => (
+                      <label key={option.value} className={`flex items-center justify-center p-3 border rounded-md cursor-pointer transition-colors text-center text-sm ${
+                        timeOffPortion === option.value
+                          ? 'bg-blue-50 border-blue-400 ring-1 ring-blue-400 font-semibold'
+                          : 'hover:bg-gray-50'
+                      }`}>
+                        <input
+                          type="radio"
+                          name="timeOffPortion"
+                          value={option.value}
+                          checked={timeOffPortion === option.value}
+                          onChange={(e) => handleTimeOffPortionChange(e.target.value as 'full' | 'hours' | 'range')}
+                          className="sr-only"
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {formData.type === AbsenceType.TimeOff && timeOffPortion === 'hours' && (
+                <HoursMinutesInput label="Stunden" value={formData.hours} onChange={(hours) => setFormData(prev => ({ ...prev, hours }))} />
+              )}
+
+              {formData.type === AbsenceType.TimeOff && timeOffPortion === 'range' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <Input label="Von" type="time" value={formData.startTime} onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleTimeOffRangeChange({ startTime: e.target.value })} />
+                  <Input label="Bis" type="time" value={formData.endTime} onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleTimeOffRangeChange({ endTime: e.target.value })} />
+                </div>
+              )}
+
               <DateSelectorButton
                 label="Zeitraum"
                 value={formData.startDate && formData.endDate ? `${formatDate(formData.startDate)} - ${formatDate(formData.endDate)}` : ''}
                 onClick={() => setIsRangePickerOpen(true)}
                 placeholder="Auswählen..."
               />
+
+              <AbsenceConflictList conflicts={conflicts} />
             </div>
 
             <div className={`flex justify-between items-center ${isRotated ? 'pt-3 mt-2' : 'pt-6 mt-4'} border-t flex-shrink-0`}>
@@ -267,7 +361,7 @@ export const AbsenceFormModal: React.FC<AbsenceFormModalProps> = ({ isOpen, onCl
         onSelectRange={handleRangeSelect}
         onSelectDate={handleSingleDateSelect}
         title="Zeitraum auswählen"
-        selectionMode={formData.type === AbsenceType.Vacation && formData.dayPortion !== 'full' ? 'single' : 'range'}
+        selectionMode={isSingleDay ? 'single' : 'range'}
         initialStartDate={formData.startDate}
         initialEndDate={formData.endDate}
         isRotated={isRotated}
@@ -5,11 +5,13 @@ import { ClockIcon } from '../icons/ClockIcon';
 import { ChartBarIcon } from '../icons/ChartBarIcon';
 import { UsersIcon } from '../icons/UsersIcon';
 import { BriefcaseIcon } from '../icons/BriefcaseIcon';
+import { type AdminAccess, canOpenAdminView } from '../adminPermissions';
 
 interface AdminBottomNavProps {
   activeView: AdminViewType;
   setActiveView: (view: AdminViewType) => void;
   absenceRequests: AbsenceRequest[];
+  adminAccess: AdminAccess;
 }
 
 interface NavItemProps {
@@ -42,10 +44,11 @@ const NavItem: React.FC<NavItemProps> = ({ label, isActive, onClick, Icon, badge
   );
 };
 
-export const AdminBottomNav: React.FC<AdminBottomNavProps> = ({ activeView, setActiveView, absenceRequests }) => {
+export const AdminBottomNav: React.FC<AdminBottomNavProps> = ({ activeView, setActiveView, absenceRequests, adminAccess }) => {
   const pendingRequestsCount = absenceRequests.filter(r => r.status === 'pending').length;
   
   const isVerwaltungActive = activeView === AdminViewType.Customers || activeView === AdminViewType.Activities;
+  const isReportsActive = activeView === AdminViewType.Reports || activeView === AdminViewType.Compliance || activeView === AdminViewType.Map;
 
   return (
     <div className="md:hidden fixed bottom-0 left-0 right-0 h-16 bg-white border-t border-gray-200 shadow-[0_-2px_5px_rgba(0,0,0,0.05)] z-30">
@@ -65,7 +68,7 @@ export const AdminBottomNav: React.FC<AdminBottomNavProps> = ({ activeView, setA
         />
         <NavItem 
           label="Berichte" 
-          isActive={activeView === AdminViewType.Reports} 
+          isActive={isReportsActive} 
           onClick={() => setActiveView(AdminViewType.Reports)}
           Icon={ChartBarIcon}
         />
@@ -75,12 +78,14 @@ export const AdminBottomNav: React.FC<AdminBottomNavProps> = ({ activeView, setA
           onClick={() => setActiveView(AdminViewType.Employees)}
           Icon={UsersIcon}
         />
-        <NavItem 
-          label="Verwaltung" 
-          isActive={isVerwaltungActive}
-          onClick={() => setActiveView(AdminViewType.Customers)}
-          Icon={BriefcaseIcon}
-        />
+        {canOpenAdminView(adminAccess, AdminViewType.Customers) && (
+          <NavItem 
+            label="Verwaltung" 
+            isActive={isVerwaltungActive}
+            onClick={() => setActiveView(AdminViewType.Customers)}
+            Icon={BriefcaseIcon}
+          />
+        )}
       </div>
     </div>
   );
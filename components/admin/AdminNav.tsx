@@ -11,12 +11,14 @@ import { ChevronDoubleRightIcon } from '../icons/ChevronDoubleRightIcon';
 import { UserCircleIcon } from '../icons/UserCircleIcon';
 import { CogIcon } from '../icons/CogIcon';
 import { CalendarDaysIcon } from '../icons/CalendarDaysIcon';
+import { type AdminAccess, canOpenAdminView } from '../adminPermissions';
 
 interface AdminNavProps {
   activeView: AdminViewType;
   setActiveView: (view: AdminViewType) => void;
   companySettings: CompanySettings;
   absenceRequests: AbsenceRequest[];
+  adminAccess: AdminAccess;
 }
 
 interface NavItemData {
@@ -63,7 +65,7 @@ const NavItem: React.FC<{
 };
 
 
-export const AdminNav: React.FC<AdminNavProps> = ({ activeView, setActiveView, companySettings, absenceRequests }) => {
+export const AdminNav: React.FC<AdminNavProps> = ({ activeView, setActiveView, companySettings, absenceRequests, adminAccess }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   
   const pendingRequestsCount = absenceRequests.filter(r => r.status === 'pending').length;
@@ -75,12 +77,12 @@ export const AdminNav: React.FC<AdminNavProps> = ({ activeView, setActiveView, c
       { label: "Zeitauswertung", view: AdminViewType.Reports, icon: ChartBarIcon },
       { label: "Mitarbeiter", view: AdminViewType.Employees, icon: UsersIcon },
       { label: "Verwaltung", view: AdminViewType.Customers, icon: BriefcaseIcon },
-  ];
+  ].filter(item => canOpenAdminView(adminAccess, item.view));
 
   const bottomNavItems: NavItemData[] = [
     { label: "Profil", view: AdminViewType.Profile, icon: UserCircleIcon },
     { label: "Einstellungen", view: AdminViewType.Settings, icon: CogIcon },
-  ];
+  ].filter(item => canOpenAdminView(adminAccess, item.view));
 
   const handleItemClick = (view: AdminViewType) => {
     setActiveView(view);
@@ -98,9 +100,12 @@ export const AdminNav: React.FC<AdminNavProps> = ({ activeView, setActiveView, c
         <div className="space-y-1">
             {mainNavItems.map((item) => {
               const isVerwaltungItem = item.label === 'Verwaltung';
+              const isReportsItem = item.view === AdminViewType.Reports;
               const isActive = isVerwaltungItem
                 ? activeView === AdminViewType.Customers || activeView === AdminViewType.Activities
-                : activeView === item.view;
+                : isReportsItem
+                  ? activeView === AdminViewType.Reports || activeView === AdminViewType.Compliance || activeView === AdminViewType.Map
+                  : activeView === item.view;
 
               return (
                 <NavItem
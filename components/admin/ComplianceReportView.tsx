@@ -0,0 +1,175 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { TimeEntry, CompanySettings, Employee, Holiday, HolidaysByYear, ComplianceViolation } from '../../types';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Select } from '../ui/Select';
+import { SelectorButton } from '../ui/SelectorButton';
+import { CalendarModal } from '../ui/CalendarModal';
+import { DateSelectorButton } from '../ui/DateSelectorButton';
+import { DocumentArrowDownIcon } from '../icons/DocumentArrowDownIcon';
+import { EmployeeMultiSelectModal } from './EmployeeMultiSelectModal';
+import { evaluateCompliance, getComplianceRules, COMPLIANCE_RULE_LABELS } from '../complianceRules';
+import { exportRowsAsXlsx } from '../utils';
+
+interface ComplianceReportViewProps {
+  timeEntries: TimeEntry[];
+  employees: Employee[];
+  companySettings: CompanySettings;
+  holidaysByYear: HolidaysByYear;
+  onEnsureHolidaysForYear: (year: number) => void;
+  canExport: boolean;
+}
+
+const SEVERITY_LABELS: Record<ComplianceViolation['severity'], string> = {
+    violation: 'Verstoß',
+    warning: 'Hinweis',
+};
+
+const getStartOfMonth = () => new Date(new Date().getFullYear(), new Date().getMonth(), 1).toLocaleDateString('sv-SE');
+const getEndOfMonth = () => new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).toLocaleDateString('sv-SE');
+const formatDate = (dateString: string) => new Date(`${dateString}T00:00:00`).toLocaleDateString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit', year: 'numeric' });
+
+/**
+ * Admin report of working time rule violations (ArbZG) per employee and day.
+ */
+export const ComplianceReportView: React.FC<ComplianceReportViewProps> = ({ timeEntries, employees, companySettings, holidaysByYear, onEnsureHolidaysForYear, canExport }) => {
+    const [startDate, setStartDate] = useState(getStartOfMonth());
+    const [endDate, setEndDate] = useState(getEndOfMonth());
+    const [selectedEmployeeIds, setSelectedEmployeeIds] = useState<number[]>(() => employees.filter(e => e.isActive).map(e => e.id));
+    const [severityFilter, setSeverityFilter] = useState<'all' | ComplianceViolation['severity']>('all');
+    const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+    const [isEmployeeModalOpen, setIsEmployeeModalOpen] = useState(false);
+
+    const rules = getComplianceRules(companySettings);
+    const activeEmployees = useMemo(() => employees.filter(e => e.isActive), [employees]);
+    const getEmployeeName = (id: number) => { const e = employees.find(emp => emp.id === id); return e ? `${e.firstName} ${e.lastName}` : 'Unbekannt'; };
+
+    useEffect(() => {
+        const startYear = parseInt(startDate.substring(0, 4), 10);
+        const endYear = parseInt(endDate.substring(0, 4), 10);
+        for (let year = startYear; year <= endYear; year++) {
+            onEnsureHolidaysForYear(year);
+        }
+    }, [startDate, endDate, onEnsureHolidaysForYear]);
+
+    const violations = useMemo(() => {
+        const holidays: Holiday[] = [];
+        for (let year = parseInt(startDate.substring(0, 4), 10); year <= parseInt(endDate.substring(0, 4), 10); year++) {
+            holidays.push(...(holidaysByYear[year] || []));
+        }
+        return selectedEmployeeIds
+            // The whole history is checked so that the rest period at the start of the range is included.
+            .flatMap(employeeId => evaluateCompliance(timeEntries.filter(e => e.employeeId === employeeId), holidays, companySettings, employees.find(e => e.id === employeeId)))
+            .filter(v => v.date >= startDate && v.date <= endDate)
+            .sort((a, b) => a.date.localeCompare(b.date) || getEmployeeName(a.employeeId).localeCompare(getEmployeeName(b.employeeId)));
+    }, [timeEntries, employees, selectedEmployeeIds, holidaysByYear, companySettings, startDate, endDate]);
+
+    const filteredViolations = severityFilter === 'all' ? violations : violations.filter(v => v.severity === severityFilter);
+    const violationCount = violations.filter(v => v.severity === 'violation').length;
+    const warningCount = violations.length - violationCount;
+    const affectedEmployeeCount = new Set(violations.map(v => v.employeeId)).size;
+
+    const handleExport = () => {
+        const rows = filteredViolations.map(v => ({
+            'Mitarbeiter': getEmployeeName(v.employeeId),
+            'Datum': formatDate(v.date),
+            'Regel': COMPLIANCE_RULE_LABELS[v.rule],
+            'Schwere': SEVERITY_LABELS[v.severity],
+            'Details': v.message,
+        }));
+        exportRowsAsXlsx(rows, 'Arbeitszeitschutz', `Arbeitszeitschutz_${startDate}_bis_${endDate}.xlsx`, [25, 16, 20, 10, 80]);
+    };
+
+    const getSelectedEmployeesText = () => {
+        if (selectedEmployeeIds.length === activeEmployees.length) return 'Alle Mitarbeiter';
+        if (selectedEmployeeIds.length === 0) return 'Kein Mitarbeiter ausgewählt';
+        if (selectedEmployeeIds.length === 1) return getEmployeeName(selectedEmployeeIds[0]);
+        return `${selectedEmployeeIds.length} Mitarbeiter ausgewählt`;
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <h2 className="text-xl font-bold mb-1">Arbeitszeitschutz</h2>
+                <p className="text-sm text-gray-500 mb-4">
+                    Prüfung der Zeiteinträge auf Höchstarbeitszeit ({rules.maxDailyHours} Std.), Ruhezeit ({rules.minRestHours} Std.), Pausen sowie Sonn- und Feiertagsarbeit.
+                    Die Regeln können unter Einstellungen › Zeiterfassung angepasst werden.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+                    <DateSelectorButton label="Zeitraum" value={`${formatDate(startDate)} - ${formatDate(endDate)}`} onClick={() => setIsDatePickerOpen(true)} placeholder="Zeitraum..." />
+                    <SelectorButton label="Mitarbeiter" value={getSelectedEmployeesText()} onClick={() => setIsEmployeeModalOpen(true)} placeholder="Auswählen..." />
+                    <Select label="Anzeigen" value={severityFilter} onChange={(e) => setSeverityFilter(e.target.value as typeof severityFilter)}>
+                        <option value="all">Alle</option>
+                        <option value="violation">Nur Verstöße</option>
+                        <option value="warning">Nur Hinweise</option>
+                    </Select>
+                    {canExport && <Button onClick={handleExport} disabled={filteredViolations.length === 0} className="bg-green-600 hover:bg-green-700 h-10 flex items-center justify-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"><DocumentArrowDownIcon className="h-5 w-5" />Export</Button>}
+                </div>
+            </Card>
+
+            {!rules.enabled ? (
+                <Card>
+                    <p className="text-center text-gray-500 py-8">Die Arbeitszeitprüfung ist in den Einstellungen deaktiviert.</p>
+                </Card>
+            ) : (
+                <Card>
+                    <div className="grid grid-cols-3 gap-4 mb-4 pb-4 border-b text-center">
+                        <div>
+                            <p className="text-sm text-gray-500">Verstöße</p>
+                            <p className={`text-2xl font-bold ${violationCount > 0 ? 'text-red-600' : 'text-gray-800'}`}>{violationCount}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-500">Hinweise</p>
+                            <p className={`text-2xl font-bold ${warningCount > 0 ? 'text-yellow-600' : 'text-gray-800'}`}>{warningCount}</p>
+                        </div>
+                        <div>
+                            <p className="text-sm text-gray-500">Betroffene Mitarbeiter</p>
+                            <p className="text-2xl font-bold text-gray-800">{affectedEmployeeCount}</p>
+                        </div>
+                    </div>
+                    {filteredViolations.length > 0 ? (
+                        <div className="overflow-x-auto">
+                            <table className="min-w-full text-sm">
+                                <thead className="text-left bg-gray-50 border-b">
+                                    <tr>
+                                        <th className="py-2 px-3 font-semibold text-gray-600">Mitarbeiter</th>
+                                        <th className="py-2 px-3 font-semibold text-gray-600">Datum</th>
+                                        <th className="py-2 px-3 font-semibold text-gray-600">Regel</th>
+                                        <th className="py-2 px-3 font-semibold text-gray-600">Schwere</th>
+                                        <th className="py-2 px-3 font-semibold text-gray-600">Details</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200">
+                                    {filteredViolations.map((v, index) => (
+                                        <tr key={index} className="hover:bg-gray-50">
+                                            <td className="py-2 px-3 whitespace-nowrap align-top font-medium">{getEmployeeName(v.employeeId)}</td>
+                                            <td className="py-2 px-3 whitespace-nowrap align-top">{formatDate(v.date)}</td>
+                                            <td className="py-2 px-3 whitespace-nowrap align-top">{COMPLIANCE_RULE_LABELS[v.rule]}</td>
+                                            <td className="py-2 px-3 whitespace-nowrap align-top">
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${v.severity === 'violation' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                                                    {SEVERITY_LABELS[v.severity]}
+                                                </span>
+                                            </td>
+                                            <td className="py-2 px-3 align-top">{v.message}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    ) : (
+                        <p className="text-center text-gray-500 py-8">Im ausgewählten Zeitraum wurden keine Auffälligkeiten gefunden.</p>
+                    )}
+                </Card>
+            )}
+
+            <CalendarModal isOpen={isDatePickerOpen} onClose={() => setIsDatePickerOpen(false)} onSelectRange={(range) => { setStartDate(range.start); setEndDate(range.end); setIsDatePickerOpen(false); }} title="Zeitraum auswählen" selectionMode="range" initialStartDate={startDate} initialEndDate={endDate} />
+            <EmployeeMultiSelectModal
+                isOpen={isEmployeeModalOpen}
+                onClose={() => setIsEmployeeModalOpen(false)}
+                onApply={(ids) => setSelectedEmployeeIds(ids as number[])}
+                employees={employees}
+                selectedEmployeeIds={selectedEmployeeIds}
+            />
+        </div>
+    );
+};
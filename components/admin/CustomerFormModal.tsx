@@ -10,6 +10,7 @@ import { ConfirmModal } from '../ui/ConfirmModal';
 import { TrashIcon } from '../icons/TrashIcon';
 import { MapPinIcon } from '../icons/MapPinIcon';
 import { ToggleSwitch } from '../ui/ToggleSwitch';
+import { NfcTapSettingsFields } from './NfcTapSettingsFields';
 
 interface CustomerFormModalProps {
   isOpen: boolean;
@@ -136,7 +137,6 @@ export const CustomerFormModal: React.FC<CustomerFormModalProps> = ({ isOpen, on
                   <Input name="name" label="Beschreibung (für Zeiterfassung)" value={formData.name} onChange={handleChange} required placeholder="z.B. Projekt A - Baustelle 1" />
                   <Input name="companyName" label="Firma" value={formData.companyName} onChange={handleChange} />
                   <Input name="contactPerson" label="Ansprechpartner" value={formData.contactPerson || ''} onChange={handleChange} />
-                  <Input name="nfcTagId" label="NFC-Tag ID (Optional)" value={formData.nfcTagId || ''} onChange={handleChange} placeholder="z.B. kunde-001-standort-a" />
               </fieldset>
 
               <fieldset className="space-y-4 p-4 border rounded-lg">
@@ -160,12 +160,22 @@ export const CustomerFormModal: React.FC<CustomerFormModalProps> = ({ isOpen, on
                   <div className="flex items-center justify-between p-3 border rounded-md bg-gray-50">
                       <div className="mr-4">
                           <label className="text-sm font-medium text-gray-700 block">Geofencing erzwingen</label>
-                          <span className="text-xs text-gray-500">Stempeln nur innerhalb des Radius erlauben</span>
+                          <span className="text-xs text-gray-500">Start nur innerhalb des Radius erlauben; ein Ende außerhalb wird markiert</span>
                       </div>
                       <ToggleSwitch checked={formData.enforceGeofencing || false} onChange={(checked) => setFormData(prev => ({ ...prev, enforceGeofencing: checked }))} />
                   </div>
               </fieldset>
 
+              <fieldset className="space-y-4 p-4 border rounded-lg">
+                  <legend className="text-lg font-semibold px-2">NFC-Tags</legend>
+                  <p className="text-xs text-gray-500">Gilt für alle Tags dieses Eintrags, sofern am Tag nichts anderes eingestellt ist.</p>
+                  <NfcTapSettingsFields
+                      settings={formData.nfcTapSettings}
+                      onChange={(nfcTapSettings) => setFormData(prev => ({ ...prev, nfcTapSettings }))}
+                      inheritLabel="Standard"
+                  />
+              </fieldset>
+
               <fieldset className="space-y-4 p-4 border rounded-lg">
                   <legend className="text-lg font-semibold px-2">Adresse</legend>
                   <div className="grid grid-cols-1 md:grid-cols-[2fr,1fr] gap-4">
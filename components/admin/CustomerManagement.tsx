@@ -1,10 +1,18 @@
 
 import React, { useState } from 'react';
-import type { Customer, CompanySettings } from '../../types';
+import type { Customer, Activity, Employee, NfcTag, CompanySettings } from '../../types';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { CustomerFormModal } from './CustomerFormModal';
+import { NfcTagWriteModal } from './NfcTagWriteModal';
+import { RevokeNfcTagModal } from './RevokeNfcTagModal';
+import { NfcTagEditModal } from './NfcTagEditModal';
 import { PlusIcon } from '../icons/PlusIcon';
+import { DevicePhoneMobileIcon } from '../icons/DevicePhoneMobileIcon';
+import { QrCodeIcon } from '../icons/QrCodeIcon';
+import { DocumentArrowDownIcon } from '../icons/DocumentArrowDownIcon';
+import { exportQrCodeSheet } from '../qrCodeSheet';
+import { isNfcTagActive, getNfcTagMedium, isPauseTag, isBadgeTag, getNfcTapSettings, NFC_SAME_TAG_ACTION_LABELS, NFC_OTHER_TAG_ACTION_LABELS } from '../nfcTagPolicy';
 
 interface CustomerManagementProps {
   customers: Customer[];
@@ -12,13 +20,47 @@ interface CustomerManagementProps {
   onUpdate: (customer: Customer) => void;
   onDelete: (id: string) => void;
   companySettings: CompanySettings;
+  activities: Activity[];
+  employees: Employee[];
+  nfcTags: NfcTag[];
+  onRegisterNfcTag: (tag: NfcTag) => void;
+  onUpdateNfcTag: (tag: NfcTag) => void;
+  onRevokeNfcTag: (id: number, reason?: string) => void;
 }
 
-export const CustomerManagement: React.FC<CustomerManagementProps> = ({ customers, onAdd, onUpdate, onDelete, companySettings }) => {
+const formatDate = (isoString: string) =>
+  new Date(isoString).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+export const CustomerManagement: React.FC<CustomerManagementProps> = ({ customers, onAdd, onUpdate, onDelete, companySettings, activities, employees, nfcTags, onRegisterNfcTag, onUpdateNfcTag, onRevokeNfcTag }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [customerToEdit, setCustomerToEdit] = useState<Customer | null>(null);
+  const [isWriteModalOpen, setIsWriteModalOpen] = useState(false);
+  const [tagToEdit, setTagToEdit] = useState<NfcTag | null>(null);
+  const [isQrModalOpen, setIsQrModalOpen] = useState(false);
+  const [tagToRevoke, setTagToRevoke] = useState<NfcTag | null>(null);
 
   const customerLabel = companySettings.customerLabel || 'Kunde';
+  const activityLabel = companySettings.activityLabel || 'Tätigkeit';
+  const describeTapBehaviour = (tag: NfcTag): string => {
+    if (isPauseTag(tag)) return 'Pause starten / beenden';
+    if (isBadgeTag(tag)) return 'Anmeldung am Kiosk';
+    const settings = getNfcTapSettings(tag, customers.find(c => c.id === tag.customerId));
+    return `Gleicher Tag: ${NFC_SAME_TAG_ACTION_LABELS[settings.sameTag]} · Anderer Tag: ${NFC_OTHER_TAG_ACTION_LABELS[settings.otherTag]}`;
+  };
+  const describeEmployee = (employeeId?: number): string => {
+    const employee = employees.find(e => e.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Gelöscht';
+  };
+  const activeQrCodes = nfcTags.filter(t => getNfcTagMedium(t) === 'qr' && isNfcTagActive(t));
+  const sortedTags = [...nfcTags].sort((a, b) => Number(isNfcTagActive(b)) - Number(isNfcTagActive(a)) || a.label.localeCompare(b.label));
+
+  const handleExportQrCodes = () => {
+    exportQrCodeSheet({ tags: activeQrCodes, customers, activities, employees, companySettings })
+      .catch(error => {
+        console.error('Fehler beim Erstellen des QR-Bogens:', error);
+        alert('Der QR-Bogen konnte nicht erstellt werden.');
+      });
+  };
 
   const handleOpenModal = (customer?: Customer) => {
     setCustomerToEdit(customer || null);
@@ -54,7 +96,7 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({ customer
           <table className="min-w-full bg-white">
             <thead className="bg-gray-50">
               <tr>
-                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">NFC-Tag ID</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tags / QR-Codes</th>
                 <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Beschreibung (Zeiterfassung)</th>
                 <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Firma</th>
                 <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ansprechpartner</th>
@@ -64,7 +106,7 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({ customer
               {customers.length > 0 ? (
                 customers.map(c => (
                   <tr key={c.id} onClick={() => handleOpenModal(c)} className="cursor-pointer hover:bg-gray-50 transition-colors">
-                    <td className="py-4 px-4 whitespace-nowrap font-mono text-xs">{c.nfcTagId || '-'}</td>
+                    <td className="py-4 px-4 whitespace-nowrap">{nfcTags.filter(t => t.customerId === c.id && isNfcTagActive(t)).length || '-'}</td>
                     <td 
                       className="py-4 px-4 whitespace-nowrap font-normal"
                       title={`Bearbeiten: ${c.name}`}
@@ -86,6 +128,143 @@ export const CustomerManagement: React.FC<CustomerManagementProps> = ({ customer
           </table>
         </div>
       </Card>
+
+      <Card className="mt-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">NFC-Tags & QR-Codes</h2>
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button onClick={() => setIsWriteModalOpen(true)} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
+              <DevicePhoneMobileIcon className="h-5 w-5" />
+              Tag beschreiben
+            </Button>
+            <Button onClick={() => setIsQrModalOpen(true)} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
+              <QrCodeIcon className="h-5 w-5" />
+              QR-Code anlegen
+            </Button>
+            <Button onClick={handleExportQrCodes} disabled={activeQrCodes.length === 0} className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-2">
+              <DocumentArrowDownIcon className="h-5 w-5" />
+              QR-Bogen (PDF)
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Beim Stempeln werden nur hier registrierte Tags und QR-Codes akzeptiert. QR-Codes sind für Geräte ohne NFC, z.B. iPhones, gedacht. Verlorene Tags sperren Sie, damit sie nicht mehr verwendet werden können. Mit einem Klick auf einen Tag ändern Sie Zuordnung und Verhalten.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bezeichnung</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{customerLabel} / {activityLabel}</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bei laufender Zeit</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Seriennummer</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Angelegt</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="py-3 px-4"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {sortedTags.length > 0 ? (
+                sortedTags.map(tag => {
+                  const isActive = isNfcTagActive(tag);
+                  return (
+                    <tr key={tag.id} onClick={isActive ? () => setTagToEdit(tag) : undefined} className={isActive ? 'cursor-pointer hover:bg-gray-50 transition-colors' : 'text-gray-400'}>
+                      <td className="py-4 px-4 whitespace-nowrap">
+                        {tag.label}
+                        <span className="ml-2 px-1.5 py-0.5 text-[10px] font-semibold rounded bg-gray-100 text-gray-600">{getNfcTagMedium(tag) === 'qr' ? 'QR' : 'NFC'}</span>
+                      </td>
+                      <td className="py-4 px-4 whitespace-nowrap">
+                        {isBadgeTag(tag)
+                          ? `Ausweis: ${describeEmployee(tag.employeeId)}`
+                          : `${customers.find(c => c.id === tag.customerId)?.name || 'Gelöscht'} / ${isPauseTag(tag) ? 'Pause' : activities.find(a => a.id === tag.activityId)?.name || 'Gelöscht'}`}
+                      </td>
+                      <td className="py-4 px-4 whitespace-nowrap text-sm">{describeTapBehaviour(tag)}</td>
+                      <td className="py-4 px-4 whitespace-nowrap font-mono text-xs">{tag.serialNumber || '-'}</td>
+                      <td className="py-4 px-4 whitespace-nowrap">{formatDate(tag.createdAt)}</td>
+                      <td className="py-4 px-4 whitespace-nowrap">
+                        {isActive ? (
+                          <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">Aktiv</span>
+                        ) : (
+                          <span title={tag.revokedReason || undefined} className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                            Gesperrt am {formatDate(tag.revokedAt!)}{tag.revokedReason ? ` – ${tag.revokedReason}` : ''}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-4 px-4 whitespace-nowrap text-right">
+                        {isActive && (
+                          <button onClick={(e) => { e.stopPropagation(); setTagToRevoke(tag); }} className="text-sm font-semibold text-red-600 hover:text-red-800">Sperren</button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              ) : (
+                <tr>
+                  <td colSpan={7} className="text-center py-10 text-gray-500">
+                    Noch keine NFC-Tags beschrieben.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {isWriteModalOpen && (
+        <NfcTagWriteModal
+          onClose={() => setIsWriteModalOpen(false)}
+          onWritten={onRegisterNfcTag}
+          customers={customers}
+          activities={activities}
+          employees={employees}
+          customerLabel={customerLabel}
+          activityLabel={activityLabel}
+        />
+      )}
+
+      {isQrModalOpen && (
+        <NfcTagEditModal
+          tag={null}
+          onClose={() => setIsQrModalOpen(false)}
+          onSave={(tag) => {
+            onRegisterNfcTag(tag);
+            setIsQrModalOpen(false);
+          }}
+          customers={customers}
+          activities={activities}
+          employees={employees}
+          customerLabel={customerLabel}
+          activityLabel={activityLabel}
+        />
+      )}
+
+      {tagToEdit && (
+        <NfcTagEditModal
+          tag={tagToEdit}
+          onClose={() => setTagToEdit(null)}
+          onSave={(tag) => {
+            onUpdateNfcTag(tag);
+            setTagToEdit(null);
+          }}
+          customers={customers}
+          activities={activities}
+          employees={employees}
+          customerLabel={customerLabel}
+          activityLabel={activityLabel}
+        />
+      )}
+
+      {tagToRevoke && (
+        <RevokeNfcTagModal
+          tagLabel={tagToRevoke.label}
+          onClose={() => setTagToRevoke(null)}
+          onConfirm={(reason) => {
+            onRevokeNfcTag(tagToRevoke.id, reason || undefined);
+            setTagToRevoke(null);
+          }}
+        />
+      )}
       
       {isModalOpen && (
         <CustomerFormModal
@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import ReactDOM from 'react-dom';
-import type { Employee, ContractDetails, WeeklySchedule, CompanySettings } from '../../types';
+import type { Employee, ContractDetails, WeeklySchedule, CompanySettings, Team } from '../../types';
 import { EmploymentType, TargetHoursModel } from '../../types';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
@@ -17,25 +17,31 @@ import { FlexibleTimeInputCompact } from '../ui/FlexibleTimeInputCompact';
 import { RadioGroup } from '../ui/RadioGroup';
 import { TrashIcon } from '../icons/TrashIcon';
 import { ConfirmModal } from '../ui/ConfirmModal';
+import { KIOSK_PIN_PATTERN } from '../../services/auth';
+import { BREAK_RULE_PRESETS, findBreakRulePreset, describeBreakRules, getBreakRules } from '../breakRules';
+import { ABSENCE_APPROVER_LABELS } from '../absenceApproval';
+import { isAdminRole, ROLE_LABELS } from '../adminPermissions';
 
 interface EmployeeFormModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (employee: Omit<Employee, 'id'> | Employee) => void;
+  onSave: (employee: Omit<Employee, 'id'> | Employee, password?: string, inviteByEmail?: boolean, kioskPin?: string) => void;
   onDelete: (id: number) => void;
   initialData: Employee | null;
   loggedInUser: Employee;
   companySettings: CompanySettings;
+  hasKioskPin: boolean;
+  employees: Employee[];
+  teams: Team[];
 }
 
-type FormData = Omit<Employee, 'id' | 'contractHistory' | 'lastModified'> & Partial<ContractDetails> & { changesValidFrom?: string };
+type FormData = Omit<Employee, 'id' | 'contractHistory' | 'lastModified'> & Partial<ContractDetails> & { changesValidFrom?: string; password?: string; kioskPin?: string };
 
 const defaultState: Omit<Employee, 'id'> = {
   firstName: '',
   lastName: '',
   dateOfBirth: '', // Kept empty internally for type compatibility
   username: '',
-  password: '',
   email: '',
   isActive: true,
   firstWorkDay: new Date().toLocaleDateString('sv-SE'),
@@ -73,10 +79,11 @@ const formatDate = (dateString?: string) => {
     });
 };
 
-export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, onClose, onSave, onDelete, initialData, loggedInUser, companySettings }) => {
+export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, onClose, onSave, onDelete, initialData, loggedInUser, companySettings, hasKioskPin, employees, teams }) => {
   const [step, setStep] = useState(1);
   const [formData, setFormData] = useState<Partial<FormData>>(() => ({
     ...defaultState,
+    password: '',
     ...defaultContractState,
     validFrom: defaultState.firstWorkDay,
   }));
@@ -115,16 +122,12 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
           setFormData({
             ...initialData,
             ...currentContract,
-            password: '', // Clear password on edit for security
+            password: '', // Only a newly entered password is saved; stored ones are hashes
+            kioskPin: '',
             changesValidFrom: changesDate.toLocaleDateString('sv-SE'),
           });
           
-          // Determine password mode based on data (heuristic)
-          if (!initialData.password && initialData.email) {
-              setPasswordMode('email');
-          } else {
-              setPasswordMode('manual');
-          }
+          setPasswordMode('manual');
 
           // Load Vacation Days
           const refYear = initialData.firstWorkDay ? Math.max(new Date(initialData.firstWorkDay).getFullYear(), new Date().getFullYear()) : new Date().getFullYear();
@@ -142,6 +145,8 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
           setFormData({
             ...defaultState,
             ...defaultContractState,
+            password: '',
+            kioskPin: '',
             vacationDays: undefined, 
             firstWorkDay: newFirstWorkDay,
             validFrom: newFirstWorkDay,
@@ -163,6 +168,13 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
     }
   };
 
+  const handleReferenceChange = (name: 'supervisorId' | 'deputyId' | 'teamId', value: string) => {
+    setFormData(prev => ({ ...prev, [name]: value ? parseInt(value, 10) : undefined }));
+  };
+
+  // Only admins and team leads can decide absence requests, so only they can be supervisor or deputy.
+  const approverOptions = employees.filter(e => e.isActive && isAdminRole(e.role) && e.id !== initialData?.id);
+
   const handleHoursMinutesChange = (name: 'monthlyTargetHours' | 'dailyTargetHours' | 'startingTimeBalanceHours', value: number) => {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
@@ -190,12 +202,13 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
     }));
   };
   
-  const handleToggleChange = (name: 'isAdmin' | 'isActive' | 'automaticBreakDeduction' | 'showVacationWarning', checked: boolean) => {
-      if (name === 'isAdmin') {
-          setFormData(prev => ({ ...prev, role: checked ? 'admin' : 'employee' }));
-      } else {
-          setFormData(prev => ({ ...prev, [name]: checked }));
-      }
+  const handleBreakRulesChange = (value: string) => {
+      if (value === 'custom') return; // keeps the individual rules of the contract
+      setFormData(prev => ({ ...prev, breakRules: BREAK_RULE_PRESETS.find(p => p.id === value)?.rules }));
+  };
+
+  const handleToggleChange = (name: 'isActive' | 'automaticBreakDeduction' | 'showVacationWarning', checked: boolean) => {
+      setFormData(prev => ({ ...prev, [name]: checked }));
   };
 
   const handleClose = () => {
@@ -216,6 +229,10 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
           alert("Bitte geben Sie eine E-Mail-Adresse ein.");
           return false;
       }
+      if (formData.kioskPin && !KIOSK_PIN_PATTERN.test(formData.kioskPin)) {
+          alert("Die Kiosk-PIN muss aus 4 bis 8 Ziffern bestehen.");
+          return false;
+      }
       return true;
   };
 
@@ -281,6 +298,11 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
         setStep(1); // Jump to first tab
         return;
     }
+    if (formData.kioskPin && !KIOSK_PIN_PATTERN.test(formData.kioskPin)) {
+        alert("Die Kiosk-PIN muss aus 4 bis 8 Ziffern bestehen.");
+        setStep(1);
+        return;
+    }
 
     // In create mode (wizard), handle 'Next' behavior for Enter key
     if (!initialData && step < 3) {
@@ -291,10 +313,11 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
     setIsClosing(true);
     setTimeout(() => {
         const {
-            firstName, lastName, dateOfBirth, username, password, email, isActive, firstWorkDay,
+            firstName, lastName, dateOfBirth, username, password, kioskPin, email, isActive, firstWorkDay,
             street, houseNumber, postalCode, city, employmentType, monthlyTargetHours,
             dailyTargetHours, role, startingTimeBalanceHours, dashboardType,
-            targetHoursModel, weeklySchedule, showVacationWarning, automaticBreakDeduction
+            targetHoursModel, weeklySchedule, showVacationWarning, automaticBreakDeduction,
+            breakRules, changesValidFrom, supervisorId, deputyId, teamId
         } = formData;
 
         const isWeekly = employmentType !== EmploymentType.FullTime && targetHoursModel === TargetHoursModel.Weekly;
@@ -311,6 +334,7 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
             dailyTargetHours: Number(dailyTargetHours),
             targetHoursModel: employmentType === EmploymentType.FullTime ? TargetHoursModel.Monthly : targetHoursModel,
             weeklySchedule: isWeekly ? weeklySchedule : undefined,
+            breakRules,
         };
 
         if (initialData) { // EDIT MODE
@@ -341,6 +365,21 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
             if (vacationYear1) updateContractForYear(vacationRefYear, Number(vacationYear1));
             if (vacationYear2) updateContractForYear(vacationRefYear + 1, Number(vacationYear2));
             
+            // A changed break rule starts a new contract version on the "valid from" date and
+            // carries over to the later versions.
+            const breakRulesFrom = [changesValidFrom || new Date().toLocaleDateString('sv-SE'), initialData.firstWorkDay].sort()[1];
+            const previousBreakRules = getContractDetailsForDate(initialData, new Date(`${breakRulesFrom}T00:00:00`)).breakRules;
+            if (JSON.stringify(previousBreakRules) !== JSON.stringify(breakRules)) {
+                if (!workingContractHistory.some(c => c.validFrom === breakRulesFrom)) {
+                    const prevContract = getContractDetailsForDate({ ...initialData, contractHistory: workingContractHistory }, new Date(`${breakRulesFrom}T00:00:00`));
+                    workingContractHistory.push({ ...prevContract, validFrom: breakRulesFrom });
+                }
+                workingContractHistory.forEach((contract, index) => {
+                    if (contract.validFrom >= breakRulesFrom) workingContractHistory[index] = { ...contract, breakRules };
+                });
+                workingContractHistory.sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+            }
+
             if (firstWorkDay && firstWorkDay !== initialData.firstWorkDay) {
                 const oldStartIndex = workingContractHistory.findIndex(c => c.validFrom === initialData.firstWorkDay);
                 if (oldStartIndex !== -1) {
@@ -355,25 +394,23 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
                 dashboardType: dashboardType || 'standard',
                 showVacationWarning: showVacationWarning ?? true,
                 automaticBreakDeduction: automaticBreakDeduction ?? false,
+                supervisorId, deputyId: isAdminRole(role!) ? deputyId : undefined, teamId,
                 lastModified: new Date().toISOString(),
                 contractHistory: workingContractHistory,
                 dateOfBirth: '', // Empty as requested
             };
-            if (password && passwordMode === 'manual') updatedEmployee.password = password;
-            // In a real app, if passwordMode === 'email', trigger invite email here
-            
-            onSave(updatedEmployee);
+            onSave(updatedEmployee, passwordMode === 'manual' && password ? password : undefined, passwordMode === 'email', kioskPin || undefined);
 
         } else { // CREATE MODE
             const contract1: ContractDetails = { ...contractBase, validFrom: firstWorkDay!, vacationDays: Number(vacationYear1) || 30 };
             
             const newEmployee: Omit<Employee, 'id'> = {
                 firstName: firstName!, lastName: lastName!, username: username!, email: email || undefined,
-                password: passwordMode === 'manual' ? password! : 'invite-pending', // Placeholder for invite
                 isActive: isActive!, firstWorkDay: firstWorkDay!, role: role!,
                 dashboardType: dashboardType || 'standard',
                 showVacationWarning: showVacationWarning ?? true,
                 automaticBreakDeduction: automaticBreakDeduction ?? false,
+                supervisorId, deputyId: isAdminRole(role!) ? deputyId : undefined, teamId,
                 lastModified: new Date().toISOString(),
                 contractHistory: [contract1],
                 startingTimeBalanceHours: Number(startingTimeBalanceHours) || 0,
@@ -388,7 +425,7 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
                 });
             }
             
-            onSave(newEmployee);
+            onSave(newEmployee, passwordMode === 'manual' ? password : undefined, passwordMode === 'email', kioskPin || undefined);
         }
     }, 300);
   };
@@ -475,11 +512,24 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
                                         placeholder="mitarbeiter@firma.de"
                                       />
                                       <p className="text-xs text-gray-500">
-                                          Der Mitarbeiter erhält eine E-Mail mit einem Link zum Setzen des Passworts.
+                                          {initialData
+                                            ? 'Beim Speichern erhält der Mitarbeiter eine E-Mail mit einem neuen Link zum Setzen des Passworts. Ältere Links werden ungültig.'
+                                            : 'Der Mitarbeiter erhält eine E-Mail mit einem Link zum Setzen des Passworts (7 Tage gültig).'}
                                       </p>
                                   </div>
                               )}
                           </div>
+
+                          <Input
+                            name="kioskPin"
+                            label={hasKioskPin ? "Neue Kiosk-PIN (leer lassen zum Beibehalten)" : "Kiosk-PIN (optional)"}
+                            type="password"
+                            inputMode="numeric"
+                            value={formData.kioskPin || ''}
+                            onChange={handleChange}
+                            autoComplete="off"
+                          />
+                          <p className="text-xs text-gray-500 -mt-2">4 bis 8 Ziffern für die Anmeldung am gemeinsamen Kiosk-Terminal.</p>
                        </fieldset>
                    </div>
                )}
@@ -559,6 +609,21 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
                                   placeholder="Tage"
                               />
                           </div>
+
+                          <div>
+                              <Select
+                                  label="Pausenregelung"
+                                  value={formData.breakRules ? findBreakRulePreset(formData.breakRules)?.id ?? 'custom' : 'company'}
+                                  onChange={(e) => handleBreakRulesChange(e.target.value)}
+                              >
+                                  <option value="company">Firmenregel ({describeBreakRules(getBreakRules(companySettings))})</option>
+                                  {BREAK_RULE_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+                                  {formData.breakRules && !findBreakRulePreset(formData.breakRules) && <option value="custom">Individuell ({describeBreakRules(formData.breakRules)})</option>}
+                              </Select>
+                              {initialData && (
+                                  <p className="text-xs text-gray-500 mt-1">Eine Änderung gilt ab dem {formatDate(formData.changesValidFrom)}.</p>
+                              )}
+                          </div>
                        </fieldset>
                    </div>
                )}
@@ -583,7 +648,7 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
                           <div className="flex items-center justify-between p-3 border rounded-md">
                               <div className="mr-4">
                                   <label className="text-sm font-medium text-gray-700 block">Automatische Pause</label>
-                                  <span className="text-xs text-gray-500">Zieht autom. Pause ab (nach 6h: 30m, nach 9h: 45m)</span>
+                                  <span className="text-xs text-gray-500">Zieht autom. Pause ab ({describeBreakRules(formData.breakRules || getBreakRules(companySettings))})</span>
                               </div>
                               <ToggleSwitch checked={formData.automaticBreakDeduction || false} onChange={(c) => handleToggleChange('automaticBreakDeduction', c)} />
                           </div>
@@ -597,17 +662,40 @@ export const EmployeeFormModal: React.FC<EmployeeFormModalProps> = ({ isOpen, on
                           </div>
                        </fieldset>
 
+                       <fieldset className="space-y-4 p-4 border rounded-lg">
+                          <legend className="text-lg font-semibold px-2">Abwesenheiten</legend>
+                          <div>
+                              <Select label="Vorgesetzte/r" value={formData.supervisorId ?? ''} onChange={(e) => handleReferenceChange('supervisorId', e.target.value)}>
+                                  <option value="">Keine/r</option>
+                                  {approverOptions.map(e => <option key={e.id} value={e.id}>{e.firstName} {e.lastName}</option>)}
+                              </Select>
+                              <p className="text-xs text-gray-500 mt-1">Genehmigt Abwesenheitsanträge in der Stufe "{ABSENCE_APPROVER_LABELS.supervisor}".</p>
+                          </div>
+                          {isAdminRole(formData.role) && (
+                              <div>
+                                  <Select label="Vertretung bei Abwesenheit" value={formData.deputyId ?? ''} onChange={(e) => handleReferenceChange('deputyId', e.target.value)}>
+                                      <option value="">Keine</option>
+                                      {approverOptions.map(e => <option key={e.id} value={e.id}>{e.firstName} {e.lastName}</option>)}
+                                  </Select>
+                                  <p className="text-xs text-gray-500 mt-1">Entscheidet über Anträge, solange diese Person selbst abwesend ist.</p>
+                              </div>
+                          )}
+                       </fieldset>
+
                        {/* BERECHTIGUNGEN & STATUS (Moved Bottom) */}
                        <fieldset className="space-y-4 p-4 border rounded-lg">
                           <legend className="text-lg font-semibold px-2">Berechtigungen & Status</legend>
                           
-                          <div className="flex items-center justify-between p-3 border rounded-md">
-                              <div className="mr-4">
-                                <label className="text-sm font-medium text-gray-700">Administrator-Rechte</label>
-                                <p className="text-xs text-gray-500">Zugriff auf alle Einstellungen und Mitarbeiterdaten</p>
-                              </div>
-                              <ToggleSwitch checked={formData.role === 'admin'} onChange={(c) => handleToggleChange('isAdmin', c)} disabled={initialData?.id === 0 || initialData?.id === loggedInUser.id} />
+                          <div>
+                              <Select name="role" label="Rolle" value={formData.role} onChange={handleChange} disabled={initialData?.id === 0 || initialData?.id === loggedInUser.id}>
+                                  {Object.entries(ROLE_LABELS).map(([role, label]) => <option key={role} value={role}>{label}</option>)}
+                              </Select>
+                              <p className="text-xs text-gray-500 mt-1">Administratoren verwalten alle Mitarbeiter, Teamleitungen nur die Mitarbeiter ihrer Teams. Was welche Rolle darf, legen Sie in den Einstellungen fest.</p>
                           </div>
+                          <Select label="Team" value={formData.teamId ?? ''} onChange={(e) => handleReferenceChange('teamId', e.target.value)}>
+                              <option value="">Kein Team</option>
+                              {teams.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                          </Select>
                           <div className="flex items-center justify-between p-3 border rounded-md">
                               <label className="text-sm font-medium text-gray-700">Account aktiv</label>
                               <ToggleSwitch checked={formData.isActive || false} onChange={(c) => handleToggleChange('isActive', c)} disabled={initialData?.id === 0} />
@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import type { Employee, CompanySettings } from '../../types';
+import type { Employee, CompanySettings, KioskPin, Team } from '../../types';
 import { EmploymentType } from '../../types';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
@@ -15,13 +15,17 @@ import { InformationCircleIcon } from '../icons/InformationCircleIcon';
 interface EmployeeManagementProps {
   loggedInUser: Employee;
   employees: Employee[];
-  onAdd: (employee: Omit<Employee, 'id'>) => void;
-  onUpdate: (employee: Employee) => void;
+  allEmployees: Employee[];
+  onAdd: (employee: Omit<Employee, 'id'>, password?: string, inviteByEmail?: boolean, kioskPin?: string) => void;
+  onUpdate: (employee: Employee, password?: string, inviteByEmail?: boolean, kioskPin?: string) => void;
   onDelete: (id: number) => void;
   companySettings: CompanySettings;
+  kioskPins: KioskPin[];
+  teams: Team[];
+  canEdit: boolean; // without it the list is read-only
 }
 
-export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ loggedInUser, employees, onAdd, onUpdate, onDelete, companySettings }) => {
+export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ loggedInUser, employees, allEmployees, onAdd, onUpdate, onDelete, companySettings, kioskPins, teams, canEdit }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [employeeToEdit, setEmployeeToEdit] = useState<Employee | null>(null);
 
@@ -37,11 +41,11 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ loggedIn
     setEmployeeToEdit(null);
   };
 
-  const handleSave = (employeeData: Omit<Employee, 'id'> | Employee) => {
+  const handleSave = (employeeData: Omit<Employee, 'id'> | Employee, password?: string, inviteByEmail?: boolean, kioskPin?: string) => {
     if ('id' in employeeData) {
-      onUpdate(employeeData);
+      onUpdate(employeeData, password, inviteByEmail, kioskPin);
     } else {
-      onAdd(employeeData);
+      onAdd(employeeData, password, inviteByEmail, kioskPin);
     }
     handleCloseModal();
   };
@@ -63,10 +67,12 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ loggedIn
       <Card>
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-xl font-bold">Mitarbeiter verwalten</h2>
-          <Button onClick={() => handleOpenModal()} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
-            <PlusIcon className="h-5 w-5" />
-            Anlegen
-          </Button>
+          {canEdit && (
+            <Button onClick={() => handleOpenModal()} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
+              <PlusIcon className="h-5 w-5" />
+              Anlegen
+            </Button>
+          )}
         </div>
         
         <div className="overflow-x-auto">
@@ -74,6 +80,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ loggedIn
             <thead className="bg-gray-50">
               <tr>
                 <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Team</th>
                 <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Anstellung</th>
                 <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Soll/Monat</th>
                 <th className="py-3 px-4 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Urlaubstage</th>
@@ -98,16 +105,18 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ loggedIn
                   return (
                     <tr 
                       key={emp.id}
-                      onClick={() => emp.isActive && handleOpenModal(emp)}
-                      className={`transition-colors ${!emp.isActive ? 'bg-gray-50 text-gray-500' : 'cursor-pointer hover:bg-gray-50'}`}
+                      onClick={() => canEdit && emp.isActive && handleOpenModal(emp)}
+                      className={`transition-colors ${!emp.isActive ? 'bg-gray-50 text-gray-500' : canEdit ? 'cursor-pointer hover:bg-gray-50' : ''}`}
                     >
                       <td className="py-4 px-4 whitespace-nowrap font-normal">{emp.firstName} {emp.lastName}</td>
+                      <td className="py-4 px-4 whitespace-nowrap">{teams.find(t => t.id === emp.teamId)?.name || '-'}</td>
                       <td className="py-4 px-4 whitespace-nowrap">{getEmploymentTypeLabel(currentContract.employmentType)}</td>
                       <td className="py-4 px-4 whitespace-nowrap">{formatHoursAndMinutes(currentContract.monthlyTargetHours, timeFormat)}</td>
                       <td className="py-4 px-4 whitespace-nowrap text-center">{currentContract.vacationDays}</td>
                       <td className="py-4 px-4 whitespace-nowrap text-center">
                         <button
                             type="button"
+                            disabled={!canEdit}
                             onClick={(e) => {
                                 e.stopPropagation();
                                 handleDashboardTypeChange(emp, emp.dashboardType !== 'simplified' ? 'simplified' : 'standard');
@@ -127,19 +136,21 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ loggedIn
                           <ToggleSwitch
                               checked={emp.showVacationWarning ?? true}
                               onChange={(checked) => onUpdate({ ...emp, showVacationWarning: checked, lastModified: new Date().toISOString() })}
+                              disabled={!canEdit}
                           />
                       </td>
                        <td className="py-4 px-4 whitespace-nowrap text-center">
                           <ToggleSwitch
                               checked={emp.automaticBreakDeduction ?? false}
                               onChange={(checked) => onUpdate({ ...emp, automaticBreakDeduction: checked, lastModified: new Date().toISOString() })}
+                              disabled={!canEdit}
                           />
                       </td>
                       <td className="py-4 px-4 whitespace-nowrap text-center">
                           <ToggleSwitch
                               checked={emp.isActive}
                               onChange={(checked) => onUpdate({ ...emp, isActive: checked, lastModified: new Date().toISOString() })}
-                              disabled={isSuperAdmin}
+                              disabled={isSuperAdmin || !canEdit}
                           />
                       </td>
                     </tr>
@@ -147,7 +158,7 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ loggedIn
                 })
               ) : (
                 <tr>
-                  <td colSpan={8} className="text-center py-10 text-gray-500">
+                  <td colSpan={9} className="text-center py-10 text-gray-500">
                     Keine Mitarbeiter angelegt.
                   </td>
                 </tr>
@@ -166,6 +177,9 @@ export const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ loggedIn
           initialData={employeeToEdit}
           loggedInUser={loggedInUser}
           companySettings={companySettings}
+          hasKioskPin={!!employeeToEdit && kioskPins.some(p => p.id === employeeToEdit.id)}
+          employees={allEmployees}
+          teams={teams}
         />
       )}
     </>
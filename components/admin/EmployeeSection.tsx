@@ -1,27 +1,51 @@
 import React from 'react';
-import type { Employee, CompanySettings } from '../../types';
+import type { Employee, CompanySettings, KioskPin, Team } from '../../types';
 import { EmployeeManagement } from './EmployeeManagement';
+import { TeamManagement } from './TeamManagement';
+import { canAccess, type AdminAccess } from '../adminPermissions';
 
 interface EmployeeSectionProps {
   loggedInUser: Employee;
   employees: Employee[];
-  onAddEmployee: (employee: Omit<Employee, 'id'>) => void;
-  onUpdateEmployee: (employee: Employee) => void;
+  allEmployees: Employee[]; // unscoped, for choosing supervisors and team leads
+  onAddEmployee: (employee: Omit<Employee, 'id'>, password?: string, inviteByEmail?: boolean, kioskPin?: string) => void;
+  onUpdateEmployee: (employee: Employee, password?: string, inviteByEmail?: boolean, kioskPin?: string) => void;
   onDeleteEmployee: (id: number) => void;
   companySettings: CompanySettings;
+  kioskPins: KioskPin[];
+  adminAccess: AdminAccess;
+  teams: Team[];
+  onAddTeam: (team: Omit<Team, 'id'>) => void;
+  onUpdateTeam: (team: Team) => void;
+  onDeleteTeam: (id: number) => void;
 }
 
 export const EmployeeSection: React.FC<EmployeeSectionProps> = (props) => {
+  const canManage = canAccess(props.adminAccess, 'manageSettings');
+
   return (
     <div className="space-y-6">
       <EmployeeManagement
         loggedInUser={props.loggedInUser}
         employees={props.employees}
+        allEmployees={props.allEmployees}
         onAdd={props.onAddEmployee}
         onUpdate={props.onUpdateEmployee}
         onDelete={props.onDeleteEmployee}
         companySettings={props.companySettings}
+        kioskPins={props.kioskPins}
+        teams={props.teams}
+        canEdit={canManage}
       />
+      {canManage && (
+        <TeamManagement
+          teams={props.teams}
+          employees={props.allEmployees}
+          onAdd={props.onAddTeam}
+          onUpdate={props.onUpdateTeam}
+          onDelete={props.onDeleteTeam}
+        />
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,294 @@
+import React, { useState, useMemo } from 'react';
+import type { TimeEntry, Customer, Activity, CompanySettings, Employee, MonthClosing, AuditLogEntry, GeofenceBreach } from '../../types';
+import { Card } from '../ui/Card';
+import { Select } from '../ui/Select';
+import { SelectorButton } from '../ui/SelectorButton';
+import { CalendarModal } from '../ui/CalendarModal';
+import { DateSelectorButton } from '../ui/DateSelectorButton';
+import { EmployeeMultiSelectModal } from './EmployeeMultiSelectModal';
+import { EntryDetailModal } from '../EntryDetailModal';
+import { getGeofenceBreach, getGeofenceRadius, hasCustomerLocation, formatGeofenceBreach } from '../geofencePolicy';
+import { hasPunchLocation } from '../punchMetadata';
+
+interface EntryMapViewProps {
+  timeEntries: TimeEntry[];
+  customers: Customer[];
+  activities: Activity[];
+  companySettings: CompanySettings;
+  employees: Employee[];
+  monthClosings: MonthClosing[];
+  auditLog: AuditLogEntry[];
+  onUpdateTimeEntry: (entry: TimeEntry, reason?: string) => void;
+  onDeleteTimeEntry: (id: number) => void;
+  canEdit: boolean;
+}
+
+interface MapPoint {
+  key: string;
+  entry: TimeEntry;
+  kind: 'clockIn' | 'clockOut';
+  lat: number;
+  lng: number;
+  breach: GeofenceBreach | null;
+}
+
+interface Bounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+const METERS_PER_DEGREE = 111_320;
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 500;
+const MAP_PADDING = 40;
+const MIN_EXTENT_METERS = 300;
+const SCALE_BAR_STEPS = [10, 20, 50, 100, 200, 500, 1_000, 2_000, 5_000, 10_000, 20_000, 50_000, 100_000];
+
+const getDaysAgo = (days: number) => { const d = new Date(); d.setDate(d.getDate() - days); return d.toLocaleDateString('sv-SE'); };
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
+const formatDateTime = (iso: string) => new Date(iso).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' });
+const formatDistance = (meters: number) => meters >= 1_000 ? `${(meters / 1_000).toLocaleString('de-DE')} km` : `${meters} m`;
+const cosOfLatitude = (lat: number) => Math.cos(lat * Math.PI / 180);
+
+/**
+ * Smallest area containing all points and geofence circles, widened to a minimum size around its centre.
+ */
+const getBounds = (points: MapPoint[], customers: Customer[]): Bounds | null => {
+  const lats: number[] = [];
+  const lngs: number[] = [];
+  points.forEach(p => { lats.push(p.lat); lngs.push(p.lng); });
+  customers.filter(hasCustomerLocation).forEach(c => {
+    const radiusLat = getGeofenceRadius(c) / METERS_PER_DEGREE;
+    const radiusLng = radiusLat / cosOfLatitude(c.gpsLat);
+    lats.push(c.gpsLat - radiusLat, c.gpsLat + radiusLat);
+    lngs.push(c.gpsLng - radiusLng, c.gpsLng + radiusLng);
+  });
+  if (lats.length === 0) return null;
+
+  const bounds = { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLng: Math.min(...lngs), maxLng: Math.max(...lngs) };
+  const centerLat = (bounds.minLat + bounds.maxLat) / 2;
+  const centerLng = (bounds.minLng + bounds.maxLng) / 2;
+  const halfLat = Math.max(bounds.maxLat - bounds.minLat, MIN_EXTENT_METERS / METERS_PER_DEGREE) / 2;
+  const halfLng = Math.max(bounds.maxLng - bounds.minLng, MIN_EXTENT_METERS / METERS_PER_DEGREE / cosOfLatitude(centerLat)) / 2;
+  return { minLat: centerLat - halfLat, maxLat: centerLat + halfLat, minLng: centerLng - halfLng, maxLng: centerLng + halfLng };
+};
+
+/**
+ * Equirectangular projection around the centre of the area, which is accurate enough for the few
+ * kilometres around customer sites and needs no map tiles. Distances are kept true to scale.
+ */
+const createProjection = (bounds: Bounds) => {
+  const cosLat = cosOfLatitude((bounds.minLat + bounds.maxLat) / 2);
+  const widthMeters = (bounds.maxLng - bounds.minLng) * cosLat * METERS_PER_DEGREE;
+  const heightMeters = (bounds.maxLat - bounds.minLat) * METERS_PER_DEGREE;
+  const pixelsPerMeter = Math.min((MAP_WIDTH - 2 * MAP_PADDING) / widthMeters, (MAP_HEIGHT - 2 * MAP_PADDING) / heightMeters);
+  const offsetX = (MAP_WIDTH - widthMeters * pixelsPerMeter) / 2;
+  const offsetY = (MAP_HEIGHT - heightMeters * pixelsPerMeter) / 2;
+  return {
+    pixelsPerMeter,
+    toX: (lng: number) => offsetX + (lng - bounds.minLng) * cosLat * METERS_PER_DEGREE * pixelsPerMeter,
+    toY: (lat: number) => offsetY + (bounds.maxLat - lat) * METERS_PER_DEGREE * pixelsPerMeter,
+  };
+};
+
+/**
+ * Admin map of customer geofences and the positions at which time entries were started and ended.
+ */
+export const EntryMapView: React.FC<EntryMapViewProps> = ({ timeEntries, customers, activities, companySettings, employees, monthClosings, auditLog, onUpdateTimeEntry, onDeleteTimeEntry, canEdit }) => {
+    const [startDate, setStartDate] = useState(() => getDaysAgo(6));
+    const [endDate, setEndDate] = useState(() => getDaysAgo(0));
+    const [selectedEmployeeIds, setSelectedEmployeeIds] = useState<number[]>(() => employees.filter(e => e.isActive).map(e => e.id));
+    const [focusCustomerId, setFocusCustomerId] = useState('');
+    const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+    const [isEmployeeModalOpen, setIsEmployeeModalOpen] = useState(false);
+    const [selectedEntryId, setSelectedEntryId] = useState<number | null>(null);
+
+    const customerLabel = companySettings.customerLabel || 'Kunde';
+    const activeEmployees = useMemo(() => employees.filter(e => e.isActive), [employees]);
+    const locatedCustomers = useMemo(() => customers.filter(hasCustomerLocation), [customers]);
+    const getEmployeeName = (id: number) => { const e = employees.find(emp => emp.id === id); return e ? `${e.firstName} ${e.lastName}` : 'Unbekannt'; };
+    const getCustomerName = (id: string) => customers.find(c => c.id === id)?.name || 'N/A';
+
+    const points = useMemo(() => {
+        const start = new Date(startDate); start.setHours(0, 0, 0, 0);
+        const end = new Date(endDate); end.setHours(23, 59, 59, 999);
+        return timeEntries
+            .filter(entry => {
+                const entryDate = new Date(entry.start);
+                return entryDate >= start && entryDate <= end && selectedEmployeeIds.includes(entry.employeeId)
+                    && (!focusCustomerId || entry.customerId === focusCustomerId);
+            })
+            .flatMap(entry => {
+                const customer = customers.find(c => c.id === entry.customerId);
+                return (['clockIn', 'clockOut'] as const).flatMap((kind): MapPoint[] => {
+                    const event = entry[kind];
+                    if (!hasPunchLocation(event)) return [];
+                    const position = { lat: event.gpsLat, lng: event.gpsLng };
+                    return [{ key: `${entry.id}-${kind}`, entry, kind, ...position, breach: getGeofenceBreach(customer, position) }];
+                });
+            });
+    }, [timeEntries, customers, startDate, endDate, selectedEmployeeIds, focusCustomerId]);
+
+    // Without points in the range, all sites are shown to give an overview.
+    const shownCustomers = useMemo(() => {
+        if (focusCustomerId) return locatedCustomers.filter(c => c.id === focusCustomerId);
+        const customerIdsWithPoints = new Set(points.map(p => p.entry.customerId));
+        return points.length > 0 ? locatedCustomers.filter(c => customerIdsWithPoints.has(c.id)) : locatedCustomers;
+    }, [locatedCustomers, points, focusCustomerId]);
+
+    const bounds = getBounds(points, shownCustomers);
+    const projection = bounds ? createProjection(bounds) : null;
+    const outliers = points.filter(p => p.breach).sort((a, b) => new Date(b.entry.start).getTime() - new Date(a.entry.start).getTime());
+    const selectedEntry = selectedEntryId !== null ? timeEntries.find(e => e.id === selectedEntryId) : undefined;
+
+    const scaleBarMeters = projection
+        ? [...SCALE_BAR_STEPS].reverse().find(meters => meters * projection.pixelsPerMeter <= 150) ?? SCALE_BAR_STEPS[0]
+        : 0;
+
+    const getSelectedEmployeesText = () => {
+        if (selectedEmployeeIds.length === activeEmployees.length) return 'Alle Mitarbeiter';
+        if (selectedEmployeeIds.length === 0) return 'Kein Mitarbeiter ausgewählt';
+        if (selectedEmployeeIds.length === 1) return getEmployeeName(selectedEmployeeIds[0]);
+        return `${selectedEmployeeIds.length} Mitarbeiter ausgewählt`;
+    };
+
+    const getPointTitle = (point: MapPoint) => [
+        getEmployeeName(point.entry.employeeId),
+        `${point.kind === 'clockIn' ? 'Kommen' : 'Gehen'} ${formatDateTime(point.kind === 'clockIn' ? point.entry.start : point.entry.end)}`,
+        getCustomerName(point.entry.customerId),
+        point.breach ? `Außerhalb: ${formatGeofenceBreach(point.breach)}` : '',
+    ].filter(Boolean).join(' · ');
+
+    const renderPoint = (point: MapPoint) => {
+        if (!projection) return null;
+        const x = projection.toX(point.lng);
+        const y = projection.toY(point.lat);
+        const size = point.breach ? 7 : 5;
+        const shapeProps = {
+            fill: point.breach ? '#dc2626' : '#16a34a',
+            stroke: point.breach ? '#7f1d1d' : '#ffffff',
+            strokeWidth: 1.5,
+        };
+        return (
+            <g key={point.key} onClick={() => setSelectedEntryId(point.entry.id)} className="cursor-pointer">
+                <title>{getPointTitle(point)}</title>
+                {point.breach && <circle cx={x} cy={y} r={size + 5} fill="none" stroke="#dc2626" strokeWidth={2} opacity={0.5} />}
+                {point.kind === 'clockIn'
+                    ? <circle cx={x} cy={y} r={size} {...shapeProps} />
+                    : <rect x={x - size} y={y - size} width={size * 2} height={size * 2} {...shapeProps} />}
+            </g>
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <h2 className="text-xl font-bold mb-4">Karte</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                    <DateSelectorButton label="Zeitraum" value={`${formatDate(startDate)} - ${formatDate(endDate)}`} onClick={() => setIsDatePickerOpen(true)} placeholder="Zeitraum..." />
+                    <SelectorButton label="Mitarbeiter" value={getSelectedEmployeesText()} onClick={() => setIsEmployeeModalOpen(true)} placeholder="Auswählen..." />
+                    <Select label={customerLabel} value={focusCustomerId} onChange={(e) => setFocusCustomerId(e.target.value)}>
+                        <option value="">Alle</option>
+                        {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </Select>
+                </div>
+            </Card>
+
+            <Card>
+                {projection ? (
+                    <>
+                        <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="w-full h-auto bg-gray-50 border rounded-lg" role="img" aria-label="Karte der Stempelungen">
+                            {shownCustomers.map(customer => {
+                                const x = projection.toX(customer.gpsLng!);
+                                const y = projection.toY(customer.gpsLat!);
+                                const r = getGeofenceRadius(customer) * projection.pixelsPerMeter;
+                                return (
+                                    <g key={customer.id}>
+                                        <title>{`${customer.name} · Radius ${formatDistance(getGeofenceRadius(customer))}`}</title>
+                                        <circle cx={x} cy={y} r={r} fill="#3b82f6" fillOpacity={0.08} stroke="#3b82f6" strokeDasharray="6 4" />
+                                        <circle cx={x} cy={y} r={3} fill="#1d4ed8" />
+                                        <text x={x} y={y - r - 6} textAnchor="middle" fontSize={13} fill="#1e3a8a">{customer.name}</text>
+                                    </g>
+                                );
+                            })}
+                            {[...points.filter(p => !p.breach), ...points.filter(p => p.breach)].map(renderPoint)}
+                            <g transform={`translate(${MAP_PADDING / 2}, ${MAP_HEIGHT - MAP_PADDING / 2})`}>
+                                <line x1={0} y1={0} x2={scaleBarMeters * projection.pixelsPerMeter} y2={0} stroke="#374151" strokeWidth={2} />
+                                <line x1={0} y1={-4} x2={0} y2={4} stroke="#374151" strokeWidth={2} />
+                                <line x1={scaleBarMeters * projection.pixelsPerMeter} y1={-4} x2={scaleBarMeters * projection.pixelsPerMeter} y2={4} stroke="#374151" strokeWidth={2} />
+                                <text x={0} y={-8} fontSize={12} fill="#374151">{formatDistance(scaleBarMeters)}</text>
+                            </g>
+                        </svg>
+                        <div className="flex flex-wrap gap-x-6 gap-y-2 mt-3 text-sm text-gray-600">
+                            <span className="flex items-center gap-2"><span className="inline-block h-3 w-3 rounded-full bg-green-600" />Kommen</span>
+                            <span className="flex items-center gap-2"><span className="inline-block h-3 w-3 bg-green-600" />Gehen</span>
+                            <span className="flex items-center gap-2"><span className="inline-block h-3 w-3 rounded-full bg-red-600" />Außerhalb des Bereichs</span>
+                            <span className="flex items-center gap-2"><span className="inline-block h-3 w-3 rounded-full border border-dashed border-blue-500 bg-blue-50" />Bereich ({customerLabel})</span>
+                        </div>
+                        {points.length === 0 && (
+                            <p className="text-center text-gray-500 mt-4">Im ausgewählten Zeitraum wurden keine Standorte erfasst.</p>
+                        )}
+                    </>
+                ) : (
+                    <p className="text-center text-gray-500 py-8">Es sind weder Standorte von {customerLabel} hinterlegt noch Stempelungen mit Standort vorhanden.</p>
+                )}
+            </Card>
+
+            {outliers.length > 0 && (
+                <Card>
+                    <h3 className="text-lg font-semibold mb-4">Außerhalb des Bereichs ({outliers.length})</h3>
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full text-sm">
+                            <thead className="text-left bg-gray-50 border-b">
+                                <tr>
+                                    <th className="py-2 px-3 font-semibold text-gray-600">Mitarbeiter</th>
+                                    <th className="py-2 px-3 font-semibold text-gray-600">Stempelung</th>
+                                    <th className="py-2 px-3 font-semibold text-gray-600">{customerLabel}</th>
+                                    <th className="py-2 px-3 font-semibold text-gray-600">Entfernung</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                                {outliers.map(point => (
+                                    <tr key={point.key} onClick={() => setSelectedEntryId(point.entry.id)} className="cursor-pointer hover:bg-gray-50">
+                                        <td className="py-2 px-3 whitespace-nowrap font-medium">{getEmployeeName(point.entry.employeeId)}</td>
+                                        <td className="py-2 px-3 whitespace-nowrap">{point.kind === 'clockIn' ? 'Kommen' : 'Gehen'} {formatDateTime(point.kind === 'clockIn' ? point.entry.start : point.entry.end)}</td>
+                                        <td className="py-2 px-3">{getCustomerName(point.entry.customerId)}</td>
+                                        <td className="py-2 px-3 whitespace-nowrap text-red-700">{formatGeofenceBreach(point.breach!)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            )}
+
+            {selectedEntry && (
+                <EntryDetailModal
+                    entry={selectedEntry}
+                    customers={customers}
+                    activities={activities}
+                    timeEntries={timeEntries.filter(e => e.employeeId === selectedEntry.employeeId)}
+                    onClose={() => setSelectedEntryId(null)}
+                    onUpdate={onUpdateTimeEntry}
+                    onDelete={onDeleteTimeEntry}
+                    isAdminView={true}
+                    isReadOnly={!canEdit}
+                    companySettings={companySettings}
+                    monthClosings={monthClosings.filter(c => c.employeeId === selectedEntry.employeeId)}
+                    employees={employees}
+                    auditLog={auditLog.filter(a => a.entityType === 'timeEntry' && a.entityId === selectedEntry.id)}
+                />
+            )}
+            <CalendarModal isOpen={isDatePickerOpen} onClose={() => setIsDatePickerOpen(false)} onSelectRange={(range) => { setStartDate(range.start); setEndDate(range.end); setIsDatePickerOpen(false); }} title="Zeitraum auswählen" selectionMode="range" initialStartDate={startDate} initialEndDate={endDate} />
+            <EmployeeMultiSelectModal
+                isOpen={isEmployeeModalOpen}
+                onClose={() => setIsEmployeeModalOpen(false)}
+                onApply={(ids) => setSelectedEmployeeIds(ids as number[])}
+                employees={employees}
+                selectedEmployeeIds={selectedEmployeeIds}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import ReactDOM from 'react-dom';
+import type { Customer, Activity, Employee, NfcTag } from '../../types';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { XIcon } from '../icons/XIcon';
+import { NfcTagFields, emptyNfcTagFormData, validateNfcTagFormData, type NfcTagFormData } from './NfcTagFields';
+import { getNfcTagMedium } from '../nfcTagPolicy';
+
+interface NfcTagEditModalProps {
+  tag: NfcTag | null;
+  onClose: () => void;
+  onSave: (tag: NfcTag) => void;
+  customers: Customer[];
+  activities: Activity[];
+  employees: Employee[];
+  customerLabel: string;
+  activityLabel: string;
+}
+
+/**
+ * Changes the registry entry of a tag. The tag itself only carries its id, so it does not have to be rewritten.
+ * Without a tag, a QR code is registered; unlike an NFC tag it is printed afterwards instead of written.
+ */
+export const NfcTagEditModal: React.FC<NfcTagEditModalProps> = ({ tag, onClose, onSave, customers, activities, employees, customerLabel, activityLabel }) => {
+  const [formData, setFormData] = useState<NfcTagFormData>(tag ?? emptyNfcTagFormData);
+  const [isClosing, setIsClosing] = useState(false);
+  const title = !tag ? 'QR-Code anlegen' : getNfcTagMedium(tag) === 'qr' ? 'QR-Code bearbeiten' : 'NFC-Tag bearbeiten';
+
+  const handleClose = () => {
+    setIsClosing(true);
+    setTimeout(onClose, 300);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateNfcTagFormData(formData, customerLabel, activityLabel);
+    if (validationError) {
+      alert(validationError);
+      return;
+    }
+    setIsClosing(true);
+    const baseTag: NfcTag = tag ?? { ...emptyNfcTagFormData, id: Date.now(), medium: 'qr', createdAt: new Date().toISOString() };
+    setTimeout(() => onSave({ ...baseTag, ...formData, label: formData.label.trim() }), 300);
+  };
+
+  return ReactDOM.createPortal(
+    <div className={`fixed inset-0 bg-black flex items-center justify-center z-[100] p-4 ${isClosing ? 'animate-modal-fade-out' : 'animate-modal-fade-in'}`} onClick={handleClose}>
+      <Card className={`w-full max-w-lg relative ${isClosing ? 'animate-modal-slide-down' : 'animate-modal-slide-up'}`} onClick={(e) => e.stopPropagation()}>
+        <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 z-10">
+          <XIcon className="h-6 w-6" />
+        </button>
+
+        <form onSubmit={handleSubmit}>
+          <h2 className="text-xl font-bold mb-4">{title}</h2>
+          <div className="space-y-4 pt-4 border-t">
+            <NfcTagFields
+              data={formData}
+              onChange={setFormData}
+              customers={customers}
+              activities={activities}
+              employees={employees}
+              customerLabel={customerLabel}
+              activityLabel={activityLabel}
+            />
+          </div>
+          <div className="flex justify-end gap-4 pt-6 border-t mt-6">
+            <Button type="button" onClick={handleClose} className="bg-gray-500 hover:bg-gray-600">Abbrechen</Button>
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700">Speichern</Button>
+          </div>
+        </form>
+      </Card>
+    </div>,
+    document.body
+  );
+};
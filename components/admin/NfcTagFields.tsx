@@ -0,0 +1,84 @@
+import React from 'react';
+import type { Customer, Activity, Employee, NfcTag } from '../../types';
+import { Input } from '../ui/Input';
+import { Select } from '../ui/Select';
+import { NfcTapSettingsFields } from './NfcTapSettingsFields';
+import { isPauseTag, isBadgeTag } from '../nfcTagPolicy';
+
+export type NfcTagFormData = Pick<NfcTag, 'label' | 'purpose' | 'customerId' | 'activityId' | 'employeeId' | 'tapSettings'>;
+
+export const emptyNfcTagFormData: NfcTagFormData = { label: '', purpose: 'work', customerId: '', activityId: '' };
+
+/**
+ * Returns an error message if the data is incomplete.
+ */
+export const validateNfcTagFormData = (data: NfcTagFormData, customerLabel: string, activityLabel: string): string | null => {
+  if (!data.label.trim()) return 'Bitte geben Sie eine Bezeichnung ein.';
+  if (isBadgeTag(data)) return data.employeeId ? null : 'Bitte wählen Sie den Mitarbeiter aus.';
+  if (!data.customerId) return `Bitte wählen Sie ${customerLabel} aus.`;
+  if (!isPauseTag(data) && !data.activityId) return `Bitte wählen Sie ${activityLabel} aus.`;
+  return null;
+};
+
+interface NfcTagFieldsProps {
+  data: NfcTagFormData;
+  onChange: (data: NfcTagFormData) => void;
+  customers: Customer[];
+  activities: Activity[];
+  employees: Employee[];
+  customerLabel: string;
+  activityLabel: string;
+  disabled?: boolean;
+}
+
+export const NfcTagFields: React.FC<NfcTagFieldsProps> = ({ data, onChange, customers, activities, employees, customerLabel, activityLabel, disabled }) => {
+  const isPause = isPauseTag(data);
+  const handlePurposeChange = (purpose: string) => {
+    if (purpose === 'badge') onChange({ ...data, purpose: 'badge', customerId: '', activityId: '', tapSettings: undefined });
+    else if (purpose === 'pause') onChange({ ...data, purpose: 'pause', activityId: '', employeeId: undefined, tapSettings: undefined });
+    else onChange({ ...data, purpose: 'work', employeeId: undefined });
+  };
+
+  return (
+    <>
+      <Input name="label" label="Bezeichnung" value={data.label} onChange={(e) => onChange({ ...data, label: e.target.value })} placeholder="z.B. Eingang Halle 2" disabled={disabled} required />
+      <Select
+        label="Art"
+        value={data.purpose || 'work'}
+        onChange={(e) => handlePurposeChange(e.target.value)}
+        disabled={disabled}
+      >
+        <option value="work">Zeiterfassung (Starten, Wechseln, Beenden)</option>
+        <option value="pause">Pause (Pause starten und beenden)</option>
+        <option value="badge">Mitarbeiterausweis (Anmeldung am Kiosk)</option>
+      </Select>
+      {isBadgeTag(data) ? (
+        <Select label="Mitarbeiter" value={data.employeeId?.toString() || ''} onChange={(e) => onChange({ ...data, employeeId: Number(e.target.value) || undefined })} disabled={disabled} required>
+          <option value="">Auswählen...</option>
+          {employees.filter(e => e.isActive).map(e => <option key={e.id} value={e.id}>{e.firstName} {e.lastName}</option>)}
+        </Select>
+      ) : (
+        <>
+          <Select label={isPause ? `${customerLabel} (Standort)` : customerLabel} value={data.customerId} onChange={(e) => onChange({ ...data, customerId: e.target.value })} disabled={disabled} required>
+            <option value="">Auswählen...</option>
+            {customers.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </Select>
+          {!isPause && (
+            <>
+              <Select label={activityLabel} value={data.activityId} onChange={(e) => onChange({ ...data, activityId: e.target.value })} disabled={disabled} required>
+                <option value="">Auswählen...</option>
+                {activities.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </Select>
+              <NfcTapSettingsFields
+                settings={data.tapSettings}
+                onChange={(tapSettings) => onChange({ ...data, tapSettings })}
+                inheritLabel={`Vorgabe ${customerLabel}`}
+                disabled={disabled}
+              />
+            </>
+          )}
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useRef } from 'react';
+import ReactDOM from 'react-dom';
+import type { Customer, Activity, Employee, NfcTag } from '../../types';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { XIcon } from '../icons/XIcon';
+import { DevicePhoneMobileIcon } from '../icons/DevicePhoneMobileIcon';
+import { CheckCircleIcon } from '../icons/CheckCircleIcon';
+import { createNfcTagPayload } from '../nfcTagPolicy';
+import { NfcTagFields, emptyNfcTagFormData, validateNfcTagFormData, type NfcTagFormData } from './NfcTagFields';
+
+interface NfcTagWriteModalProps {
+  onClose: () => void;
+  onWritten: (tag: NfcTag) => void;
+  customers: Customer[];
+  activities: Activity[];
+  employees: Employee[];
+  customerLabel: string;
+  activityLabel: string;
+}
+
+type WriteStatus = 'idle' | 'waiting' | 'writing' | 'done' | 'error';
+
+/**
+ * Writes the registry id of a new tag onto an NFC tag (Web NFC, Chrome on Android) and registers the
+ * tag once the write has succeeded.
+ */
+export const NfcTagWriteModal: React.FC<NfcTagWriteModalProps> = ({ onClose, onWritten, customers, activities, employees, customerLabel, activityLabel }) => {
+  const [formData, setFormData] = useState<NfcTagFormData>(emptyNfcTagFormData);
+  const [status, setStatus] = useState<WriteStatus>('idle');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const isSupported = 'NDEFReader' in window;
+
+  // Stops waiting for a tag when the dialog is closed.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    setIsClosing(true);
+    setTimeout(onClose, 300);
+  };
+
+  const fail = (message: string) => {
+    abortControllerRef.current?.abort();
+    setErrorMessage(message);
+    setStatus('error');
+  };
+
+  const handleWrite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateNfcTagFormData(formData, customerLabel, activityLabel);
+    if (validationError) {
+      alert(validationError);
+      return;
+    }
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const tag: NfcTag = { ...formData, id: Date.now(), label: formData.label.trim(), createdAt: new Date().toISOString() };
+    setErrorMessage('');
+    setStatus('waiting');
+
+    try {
+      // @ts-ignore
+      const reader = new NDEFReader();
+      // The tag is read first to learn its serial number and written while it is still held to the device.
+      await reader.scan({ signal: abortController.signal });
+      reader.onreading = async (event: any) => {
+        reader.onreading = null;
+        setStatus('writing');
+        try {
+          await reader.write({ records: [{ recordType: 'text', data: createNfcTagPayload(tag) }] }, { signal: abortController.signal });
+          abortController.abort();
+          onWritten({ ...tag, serialNumber: event.serialNumber || undefined });
+          setStatus('done');
+        } catch (error) {
+          console.error('Fehler beim Beschreiben des NFC-Tags:', error);
+          fail('Der Tag konnte nicht beschrieben werden. Halten Sie ihn ruhig an das Gerät und versuchen Sie es erneut.');
+        }
+      };
+      reader.onreadingerror = () => fail('Der Tag konnte nicht gelesen werden. Bitte versuchen Sie es erneut.');
+    } catch (error) {
+      console.error('Fehler beim Starten des NFC-Scans:', error);
+      fail(error instanceof Error && error.name === 'NotAllowedError'
+        ? 'Der Zugriff auf NFC wurde nicht erlaubt.'
+        : 'NFC konnte nicht gestartet werden. Ist NFC am Gerät eingeschaltet?');
+    }
+  };
+
+  const isBusy = status === 'waiting' || status === 'writing';
+
+  return ReactDOM.createPortal(
+    <div className={`fixed inset-0 bg-black flex items-center justify-center z-[100] p-4 ${isClosing ? 'animate-modal-fade-out' : 'animate-modal-fade-in'}`} onClick={handleClose}>
+      <Card className={`w-full max-w-lg relative ${isClosing ? 'animate-modal-slide-down' : 'animate-modal-slide-up'}`} onClick={(e) => e.stopPropagation()}>
+        <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 z-10">
+          <XIcon className="h-6 w-6" />
+        </button>
+
+        <form onSubmit={handleWrite}>
+          <h2 className="text-xl font-bold mb-4">Tag beschreiben</h2>
+          {status === 'done' ? (
+            <div className="pt-4 border-t flex flex-col items-center gap-3 text-center">
+              <CheckCircleIcon className="h-12 w-12 text-green-500" />
+              <p className="font-semibold">Der Tag "{formData.label.trim()}" wurde beschrieben und registriert.</p>
+              <p className="text-sm text-gray-500">Mitarbeiter stempeln jetzt, indem sie ihr Gerät an den Tag halten.</p>
+            </div>
+          ) : (
+            <div className="space-y-4 pt-4 border-t">
+              {!isSupported && (
+                <div className="p-3 bg-yellow-50 text-yellow-800 border border-yellow-200 rounded-lg text-sm">
+                  Dieses Gerät oder dieser Browser kann keine NFC-Tags beschreiben. Öffnen Sie die App dazu in Chrome auf einem Android-Gerät.
+                </div>
+              )}
+              <NfcTagFields
+                data={formData}
+                onChange={setFormData}
+                customers={customers}
+                activities={activities}
+                employees={employees}
+                customerLabel={customerLabel}
+                activityLabel={activityLabel}
+                disabled={isBusy}
+              />
+              {isBusy && (
+                <div className="p-3 bg-blue-50 text-blue-800 border border-blue-200 rounded-lg text-sm flex items-center gap-3">
+                  <DevicePhoneMobileIcon className="h-6 w-6 flex-shrink-0 animate-pulse" />
+                  {status === 'waiting' ? 'Halten Sie den Tag jetzt an die Rückseite des Geräts…' : 'Tag wird beschrieben – nicht bewegen…'}
+                </div>
+              )}
+              {status === 'error' && (
+                <div className="p-3 bg-red-50 text-red-800 border border-red-200 rounded-lg text-sm">{errorMessage}</div>
+              )}
+            </div>
+          )}
+          <div className="flex justify-end gap-4 pt-6 border-t mt-6">
+            {status === 'done' ? (
+              <Button type="button" onClick={handleClose} className="bg-blue-600 hover:bg-blue-700">Schließen</Button>
+            ) : (
+              <>
+                <Button type="button" onClick={handleClose} className="bg-gray-500 hover:bg-gray-600">Abbrechen</Button>
+                <Button type="submit" disabled={!isSupported || isBusy} className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed">
+                  {status === 'error' ? 'Erneut versuchen' : 'Tag beschreiben'}
+                </Button>
+              </>
+            )}
+          </div>
+        </form>
+      </Card>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { NfcTapSettings } from '../../types';
+import { Select } from '../ui/Select';
+import { NFC_SAME_TAG_ACTION_LABELS, NFC_OTHER_TAG_ACTION_LABELS } from '../nfcTagPolicy';
+
+interface NfcTapSettingsFieldsProps {
+  settings: NfcTapSettings | undefined;
+  onChange: (settings: NfcTapSettings | undefined) => void;
+  inheritLabel: string; // option for an unset field, e.g. "Standard (Beenden)"
+  disabled?: boolean;
+}
+
+/**
+ * Selects for what a tag does while the stopwatch is running. Unset fields are stored as undefined.
+ */
+export const NfcTapSettingsFields: React.FC<NfcTapSettingsFieldsProps> = ({ settings, onChange, inheritLabel, disabled }) => {
+  const handleChange = (field: keyof NfcTapSettings, value: string) => {
+    const updatedSettings = { ...settings, [field]: value || undefined };
+    onChange(updatedSettings.sameTag || updatedSettings.otherTag ? updatedSettings : undefined);
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <Select label="Gleicher Tag bei laufender Zeit" value={settings?.sameTag || ''} onChange={(e) => handleChange('sameTag', e.target.value)} disabled={disabled}>
+        <option value="">{inheritLabel}</option>
+        {Object.entries(NFC_SAME_TAG_ACTION_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+      </Select>
+      <Select label="Anderer Tag bei laufender Zeit" value={settings?.otherTag || ''} onChange={(e) => handleChange('otherTag', e.target.value)} disabled={disabled}>
+        <option value="">{inheritLabel}</option>
+        {Object.entries(NFC_OTHER_TAG_ACTION_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+      </Select>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import ReactDOM from 'react-dom';
-import type { Employee, AbsenceRequest, Holiday, HolidaysByYear, TimeEntry, CompanySettings } from '../../types';
+import type { Employee, AbsenceRequest, Holiday, HolidaysByYear, TimeEntry, CompanySettings, Team } from '../../types';
 import { AbsenceType, EmploymentType } from '../../types';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
@@ -18,15 +18,21 @@ import { ClockIcon } from '../icons/ClockIcon';
 import { SickFaceIcon } from '../icons/SickFaceIcon';
 import { PlannerDisplayOptionsModal } from './PlannerDisplayOptionsModal';
 import { AdjustmentsHorizontalIcon } from '../icons/AdjustmentsHorizontalIcon';
-import { getContractDetailsForDate } from '../utils';
+import { getContractDetailsForDate, formatAbsencePortion } from '../utils';
 import { ChevronDownIcon } from '../icons/ChevronDownIcon';
 import { CalendarDaysIcon } from '../icons/CalendarDaysIcon';
 import { PlannerDateRangeModal, type Preset } from './PlannerDateRangeModal';
 import { ArrowsPointingOutIcon } from '../icons/ArrowsPointingOutIcon';
 import { ArrowsPointingInIcon } from '../icons/ArrowsPointingInIcon';
 import { DevicePhoneMobileIcon } from '../icons/DevicePhoneMobileIcon';
+import { AbsenceApprovalHistory } from '../AbsenceApprovalHistory';
+import { getAbsenceApprovalState, canDecideAbsenceRequest, describeAbsenceApprover, describeAbsenceApprovalStep } from '../absenceApproval';
+import { type AdminAccess, canAccess } from '../adminPermissions';
+import { checkAbsenceConflicts, hasBlockingConflict, type AbsenceConflict } from '../absenceConflicts';
+import { AbsenceConflictList } from '../AbsenceConflictList';
 
 interface PlannerViewProps {
+  loggedInUser: Employee;
   employees: Employee[];
   absenceRequests: AbsenceRequest[];
   holidaysByYear: HolidaysByYear;
@@ -37,6 +43,10 @@ interface PlannerViewProps {
   onEnsureHolidaysForYear: (year: number) => void;
   onUpdateRequestStatus: (id: number, status: 'approved' | 'rejected', comment?: string) => void;
   companySettings: CompanySettings;
+  adminAccess: AdminAccess;
+  allEmployees: Employee[]; // beyond the own teams, for the approval chain
+  allAbsenceRequests: AbsenceRequest[];
+  teams: Team[];
 }
 
 const getAbsenceTypeUI = (type: AbsenceType) => {
@@ -59,7 +69,7 @@ const AbsencePillWithTooltip: React.FC<{ absence: AbsenceRequest; day: Date; day
         const rect = e.currentTarget.getBoundingClientRect();
         const ui = getAbsenceTypeUI(absence.type);
         const statusText = absence.status === 'pending' ? 'ausstehend' : 'genehmigt';
-        const dayPortionText = absence.dayPortion === 'am' ? ' (Vormittags)' : absence.dayPortion === 'pm' ? ' (Nachmittags)' : '';
+        const dayPortionText = formatAbsencePortion(absence);
         const dateText = absence.startDate === absence.endDate
             ? `${new Date(absence.startDate).toLocaleDateString('de-DE')}${dayPortionText}`
             : `${new Date(absence.startDate).toLocaleDateString('de-DE')} - ${new Date(absence.endDate).toLocaleDateString('de-DE')}`;
@@ -242,12 +252,13 @@ export const PlannerView: React.FC<PlannerViewProps> = (props) => {
     };
 
     const handleOpenFormModal = (data: Partial<AbsenceFormData> | null = null) => { setInitialModalData(data); setIsFormModalOpen(true); };
+    const canEditAbsences = canAccess(props.adminAccess, 'editTime');
     const handleCellClick = (employeeId: number, day: Date) => {
         const absence = getAbsenceForDay(employeeId, day);
         if (absence) {
             if (absence.status === 'pending') setApprovalTarget(absence);
-            else handleOpenFormModal(absence);
-        } else handleOpenFormModal({ employeeId, startDate: formatDateForComparison(day), endDate: formatDateForComparison(day) });
+            else if (canEditAbsences) handleOpenFormModal(absence);
+        } else if (canEditAbsences) handleOpenFormModal({ employeeId, startDate: formatDateForComparison(day), endDate: formatDateForComparison(day) });
     };
     const handleSaveAbsence = (data: AbsenceFormData) => {
         if (data.id) props.onUpdateAbsenceRequest(data as AbsenceRequest);
@@ -292,7 +303,19 @@ export const PlannerView: React.FC<PlannerViewProps> = (props) => {
     const getEmployeeName = (employeeId: number) => { const e = props.employees.find(e => e.id === employeeId); return e ? `${e.firstName} ${e.lastName}` : 'Unbekannt'; };
     const getAbsenceLabel = (type: AbsenceType) => ({ [AbsenceType.Vacation]: 'Urlaubsantrag', [AbsenceType.SickLeave]: 'Krankmeldung', [AbsenceType.TimeOff]: 'Freizeitausgleich' })[type];
     const getStatusChip = (status: AbsenceRequest['status']) => { const classes = { pending: 'text-yellow-800 bg-yellow-200', approved: 'text-green-800 bg-green-200', rejected: 'text-red-800 bg-red-200' }; const text = { pending: 'Ausstehend', approved: 'Genehmigt', rejected: 'Abgelehnt' }; return <span className={`px-2 py-1 text-xs font-semibold rounded-full ${classes[status]}`}>{text[status]}</span>; };
+    const getApprovalState = (req: AbsenceRequest) => getAbsenceApprovalState(req, props.allEmployees, props.allAbsenceRequests, props.companySettings);
+    const canDecide = (req: AbsenceRequest) => canDecideAbsenceRequest(req, props.loggedInUser, getApprovalState(req), props.adminAccess);
+    const describePendingStep = (req: AbsenceRequest) => {
+        const state = getApprovalState(req);
+        return [describeAbsenceApprovalStep(state), `wartet auf ${describeAbsenceApprover(state, props.allEmployees)}`].filter(Boolean).join(' · ');
+    };
     const handleConfirmDelete = () => { if (requestToDelete) { props.onDeleteAbsenceRequest(requestToDelete.id); setRequestToDelete(null); } };
+    // Staffing counts all employees, not only those of the own teams.
+    const getConflicts = (req: AbsenceRequest): AbsenceConflict[] =>
+        checkAbsenceConflicts(req, props.allEmployees, props.allAbsenceRequests, props.teams, props.holidaysByYear, props.companySettings);
+    const approvalConflicts = approvalTarget ? getConflicts(approvalTarget) : [];
+    const actionRequest = actionTarget ? props.absenceRequests.find(r => r.id === actionTarget.id) : undefined;
+    const actionConflicts = actionTarget?.status === 'approved' && actionRequest ? getConflicts(actionRequest) : [];
     const handleListConfirmAction = () => { if (actionTarget) { props.onUpdateRequestStatus(actionTarget.id, actionTarget.status, adminComment.trim() || undefined); setActionTarget(null); setAdminComment(''); } };
 
     const formatHeaderDate = () => {
@@ -335,7 +358,7 @@ export const PlannerView: React.FC<PlannerViewProps> = (props) => {
     const renderRequestListForYear = (requests: AbsenceRequest[]) => (
         <div className="space-y-3 pt-4">
             {requests.map(req => {
-                const dayPortionText = req.dayPortion === 'am' ? ' (Vormittags)' : req.dayPortion === 'pm' ? ' (Nachmittags)' : '';
+                const dayPortionText = formatAbsencePortion(req);
                 const dateText = req.startDate === req.endDate
                     ? `${new Date(req.startDate).toLocaleDateString('de-DE')}${dayPortionText}`
                     : `${new Date(req.startDate).toLocaleDateString('de-DE')} - ${new Date(req.endDate).toLocaleDateString('de-DE')}`;
@@ -347,11 +370,15 @@ export const PlannerView: React.FC<PlannerViewProps> = (props) => {
                                 {selectedEmployeeId === 'all' && <p className="text-sm text-gray-600">{getEmployeeName(req.employeeId)}</p>}
                                 <p className="text-sm text-gray-600">{dateText}</p>
                             </div>
-                            <div className="flex items-center gap-2">
-                                <button onClick={() => setRequestToDelete(req)} className="p-2 text-gray-400 hover:text-red-600 opacity-50 hover:opacity-100 transition-opacity"><TrashIcon className="h-5 w-5"/></button>
-                            </div>
+                            {canEditAbsences && (
+                                <div className="flex items-center gap-2">
+                                    <button onClick={() => setRequestToDelete(req)} className="p-2 text-gray-400 hover:text-red-600 opacity-50 hover:opacity-100 transition-opacity"><TrashIcon className="h-5 w-5"/></button>
+                                </div>
+                            )}
                         </div>
-                        {req.adminComment && <p className="mt-2 pt-2 border-t text-sm italic">"{req.adminComment}"</p>}
+                        {req.approvalHistory
+                            ? <AbsenceApprovalHistory request={req} employees={props.allEmployees} />
+                            : req.adminComment && <p className="mt-2 pt-2 border-t text-sm italic">"{req.adminComment}"</p>}
                     </div>
                 );
             })}
@@ -457,7 +484,7 @@ export const PlannerView: React.FC<PlannerViewProps> = (props) => {
                                                 onClick={() => handleCellClick(employee.id, day)}
                                             >
                                                 {absenceSpan && <AbsencePillWithTooltip absence={absenceSpan.absence} day={absenceSpan.day} daySpan={absenceSpan.span} />}
-                                                {!absence && (
+                                                {!absence && canEditAbsences && (
                                                     <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-150">
                                                         <PlusIcon className="h-4 w-4 text-gray-500" />
                                                     </div>
@@ -565,7 +592,7 @@ export const PlannerView: React.FC<PlannerViewProps> = (props) => {
                             <div className="space-y-4">
                                 {pendingRequests.length > 0 ? (
                                     pendingRequests.map(req => {
-                                        const dayPortionText = req.dayPortion === 'am' ? ' (Vormittags)' : req.dayPortion === 'pm' ? ' (Nachmittags)' : '';
+                                        const dayPortionText = formatAbsencePortion(req);
                                         const dateText = req.startDate === req.endDate
                                             ? `${new Date(req.startDate).toLocaleDateString('de-DE')}${dayPortionText}`
                                             : `${new Date(req.startDate).toLocaleDateString('de-DE')} - ${new Date(req.endDate).toLocaleDateString('de-DE')}`;
@@ -579,10 +606,13 @@ export const PlannerView: React.FC<PlannerViewProps> = (props) => {
                                                     </div>
                                                     {getStatusChip(req.status)}
                                                 </div>
-                                                <div className="flex gap-4 mt-4 pt-4 border-t">
-                                                    <Button onClick={() => setActionTarget({ id: req.id, status: 'rejected' })} className="w-full bg-red-600 hover:bg-red-700">Ablehnen</Button>
-                                                    <Button onClick={() => setActionTarget({ id: req.id, status: 'approved' })} className="w-full bg-green-600 hover:bg-green-700">Genehmigen</Button>
-                                                </div>
+                                                <AbsenceApprovalHistory request={req} employees={props.allEmployees} pendingText={describePendingStep(req)} />
+                                                {canDecide(req) && (
+                                                    <div className="flex gap-4 mt-4 pt-4 border-t">
+                                                        <Button onClick={() => setActionTarget({ id: req.id, status: 'rejected' })} className="w-full bg-red-600 hover:bg-red-700">Ablehnen</Button>
+                                                        <Button onClick={() => setActionTarget({ id: req.id, status: 'approved' })} className="w-full bg-green-600 hover:bg-green-700">Genehmigen</Button>
+                                                    </div>
+                                                )}
                                             </div>
                                         );
                                     })
@@ -666,7 +696,10 @@ export const PlannerView: React.FC<PlannerViewProps> = (props) => {
                 onDelete={handleDeleteAbsence} 
                 employees={props.employees} 
                 initialData={initialModalData} 
-                allAbsenceRequests={props.absenceRequests}
+                allAbsenceRequests={props.allAbsenceRequests}
+                allEmployees={props.allEmployees}
+                teams={props.teams}
+                holidaysByYear={props.holidaysByYear}
                 allTimeEntries={props.timeEntries}
                 companySettings={props.companySettings}
                 isRotated={isLandscape}
@@ -683,13 +716,19 @@ export const PlannerView: React.FC<PlannerViewProps> = (props) => {
                         <div className="space-y-2 text-sm border-t pt-4">
                            <p><strong>Mitarbeiter:</strong> {getEmployeeName(approvalTarget.employeeId)}</p>
                            <p><strong>Typ:</strong> {getAbsenceTypeUI(approvalTarget.type).title}</p>
-                           <p><strong>Zeitraum:</strong> {approvalTarget.startDate === approvalTarget.endDate ? `${new Date(approvalTarget.startDate).toLocaleDateString('de-DE')}${approvalTarget.dayPortion === 'am' ? ' (Vormittags)' : approvalTarget.dayPortion === 'pm' ? ' (Nachmittags)' : ''}` : `${new Date(approvalTarget.startDate).toLocaleDateString('de-DE')} - ${new Date(approvalTarget.endDate).toLocaleDateString('de-DE')}`}</p>
-                        </div>
-                        <div className="mt-4 space-y-2"><label className="block text-sm font-medium">Kommentar (optional)</label><textarea rows={3} className="w-full p-2 border rounded-md" value={adminComment} onChange={(e) => setAdminComment(e.target.value)} placeholder="Grund für die Entscheidung..." /></div>
-                        <div className="flex gap-4 pt-4 border-t mt-4 justify-end">
-                            <Button onClick={() => handleConfirmAction('rejected')} className="bg-red-600 hover:bg-red-700">Ablehnen</Button>
-                            <Button onClick={() => handleConfirmAction('approved')} className="bg-green-600 hover:bg-green-700">Genehmigen</Button>
+                           <p><strong>Zeitraum:</strong> {approvalTarget.startDate === approvalTarget.endDate ? `${new Date(approvalTarget.startDate).toLocaleDateString('de-DE')}${formatAbsencePortion(approvalTarget)}` : `${new Date(approvalTarget.startDate).toLocaleDateString('de-DE')} - ${new Date(approvalTarget.endDate).toLocaleDateString('de-DE')}`}</p>
                         </div>
+                        <AbsenceApprovalHistory request={approvalTarget} employees={props.allEmployees} pendingText={describePendingStep(approvalTarget)} />
+                        {approvalConflicts.length > 0 && <div className="mt-4"><AbsenceConflictList conflicts={approvalConflicts} /></div>}
+                        {canDecide(approvalTarget) && (
+                            <>
+                                <div className="mt-4 space-y-2"><label className="block text-sm font-medium">Kommentar (optional)</label><textarea rows={3} className="w-full p-2 border rounded-md" value={adminComment} onChange={(e) => setAdminComment(e.target.value)} placeholder="Grund für die Entscheidung..." /></div>
+                                <div className="flex gap-4 pt-4 border-t mt-4 justify-end">
+                                    <Button onClick={() => handleConfirmAction('rejected')} className="bg-red-600 hover:bg-red-700">Ablehnen</Button>
+                                    <Button onClick={() => handleConfirmAction('approved')} disabled={hasBlockingConflict(approvalConflicts)} className="bg-green-600 hover:bg-green-700 disabled:bg-gray-300 disabled:cursor-not-allowed">Genehmigen</Button>
+                                </div>
+                            </>
+                        )}
                     </Card>
                 </div>
             )}
@@ -698,7 +737,7 @@ export const PlannerView: React.FC<PlannerViewProps> = (props) => {
                     isLandscape 
                     ? 'top-0 left-0 w-[100vh] h-[100vw] origin-top-left rotate-90 translate-x-[100vw]' 
                     : 'inset-0'
-                }`} onClick={() => { setActionTarget(null); setAdminComment(''); }}><Card className="w-full max-w-md" onClick={e => e.stopPropagation()}><div className="flex justify-between items-center mb-4"><h2 className="text-xl font-bold">Antrag {actionTarget.status === 'approved' ? 'genehmigen' : 'ablehnen'}</h2><button onClick={() => { setActionTarget(null); setAdminComment(''); }}><XIcon className="h-6 w-6" /></button></div><div><textarea rows={3} className="w-full p-2 border rounded-md" value={adminComment} onChange={e => setAdminComment(e.target.value)} placeholder="Kommentar (optional)..." /></div><div className="flex gap-4 pt-4 justify-end"><Button onClick={handleListConfirmAction} className={`${actionTarget.status === 'approved' ? 'bg-green-600' : 'bg-red-600'}`}>{actionTarget.status === 'approved' ? 'Genehmigen' : 'Ablehnen'}</Button></div></Card></div>)}
+                }`} onClick={() => { setActionTarget(null); setAdminComment(''); }}><Card className="w-full max-w-md" onClick={e => e.stopPropagation()}><div className="flex justify-between items-center mb-4"><h2 className="text-xl font-bold">Antrag {actionTarget.status === 'approved' ? 'genehmigen' : 'ablehnen'}</h2><button onClick={() => { setActionTarget(null); setAdminComment(''); }}><XIcon className="h-6 w-6" /></button></div>{actionConflicts.length > 0 && <div className="mb-4"><AbsenceConflictList conflicts={actionConflicts} /></div>}<div><textarea rows={3} className="w-full p-2 border rounded-md" value={adminComment} onChange={e => setAdminComment(e.target.value)} placeholder="Kommentar (optional)..." /></div><div className="flex gap-4 pt-4 justify-end"><Button onClick={handleListConfirmAction} disabled={hasBlockingConflict(actionConflicts)} className={`${actionTarget.status === 'approved' ? 'bg-green-600' : 'bg-red-600'} disabled:bg-gray-300 disabled:cursor-not-allowed`}>{actionTarget.status === 'approved' ? 'Genehmigen' : 'Ablehnen'}</Button></div></Card></div>)}
             <ConfirmModal isOpen={!!requestToDelete} onClose={() => setRequestToDelete(null)} onConfirm={handleConfirmDelete} title="Antrag löschen" message={`Möchten Sie den Antrag von ${getEmployeeName(requestToDelete?.employeeId || 0)} wirklich löschen?`} confirmText="Ja, löschen" isRotated={isLandscape} />
             <SelectionModal isOpen={isEmployeeModalOpen} onClose={() => setIsEmployeeModalOpen(false)} onSelect={item => setSelectedEmployeeId(item.id)} items={employeeOptions} title="Mitarbeiter auswählen" selectedValue={selectedEmployeeId} isRotated={isLandscape} />
             <PlannerDisplayOptionsModal
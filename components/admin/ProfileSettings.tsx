@@ -6,12 +6,13 @@ import { Input } from '../ui/Input';
 
 interface ProfileSettingsProps {
   currentUser: Employee;
-  onUpdate: (employee: Employee) => void;
+  onUpdate: (employee: Employee, password?: string) => void;
   companySettings: CompanySettings;
   onUpdateCompanySettings: (settings: CompanySettings) => void;
+  canManageCompany: boolean; // team leads usually only edit their own profile
 }
 
-export const ProfileSettings: React.FC<ProfileSettingsProps> = ({ currentUser, onUpdate, companySettings, onUpdateCompanySettings }) => {
+export const ProfileSettings: React.FC<ProfileSettingsProps> = ({ currentUser, onUpdate, companySettings, onUpdateCompanySettings, canManageCompany }) => {
   const [profileData, setProfileData] = useState({
     firstName: '',
     lastName: '',
@@ -92,22 +93,21 @@ export const ProfileSettings: React.FC<ProfileSettingsProps> = ({ currentUser, o
       username,
       lastModified: new Date().toISOString(),
     };
-    if (newPassword) {
-        updatedUser.password = newPassword;
-    }
-    onUpdate(updatedUser);
+    onUpdate(updatedUser, newPassword || undefined);
 
     // Company update
-    const { companyName, street, houseNumber, postalCode, city, email } = profileData;
-    onUpdateCompanySettings({
-      ...companySettings,
-      companyName,
-      street,
-      houseNumber,
-      postalCode,
-      city,
-      email,
-    });
+    if (canManageCompany) {
+      const { companyName, street, houseNumber, postalCode, city, email } = profileData;
+      onUpdateCompanySettings({
+        ...companySettings,
+        companyName,
+        street,
+        houseNumber,
+        postalCode,
+        city,
+        email,
+      });
+    }
     
     setAccountData(prev => ({ ...prev, newPassword: '', confirmPassword: '' }));
     flashSuccessMessage('Änderungen erfolgreich gespeichert.');
@@ -138,6 +138,7 @@ export const ProfileSettings: React.FC<ProfileSettingsProps> = ({ currentUser, o
               </div>
 
               {/* Company Section */}
+              {canManageCompany && (
               <div className="space-y-4 mt-6 pt-6 border-t">
                   <h3 className="text-lg font-semibold">Firmendaten</h3>
                   <Input name="companyName" label="Firmenname" value={profileData.companyName} onChange={handleProfileChange} required />
@@ -150,6 +151,7 @@ export const ProfileSettings: React.FC<ProfileSettingsProps> = ({ currentUser, o
                       <Input name="city" label="Stadt" value={profileData.city} onChange={handleProfileChange} />
                   </div>
               </div>
+              )}
             </div>
 
             {/* Right Column for Account data */}
@@ -157,7 +159,7 @@ export const ProfileSettings: React.FC<ProfileSettingsProps> = ({ currentUser, o
               <h3 className="text-lg font-semibold">Account</h3>
               <div className="space-y-4 mt-4">
                 <Input name="username" label="Benutzername" value={accountData.username} onChange={handleAccountChange} required />
-                <Input name="email" label="Firmen-E-Mail (für Passwort-Reset)" type="email" value={profileData.email} onChange={handleProfileChange} required />
+                {canManageCompany && <Input name="email" label="Firmen-E-Mail (für Passwort-Reset)" type="email" value={profileData.email} onChange={handleProfileChange} required />}
                 <Input name="newPassword" label="Neues Passwort" type="password" value={accountData.newPassword} onChange={handleAccountChange} placeholder="Leer lassen, um nicht zu ändern" />
                 <Input name="confirmPassword" label="Neues Passwort bestätigen" type="password" value={accountData.confirmPassword} onChange={handleAccountChange} />
               </div>
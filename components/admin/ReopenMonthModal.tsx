@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import ReactDOM from 'react-dom';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Textarea } from '../ui/Textarea';
+import { XIcon } from '../icons/XIcon';
+
+interface ReopenMonthModalProps {
+  monthLabel: string;
+  laterMonthLabels: string[]; // closed months after this one, which have to be reopened first
+  onClose: () => void;
+  onConfirm: (reason: string) => void;
+}
+
+export const ReopenMonthModal: React.FC<ReopenMonthModalProps> = ({ monthLabel, laterMonthLabels, onClose, onConfirm }) => {
+  const [reason, setReason] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+
+  const handleClose = () => {
+    setIsClosing(true);
+    setTimeout(onClose, 300);
+  };
+
+  const isBlocked = laterMonthLabels.length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBlocked) return;
+    const trimmedReason = reason.trim();
+    if (!trimmedReason) {
+      alert('Bitte geben Sie einen Grund für das Wiederöffnen an.');
+      return;
+    }
+    setIsClosing(true);
+    setTimeout(() => onConfirm(trimmedReason), 300);
+  };
+
+  return ReactDOM.createPortal(
+    <div className={`fixed inset-0 bg-black flex items-center justify-center z-[100] p-4 ${isClosing ? 'animate-modal-fade-out' : 'animate-modal-fade-in'}`} onClick={handleClose}>
+      <Card className={`w-full max-w-lg relative ${isClosing ? 'animate-modal-slide-down' : 'animate-modal-slide-up'}`} onClick={(e) => e.stopPropagation()}>
+        <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 z-10">
+          <XIcon className="h-6 w-6" />
+        </button>
+
+        <form onSubmit={handleSubmit}>
+          <h2 className="text-xl font-bold mb-4">Monat wieder öffnen</h2>
+          <div className="space-y-4 pt-4 border-t">
+            <p className="text-sm text-gray-600">
+              Der Abschluss für {monthLabel} wird aufgehoben. Der eingefrorene Saldo wird danach wieder aus den Einträgen berechnet. Das Wiederöffnen wird mit Grund protokolliert.
+            </p>
+            {isBlocked && (
+              <div className="p-3 rounded-md border text-sm bg-red-50 border-red-200 text-red-800">
+                Die Salden späterer Monate bauen auf diesem Abschluss auf. Bitte öffnen Sie zuerst {laterMonthLabels.join(', ')} wieder.
+              </div>
+            )}
+            <Textarea
+              name="reopenReason"
+              label="Grund"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+            />
+          </div>
+          <div className="flex justify-end gap-4 pt-6 border-t mt-6">
+            <Button type="button" onClick={handleClose} className="bg-gray-500 hover:bg-gray-600">Abbrechen</Button>
+            <Button type="submit" className="bg-red-600 hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed" disabled={isBlocked}>Wieder öffnen</Button>
+          </div>
+        </form>
+      </Card>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { AdminViewType, type TimeEntry, type Customer, type Activity, type CompanySettings, type Employee, type HolidaysByYear, type MonthClosing, type AuditLogEntry } from '../../types';
+import { ReportsView } from './ReportsView';
+import { ComplianceReportView } from './ComplianceReportView';
+import { EntryMapView } from './EntryMapView';
+import { canAccess, type AdminAccess } from '../adminPermissions';
+
+interface ReportsSectionProps {
+  initialView: AdminViewType;
+  setActiveView: (view: AdminViewType) => void;
+  timeEntries: TimeEntry[];
+  customers: Customer[];
+  activities: Activity[];
+  companySettings: CompanySettings;
+  employees: Employee[];
+  holidaysByYear: HolidaysByYear;
+  onEnsureHolidaysForYear: (year: number) => void;
+  monthClosings: MonthClosing[];
+  auditLog: AuditLogEntry[];
+  onUpdateTimeEntry: (entry: TimeEntry, reason?: string) => void;
+  onDeleteTimeEntry: (id: number) => void;
+  adminAccess: AdminAccess | null;
+}
+
+type ReportsTab = 'reports' | 'compliance' | 'map';
+
+const TAB_VIEWS: Record<ReportsTab, AdminViewType> = {
+  reports: AdminViewType.Reports,
+  compliance: AdminViewType.Compliance,
+  map: AdminViewType.Map,
+};
+
+const getTabForView = (view: AdminViewType): ReportsTab =>
+  view === AdminViewType.Compliance ? 'compliance' : view === AdminViewType.Map ? 'map' : 'reports';
+
+export const ReportsSection: React.FC<ReportsSectionProps> = (props) => {
+  const [activeTab, setActiveTab] = useState<ReportsTab>(getTabForView(props.initialView));
+
+  useEffect(() => {
+    setActiveTab(getTabForView(props.initialView));
+  }, [props.initialView]);
+
+  const handleTabChange = (tab: ReportsTab) => {
+    setActiveTab(tab);
+    props.setActiveView(TAB_VIEWS[tab]);
+  };
+
+  const tabs = [
+    { id: 'reports', label: 'Zeitauswertung' },
+    { id: 'compliance', label: 'Arbeitszeitschutz' },
+    { id: 'map', label: 'Karte' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="border-b border-gray-200">
+        <nav className="-mb-px flex space-x-6" aria-label="Tabs">
+          {tabs.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => handleTabChange(tab.id as ReportsTab)}
+              className={`${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-base`}
+              aria-current={activeTab === tab.id ? 'page' : undefined}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      <div>
+        {activeTab === 'reports' && (
+          <ReportsView
+            timeEntries={props.timeEntries}
+            customers={props.customers}
+            activities={props.activities}
+            companySettings={props.companySettings}
+            employees={props.employees}
+            canExport={canAccess(props.adminAccess, 'export')}
+          />
+        )}
+        {activeTab === 'compliance' && (
+          <ComplianceReportView
+            timeEntries={props.timeEntries}
+            employees={props.employees}
+            companySettings={props.companySettings}
+            holidaysByYear={props.holidaysByYear}
+            onEnsureHolidaysForYear={props.onEnsureHolidaysForYear}
+            canExport={canAccess(props.adminAccess, 'export')}
+          />
+        )}
+        {activeTab === 'map' && (
+          <EntryMapView
+            timeEntries={props.timeEntries}
+            customers={props.customers}
+            activities={props.activities}
+            companySettings={props.companySettings}
+            employees={props.employees}
+            monthClosings={props.monthClosings}
+            auditLog={props.auditLog}
+            onUpdateTimeEntry={props.onUpdateTimeEntry}
+            onDeleteTimeEntry={props.onDeleteTimeEntry}
+            canEdit={canAccess(props.adminAccess, 'editTime')}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
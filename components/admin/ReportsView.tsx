@@ -1,8 +1,8 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import type { TimeEntry, Customer, Activity, CompanySettings, Employee } from '../../types';
+import type { TimeEntry, Customer, Activity, CompanySettings, Employee, GeofenceBreach } from '../../types';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
-import { formatHoursAndMinutes } from '../utils';
+import { formatHoursAndMinutes, getEntryWorkedHours, formatBreakSegments } from '../utils';
 import { SelectorButton } from '../ui/SelectorButton';
 import { CalendarModal } from '../ui/CalendarModal';
 import { DateSelectorButton } from '../ui/DateSelectorButton';
@@ -11,6 +11,9 @@ import * as XLSX from 'https://cdn.sheetjs.com/xlsx-0.20.2/package/xlsx.mjs';
 import { EmployeeMultiSelectModal } from './EmployeeMultiSelectModal';
 import { Select } from '../ui/Select';
 import { Input } from '../ui/Input';
+import { formatEntryPunchMethods, formatPunchLocation } from '../punchMetadata';
+import { formatGeofenceBreach } from '../geofencePolicy';
+import { ToggleSwitch } from '../ui/ToggleSwitch';
 
 interface ReportsViewProps {
   timeEntries: TimeEntry[];
@@ -18,6 +21,7 @@ interface ReportsViewProps {
   activities: Activity[];
   companySettings: CompanySettings;
   employees: Employee[];
+  canExport: boolean;
 }
 
 interface ReportEntry {
@@ -29,8 +33,14 @@ interface ReportEntry {
   startTime: string;
   endTime: string;
   breakMinutes: number;
+  paidBreakMinutes: number;
+  breakTimes: string;
   totalSeconds: number;
   comment?: string;
+  punchMethods: string;
+  clockInLocation: string;
+  clockOutLocation: string;
+  geofenceBreach?: GeofenceBreach;
   sortDate: Date;
   employeeId: number;
   customerId: string;
@@ -41,7 +51,7 @@ const getStartOfMonth = () => new Date(new Date().getFullYear(), new Date().getM
 const getEndOfMonth = () => new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).toLocaleDateString('sv-SE');
 const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' });
 
-export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers, activities, companySettings, employees }) => {
+export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers, activities, companySettings, employees, canExport }) => {
     // Filter States
     const [startDate, setStartDate] = useState(getStartOfMonth());
     const [endDate, setEndDate] = useState(getEndOfMonth());
@@ -59,6 +69,7 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
     const [viewEmployeeIds, setViewEmployeeIds] = useState<number[]>([]);
     const [commentSearchTerm, setCommentSearchTerm] = useState('');
     const [selectedSecondaryCategoryIds, setSelectedSecondaryCategoryIds] = useState<string[]>([]);
+    const [onlyGeofenceBreaches, setOnlyGeofenceBreaches] = useState(false);
 
     const customerLabel = companySettings.customerLabel || 'Zeitkategorie 1';
     const activityLabel = companySettings.activityLabel || 'Zeitkategorie 2';
@@ -97,7 +108,7 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
 
         const mappedEntries: ReportEntry[] = filteredEntries.map(entry => {
             const entryDate = new Date(entry.start);
-            const duration = ((new Date(entry.end).getTime() - new Date(entry.start).getTime()) / 1000) - (entry.breakDurationMinutes * 60);
+            const duration = getEntryWorkedHours(entry) * 3600;
             return {
                 employeeId: entry.employeeId,
                 customerId: entry.customerId,
@@ -110,8 +121,14 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
                 startTime: entryDate.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' }),
                 endTime: new Date(entry.end).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' }),
                 breakMinutes: entry.breakDurationMinutes,
+                paidBreakMinutes: entry.paidBreakMinutes || 0,
+                breakTimes: formatBreakSegments(entry.breakSegments),
                 totalSeconds: duration,
                 comment: entry.comment,
+                punchMethods: formatEntryPunchMethods(entry),
+                clockInLocation: formatPunchLocation(entry.clockIn),
+                clockOutLocation: formatPunchLocation(entry.clockOut),
+                geofenceBreach: entry.geofenceBreach,
                 sortDate: entryDate,
             };
         });
@@ -125,6 +142,7 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
 
         setReportEntries(mappedEntries);
         setCommentSearchTerm('');
+        setOnlyGeofenceBreaches(false);
     };
     
     const handleExport = () => {
@@ -135,7 +153,8 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
         const filteredForExport = reportEntries.filter(entry =>
             viewEmployeeIdsSet.has(entry.employeeId) &&
             (entry.comment || '').toLowerCase().includes(commentSearchTerm.toLowerCase()) &&
-            secondaryCategoryIdsSet.has(primaryCategory === 'customer' ? entry.activityId : entry.customerId)
+            secondaryCategoryIdsSet.has(primaryCategory === 'customer' ? entry.activityId : entry.customerId) &&
+            (!onlyGeofenceBreaches || !!entry.geofenceBreach)
         );
 
         const dataToExport = filteredForExport.map(entry => {
@@ -151,8 +170,14 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
             row['Startzeit'] = entry.startTime;
             row['Endzeit'] = entry.endTime;
             row['Pause (min)'] = entry.breakMinutes;
+            row['davon bezahlt (min)'] = entry.paidBreakMinutes;
+            row['Pausenzeiten'] = entry.breakTimes;
             row['Gesamtzeit'] = formatHoursAndMinutes(entry.totalSeconds / 3600, timeFormat);
             row['Kommentar'] = entry.comment || '';
+            row['Erfassung'] = entry.punchMethods;
+            row['Standort Kommen'] = entry.clockInLocation;
+            row['Standort Gehen'] = entry.clockOutLocation;
+            row['Ende außerhalb des Bereichs'] = entry.geofenceBreach ? formatGeofenceBreach(entry.geofenceBreach) : '';
             return row;
         });
 
@@ -164,7 +189,8 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
 
             const summaryRow: { [key: string]: any } = {
                 'Mitarbeiter': '', 'Tag': '', 'Datum': '', 'Startzeit': '', 'Endzeit': '',
-                'Pause (min)': 'Gesamt:', 'Gesamtzeit': formattedTotal, 'Kommentar': ''
+                'Pause (min)': '', 'davon bezahlt (min)': '', 'Pausenzeiten': 'Gesamt:', 'Gesamtzeit': formattedTotal, 'Kommentar': '',
+                'Erfassung': '', 'Standort Kommen': '', 'Standort Gehen': '', 'Ende außerhalb des Bereichs': ''
             };
             if (primaryCategory === 'customer') { summaryRow[activityLabel] = ''; } 
             else { summaryRow[customerLabel] = ''; }
@@ -172,7 +198,7 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
         }
         
         const ws = XLSX.utils.json_to_sheet(dataToExport);
-        ws['!cols'] = [ { wch: 25 }, { wch: 10 }, { wch: 12 }, { wch: 30 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 15 }, { wch: 40 } ];
+        ws['!cols'] = [ { wch: 25 }, { wch: 10 }, { wch: 12 }, { wch: 30 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 18 }, { wch: 25 }, { wch: 15 }, { wch: 40 }, { wch: 22 }, { wch: 30 }, { wch: 30 }, { wch: 32 } ];
         ws['!freeze'] = { ySplit: 1 };
 
         const wb = XLSX.utils.book_new();
@@ -243,7 +269,8 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
         const filteredEntries = reportEntries.filter(entry => 
             viewEmployeeIdsSet.has(entry.employeeId) &&
             (entry.comment || '').toLowerCase().includes(commentSearchTerm.toLowerCase()) &&
-            secondaryCategoryIdsSet.has(primaryCategory === 'customer' ? entry.activityId : entry.customerId)
+            secondaryCategoryIdsSet.has(primaryCategory === 'customer' ? entry.activityId : entry.customerId) &&
+            (!onlyGeofenceBreaches || !!entry.geofenceBreach)
         );
 
         if (reportEntries.length === 0) {
@@ -291,6 +318,10 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
                                 onChange={(e) => setCommentSearchTerm(e.target.value)}
                             />
                         </div>
+                        <div className="flex items-center gap-2 whitespace-nowrap">
+                            <ToggleSwitch checked={onlyGeofenceBreaches} onChange={setOnlyGeofenceBreaches} />
+                            <span className="text-sm text-gray-700">Nur Ende außerhalb des Bereichs</span>
+                        </div>
                     </div>
                      {filteredEntries.length > 0 ? (
                         <div className="overflow-x-auto">
@@ -308,6 +339,7 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
                                         <th className="py-2 px-3 text-right font-semibold text-gray-600">Pause</th>
                                         <th className="py-2 px-3 text-right font-semibold text-gray-600">Gesamt</th>
                                         <th className="py-2 px-3 font-semibold text-gray-600">Kommentar</th>
+                                        <th className="py-2 px-3 font-semibold text-gray-600">Erfassung</th>
                                     </tr>
                                 </thead>
                                 <tbody className="divide-y divide-gray-200">
@@ -321,9 +353,15 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
                                                 <td className="py-2 px-3 align-top">{entry.customerName}</td>
                                             )}
                                             <td className="py-2 px-3 whitespace-nowrap align-top">{entry.startTime} - {entry.endTime}</td>
-                                            <td className="py-2 px-3 text-right whitespace-nowrap align-top">{entry.breakMinutes > 0 ? `${entry.breakMinutes}m` : '-'}</td>
+                                            <td className="py-2 px-3 text-right whitespace-nowrap align-top">{entry.breakMinutes > 0 ? `${entry.breakMinutes}m${entry.paidBreakMinutes > 0 ? ` (${entry.paidBreakMinutes}m bez.)` : ''}` : '-'}{entry.breakTimes && <div className="text-xs text-gray-500">{entry.breakTimes}</div>}</td>
                                             <td className="py-2 px-3 text-right whitespace-nowrap font-medium text-blue-700 align-top">{formatHoursAndMinutes(entry.totalSeconds / 3600, timeFormat)}</td>
                                             <td className="py-2 px-3 max-w-[200px] truncate align-top" title={entry.comment}>{entry.comment || '-'}</td>
+                                            <td className="py-2 px-3 whitespace-nowrap align-top">
+                                                <div>{entry.punchMethods || '-'}</div>
+                                                {entry.clockInLocation && <div className="text-xs text-gray-500">Kommen: {entry.clockInLocation}</div>}
+                                                {entry.clockOutLocation && <div className="text-xs text-gray-500">Gehen: {entry.clockOutLocation}</div>}
+                                                {entry.geofenceBreach && <div className="text-xs font-semibold text-red-600">Ende außerhalb: {formatGeofenceBreach(entry.geofenceBreach)}</div>}
+                                            </td>
                                         </tr>
                                     ))}
                                 </tbody>
@@ -374,7 +412,7 @@ export const ReportsView: React.FC<ReportsViewProps> = ({ timeEntries, customers
                         </Select>
                     </div>
                     <Button onClick={handleApplyFilters} className="bg-blue-600 hover:bg-blue-700 h-10">Anzeigen</Button>
-                    <Button onClick={handleExport} disabled={!reportEntries} className="bg-green-600 hover:bg-green-700 h-10 flex items-center justify-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"><DocumentArrowDownIcon className="h-5 w-5" />Export</Button>
+                    {canExport && <Button onClick={handleExport} disabled={!reportEntries} className="bg-green-600 hover:bg-green-700 h-10 flex items-center justify-center gap-2 disabled:bg-gray-300 disabled:cursor-not-allowed"><DocumentArrowDownIcon className="h-5 w-5" />Export</Button>}
                 </div>
             </Card>
 
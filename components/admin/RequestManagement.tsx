@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import type { AbsenceRequest, Employee } from '../../types';
+import type { AbsenceRequest, Employee, CompanySettings } from '../../types';
 import { AbsenceType } from '../../types';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
@@ -8,10 +8,16 @@ import { TrashIcon } from '../icons/TrashIcon';
 import { SelectorButton } from '../ui/SelectorButton';
 import { SelectionModal } from '../ui/SelectionModal';
 import { XIcon } from '../icons/XIcon';
+import { AbsenceApprovalHistory } from '../AbsenceApprovalHistory';
+import { getAbsenceApprovalState, canDecideAbsenceRequest, describeAbsenceApprover, describeAbsenceApprovalStep } from '../absenceApproval';
+import type { AdminAccess } from '../adminPermissions';
 
 interface RequestManagementProps {
+  loggedInUser: Employee;
   absenceRequests: AbsenceRequest[];
   employees: Employee[];
+  companySettings: CompanySettings;
+  adminAccess: AdminAccess;
   onUpdateRequestStatus: (id: number, status: 'approved' | 'rejected', comment?: string) => void;
   onDeleteAbsenceRequest: (id: number) => void;
 }
@@ -84,7 +90,7 @@ const ActionConfirmationModal: React.FC<{
     );
 };
 
-export const RequestManagement: React.FC<RequestManagementProps> = ({ absenceRequests, employees, onUpdateRequestStatus, onDeleteAbsenceRequest }) => {
+export const RequestManagement: React.FC<RequestManagementProps> = ({ loggedInUser, absenceRequests, employees, companySettings, adminAccess, onUpdateRequestStatus, onDeleteAbsenceRequest }) => {
   const [requestToDelete, setRequestToDelete] = useState<AbsenceRequest | null>(null);
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>('all');
   const [isEmployeeModalOpen, setIsEmployeeModalOpen] = useState(false);
@@ -111,6 +117,13 @@ export const RequestManagement: React.FC<RequestManagementProps> = ({ absenceReq
     }
   };
 
+  const getApprovalState = (req: AbsenceRequest) => getAbsenceApprovalState(req, employees, absenceRequests, companySettings);
+
+  const describePendingStep = (req: AbsenceRequest) => {
+    const state = getApprovalState(req);
+    return [describeAbsenceApprovalStep(state), `wartet auf ${describeAbsenceApprover(state, employees)}`].filter(Boolean).join(' · ');
+  };
+
   const handleConfirmDelete = () => {
     if (requestToDelete) {
       onDeleteAbsenceRequest(requestToDelete.id);
@@ -175,7 +188,9 @@ export const RequestManagement: React.FC<RequestManagementProps> = ({ absenceReq
                 </button>
               </div>
             </div>
-            {req.adminComment && (
+            {req.approvalHistory ? (
+              <AbsenceApprovalHistory request={req} employees={employees} />
+            ) : req.adminComment && (
               <p className="mt-2 pt-2 border-t border-gray-200 text-sm text-gray-600 italic">
                   <span className="font-medium not-italic text-gray-700">Kommentar:</span> "{req.adminComment}"
               </p>
@@ -216,10 +231,13 @@ export const RequestManagement: React.FC<RequestManagementProps> = ({ absenceReq
                     </div>
                     {getStatusChip(req.status)}
                   </div>
-                  <div className="flex gap-4 mt-4 pt-4 border-t">
-                    <Button onClick={() => handleActionClick(req.id, 'rejected')} className="w-full bg-red-600 hover:bg-red-700">Ablehnen</Button>
-                    <Button onClick={() => handleActionClick(req.id, 'approved')} className="w-full bg-green-600 hover:bg-green-700">Genehmigen</Button>
-                  </div>
+                  <AbsenceApprovalHistory request={req} employees={employees} pendingText={describePendingStep(req)} />
+                  {canDecideAbsenceRequest(req, loggedInUser, getApprovalState(req), adminAccess) && (
+                    <div className="flex gap-4 mt-4 pt-4 border-t">
+                      <Button onClick={() => handleActionClick(req.id, 'rejected')} className="w-full bg-red-600 hover:bg-red-700">Ablehnen</Button>
+                      <Button onClick={() => handleActionClick(req.id, 'approved')} className="w-full bg-green-600 hover:bg-green-700">Genehmigen</Button>
+                    </div>
+                  )}
                 </div>
               ))
             ) : (
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import ReactDOM from 'react-dom';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Textarea } from '../ui/Textarea';
+import { XIcon } from '../icons/XIcon';
+
+interface RevokeNfcTagModalProps {
+  tagLabel: string;
+  onClose: () => void;
+  onConfirm: (reason: string) => void;
+}
+
+export const RevokeNfcTagModal: React.FC<RevokeNfcTagModalProps> = ({ tagLabel, onClose, onConfirm }) => {
+  const [reason, setReason] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+
+  const handleClose = () => {
+    setIsClosing(true);
+    setTimeout(onClose, 300);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsClosing(true);
+    setTimeout(() => onConfirm(reason.trim()), 300);
+  };
+
+  return ReactDOM.createPortal(
+    <div className={`fixed inset-0 bg-black flex items-center justify-center z-[100] p-4 ${isClosing ? 'animate-modal-fade-out' : 'animate-modal-fade-in'}`} onClick={handleClose}>
+      <Card className={`w-full max-w-lg relative ${isClosing ? 'animate-modal-slide-down' : 'animate-modal-slide-up'}`} onClick={(e) => e.stopPropagation()}>
+        <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 z-10">
+          <XIcon className="h-6 w-6" />
+        </button>
+
+        <form onSubmit={handleSubmit}>
+          <h2 className="text-xl font-bold mb-4">NFC-Tag sperren</h2>
+          <div className="space-y-4 pt-4 border-t">
+            <p className="text-sm text-gray-600">
+              Der Tag "{tagLabel}" wird danach beim Stempeln abgelehnt. Die Sperre kann nicht aufgehoben werden; für Ersatz beschreiben Sie einen neuen Tag.
+            </p>
+            <Textarea
+              name="revokeReason"
+              label="Grund (optional)"
+              rows={2}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="z.B. Tag verloren"
+            />
+          </div>
+          <div className="flex justify-end gap-4 pt-6 border-t mt-6">
+            <Button type="button" onClick={handleClose} className="bg-gray-500 hover:bg-gray-600">Abbrechen</Button>
+            <Button type="submit" className="bg-red-600 hover:bg-red-700">Sperren</Button>
+          </div>
+        </form>
+      </Card>
+    </div>,
+    document.body
+  );
+};
@@ -1,12 +1,20 @@
 
 import React, { useState, useEffect } from 'react';
-import type { CompanySettings } from '../../types';
+import type { CompanySettings, ComplianceRuleSettings, BreakRules, BreakRuleTier, Employee, AbsenceApprovalStep, AbsenceApprovalSettings, AdminRole, AdminPermission, VacationRuleSettings, Team, StaffingRule, AbsenceBlackout, AbsenceConflictSettings } from '../../types';
 import { Card } from '../ui/Card';
 import { Select } from '../ui/Select';
 import { RadioGroup } from '../ui/RadioGroup';
 import { ToggleSwitch } from '../ui/ToggleSwitch';
 import { Input } from '../ui/Input';
 import { Button } from '../ui/Button';
+import { DEFAULT_IDLE_LOGOUT_MINUTES, SESSION_DURATION_HOURS, KIOSK_IDLE_LOGOUT_SECONDS } from '../../services/auth';
+import { getComplianceRules } from '../complianceRules';
+import { DEFAULT_BREAK_RULES, BREAK_RULE_PRESETS, findBreakRulePreset, describeBreakRules } from '../breakRules';
+import { getOpenPunchAutoCloseHours } from '../openPunchPolicy';
+import { ABSENCE_APPROVER_LABELS, DEFAULT_ABSENCE_ESCALATION_DAYS } from '../absenceApproval';
+import { getVacationRules } from '../vacationLedger';
+import { ABSENCE_ENFORCEMENT_LABELS, getAbsenceConflictSettings } from '../absenceConflicts';
+import { ADMIN_PERMISSIONS, ADMIN_PERMISSION_LABELS, FIXED_ADMIN_PERMISSIONS, ROLE_LABELS, getPermissionMatrix, isAdminRole } from '../adminPermissions';
 
 interface SettingsViewProps {
   selectedState: string;
@@ -15,6 +23,9 @@ interface SettingsViewProps {
   onTimeTrackingMethodChange: (method: 'all' | 'manual') => void;
   companySettings: CompanySettings;
   onUpdateCompanySettings: (settings: CompanySettings) => void;
+  onStartKioskMode: () => void;
+  employees: Employee[];
+  teams: Team[];
 }
 
 const germanStates = [
@@ -36,6 +47,13 @@ const germanStates = [
     { code: 'TH', name: 'Thüringen' },
 ];
 
+const CARRYOVER_EXPIRY_OPTIONS = [
+    { value: '03-31', label: 'am 31. März des Folgejahres (gesetzlich)' },
+    { value: '06-30', label: 'am 30. Juni des Folgejahres' },
+    { value: '12-31', label: 'am Ende des Folgejahres' },
+    { value: '', label: 'nie' },
+];
+
 const timeTrackingOptions = [
     { value: 'all', label: 'Stempeluhr & Manuelle Eingabe' },
     { value: 'manual', label: 'Nur Manuelle Eingabe' },
@@ -48,6 +66,23 @@ const editabilityOptions = [
     { value: 'sameDay', label: 'Bearbeitbar nur am selben Tag' },
 ];
 
+const idleLogoutOptions = [
+    { value: 15, label: 'Nach 15 Minuten' },
+    { value: 30, label: 'Nach 30 Minuten' },
+    { value: 60, label: 'Nach 1 Stunde' },
+    { value: 240, label: 'Nach 4 Stunden' },
+    { value: 0, label: 'Nie' },
+];
+
+const openPunchAutoCloseOptions = [
+    { value: 8, label: 'Nach 8 Stunden' },
+    { value: 10, label: 'Nach 10 Stunden' },
+    { value: 12, label: 'Nach 12 Stunden' },
+    { value: 16, label: 'Nach 16 Stunden' },
+    { value: 24, label: 'Nach 24 Stunden' },
+    { value: 0, label: 'Nie' },
+];
+
 const hoursOptions = Array.from({ length: 25 }, (_, i) => ({ value: i, label: `${i}:00 Uhr` }));
 
 export const SettingsView: React.FC<SettingsViewProps> = ({
@@ -57,6 +92,9 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
     onTimeTrackingMethodChange,
     companySettings,
     onUpdateCompanySettings,
+    onStartKioskMode,
+    employees,
+    teams,
 }) => {
     const [localSelectedState, setLocalSelectedState] = useState(selectedState);
     const [localTimeTrackingMethod, setLocalTimeTrackingMethod] = useState(timeTrackingMethod);
@@ -77,6 +115,12 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
     const handleExportToggle = (checked: boolean) => {
         setLocalSettings(prev => ({ ...prev, employeeCanExport: checked }));
     };
+
+    const handleStartKioskMode = () => {
+        if (window.confirm('Kiosk-Modus auf diesem Gerät starten? Sie werden dabei abgemeldet.')) {
+            onStartKioskMode();
+        }
+    };
     
     const handleLabelInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const { name, value } = e.target;
@@ -96,16 +140,148 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
         setLocalSettings(prev => ({ ...prev, [key]: numValue }));
     };
 
+    const complianceRules = getComplianceRules(localSettings);
+
+    const handleComplianceRuleChange = <K extends keyof ComplianceRuleSettings>(key: K, value: ComplianceRuleSettings[K]) => {
+        setLocalSettings(prev => ({ ...prev, complianceRules: { ...prev.complianceRules, [key]: value } }));
+    };
+
+    const breakRules = localSettings.breakRules || DEFAULT_BREAK_RULES;
+    const activeBreakRulePreset = findBreakRulePreset(breakRules);
+
+    const updateBreakRules = (changes: Partial<BreakRules>) => {
+        setLocalSettings(prev => ({ ...prev, breakRules: { ...(prev.breakRules || DEFAULT_BREAK_RULES), ...changes } }));
+    };
+
+    const handleBreakTierChange = (index: number, key: keyof BreakRuleTier, value: string) => {
+        updateBreakRules({ tiers: breakRules.tiers.map((tier, i) => i === index ? { ...tier, [key]: parseFloat(value) } : tier) });
+    };
+
+    const handleAddBreakTier = () => {
+        const lastTier = breakRules.tiers[breakRules.tiers.length - 1];
+        updateBreakRules({ tiers: [...breakRules.tiers, { afterHours: lastTier ? lastTier.afterHours + 3 : 6, breakMinutes: lastTier ? lastTier.breakMinutes + 15 : 30 }] });
+    };
+
+    const handleRemoveBreakTier = (index: number) => {
+        updateBreakRules({ tiers: breakRules.tiers.filter((_, i) => i !== index) });
+    };
+
+    const vacationRules = getVacationRules(localSettings);
+
+    const handleVacationRuleChange = (changes: Partial<VacationRuleSettings>) => {
+        setLocalSettings(prev => ({ ...prev, vacationRules: { ...prev.vacationRules, ...changes } }));
+    };
+
+    const approvalSteps = localSettings.absenceApproval?.steps || [];
+    const approverOptions = employees.filter(e => e.isActive && isAdminRole(e.role));
+
+    const updateAbsenceApproval = (changes: Partial<AbsenceApprovalSettings>) => {
+        setLocalSettings(prev => ({ ...prev, absenceApproval: { steps: [], ...prev.absenceApproval, ...changes } }));
+    };
+
+    const handleApprovalStepChange = (index: number, changes: Partial<AbsenceApprovalStep>) => {
+        updateAbsenceApproval({ steps: approvalSteps.map((step, i) => i === index ? { ...step, ...changes } : step) });
+    };
+
+    const handleApprovalStepApproverChange = (index: number, value: string) => {
+        // The select lists "supervisor" followed by the ids of the admins who can be fixed approvers.
+        handleApprovalStepChange(index, value === 'supervisor'
+            ? { approver: 'supervisor', approverId: undefined }
+            : { approver: 'employee', approverId: parseInt(value, 10) });
+    };
+
+    const handleAddApprovalStep = () => {
+        updateAbsenceApproval({ steps: [...approvalSteps, approvalSteps.length === 0
+            ? { label: 'Teamleitung', approver: 'supervisor' }
+            : { label: 'Personalabteilung', approver: 'employee', approverId: approverOptions[0]?.id }] });
+    };
+
+    const handleRemoveApprovalStep = (index: number) => {
+        updateAbsenceApproval({ steps: approvalSteps.filter((_, i) => i !== index) });
+    };
+
+    const { staffingRules, blackouts } = getAbsenceConflictSettings(localSettings);
+    const sortedTeams = [...teams].sort((a, b) => a.name.localeCompare(b.name));
+
+    const updateAbsenceConflicts = (changes: Partial<AbsenceConflictSettings>) => {
+        setLocalSettings(prev => ({ ...prev, absenceConflicts: { ...getAbsenceConflictSettings(prev), ...changes } }));
+    };
+
+    const parseTeamId = (value: string): number | undefined => value === '' ? undefined : parseInt(value, 10);
+
+    const handleStaffingRuleChange = (index: number, changes: Partial<StaffingRule>) => {
+        updateAbsenceConflicts({ staffingRules: staffingRules.map((rule, i) => i === index ? { ...rule, ...changes } : rule) });
+    };
+
+    const handleAddStaffingRule = () => {
+        updateAbsenceConflicts({ staffingRules: [...staffingRules, { teamId: sortedTeams[0]?.id, minPresent: 2, enforcement: 'warn' }] });
+    };
+
+    const handleRemoveStaffingRule = (index: number) => {
+        updateAbsenceConflicts({ staffingRules: staffingRules.filter((_, i) => i !== index) });
+    };
+
+    const handleBlackoutChange = (index: number, changes: Partial<AbsenceBlackout>) => {
+        updateAbsenceConflicts({ blackouts: blackouts.map((blackout, i) => i === index ? { ...blackout, ...changes } : blackout) });
+    };
+
+    const handleAddBlackout = () => {
+        updateAbsenceConflicts({ blackouts: [...blackouts, { label: 'Inventur', startDate: '', endDate: '', enforcement: 'block' }] });
+    };
+
+    const handleRemoveBlackout = (index: number) => {
+        updateAbsenceConflicts({ blackouts: blackouts.filter((_, i) => i !== index) });
+    };
+
+    const permissionMatrix = getPermissionMatrix(localSettings);
+
+    const handlePermissionToggle = (role: AdminRole, permission: AdminPermission, checked: boolean) => {
+        const permissions = checked
+            ? ADMIN_PERMISSIONS.filter(p => p === permission || permissionMatrix[role].includes(p))
+            : permissionMatrix[role].filter(p => p !== permission);
+        setLocalSettings(prev => ({ ...prev, permissionMatrix: { ...prev.permissionMatrix, [role]: permissions } }));
+    };
+
     const handleSave = () => {
         if ((localSettings.shiftPlannerStartHour ?? 0) >= (localSettings.shiftPlannerEndHour ?? 24)) {
             alert('Die Startzeit des Schichtplaners muss vor der Endzeit liegen.');
             return;
         }
+        if (!(complianceRules.maxDailyHours > 0 && complianceRules.maxDailyHours <= 24) || !(complianceRules.minRestHours >= 0 && complianceRules.minRestHours <= 24)) {
+            alert('Höchstarbeitszeit und Mindestruhezeit müssen zwischen 0 und 24 Stunden liegen.');
+            return;
+        }
+        if (breakRules.tiers.some(tier => !(tier.afterHours > 0 && tier.afterHours <= 24) || !(tier.breakMinutes > 0))) {
+            alert('Jede Pausenstufe benötigt eine Arbeitszeit zwischen 0 und 24 Stunden und eine Pausendauer größer als 0.');
+            return;
+        }
+        if (!(breakRules.minSegmentMinutes >= 0) || !(breakRules.paidBreakMinutes >= 0)) {
+            alert('Mindestdauer und bezahlte Pause dürfen nicht negativ sein.');
+            return;
+        }
+
+        if (approvalSteps.some(step => !step.label.trim() || (step.approver === 'employee' && step.approverId === undefined))) {
+            alert('Jede Genehmigungsstufe benötigt eine Bezeichnung und einen Genehmiger.');
+            return;
+        }
+        if (!((localSettings.absenceApproval?.escalationDays ?? 0) >= 0)) {
+            alert('Die Frist bis zur Eskalation darf nicht negativ sein.');
+            return;
+        }
+        if (staffingRules.some(rule => !(Number.isInteger(rule.minPresent) && rule.minPresent >= 1))) {
+            alert('Die Mindestbesetzung muss mindestens 1 Mitarbeiter betragen.');
+            return;
+        }
+        if (blackouts.some(blackout => !blackout.label.trim() || !blackout.startDate || !blackout.endDate || blackout.startDate > blackout.endDate)) {
+            alert('Jede Urlaubssperre benötigt eine Bezeichnung und einen gültigen Zeitraum.');
+            return;
+        }
 
         onStateChange(localSelectedState);
         onTimeTrackingMethodChange(localTimeTrackingMethod);
         onUpdateCompanySettings({
             ...localSettings,
+            breakRules: localSettings.breakRules && { ...breakRules, tiers: [...breakRules.tiers].sort((a, b) => a.afterHours - b.afterHours) },
             customerLabel: localSettings.customerLabel || 'Zeitkategorie 1',
             activityLabel: localSettings.activityLabel || 'Zeitkategorie 2',
         });
@@ -197,6 +373,20 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                             </div>
                         </div>
 
+                        <div className="pt-8 border-t">
+                            <h3 className="text-lg font-semibold text-gray-800 mb-1">Automatische Abmeldung</h3>
+                            <p className="text-sm text-gray-500 mb-4">Benutzer werden nach dieser Zeit ohne Aktivität abgemeldet. Unabhängig davon endet jede Anmeldung nach spätestens {SESSION_DURATION_HOURS} Stunden.</p>
+                            <Select
+                                label="Abmelden bei Inaktivität"
+                                value={localSettings.idleLogoutMinutes ?? DEFAULT_IDLE_LOGOUT_MINUTES}
+                                onChange={(e) => setLocalSettings(prev => ({ ...prev, idleLogoutMinutes: parseInt(e.target.value, 10) }))}
+                            >
+                                {idleLogoutOptions.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </Select>
+                        </div>
+
                         <div className="pt-8 border-t">
                             <h3 className="text-lg font-semibold text-gray-800 mb-1">Schichtplaner Zeitraster</h3>
                             <p className="text-sm text-gray-500 mb-4">Definieren Sie den sichtbaren Zeitbereich im Schichtplaner.</p>
@@ -245,6 +435,20 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                             />
                         </div>
 
+                        <div className="pt-8 border-t">
+                            <h3 className="text-lg font-semibold text-gray-800 mb-1">Vergessene Stempelungen</h3>
+                            <p className="text-sm text-gray-500 mb-4">Eine laufende Stempeluhr bleibt beim Neuladen und Abmelden erhalten. Wird sie nicht gestoppt, wird sie nach dieser Zeit automatisch beendet und der Eintrag als „Automatisch beendet“ markiert.</p>
+                            <Select
+                                label="Stempeluhr automatisch beenden"
+                                value={getOpenPunchAutoCloseHours(localSettings)}
+                                onChange={(e) => setLocalSettings(prev => ({ ...prev, openPunchAutoCloseHours: parseInt(e.target.value, 10) }))}
+                            >
+                                {openPunchAutoCloseOptions.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </Select>
+                        </div>
+
                         <div className="pt-8 border-t">
                             <h3 className="text-lg font-semibold text-gray-800 mb-1">Bearbeitbarkeit von Zeiteinträgen</h3>
                             <p className="text-sm text-gray-500 mb-4">Legen Sie fest, wie lange Mitarbeiter ihre eigenen Zeiteinträge bearbeiten oder löschen können. Als Admin können Sie immer alle Einträge bearbeiten.</p>
@@ -255,6 +459,69 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                                 onChange={handleLockRuleChange}
                             />
                         </div>
+
+                        <div className="pt-8 border-t">
+                            <h3 className="text-lg font-semibold text-gray-800 mb-1">Pausenregelung</h3>
+                            <p className="text-sm text-gray-500 mb-4">Vorgeschriebene Pausen je Arbeitszeit. Sie gelten für die automatische Pause, die Pausenvorschläge der Stempeluhr und die Pausenprüfung. Im Arbeitsvertrag kann eine abweichende Regelung hinterlegt werden.</p>
+                            <div className="space-y-4">
+                                <div className="flex flex-wrap gap-2">
+                                    {BREAK_RULE_PRESETS.map(preset => (
+                                        <button
+                                            key={preset.id}
+                                            type="button"
+                                            onClick={() => setLocalSettings(prev => ({ ...prev, breakRules: preset.rules }))}
+                                            className={`px-3 py-1 rounded-full text-sm border ${activeBreakRulePreset?.id === preset.id ? 'bg-blue-100 border-blue-300 text-blue-700' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                                        >
+                                            {preset.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {breakRules.tiers.map((tier, index) => (
+                                    <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end">
+                                        <Input label="Ab mehr als (Std.)" type="number" min="0" max="24" step="0.5" value={tier.afterHours} onChange={(e) => handleBreakTierChange(index, 'afterHours', e.target.value)} />
+                                        <Input label="Pause (Min.)" type="number" min="0" step="5" value={tier.breakMinutes} onChange={(e) => handleBreakTierChange(index, 'breakMinutes', e.target.value)} />
+                                        <button type="button" onClick={() => handleRemoveBreakTier(index)} className="h-10 px-3 text-sm text-red-600 hover:bg-red-50 rounded-md">Entfernen</button>
+                                    </div>
+                                ))}
+                                <button type="button" onClick={handleAddBreakTier} className="text-sm font-medium text-blue-600 hover:text-blue-800">+ Stufe hinzufügen</button>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    <Input label="Mindestdauer eines Pausenabschnitts (Min.)" type="number" min="0" step="5" value={breakRules.minSegmentMinutes} onChange={(e) => updateBreakRules({ minSegmentMinutes: parseFloat(e.target.value) })} />
+                                    <Input label="Davon bezahlte Pause (Min.)" type="number" min="0" step="5" value={breakRules.paidBreakMinutes} onChange={(e) => updateBreakRules({ paidBreakMinutes: parseFloat(e.target.value) })} />
+                                </div>
+                                <p className="text-sm text-gray-500">Aktuell: {describeBreakRules(breakRules)}</p>
+                            </div>
+                        </div>
+
+                        <div className="pt-8 border-t">
+                            <h3 className="text-lg font-semibold text-gray-800 mb-1">Arbeitszeitschutz (ArbZG)</h3>
+                            <p className="text-sm text-gray-500 mb-4">Zeiteinträge werden auf die Regeln des Arbeitszeitgesetzes geprüft. Verstöße werden beim Speichern angezeigt und unter Zeitauswertung › Arbeitszeitschutz aufgelistet.</p>
+                            <div className="space-y-4">
+                                <div className="flex items-center justify-between p-3 border rounded-md">
+                                    <label className="text-sm font-medium text-gray-700">Arbeitszeitprüfung aktivieren</label>
+                                    <ToggleSwitch checked={complianceRules.enabled} onChange={(checked) => handleComplianceRuleChange('enabled', checked)} />
+                                </div>
+                                {complianceRules.enabled && (
+                                    <>
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                            <Input label="Höchstarbeitszeit pro Tag (Std.)" type="number" min="1" max="24" step="0.5" value={complianceRules.maxDailyHours} onChange={(e) => handleComplianceRuleChange('maxDailyHours', parseFloat(e.target.value))} />
+                                            <Input label="Mindestruhezeit zwischen Arbeitstagen (Std.)" type="number" min="0" max="24" step="0.5" value={complianceRules.minRestHours} onChange={(e) => handleComplianceRuleChange('minRestHours', parseFloat(e.target.value))} />
+                                        </div>
+                                        <div className="flex items-center justify-between p-3 border rounded-md">
+                                            <label className="text-sm font-medium text-gray-700">Pausen nach der Pausenregelung prüfen</label>
+                                            <ToggleSwitch checked={complianceRules.checkBreaks} onChange={(checked) => handleComplianceRuleChange('checkBreaks', checked)} />
+                                        </div>
+                                        <div className="flex items-center justify-between p-3 border rounded-md">
+                                            <label className="text-sm font-medium text-gray-700">Sonntagsarbeit melden</label>
+                                            <ToggleSwitch checked={complianceRules.flagSundayWork} onChange={(checked) => handleComplianceRuleChange('flagSundayWork', checked)} />
+                                        </div>
+                                        <div className="flex items-center justify-between p-3 border rounded-md">
+                                            <label className="text-sm font-medium text-gray-700">Feiertagsarbeit melden</label>
+                                            <ToggleSwitch checked={complianceRules.flagHolidayWork} onChange={(checked) => handleComplianceRuleChange('flagHolidayWork', checked)} />
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                        </div>
                     </div>
                 )}
                 
@@ -272,6 +539,171 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                             </div>
                         </div>
 
+                        <div className="pt-8 border-t">
+                            <h3 className="text-lg font-semibold text-gray-800 mb-1">Urlaubsanspruch & Resturlaub</h3>
+                            <p className="text-sm text-gray-500 mb-4">
+                                Wer im Laufe des Jahres eintritt, erhält den vollen Jahresurlaub, wenn die sechsmonatige Wartezeit noch im selben Jahr endet, sonst ein Zwölftel je vollem Beschäftigungsmonat. Nicht genommener Urlaub wird ins Folgejahr übertragen und dort zuerst verbraucht. Gesetzlicher Mindesturlaub sind vier Wochen der vertraglichen Arbeitstage, alles darüber gilt als vertraglicher Mehrurlaub.
+                            </p>
+                            <div className="space-y-4">
+                                <Select
+                                    label="Resturlaub aus dem Vorjahr verfällt"
+                                    value={vacationRules.carryoverExpiry}
+                                    onChange={(e) => handleVacationRuleChange({ carryoverExpiry: e.target.value })}
+                                >
+                                    {CARRYOVER_EXPIRY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                                </Select>
+                                <div className="flex items-center justify-between p-3 border rounded-md">
+                                    <div className="mr-4">
+                                        <label className="text-sm font-medium text-gray-700 block">Vertraglichen Mehrurlaub übertragen</label>
+                                        <span className="text-xs text-gray-500">Sonst verfallen nicht genommene Tage über dem gesetzlichen Mindesturlaub am Jahresende</span>
+                                    </div>
+                                    <ToggleSwitch
+                                        checked={vacationRules.extraDaysCarryOver}
+                                        onChange={(checked) => handleVacationRuleChange({ extraDaysCarryOver: checked })}
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
+                        <div className="pt-8 border-t">
+                            <h3 className="text-lg font-semibold text-gray-800 mb-1">Genehmigung von Abwesenheiten</h3>
+                            <p className="text-sm text-gray-500 mb-4">
+                                Anträge durchlaufen die Stufen nacheinander und gelten erst nach der letzten Stufe als genehmigt. Ohne Stufen kann jeder entscheiden, der Anträge des Mitarbeiters genehmigen darf. Ist ein Genehmiger selbst abwesend, entscheidet seine in der Mitarbeiterverwaltung hinterlegte Vertretung. Bleibt eine Stufe länger als die Frist liegen, wird sie eskaliert und kann von jedem Administrator entschieden werden.
+                            </p>
+                            <div className="space-y-4">
+                                {approvalSteps.map((step, index) => (
+                                    <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end">
+                                        <Input label={`Stufe ${index + 1}`} value={step.label} onChange={(e) => handleApprovalStepChange(index, { label: e.target.value })} />
+                                        <Select
+                                            label="Genehmiger"
+                                            value={step.approver === 'supervisor' ? 'supervisor' : String(step.approverId ?? '')}
+                                            onChange={(e) => handleApprovalStepApproverChange(index, e.target.value)}
+                                        >
+                                            <option value="supervisor">{ABSENCE_APPROVER_LABELS.supervisor}</option>
+                                            {step.approver === 'employee' && step.approverId === undefined && <option value="" disabled>{ABSENCE_APPROVER_LABELS.employee} wählen...</option>}
+                                            {approverOptions.map(e => <option key={e.id} value={e.id}>{e.firstName} {e.lastName}</option>)}
+                                        </Select>
+                                        <button type="button" onClick={() => handleRemoveApprovalStep(index)} className="h-10 px-3 text-sm text-red-600 hover:bg-red-50 rounded-md">Entfernen</button>
+                                    </div>
+                                ))}
+                                <button type="button" onClick={handleAddApprovalStep} className="text-sm font-medium text-blue-600 hover:text-blue-800">+ Stufe hinzufügen</button>
+                                {approvalSteps.length > 0 && (
+                                    <Input
+                                        label="Eskalation nach (Tage, 0 = nie)"
+                                        type="number"
+                                        min="0"
+                                        step="1"
+                                        value={localSettings.absenceApproval?.escalationDays ?? DEFAULT_ABSENCE_ESCALATION_DAYS}
+                                        onChange={(e) => updateAbsenceApproval({ escalationDays: parseInt(e.target.value, 10) })}
+                                    />
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="pt-8 border-t">
+                            <h3 className="text-lg font-semibold text-gray-800 mb-1">Mindestbesetzung & Urlaubssperren</h3>
+                            <p className="text-sm text-gray-500 mb-4">
+                                Urlaub und Freizeitausgleich werden beim Beantragen, Eintragen und Genehmigen gegen diese Regeln geprüft. Als anwesend zählen aktive Mitarbeiter, die an dem Tag laut Vertrag arbeiten und keine genehmigte Abwesenheit haben. Je Regel legen Sie fest, ob nur gewarnt oder der Antrag blockiert wird. Überschneidungen mit Anträgen aus dem eigenen Team werden immer als Hinweis angezeigt.
+                            </p>
+                            <div className="space-y-4">
+                                {staffingRules.map((rule, index) => (
+                                    <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-4 items-end">
+                                        <Select
+                                            label={`Mindestbesetzung ${index + 1}`}
+                                            value={rule.teamId === undefined ? '' : String(rule.teamId)}
+                                            onChange={(e) => handleStaffingRuleChange(index, { teamId: parseTeamId(e.target.value) })}
+                                        >
+                                            <option value="">Gesamtes Unternehmen</option>
+                                            {sortedTeams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                                        </Select>
+                                        <Input
+                                            label="Mindestens anwesend"
+                                            type="number"
+                                            min="1"
+                                            step="1"
+                                            value={rule.minPresent}
+                                            onChange={(e) => handleStaffingRuleChange(index, { minPresent: parseInt(e.target.value, 10) })}
+                                        />
+                                        <Select
+                                            label="Bei Unterschreitung"
+                                            value={rule.enforcement}
+                                            onChange={(e) => handleStaffingRuleChange(index, { enforcement: e.target.value as StaffingRule['enforcement'] })}
+                                        >
+                                            {(Object.keys(ABSENCE_ENFORCEMENT_LABELS) as StaffingRule['enforcement'][]).map(key => <option key={key} value={key}>{ABSENCE_ENFORCEMENT_LABELS[key]}</option>)}
+                                        </Select>
+                                        <button type="button" onClick={() => handleRemoveStaffingRule(index)} className="h-10 px-3 text-sm text-red-600 hover:bg-red-50 rounded-md">Entfernen</button>
+                                    </div>
+                                ))}
+                                <button type="button" onClick={handleAddStaffingRule} className="text-sm font-medium text-blue-600 hover:text-blue-800">+ Mindestbesetzung hinzufügen</button>
+
+                                {blackouts.map((blackout, index) => (
+                                    <div key={index} className="p-3 border rounded-md space-y-3">
+                                        <div className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end">
+                                            <Input label={`Urlaubssperre ${index + 1}`} value={blackout.label} onChange={(e) => handleBlackoutChange(index, { label: e.target.value })} placeholder="z.B. Inventur" />
+                                            <Select
+                                                label="Gilt für"
+                                                value={blackout.teamId === undefined ? '' : String(blackout.teamId)}
+                                                onChange={(e) => handleBlackoutChange(index, { teamId: parseTeamId(e.target.value) })}
+                                            >
+                                                <option value="">Gesamtes Unternehmen</option>
+                                                {sortedTeams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                                            </Select>
+                                            <button type="button" onClick={() => handleRemoveBlackout(index)} className="h-10 px-3 text-sm text-red-600 hover:bg-red-50 rounded-md">Entfernen</button>
+                                        </div>
+                                        <div className="grid grid-cols-3 gap-4 items-end">
+                                            <Input label="Von" type="date" value={blackout.startDate} onChange={(e) => handleBlackoutChange(index, { startDate: e.target.value })} />
+                                            <Input label="Bis" type="date" value={blackout.endDate} onChange={(e) => handleBlackoutChange(index, { endDate: e.target.value })} />
+                                            <Select
+                                                label="Anträge"
+                                                value={blackout.enforcement}
+                                                onChange={(e) => handleBlackoutChange(index, { enforcement: e.target.value as AbsenceBlackout['enforcement'] })}
+                                            >
+                                                {(Object.keys(ABSENCE_ENFORCEMENT_LABELS) as AbsenceBlackout['enforcement'][]).map(key => <option key={key} value={key}>{ABSENCE_ENFORCEMENT_LABELS[key]}</option>)}
+                                            </Select>
+                                        </div>
+                                    </div>
+                                ))}
+                                <button type="button" onClick={handleAddBlackout} className="text-sm font-medium text-blue-600 hover:text-blue-800">+ Urlaubssperre hinzufügen</button>
+                            </div>
+                        </div>
+
+                        <div className="pt-8 border-t">
+                            <h3 className="text-lg font-semibold text-gray-800 mb-1">Berechtigungen</h3>
+                            <p className="text-sm text-gray-500 mb-4">
+                                Legt fest, was Administratoren und Teamleitungen im Verwaltungsbereich dürfen. Teamleitungen sehen und bearbeiten dabei nur die Mitarbeiter der Teams, die sie leiten. Administratoren behalten immer den Zugriff auf den Verwaltungsbereich und die Einstellungen.
+                            </p>
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full text-sm">
+                                    <thead>
+                                        <tr className="border-b">
+                                            <th className="py-2 pr-4 text-left font-medium text-gray-700">Rolle</th>
+                                            {ADMIN_PERMISSIONS.map(permission => (
+                                                <th key={permission} className="py-2 px-2 text-center font-medium text-gray-700">{ADMIN_PERMISSION_LABELS[permission]}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {(Object.keys(permissionMatrix) as AdminRole[]).map(role => (
+                                            <tr key={role} className="border-b last:border-b-0">
+                                                <td className="py-2 pr-4 text-gray-700">{ROLE_LABELS[role]}</td>
+                                                {ADMIN_PERMISSIONS.map(permission => (
+                                                    <td key={permission} className="py-2 px-2 text-center">
+                                                        <input
+                                                            type="checkbox"
+                                                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+                                                            checked={permissionMatrix[role].includes(permission)}
+                                                            onChange={(e) => handlePermissionToggle(role, permission, e.target.checked)}
+                                                            disabled={role === 'admin' && FIXED_ADMIN_PERMISSIONS.includes(permission)}
+                                                        />
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+
                         <div className="pt-8 border-t">
                             <h3 className="text-lg font-semibold text-gray-800 mb-1">Stundenzettel-Export</h3>
                             <p className="text-sm text-gray-500 mb-4">Ermöglicht Mitarbeitern den Export eigener Stundenzettel.</p>
@@ -283,6 +715,16 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                                 />
                             </div>
                         </div>
+
+                        <div className="pt-8 border-t">
+                            <h3 className="text-lg font-semibold text-gray-800 mb-1">Kiosk-Modus</h3>
+                            <p className="text-sm text-gray-500 mb-4">
+                                Macht dieses Gerät zum gemeinsamen Terminal: Mitarbeiter melden sich mit ihrer PIN oder ihrem Ausweis an, stempeln und werden danach (spätestens nach {KIOSK_IDLE_LOGOUT_SECONDS} Sekunden) wieder abgemeldet. Die PIN wird in der Mitarbeiterverwaltung vergeben. Zum Beenden sind die Zugangsdaten eines Administrators nötig.
+                            </p>
+                            <Button onClick={handleStartKioskMode} className="bg-gray-700 hover:bg-gray-800">
+                                Kiosk-Modus auf diesem Gerät starten
+                            </Button>
+                        </div>
                     </div>
                 )}
             </div>
@@ -18,6 +18,7 @@ interface ShiftPlannerViewProps {
   addShift: (shift: Omit<Shift, 'id'>) => void;
   updateShift: (shift: Shift) => void;
   deleteShift: (id: string) => void;
+  canEdit: boolean; // without it the plan is read-only
 }
 
 const getStartOfWeek = (date: Date): Date => {
@@ -29,7 +30,7 @@ const getStartOfWeek = (date: Date): Date => {
 };
 
 export const ShiftPlannerView: React.FC<ShiftPlannerViewProps> = ({ 
-    employees, shifts, customers, activities, companySettings, addShift, updateShift, deleteShift 
+    employees, shifts, customers, activities, companySettings, addShift, updateShift, deleteShift, canEdit 
 }) => {
     const [viewStartDate, setViewStartDate] = useState(() => getStartOfWeek(new Date()));
     const [isModalOpen, setIsModalOpen] = useState(false);
@@ -79,7 +80,7 @@ export const ShiftPlannerView: React.FC<ShiftPlannerViewProps> = ({
     };
 
     const handleTrackClick = (date: Date, employeeId?: number) => {
-        if (isInputDisabled) return;
+        if (isInputDisabled || !canEdit) return;
         setIsInputDisabled(true);
         
         setModalDefaultDate(date.toLocaleDateString('sv-SE'));
@@ -90,7 +91,7 @@ export const ShiftPlannerView: React.FC<ShiftPlannerViewProps> = ({
 
     const handleShiftClick = (e: React.MouseEvent, shift: Shift) => {
         e.stopPropagation();
-        if (isInputDisabled) return;
+        if (isInputDisabled || !canEdit) return;
         setIsInputDisabled(true);
         
         setModalInitialData(shift);
@@ -275,7 +276,7 @@ export const ShiftPlannerView: React.FC<ShiftPlannerViewProps> = ({
                                                             </div>
                                                             {/* Timeline Track */}
                                                             <div 
-                                                                className="flex-1 relative cursor-pointer hover:bg-gray-50 transition-colors"
+                                                                className={`flex-1 relative ${canEdit ? 'cursor-pointer hover:bg-gray-50' : ''} transition-colors`}
                                                                 onClick={() => handleTrackClick(day, employee.id)}
                                                             >
                                                                 {/* Grid Lines */}
@@ -320,13 +321,13 @@ export const ShiftPlannerView: React.FC<ShiftPlannerViewProps> = ({
                                                 <div className="flex h-12">
                                                     <div className="w-32 sm:w-48 shrink-0 border-r border-gray-200 bg-gray-50/30"></div>
                                                     <div 
-                                                        className="flex-1 relative cursor-pointer hover:bg-gray-50/50 transition-colors group/empty"
+                                                        className={`flex-1 relative ${canEdit ? 'cursor-pointer hover:bg-gray-50/50' : ''} transition-colors group/empty`}
                                                         onClick={() => handleTrackClick(day)}
                                                     >
                                                         {HOURS.map((hour) => (
                                                             <div key={hour} className="absolute top-0 bottom-0 border-l border-gray-100 pointer-events-none" style={{ left: `${((hour - startHour) / totalHours) * 100}%` }} />
                                                         ))}
-                                                        <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover/empty:opacity-100 pointer-events-none text-gray-400 text-xs">
+                                                        <div className={`absolute inset-0 ${canEdit ? 'flex' : 'hidden'} items-center justify-center opacity-0 group-hover/empty:opacity-100 pointer-events-none text-gray-400 text-xs`}>
                                                             <PlusIcon className="h-4 w-4 mr-1" /> Schicht hinzufügen
                                                         </div>
                                                     </div>
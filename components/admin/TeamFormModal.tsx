@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import ReactDOM from 'react-dom';
+import type { Team, Employee } from '../../types';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { XIcon } from '../icons/XIcon';
+import { ConfirmModal } from '../ui/ConfirmModal';
+import { TrashIcon } from '../icons/TrashIcon';
+import { isAdminRole, ROLE_LABELS } from '../adminPermissions';
+
+interface TeamFormModalProps {
+  onClose: () => void;
+  onSave: (team: Omit<Team, 'id'> | Team) => void;
+  onDelete: (id: number) => void;
+  initialData: Team | null;
+  employees: Employee[];
+}
+
+export const TeamFormModal: React.FC<TeamFormModalProps> = ({ onClose, onSave, onDelete, initialData, employees }) => {
+  const [name, setName] = useState(initialData?.name || '');
+  const [leadIds, setLeadIds] = useState<number[]>(initialData?.leadIds || []);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+
+  // Only team leads and admins can lead a team; leads who lost the role stay listed until removed.
+  const leadOptions = employees.filter(e => (e.isActive && isAdminRole(e.role)) || leadIds.includes(e.id));
+
+  const handleClose = () => {
+    setIsClosing(true);
+    setTimeout(onClose, 300);
+  };
+
+  const toggleLead = (id: number) => {
+    setLeadIds(prev => prev.includes(id) ? prev.filter(leadId => leadId !== id) : [...prev, id]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsClosing(true);
+    setTimeout(() => {
+      const teamData = { name: name.trim(), leadIds };
+      onSave(initialData ? { ...initialData, ...teamData } : teamData);
+    }, 300);
+  };
+
+  const handleConfirmDelete = () => {
+    if (!initialData) return;
+    setShowDeleteConfirm(false);
+    setIsClosing(true);
+    setTimeout(() => onDelete(initialData.id), 300);
+  };
+
+  return ReactDOM.createPortal(
+    <>
+      <div className={`fixed inset-0 bg-black flex items-center justify-center z-30 p-4 transition-colors duration-300 ${isClosing ? 'animate-modal-fade-out' : 'animate-modal-fade-in'}`} onClick={handleClose}>
+        <Card className={`w-full max-w-lg relative max-h-[90vh] flex flex-col ${isClosing ? 'animate-modal-slide-down' : 'animate-modal-slide-up'}`} onClick={(e) => e.stopPropagation()}>
+          <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 z-10">
+            <XIcon className="h-6 w-6" />
+          </button>
+
+          <form onSubmit={handleSubmit} className="flex flex-col flex-grow min-h-0">
+            <h2 className="text-xl font-bold pr-8 my-4">{initialData ? 'Team bearbeiten' : 'Neues Team anlegen'}</h2>
+
+            <div className="space-y-4 flex-grow overflow-y-auto pr-2 pb-4 border-t pt-4">
+              <Input label="Name" value={name} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)} required placeholder="z.B. Montage oder Vertrieb" />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Teamleitung</label>
+                <p className="text-xs text-gray-500 mb-2">Teamleitungen verwalten nur die Mitarbeiter ihrer Teams. Zur Auswahl stehen Mitarbeiter mit der Rolle Teamleitung oder Administrator.</p>
+                <div className="max-h-60 overflow-y-auto border rounded-md p-2 space-y-1">
+                  {leadOptions.length > 0 ? leadOptions.map(emp => (
+                    <label key={emp.id} className="flex items-center space-x-3 p-2 rounded hover:bg-gray-50 cursor-pointer">
+                      <input type="checkbox" className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" checked={leadIds.includes(emp.id)} onChange={() => toggleLead(emp.id)} />
+                      <span>{emp.firstName} {emp.lastName}</span>
+                      <span className="text-xs text-gray-400">{ROLE_LABELS[emp.role]}</span>
+                    </label>
+                  )) : (
+                    <p className="p-2 text-sm text-gray-500">Noch kein Mitarbeiter hat die Rolle Teamleitung.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex justify-between items-center pt-4 border-t">
+              <div>
+                {initialData && (
+                  <Button type="button" onClick={() => setShowDeleteConfirm(true)} className="bg-red-600 hover:bg-red-700 flex items-center gap-2">
+                    <TrashIcon className="h-5 w-5" />
+                    Löschen
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-4">
+                <Button type="button" onClick={handleClose} className="bg-gray-500 hover:bg-gray-600">Abbrechen</Button>
+                <Button type="submit" className="bg-blue-600 hover:bg-blue-700">Speichern</Button>
+              </div>
+            </div>
+          </form>
+        </Card>
+      </div>
+      {initialData && (
+        <ConfirmModal
+          isOpen={showDeleteConfirm}
+          onClose={() => setShowDeleteConfirm(false)}
+          onConfirm={handleConfirmDelete}
+          title="Team löschen"
+          message={`Möchten Sie das Team "${initialData.name}" wirklich löschen? Die Mitarbeiter bleiben erhalten und sind danach keinem Team zugeordnet.`}
+          confirmText="Ja, löschen"
+        />
+      )}
+    </>,
+    document.body
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { Team, Employee } from '../../types';
+import { Card } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { TeamFormModal } from './TeamFormModal';
+import { PlusIcon } from '../icons/PlusIcon';
+
+interface TeamManagementProps {
+  teams: Team[];
+  employees: Employee[];
+  onAdd: (team: Omit<Team, 'id'>) => void;
+  onUpdate: (team: Team) => void;
+  onDelete: (id: number) => void;
+}
+
+export const TeamManagement: React.FC<TeamManagementProps> = ({ teams, employees, onAdd, onUpdate, onDelete }) => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [teamToEdit, setTeamToEdit] = useState<Team | null>(null);
+
+  const sortedTeams = [...teams].sort((a, b) => a.name.localeCompare(b.name));
+  const describeLeads = (team: Team): string =>
+    team.leadIds.map(id => employees.find(e => e.id === id)).filter((e): e is Employee => !!e).map(e => `${e.firstName} ${e.lastName}`).join(', ') || '-';
+
+  const handleOpenModal = (team?: Team) => {
+    setTeamToEdit(team || null);
+    setIsModalOpen(true);
+  };
+
+  const handleCloseModal = () => {
+    setIsModalOpen(false);
+    setTeamToEdit(null);
+  };
+
+  const handleSave = (teamData: Omit<Team, 'id'> | Team) => {
+    if ('id' in teamData) {
+      onUpdate(teamData);
+    } else {
+      onAdd(teamData);
+    }
+    handleCloseModal();
+  };
+
+  const handleDelete = (id: number) => {
+    onDelete(id);
+    handleCloseModal();
+  };
+
+  return (
+    <>
+      <Card>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold">Teams & Abteilungen</h2>
+          <Button onClick={() => handleOpenModal()} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
+            <PlusIcon className="h-5 w-5" />
+            Anlegen
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Die Mitarbeiter ordnen Sie im Mitarbeiterformular einem Team zu. Was Teamleitungen dürfen, legen Sie in den Einstellungen unter Berechtigungen fest.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="py-3 px-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Teamleitung</th>
+                <th className="py-3 px-4 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Mitarbeiter</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {sortedTeams.length > 0 ? (
+                sortedTeams.map(team => (
+                  <tr key={team.id} onClick={() => handleOpenModal(team)} className="cursor-pointer hover:bg-gray-50 transition-colors">
+                    <td className="py-4 px-4 whitespace-nowrap font-normal">{team.name}</td>
+                    <td className="py-4 px-4 whitespace-nowrap">{describeLeads(team)}</td>
+                    <td className="py-4 px-4 whitespace-nowrap text-center">{employees.filter(e => e.teamId === team.id && e.isActive).length}</td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={3} className="text-center py-10 text-gray-500">
+                    Keine Teams angelegt.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {isModalOpen && (
+        <TeamFormModal
+          onClose={handleCloseModal}
+          onSave={handleSave}
+          onDelete={handleDelete}
+          initialData={teamToEdit}
+          employees={employees}
+        />
+      )}
+    </>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import type { TimeEntry, Employee, Customer, Activity, Holiday, AbsenceRequest, TimeBalanceAdjustment, CompanySettings, HolidaysByYear, WeeklySchedule } from '../../types';
+import type { TimeEntry, Employee, Customer, Activity, Holiday, AbsenceRequest, TimeBalanceAdjustment, CompanySettings, HolidaysByYear, WeeklySchedule, MonthClosing, AuditLogEntry, OpenPunch, Team } from '../../types';
 import { AbsenceType, TimeBalanceAdjustmentType, TargetHoursModel } from '../../types';
 import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
@@ -9,7 +9,7 @@ import { ChevronLeftIcon } from '../icons/ChevronLeftIcon';
 import { ChevronRightIcon } from '../icons/ChevronRightIcon';
 import { ArrowUturnLeftIcon } from '../icons/ArrowUturnLeftIcon';
 import { PlusIcon } from '../icons/PlusIcon';
-import { calculateBalance, formatHoursAndMinutes, calculateAbsenceDaysInMonth, calculateAnnualVacationTaken, getContractDetailsForDate, calculateAnnualSickDays, exportTimesheet, getAbsenceTypeDetails, exportTimesheetAsPdf } from '../utils';
+import { calculateBalance, formatHoursAndMinutes, calculateAbsenceDaysInMonth, getContractDetailsForDate, calculateAnnualSickDays, exportTimesheet, getAbsenceTypeDetails, exportTimesheetAsPdf, findMonthClosing, findLaterMonthClosings, getEntryWorkedHours, formatEntryBreak, formatBreakSegments, getTimeOffHoursOnDay, formatAbsencePortion } from '../utils';
 import { TimesheetExportModal } from './TimesheetExportModal';
 import { Select } from '../ui/Select';
 import { ManualEntryFormModal } from './ManualEntryFormModal';
@@ -17,6 +17,14 @@ import { AddEntryChoiceModal } from './AddEntryChoiceModal';
 import { AbsenceFormModal } from './AbsenceFormModal';
 import { TimeBalanceAdjustmentModal, type TimeBalanceAdjustmentFormData } from './TimeBalanceAdjustmentModal';
 import { UtilizationView } from './UtilizationView';
+import { ReopenMonthModal } from './ReopenMonthModal';
+import { ConfirmModal } from '../ui/ConfirmModal';
+import { LockClosedIcon } from '../icons/LockClosedIcon';
+import { AuditHistoryPanel } from '../AuditHistoryPanel';
+import { getOpenPunchAutoCloseHours, getOpenPunchElapsedMs } from '../openPunchPolicy';
+import { formatGeofenceBreach } from '../geofencePolicy';
+import { type AdminAccess, canAccess } from '../adminPermissions';
+import { getVacationStatement, formatVacationDays } from '../vacationLedger';
 
 
 interface TimeTrackingManagementProps {
@@ -28,7 +36,7 @@ interface TimeTrackingManagementProps {
   absenceRequests: AbsenceRequest[];
   timeBalanceAdjustments: TimeBalanceAdjustment[];
   onAddTimeEntry: (entry: Omit<TimeEntry, 'id' | 'employeeId'>, employeeId: number) => void;
-  onUpdateTimeEntry: (entry: TimeEntry) => void;
+  onUpdateTimeEntry: (entry: TimeEntry, reason?: string) => void;
   onDeleteTimeEntry: (id: number) => void;
   selectedState: string;
   onEnsureHolidaysForYear: (year: number) => void;
@@ -39,6 +47,15 @@ interface TimeTrackingManagementProps {
   onUpdateTimeBalanceAdjustment: (adjustment: TimeBalanceAdjustment) => void;
   onDeleteTimeBalanceAdjustment: (id: number) => void;
   companySettings: CompanySettings;
+  monthClosings: MonthClosing[];
+  onCloseMonth: (employeeId: number, year: number, month: number) => void;
+  onReopenMonth: (closingId: number, reason: string) => void;
+  auditLog: AuditLogEntry[];
+  openPunches: OpenPunch[];
+  adminAccess: AdminAccess;
+  allEmployees: Employee[]; // beyond the own teams, for the staffing rules
+  allAbsenceRequests: AbsenceRequest[];
+  teams: Team[];
 }
 
 const months = ["Januar", "Februar", "März", "April", "Mai", "Juni", "Juli", "August", "September", "Oktober", "November", "Dezember"];
@@ -70,7 +87,16 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
     onDeleteAbsenceRequest,
     onUpdateTimeBalanceAdjustment,
     onDeleteTimeBalanceAdjustment,
-    companySettings
+    companySettings,
+    monthClosings,
+    onCloseMonth,
+    onReopenMonth,
+    auditLog,
+    openPunches,
+    adminAccess,
+    allEmployees,
+    allAbsenceRequests,
+    teams
 }) => {
   const [activeEmployeeId, setActiveEmployeeId] = useState<number | null>(null);
   const [viewDate, setViewDate] = useState(new Date());
@@ -82,8 +108,11 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
   const monthPickerRef = useRef<HTMLDivElement>(null);
   const [stagedDate, setStagedDate] = useState({ year: new Date().getFullYear(), month: new Date().getMonth() });
   const [dateForNewEntry, setDateForNewEntry] = useState<string | null>(null);
+  const [isCloseMonthConfirmOpen, setIsCloseMonthConfirmOpen] = useState(false);
+  const [isReopenMonthModalOpen, setIsReopenMonthModalOpen] = useState(false);
   
   const timeFormat = companySettings.adminTimeFormat || 'hoursMinutes';
+  const autoCloseHours = getOpenPunchAutoCloseHours(companySettings);
 
   useEffect(() => {
     onEnsureHolidaysForYear(viewDate.getFullYear());
@@ -96,7 +125,6 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
 
     const currentYear = now.getFullYear();
     const holidaysForYear = holidaysByYear[currentYear] || [];
-    const previousYear = currentYear - 1;
 
     return employees.filter(e => e.isActive).map(emp => {
         const timeBalance = calculateBalance(
@@ -105,21 +133,17 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
           timeEntries, 
           absenceRequests, 
           timeBalanceAdjustments, 
-          holidaysByYear
+          holidaysByYear,
+          monthClosings
         );
 
-        const contract = getContractDetailsForDate(emp, now);
-        const vacationTaken = calculateAnnualVacationTaken(emp.id, absenceRequests, currentYear, holidaysForYear);
-        
-        const carryoverDays = emp.vacationCarryover?.[previousYear] || 0;
-        const totalAvailableDays = contract.vacationDays + carryoverDays;
-        const vacationRemaining = totalAvailableDays - vacationTaken;
+        const vacationRemaining = getVacationStatement(emp, currentYear, absenceRequests, holidaysByYear, companySettings, now).remaining;
 
         const sickDaysTaken = calculateAnnualSickDays(emp.id, absenceRequests, currentYear, holidaysForYear);
 
         return { id: emp.id, name: `${emp.firstName} ${emp.lastName}`, timeBalance, vacationRemaining, sickDaysTaken };
     });
-  }, [employees, timeEntries, holidaysByYear, absenceRequests, timeBalanceAdjustments]);
+  }, [employees, timeEntries, holidaysByYear, absenceRequests, timeBalanceAdjustments, monthClosings, companySettings]);
   
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -151,9 +175,48 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
     setIsMonthPickerOpen(false);
   };
 
+  const employeeMonthClosings = useMemo(
+    () => monthClosings.filter(c => c.employeeId === activeEmployeeId),
+    [monthClosings, activeEmployeeId]
+  );
+
+  const employeeAuditLog = useMemo(
+    () => auditLog.filter(a => a.employeeId === activeEmployeeId),
+    [auditLog, activeEmployeeId]
+  );
+
+  const activeMonthClosing = useMemo(() => {
+    if (activeEmployeeId === null) return undefined;
+    return findMonthClosing(activeEmployeeId, viewDate.getFullYear(), viewDate.getMonth(), employeeMonthClosings);
+  }, [activeEmployeeId, viewDate, employeeMonthClosings]);
+
+  const laterMonthClosings = useMemo(
+    () => activeMonthClosing ? findLaterMonthClosings(activeMonthClosing, employeeMonthClosings) : [],
+    [activeMonthClosing, employeeMonthClosings]
+  );
+
+  // Earlier, reopened closings of the displayed month, newest first.
+  const reopenedMonthClosings = useMemo(() => employeeMonthClosings
+    .filter(c => c.reopenedAt && c.year === viewDate.getFullYear() && c.month === viewDate.getMonth())
+    .sort((a, b) => new Date(b.reopenedAt!).getTime() - new Date(a.reopenedAt!).getTime()),
+    [employeeMonthClosings, viewDate]
+  );
+
+  const isViewMonthOver = new Date(viewDate.getFullYear(), viewDate.getMonth() + 1, 1) <= new Date();
+
+  const getEmployeeName = (id?: number) => {
+    const employee = employees.find(e => e.id === id);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Unbekannt';
+  };
+
   const monthlyStats = useMemo(() => {
     if (!activeEmployee) return null;
 
+    if (activeMonthClosing) {
+        const { previousBalance, totalCredited, targetHours, endOfMonthBalance } = activeMonthClosing.snapshot;
+        return { previousBalance, totalCreditedHours: totalCredited, currentMonthTargetHours: targetHours, endOfMonthBalance };
+    }
+
     const year = viewDate.getFullYear();
     const month = viewDate.getMonth();
     
@@ -168,7 +231,8 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
         timeEntries,
         absenceRequests,
         timeBalanceAdjustments,
-        holidaysByYear
+        holidaysByYear,
+        monthClosings
     );
     
     const endOfMonthBalance = calculateBalance(
@@ -177,7 +241,8 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
         timeEntries,
         absenceRequests,
         timeBalanceAdjustments,
-        holidaysByYear
+        holidaysByYear,
+        monthClosings
     );
     
     const contractForMonth = getContractDetailsForDate(activeEmployee, new Date(year, month, 1));
@@ -186,7 +251,7 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
     const totalCreditedHours = endOfMonthBalance - previousBalance + currentMonthTargetHours;
 
     return { previousBalance, totalCreditedHours, currentMonthTargetHours, endOfMonthBalance };
-  }, [activeEmployee, viewDate, timeEntries, holidaysByYear, absenceRequests, timeBalanceAdjustments]);
+  }, [activeEmployee, activeMonthClosing, viewDate, timeEntries, holidaysByYear, absenceRequests, timeBalanceAdjustments, monthClosings]);
 
 
   const monthlyCalendarItems = useMemo(() => {
@@ -256,6 +321,11 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                     holidayName: holiday?.name,
                 });
             });
+            // Hourly time off is taken on a day with time entries.
+            if (absence?.type === AbsenceType.TimeOff && absence.hours !== undefined) {
+                const sortTime = new Date(currentDate).setHours(22, 0, 0, 0);
+                allItems.push({ date: currentDate, sortTime, type: 'absence' as const, data: absence, dailyTargetHours, id: `absence-${absence.id}-${dateStr}` });
+            }
             if (holiday && dailyTargetHours > 0 && !absence) {
                 const sortTime = new Date(currentDate).setHours(0, 0, 0, 1);
                 allItems.push({ date: currentDate, sortTime, type: 'holiday' as const, data: holiday, dailyTargetHours, id: `holiday-credit-${dateStr}` });
@@ -291,11 +361,35 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
     setViewDate(new Date());
   };
 
+  const canEditTime = canAccess(adminAccess, 'editTime');
+  const canExport = canAccess(adminAccess, 'export');
+
   const handleEmptyDayClick = (date: Date) => {
+    if (activeMonthClosing || !canEditTime) return;
     setDateForNewEntry(date.toLocaleDateString('sv-SE'));
     setAddModalState('choice');
   };
 
+  // Absences and adjustments of a closed month are shown read-only.
+  const handleEditItem = (item: AbsenceRequest | TimeBalanceAdjustment) => {
+    if (activeMonthClosing || !canEditTime) return;
+    setItemToEdit(item);
+  };
+
+  const handleConfirmCloseMonth = () => {
+    if (activeEmployeeId !== null) {
+        onCloseMonth(activeEmployeeId, viewDate.getFullYear(), viewDate.getMonth());
+    }
+    setIsCloseMonthConfirmOpen(false);
+  };
+
+  const handleConfirmReopenMonth = (reason: string) => {
+    if (activeMonthClosing) {
+        onReopenMonth(activeMonthClosing.id, reason);
+    }
+    setIsReopenMonthModalOpen(false);
+  };
+
   const handleConfirmExport = (selectedEmployees: Employee[], year: number, selectedMonths: number[], format: 'excel' | 'pdf') => {
     selectedEmployees.forEach(employee => {
         selectedMonths.forEach(month => {
@@ -308,6 +402,7 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                 companySettings,
                 holidays: holidaysByYear[year] || [],
                 timeFormat,
+                monthClosings,
             };
             if (format === 'pdf') {
                 exportTimesheetAsPdf(exportParams);
@@ -370,9 +465,11 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
             <Button onClick={() => setActiveEmployeeId(null)} className="bg-gray-500 hover:bg-gray-600 flex items-center gap-2">
                 <ArrowUturnLeftIcon className="h-5 w-5" /> Zurück
             </Button>
-            <Button onClick={() => setAddModalState('choice')} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2">
-                <PlusIcon className="h-5 w-5" /> Hinzufügen
-            </Button>
+            {canEditTime && (
+                <Button onClick={() => setAddModalState('choice')} className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2 disabled:bg-blue-300 disabled:cursor-not-allowed" disabled={!!activeMonthClosing}>
+                    <PlusIcon className="h-5 w-5" /> Hinzufügen
+                </Button>
+            )}
         </div>
 
         <Card>
@@ -429,6 +526,49 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                     </div>
                 )
             )}
+
+            <div className="border-t mt-4 pt-4 space-y-3">
+                {activeMonthClosing ? (
+                    <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+                        <div className="flex items-start gap-3 text-sm text-yellow-800">
+                            <LockClosedIcon className="h-5 w-5 flex-shrink-0" />
+                            <div>
+                                <p className="font-semibold">Monat abgeschlossen</p>
+                                <p>am {new Date(activeMonthClosing.closedAt).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' })} von {getEmployeeName(activeMonthClosing.closedBy)}. Salden sind eingefroren, Einträge gesperrt.</p>
+                            </div>
+                        </div>
+                        {canEditTime && (
+                            <Button onClick={() => setIsReopenMonthModalOpen(true)} className="bg-gray-500 hover:bg-gray-600 flex-shrink-0">
+                                Monat wieder öffnen
+                            </Button>
+                        )}
+                    </div>
+                ) : (
+                    <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-3">
+                        <p className="text-sm text-gray-500">
+                            {isViewMonthOver
+                                ? 'Der Monat ist noch nicht abgeschlossen. Beim Abschluss werden die Salden eingefroren und alle Einträge des Monats gesperrt.'
+                                : 'Ein Monat kann erst nach seinem Ende abgeschlossen werden.'}
+                        </p>
+                        {canEditTime && (
+                            <Button onClick={() => setIsCloseMonthConfirmOpen(true)} className="bg-green-600 hover:bg-green-700 flex-shrink-0 disabled:bg-green-300 disabled:cursor-not-allowed" disabled={!isViewMonthOver}>
+                                Monat abschließen
+                            </Button>
+                        )}
+                    </div>
+                )}
+                {reopenedMonthClosings.length > 0 && (
+                    <div className="text-xs text-gray-500 space-y-1">
+                        <p className="font-semibold uppercase tracking-wider">Verlauf</p>
+                        {reopenedMonthClosings.map(closing => (
+                            <p key={closing.id}>
+                                Abgeschlossen am {new Date(closing.closedAt).toLocaleDateString('de-DE')} von {getEmployeeName(closing.closedBy)},
+                                wieder geöffnet am {new Date(closing.reopenedAt!).toLocaleDateString('de-DE')} von {getEmployeeName(closing.reopenedBy)}: „{closing.reopenReason}“
+                            </p>
+                        ))}
+                    </div>
+                )}
+            </div>
         </Card>
         
         <Card>
@@ -470,7 +610,7 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
 
                         if (item.type === 'entry') {
                             const entry = item.data;
-                            const durationHours = ((new Date(entry.end).getTime() - new Date(entry.start).getTime()) / 1000 - entry.breakDurationMinutes * 60) / 3600;
+                            const durationHours = getEntryWorkedHours(entry);
                             return (
                                 <tr key={item.id} onClick={() => setEntryToEdit(entry)} className="cursor-pointer hover:bg-gray-50 transition-colors">
                                     {dateCell()}
@@ -482,9 +622,19 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                                                 {item.holidayName}
                                             </div>
                                         )}
+                                        {entry.autoClosed && (
+                                            <div className="mt-1 px-2 py-0.5 inline-block bg-orange-100 text-orange-800 text-xs font-semibold rounded-full">
+                                                Automatisch beendet
+                                            </div>
+                                        )}
+                                        {entry.geofenceBreach && (
+                                            <div className="mt-1 px-2 py-0.5 inline-block bg-red-100 text-red-800 text-xs font-semibold rounded-full" title={formatGeofenceBreach(entry.geofenceBreach)}>
+                                                Außerhalb des Bereichs
+                                            </div>
+                                        )}
                                     </td>
                                     <td className="py-4 px-4 whitespace-nowrap">{new Date(entry.start).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })} - {new Date(entry.end).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}</td>
-                                    <td className="py-4 px-4 whitespace-nowrap text-right">{entry.breakDurationMinutes} m</td>
+                                    <td className="py-4 px-4 whitespace-nowrap text-right" title={formatBreakSegments(entry.breakSegments) || undefined}>{formatEntryBreak(entry)}</td>
                                     <td className="py-4 px-4 whitespace-nowrap text-right font-semibold">{formatHoursAndMinutes(durationHours, timeFormat)}</td>
                                 </tr>
                             );
@@ -496,7 +646,7 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                             const label = isPayout ? 'Auszahlung Überstunden' : 'Korrektur Stundenkonto';
                             const sign = adj.hours > 0 ? '+' : '';
                             return (
-                                <tr key={item.id} onClick={() => setItemToEdit(adj)} className="bg-yellow-50 cursor-pointer hover:bg-yellow-100 transition-colors">
+                                <tr key={item.id} onClick={() => handleEditItem(adj)} className="bg-yellow-50 cursor-pointer hover:bg-yellow-100 transition-colors">
                                     {dateCell()}
                                     <td className="py-4 px-4 whitespace-nowrap">
                                         <div className="font-semibold text-yellow-800">{label}</div>
@@ -517,7 +667,7 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                             const dailyHours = item.dailyTargetHours || 0;
 
                             if (absence.type === AbsenceType.TimeOff) {
-                                hoursDisplay = formatHoursAndMinutes(-dailyHours, timeFormat);
+                                hoursDisplay = formatHoursAndMinutes(-getTimeOffHoursOnDay(absence, dailyHours), timeFormat);
                                 hoursClass = 'text-red-600';
                             } else {
                                 hoursDisplay = `+${formatHoursAndMinutes(dailyHours, timeFormat)}`;
@@ -525,9 +675,9 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                             }
 
                             return (
-                                <tr key={item.id} onClick={() => setItemToEdit(absence)} className={`${details.bgClass} cursor-pointer hover:brightness-95 transition-all`}>
+                                <tr key={item.id} onClick={() => handleEditItem(absence)} className={`${details.bgClass} cursor-pointer hover:brightness-95 transition-all`}>
                                     {dateCell()}
-                                    <td className={`py-4 px-4 whitespace-nowrap font-semibold ${details.textClass}`}>{details.label}</td>
+                                    <td className={`py-4 px-4 whitespace-nowrap font-semibold ${details.textClass}`}>{details.label}{formatAbsencePortion(absence)}</td>
                                     <td className="py-4 px-4"></td>
                                     <td className="py-4 px-4"></td>
                                     <td className={`py-4 px-4 whitespace-nowrap text-right font-semibold ${hoursClass}`}>{hoursDisplay}</td>
@@ -580,7 +730,12 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
             </div>
         </Card>
 
-        {entryToEdit && (<EntryDetailModal entry={entryToEdit} customers={customers} activities={activities} timeEntries={timeEntries} onClose={() => setEntryToEdit(null)} onUpdate={onUpdateTimeEntry} onDelete={onDeleteTimeEntry} isAdminView={true} companySettings={companySettings} />)}
+        <Card>
+            <h3 className="text-xl font-bold mb-4">Änderungsprotokoll</h3>
+            <AuditHistoryPanel entries={employeeAuditLog} showEntityType employees={employees} customers={customers} activities={activities} />
+        </Card>
+
+        {entryToEdit && (<EntryDetailModal entry={entryToEdit} customers={customers} activities={activities} timeEntries={timeEntries} onClose={() => setEntryToEdit(null)} onUpdate={onUpdateTimeEntry} onDelete={onDeleteTimeEntry} isAdminView={true} isReadOnly={!canEditTime} companySettings={companySettings} monthClosings={employeeMonthClosings} employees={employees} auditLog={employeeAuditLog.filter(a => a.entityType === 'timeEntry' && a.entityId === entryToEdit.id)} />)}
         
         {addModalState === 'choice' && activeEmployeeId !== null && (
             <AddEntryChoiceModal
@@ -600,6 +755,10 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                 activities={activities}
                 companySettings={companySettings}
                 absenceRequests={absenceRequests.filter(req => req.employeeId === activeEmployeeId)}
+                monthClosings={employeeMonthClosings}
+                holidaysByYear={holidaysByYear}
+                onEnsureHolidaysForYear={onEnsureHolidaysForYear}
+                employee={activeEmployee}
             />
         )}
         {(addModalState === 'absence' || isEditingAbsence) && activeEmployeeId !== null && (
@@ -610,9 +769,12 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                 onDelete={handleDeleteAbsence}
                 employees={employees}
                 initialData={isEditingAbsence ? itemToEdit : { employeeId: activeEmployeeId, startDate: dateForNewEntry || undefined, endDate: dateForNewEntry || undefined }}
-                allAbsenceRequests={absenceRequests}
+                allAbsenceRequests={allAbsenceRequests}
                 allTimeEntries={timeEntries}
                 companySettings={companySettings}
+                allEmployees={allEmployees}
+                teams={teams}
+                holidaysByYear={holidaysByYear}
             />
         )}
         {(addModalState === 'payout' || addModalState === 'correction' || isEditingAdjustment) && activeEmployeeId !== null && (
@@ -626,22 +788,68 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                 companySettings={companySettings}
             />
         )}
+        {isCloseMonthConfirmOpen && (
+          <ConfirmModal
+            isOpen={true}
+            onClose={() => setIsCloseMonthConfirmOpen(false)}
+            onConfirm={handleConfirmCloseMonth}
+            title="Monat abschließen"
+            message={`Die Salden für ${viewDate.toLocaleString('de-DE', { month: 'long', year: 'numeric' })} werden eingefroren. Zeiteinträge, Abwesenheiten und Korrekturen dieses Monats können danach nicht mehr geändert werden.`}
+            confirmText="Abschließen"
+          />
+        )}
+        {isReopenMonthModalOpen && activeMonthClosing && (
+            <ReopenMonthModal
+                monthLabel={viewDate.toLocaleString('de-DE', { month: 'long', year: 'numeric' })}
+                laterMonthLabels={laterMonthClosings.map(c => new Date(c.year, c.month).toLocaleString('de-DE', { month: 'long', year: 'numeric' }))}
+                onClose={() => setIsReopenMonthModalOpen(false)}
+                onConfirm={handleConfirmReopenMonth}
+            />
+        )}
       </div>
     );
   }
 
   return (
     <div className="space-y-6">
+        {openPunches.length > 0 && (
+            <Card>
+                <h2 className="text-xl font-bold">Aktuell eingestempelt</h2>
+                <p className="text-sm text-gray-500 mt-1 mb-4">Laufende Stempeluhren. Vergessene Stempelungen werden {autoCloseHours > 0 ? `nach ${autoCloseHours} Stunden automatisch beendet` : 'nicht automatisch beendet'}.</p>
+                <ul className="divide-y divide-gray-200">
+                    {[...openPunches].sort((a, b) => a.start.localeCompare(b.start)).map(punch => {
+                        const employee = employees.find(e => e.id === punch.employeeId);
+                        return (
+                            <li key={punch.id} onClick={() => handleSelectEmployee(punch.employeeId)} className="py-3 flex justify-between items-center gap-4 cursor-pointer hover:bg-gray-50">
+                                <div>
+                                    <div className="font-normal">{employee ? `${employee.firstName} ${employee.lastName}` : 'Unbekannt'}</div>
+                                    <div className="text-sm text-gray-500">{customers.find(c => c.id === punch.customerId)?.name || 'N/A'} · {activities.find(a => a.id === punch.activityId)?.name || 'N/A'}</div>
+                                </div>
+                                <div className="text-right whitespace-nowrap">
+                                    <div className="text-sm">seit {new Date(punch.start).toLocaleString('de-DE', { weekday: 'short', day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}</div>
+                                    <div className="text-sm text-gray-500">{formatHoursAndMinutes(getOpenPunchElapsedMs(punch) / 3_600_000, timeFormat)}</div>
+                                    {punch.pauseStart && (
+                                        <span className="mt-1 px-2 py-0.5 inline-block bg-yellow-100 text-yellow-800 text-xs font-semibold rounded-full">Pause</span>
+                                    )}
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            </Card>
+        )}
         <Card>
             <div className="flex flex-col sm:flex-row justify-between sm:items-center mb-4 gap-4">
                 <div>
                     <h2 className="text-xl font-bold">Mitarbeiter-Übersicht</h2>
                     <p className="text-sm text-gray-500 mt-1">Klicken Sie auf einen Mitarbeiter, um die monatliche Detailansicht zu öffnen.</p>
                 </div>
-                <Button onClick={() => setIsExportModalOpen(true)} className="bg-green-600 hover:bg-green-700 flex items-center justify-center gap-2 flex-shrink-0">
-                    <DocumentArrowDownIcon className="h-5 w-5" />
-                    Stundenzettel exportieren
-                </Button>
+                {canExport && (
+                    <Button onClick={() => setIsExportModalOpen(true)} className="bg-green-600 hover:bg-green-700 flex items-center justify-center gap-2 flex-shrink-0">
+                        <DocumentArrowDownIcon className="h-5 w-5" />
+                        Stundenzettel exportieren
+                    </Button>
+                )}
             </div>
             <div className="overflow-x-auto">
                 <table className="min-w-full bg-white">
@@ -658,7 +866,7 @@ const TimeTrackingOverview: React.FC<TimeTrackingManagementProps> = ({
                             <tr key={stat.id} onClick={() => handleSelectEmployee(stat.id)} className="cursor-pointer hover:bg-gray-50 transition-colors">
                                 <td className="py-4 px-4 whitespace-nowrap font-normal">{stat.name}</td>
                                 <td className={`py-4 px-4 whitespace-nowrap text-right font-semibold ${stat.timeBalance >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatHoursAndMinutes(stat.timeBalance, timeFormat)}</td>
-                                <td className="py-4 px-4 whitespace-nowrap text-right">{stat.vacationRemaining} Tage</td>
+                                <td className="py-4 px-4 whitespace-nowrap text-right">{formatVacationDays(stat.vacationRemaining)}</td>
                                 <td className="py-4 px-4 whitespace-nowrap text-right">{stat.sickDaysTaken} Tage</td>
                             </tr>
                         ))}
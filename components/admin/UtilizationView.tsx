@@ -5,7 +5,7 @@ import { Card } from '../ui/Card';
 import { Button } from '../ui/Button';
 import { Select } from '../ui/Select';
 import { Input } from '../ui/Input';
-import { getContractDetailsForDate, formatHoursAndMinutes } from '../utils';
+import { getContractDetailsForDate, formatHoursAndMinutes, getEntryWorkedHours } from '../utils';
 import { XIcon } from '../icons/XIcon';
 import { UsersIcon } from '../icons/UsersIcon';
 import { ChevronLeftIcon } from '../icons/ChevronLeftIcon';
@@ -45,7 +45,7 @@ const calculateMonthlyActualHours = (
 
     const workedSeconds = timeEntries
         .filter(e => e.employeeId === employee.id && new Date(e.start) >= startDate && new Date(e.start) <= endDate)
-        .reduce((sum, entry) => sum + ((new Date(entry.end).getTime() - new Date(entry.start).getTime()) / 1000 - (entry.breakDurationMinutes * 60)), 0);
+        .reduce((sum, entry) => sum + getEntryWorkedHours(entry) * 3600, 0);
     const workedHours = workedSeconds / 3600;
 
     let absenceAndHolidayHours = 0;
@@ -314,6 +314,9 @@ export const VacationPlannerView: React.FC<VacationPlannerViewProps> = ({
                 // FIX: Pass allTimeEntries to the modal for conflict checking.
                 allTimeEntries={timeEntries}
                 companySettings={companySettings}
+                allEmployees={employees}
+                teams={[]}
+                holidaysByYear={holidaysByYear}
             />
         </>
     );
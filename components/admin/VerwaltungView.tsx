@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { AdminViewType, type Customer, type Activity, type CompanySettings } from '../../types';
+import { AdminViewType, type Customer, type Activity, type CompanySettings, type NfcTag, type Employee } from '../../types';
 import { CustomerManagement } from './CustomerManagement';
 import { ActivityManagement } from './ActivityManagement';
 
@@ -11,6 +11,11 @@ interface VerwaltungViewProps {
   onAddCustomer: (customer: Omit<Customer, 'id'>) => void;
   onUpdateCustomer: (customer: Customer) => void;
   onDeleteCustomer: (id: string) => void;
+  employees: Employee[];
+  nfcTags: NfcTag[];
+  onRegisterNfcTag: (tag: NfcTag) => void;
+  onUpdateNfcTag: (tag: NfcTag) => void;
+  onRevokeNfcTag: (id: number, reason?: string) => void;
   activities: Activity[];
   onAddActivity: (activity: Omit<Activity, 'id'>) => void;
   onUpdateActivity: (activity: Activity) => void;
@@ -69,6 +74,12 @@ export const VerwaltungView: React.FC<VerwaltungViewProps> = (props) => {
             onUpdate={props.onUpdateCustomer}
             onDelete={props.onDeleteCustomer}
             companySettings={props.companySettings}
+            activities={props.activities}
+            employees={props.employees}
+            nfcTags={props.nfcTags}
+            onRegisterNfcTag={props.onRegisterNfcTag}
+            onUpdateNfcTag={props.onUpdateNfcTag}
+            onRevokeNfcTag={props.onRevokeNfcTag}
           />
         )}
         {activeTab === 'activities' && (
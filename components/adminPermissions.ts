@@ -0,0 +1,90 @@
+import type { AdminPermission, AdminRole, CompanySettings, Employee, PermissionMatrix, Team } from '../types';
+import { AdminViewType } from '../types';
+
+export const ADMIN_PERMISSIONS: AdminPermission[] = ['view', 'approve', 'editTime', 'export', 'manageSettings'];
+
+export const ADMIN_PERMISSION_LABELS: Record<AdminPermission, string> = {
+    view: 'Ansehen',
+    approve: 'Anträge genehmigen',
+    editTime: 'Zeiten bearbeiten',
+    export: 'Exportieren',
+    manageSettings: 'Einstellungen verwalten',
+};
+
+export const ROLE_LABELS: Record<Employee['role'], string> = {
+    admin: 'Administrator',
+    teamLead: 'Teamleitung',
+    employee: 'Mitarbeiter',
+};
+
+export const DEFAULT_PERMISSION_MATRIX: PermissionMatrix = {
+    admin: ADMIN_PERMISSIONS,
+    teamLead: ['view', 'approve', 'editTime', 'export'],
+};
+
+/**
+ * What the logged-in user may do in the admin area and for whom.
+ */
+export interface AdminAccess {
+    role: AdminRole;
+    permissions: AdminPermission[];
+    employeeIds: number[] | null; // employees in scope; null for all
+}
+
+export const isAdminRole = (role: Employee['role']): role is AdminRole => role !== 'employee';
+
+// Admins always keep these, otherwise nobody could change the matrix again.
+export const FIXED_ADMIN_PERMISSIONS: AdminPermission[] = ['view', 'manageSettings'];
+
+export const getPermissionMatrix = (companySettings?: CompanySettings): PermissionMatrix => {
+    const matrix = { ...DEFAULT_PERMISSION_MATRIX, ...companySettings?.permissionMatrix };
+    return { ...matrix, admin: ADMIN_PERMISSIONS.filter(p => FIXED_ADMIN_PERMISSIONS.includes(p) || matrix.admin.includes(p)) };
+};
+
+export const getLedTeams = (employeeId: number, teams: Team[]): Team[] =>
+    teams.filter(team => team.leadIds.includes(employeeId));
+
+export const getAdminAccess = (
+    user: Employee, employees: Employee[], teams: Team[], companySettings?: CompanySettings,
+): AdminAccess | null => {
+    if (!isAdminRole(user.role)) return null;
+    const permissions = getPermissionMatrix(companySettings)[user.role];
+    if (user.role === 'admin') return { role: user.role, permissions, employeeIds: null };
+    // Team leads manage the members of their teams, but not themselves.
+    const teamIds = getLedTeams(user.id, teams).map(team => team.id);
+    const employeeIds = employees.filter(e => e.teamId !== undefined && teamIds.includes(e.teamId) && e.id !== user.id).map(e => e.id);
+    return { role: user.role, permissions, employeeIds };
+};
+
+/**
+ * Whether the access grants the permission, for a single employee if given. Without an employee, the
+ * permission itself decides, e.g. for the company settings.
+ */
+export const canAccess = (access: AdminAccess | null, permission: AdminPermission, employeeId?: number): boolean => {
+    if (!access || !access.permissions.includes(permission)) return false;
+    return employeeId === undefined || isInAccessScope(access, employeeId);
+};
+
+// Fields everyone may change on their own record, e.g. in the profile. Contract, balances, role, team and
+// approvers need the settings permission.
+const SELF_EDITABLE_EMPLOYEE_FIELDS: (keyof Employee)[] = ['firstName', 'lastName', 'email', 'username', 'dashboardType', 'lastModified'];
+
+export const isSelfEditableEmployeeChange = (before: Employee, after: Employee): boolean =>
+    (Object.keys({ ...before, ...after }) as (keyof Employee)[])
+        .every(field => SELF_EDITABLE_EMPLOYEE_FIELDS.includes(field) || JSON.stringify(before[field]) === JSON.stringify(after[field]));
+
+export const isInAccessScope = (access: AdminAccess | null, employeeId: number): boolean =>
+    !!access && (access.employeeIds === null || access.employeeIds.includes(employeeId));
+
+export const filterToAccessScope = <T extends { employeeId: number }>(access: AdminAccess | null, items: T[]): T[] =>
+    access?.employeeIds === null ? items : items.filter(item => isInAccessScope(access, item.employeeId));
+
+// Admin views that are closed without the permission; all others only need 'view'.
+const ADMIN_VIEW_PERMISSIONS: Partial<Record<AdminViewType, AdminPermission>> = {
+    [AdminViewType.Customers]: 'manageSettings',
+    [AdminViewType.Activities]: 'manageSettings',
+    [AdminViewType.Settings]: 'manageSettings',
+};
+
+export const canOpenAdminView = (access: AdminAccess | null, view: AdminViewType): boolean =>
+    canAccess(access, ADMIN_VIEW_PERMISSIONS[view] ?? 'view');
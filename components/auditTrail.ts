@@ -0,0 +1,223 @@
+import type { AuditLogEntry, AuditEntityType, AuditAction, Employee, Customer, Activity, ContractDetails, WeeklySchedule, AbsenceType, BreakRules, BreakSegment, GeofenceBreach } from '../types';
+import { getAbsenceTypeDetails, formatBreakSegments } from './utils';
+import { describeBreakRules } from './breakRules';
+import { formatGeofenceBreach } from './geofencePolicy';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+    timeEntry: 'Zeiteintrag',
+    absenceRequest: 'Abwesenheit',
+    timeBalanceAdjustment: 'Stundenkonto-Buchung',
+    shift: 'Schicht',
+    employeeContract: 'Vertrag',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    create: 'Erstellt',
+    update: 'Geändert',
+    delete: 'Gelöscht',
+};
+
+// Fields that are not listed here (ids, GPS data, ...) are not shown in the history.
+const FIELD_LABELS: Record<AuditEntityType, Record<string, string>> = {
+    timeEntry: {
+        start: 'Beginn',
+        end: 'Ende',
+        breakDurationMinutes: 'Pause (Min.)',
+        paidBreakMinutes: 'davon bezahlt (Min.)',
+        breakSegments: 'Pausenzeiten',
+        customerId: 'Kunde',
+        activityId: 'Tätigkeit',
+        comment: 'Kommentar',
+        type: 'Erfassung',
+        autoClosed: 'Automatisch beendet',
+        geofenceBreach: 'Ende außerhalb des Bereichs',
+    },
+    absenceRequest: {
+        type: 'Art',
+        startDate: 'Von',
+        endDate: 'Bis',
+        dayPortion: 'Tagesanteil',
+        hours: 'Stunden',
+        startTime: 'Uhrzeit von',
+        endTime: 'Uhrzeit bis',
+        status: 'Status',
+        adminComment: 'Kommentar',
+    },
+    timeBalanceAdjustment: {
+        date: 'Datum',
+        type: 'Art',
+        hours: 'Stunden',
+        note: 'Notiz',
+    },
+    shift: {
+        employeeId: 'Mitarbeiter',
+        start: 'Beginn',
+        end: 'Ende',
+        label: 'Bezeichnung',
+        customerId: 'Kunde',
+        activityId: 'Tätigkeit',
+    },
+    employeeContract: {
+        validFrom: 'Gültig ab',
+        employmentType: 'Anstellungsart',
+        targetHoursModel: 'Sollstunden-Modell',
+        monthlyTargetHours: 'Soll-Stunden/Monat',
+        dailyTargetHours: 'Soll-Stunden/Tag',
+        weeklySchedule: 'Wochenplan',
+        vacationDays: 'Urlaubstage',
+        breakRules: 'Pausenregelung',
+        street: 'Straße',
+        houseNumber: 'Hausnummer',
+        postalCode: 'PLZ',
+        city: 'Ort',
+    },
+};
+
+const VALUE_LABELS: Record<string, Record<string, string>> = {
+    status: { pending: 'Ausstehend', approved: 'Genehmigt', rejected: 'Abgelehnt' },
+    dayPortion: { full: 'Ganzer Tag', am: 'Vormittags', pm: 'Nachmittags' },
+    employmentType: { full_time: 'Vollzeit', part_time: 'Teilzeit', mini_job: 'Minijob' },
+    targetHoursModel: { monthly: 'Monatlich', weekly: 'Wöchentlich' },
+};
+
+export interface AuditFieldChange {
+    field: string;
+    label: string;
+    before: unknown;
+    after: unknown;
+}
+
+export interface AuditValueLookups {
+    employees?: Employee[];
+    customers?: Customer[];
+    activities?: Activity[];
+}
+
+let lastAuditId = 0;
+// Several records can be written within the same millisecond (e.g. an employee and their contract).
+const nextAuditId = () => {
+    lastAuditId = Math.max(Date.now(), lastAuditId + 1);
+    return lastAuditId;
+};
+
+// Deep copy without attached files, so that later changes to the entity never alter the log.
+const toAuditRecord = (value: object | null): Record<string, unknown> | null => {
+    if (!value) return null;
+    const { photo, ...record } = value as Record<string, unknown>;
+    return JSON.parse(JSON.stringify(record));
+};
+
+/**
+ * A change to audited data, as reported by the mutation that performed it.
+ */
+export interface AuditChange {
+    entityType: AuditEntityType;
+    entityId: number | string;
+    employeeId: number;
+    action: AuditAction;
+    before: object | null;
+    after: object | null;
+    reason?: string;
+}
+
+/**
+ * Builds a new, complete change log record. The caller appends it; records are never changed afterwards.
+ * @param change What was changed.
+ * @param changedBy The logged-in user, or null for changes made by the system.
+ */
+export const createAuditLogEntry = (change: AuditChange, changedBy: Employee | null): AuditLogEntry => ({
+    id: nextAuditId(),
+    entityType: change.entityType,
+    entityId: change.entityId,
+    employeeId: change.employeeId,
+    action: change.action,
+    changedAt: new Date().toISOString(),
+    changedBy: changedBy?.id ?? null,
+    changedByName: changedBy ? `${changedBy.firstName} ${changedBy.lastName}` : 'System',
+    before: toAuditRecord(change.before),
+    after: toAuditRecord(change.after),
+    reason: change.reason?.trim() || undefined,
+});
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const diffFields = (entityType: AuditEntityType, before: Record<string, unknown>, after: Record<string, unknown>, labelPrefix = ''): AuditFieldChange[] =>
+    Object.entries(FIELD_LABELS[entityType])
+        .filter(([field]) => !isSameValue(before[field], after[field]))
+        .map(([field, label]) => ({ field, label: `${labelPrefix}${label}`, before: before[field], after: after[field] }));
+
+const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('de-DE');
+
+// Contract versions are matched by their validFrom date.
+const diffContracts = (before: ContractDetails[], after: ContractDetails[]): AuditFieldChange[] => {
+    const validFromDates = Array.from(new Set([...before, ...after].map(c => c.validFrom))).sort();
+    return validFromDates.flatMap(validFrom => {
+        const oldContract = before.find(c => c.validFrom === validFrom);
+        const newContract = after.find(c => c.validFrom === validFrom);
+        const prefix = `Vertrag ab ${formatDay(validFrom)}: `;
+        if (!oldContract || !newContract) {
+            return [{ field: 'contract', label: `Vertrag ab ${formatDay(validFrom)}`, before: oldContract ? 'vorhanden' : null, after: newContract ? 'vorhanden' : null }];
+        }
+        return diffFields('employeeContract', oldContract as unknown as Record<string, unknown>, newContract as unknown as Record<string, unknown>, prefix)
+            .filter(change => change.field !== 'validFrom');
+    });
+};
+
+/**
+ * Lists the fields that differ between `before` and `after` of a record.
+ * For creations and deletions all filled fields are listed.
+ */
+export const getAuditFieldChanges = (entry: AuditLogEntry): AuditFieldChange[] => {
+    if (entry.entityType === 'employeeContract') {
+        return diffContracts(
+            (entry.before?.contractHistory as ContractDetails[] | undefined) || [],
+            (entry.after?.contractHistory as ContractDetails[] | undefined) || [],
+        );
+    }
+    return diffFields(entry.entityType, entry.before || {}, entry.after || {});
+};
+
+/**
+ * Lists the fields that differ between two versions of a record that are not part of the log,
+ * e.g. the local and the server version of a sync conflict.
+ */
+export const getRecordFieldChanges = (entityType: AuditEntityType, before: object | null, after: object | null): AuditFieldChange[] =>
+    diffFields(entityType, toAuditRecord(before) || {}, toAuditRecord(after) || {});
+
+const DAY_LABELS: Record<keyof WeeklySchedule, string> = { mon: 'Mo', tue: 'Di', wed: 'Mi', thu: 'Do', fri: 'Fr', sat: 'Sa', sun: 'So' };
+
+/**
+ * Formats a logged field value for display, resolving ids to names where possible.
+ */
+export const formatAuditValue = (entityType: AuditEntityType, field: string, value: unknown, lookups: AuditValueLookups = {}): string => {
+    if (value === null || value === undefined || value === '') return '—';
+
+    if (field === 'customerId') return lookups.customers?.find(c => c.id === value)?.name || String(value);
+    if (field === 'activityId') return lookups.activities?.find(a => a.id === value)?.name || String(value);
+    if (field === 'employeeId') {
+        const employee = lookups.employees?.find(e => e.id === value);
+        return employee ? `${employee.firstName} ${employee.lastName}` : String(value);
+    }
+    if (field === 'weeklySchedule') {
+        const schedule = value as WeeklySchedule;
+        return (Object.keys(DAY_LABELS) as (keyof WeeklySchedule)[]).map(day => `${DAY_LABELS[day]} ${schedule[day] || 0}`).join(', ');
+    }
+    if (field === 'breakSegments') return formatBreakSegments(value as BreakSegment[]) || '—';
+    if (field === 'breakRules') return describeBreakRules(value as BreakRules);
+    if (field === 'geofenceBreach') return formatGeofenceBreach(value as GeofenceBreach);
+    if (field === 'type') {
+        if (entityType === 'absenceRequest') return getAbsenceTypeDetails(value as AbsenceType).label;
+        if (entityType === 'timeBalanceAdjustment') return value === 'payout' ? 'Auszahlung' : 'Korrektur';
+        if (entityType === 'timeEntry') return value === 'stopwatch' ? 'Stempeluhr' : 'Manuell';
+    }
+    if (VALUE_LABELS[field]?.[String(value)]) return VALUE_LABELS[field][String(value)];
+
+    if (typeof value === 'string') {
+        if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return formatDay(value);
+        if (/^\d{4}-\d{2}-\d{2}T/.test(value)) return new Date(value).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' });
+        return value;
+    }
+    if (typeof value === 'number') return value.toLocaleString('de-DE');
+    if (typeof value === 'boolean') return value ? 'Ja' : 'Nein';
+    return JSON.stringify(value);
+};
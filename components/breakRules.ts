@@ -0,0 +1,90 @@
+import type { TimeEntry, Employee, CompanySettings, BreakRules } from '../types';
+import { getContractDetailsForDate } from './utils';
+
+/**
+ * § 4 ArbZG: 30 minutes after more than 6 hours, 45 minutes after more than 9 hours,
+ * in segments of at least 15 minutes.
+ */
+export const DEFAULT_BREAK_RULES: BreakRules = {
+    tiers: [
+        { afterHours: 6, breakMinutes: 30 },
+        { afterHours: 9, breakMinutes: 45 },
+    ],
+    minSegmentMinutes: 15,
+    paidBreakMinutes: 0,
+};
+
+/**
+ * § 11 JArbSchG for minors: 30 minutes after more than 4.5 hours, 60 minutes after more than 6 hours.
+ */
+export const MINOR_BREAK_RULES: BreakRules = {
+    tiers: [
+        { afterHours: 4.5, breakMinutes: 30 },
+        { afterHours: 6, breakMinutes: 60 },
+    ],
+    minSegmentMinutes: 15,
+    paidBreakMinutes: 0,
+};
+
+export const BREAK_RULE_PRESETS: { id: string; label: string; rules: BreakRules }[] = [
+    { id: 'arbzg', label: 'Arbeitszeitgesetz (ArbZG)', rules: DEFAULT_BREAK_RULES },
+    { id: 'jarbschg', label: 'Jugendliche (JArbSchG)', rules: MINOR_BREAK_RULES },
+];
+
+/**
+ * Returns the preset the rules were created from, if they have not been changed since.
+ */
+export const findBreakRulePreset = (rules: BreakRules | undefined) =>
+    rules ? BREAK_RULE_PRESETS.find(preset => JSON.stringify(preset.rules) === JSON.stringify(rules)) : undefined;
+
+/**
+ * Break rules that apply to an employee on a given day: the contract overrides the company rules,
+ * which fall back to the statutory defaults.
+ */
+export const getBreakRules = (companySettings?: CompanySettings, employee?: Employee, date: Date = new Date()): BreakRules =>
+    (employee && employee.contractHistory?.length ? getContractDetailsForDate(employee, date).breakRules : undefined)
+    || companySettings?.breakRules
+    || DEFAULT_BREAK_RULES;
+
+/**
+ * Minutes of break required for the given working time (highest tier that is exceeded).
+ */
+export const getRequiredBreakMinutes = (workHours: number, rules: BreakRules): number =>
+    rules.tiers
+        .filter(tier => workHours > tier.afterHours)
+        .reduce((required, tier) => Math.max(required, tier.breakMinutes), 0);
+
+/**
+ * Short description for the UI, e.g. "nach 6 Std.: 30 Min., nach 9 Std.: 45 Min."
+ */
+export const describeBreakRules = (rules: BreakRules): string => {
+    const tiers = [...rules.tiers]
+        .sort((a, b) => a.afterHours - b.afterHours)
+        .map(tier => `nach ${tier.afterHours.toLocaleString('de-DE')} Std.: ${tier.breakMinutes} Min.`)
+        .join(', ');
+    const paid = rules.paidBreakMinutes > 0 ? `, davon ${rules.paidBreakMinutes} Min. bezahlt` : '';
+    return `${tiers || 'keine Pflichtpause'}${paid}`;
+};
+
+/**
+ * Applies the break rules of the employee to an entry before it is saved: pads the break to the
+ * required minimum if automatic break deduction is enabled for the employee, and records which
+ * part of the break is paid.
+ * @param chainEntries Entries of the same stopwatch session that were closed by switching customer or
+ * activity. The break is then required for the whole chain, minus the breaks already taken in it.
+ */
+export const applyAutomaticBreaks = <T extends Omit<TimeEntry, 'id' | 'employeeId'>>(entryData: T, employee: Employee, companySettings?: CompanySettings, chainEntries: TimeEntry[] = []): T => {
+    const rules = getBreakRules(companySettings, employee, new Date(entryData.start));
+
+    let breakDurationMinutes = entryData.breakDurationMinutes || 0;
+    if (employee.automaticBreakDeduction) {
+        const durationHours = [...chainEntries, entryData]
+            .reduce((sum, entry) => sum + new Date(entry.end).getTime() - new Date(entry.start).getTime(), 0) / (1000 * 60 * 60);
+        const previousBreakMinutes = chainEntries.reduce((sum, entry) => sum + (entry.breakDurationMinutes || 0), 0);
+        breakDurationMinutes = Math.max(breakDurationMinutes, getRequiredBreakMinutes(durationHours, rules) - previousBreakMinutes);
+    }
+
+    const previousPaidMinutes = chainEntries.reduce((sum, entry) => sum + (entry.paidBreakMinutes || 0), 0);
+    const paidBreakMinutes = Math.min(breakDurationMinutes, rules.paidBreakMinutes - previousPaidMinutes);
+    return { ...entryData, breakDurationMinutes, paidBreakMinutes: paidBreakMinutes > 0 ? paidBreakMinutes : undefined };
+};
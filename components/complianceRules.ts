@@ -0,0 +1,159 @@
+import type { TimeEntry, Holiday, Employee, CompanySettings, ComplianceRuleSettings, ComplianceRuleId, ComplianceViolation, BreakRules } from '../types';
+import { formatHoursAndMinutes, getBreakSegmentsMinutes } from './utils';
+import { getBreakRules, getRequiredBreakMinutes } from './breakRules';
+
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRuleSettings = {
+    enabled: true,
+    maxDailyHours: 10,
+    minRestHours: 11,
+    checkBreaks: true,
+    flagSundayWork: true,
+    flagHolidayWork: true,
+};
+
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRuleId, string> = {
+    maxDailyHours: 'Höchstarbeitszeit',
+    restPeriod: 'Ruhezeit',
+    missingBreak: 'Pause',
+    sundayWork: 'Sonntagsarbeit',
+    holidayWork: 'Feiertagsarbeit',
+};
+
+// Id given to the entry that is checked before it is saved.
+const CANDIDATE_ENTRY_ID = -1;
+
+interface WorkDay {
+    date: string; // YYYY-MM-DD
+    entries: TimeEntry[];
+    firstStart: Date;
+    lastEnd: Date;
+    netHours: number;
+    breakMinutes: number;
+}
+
+export const getComplianceRules = (companySettings?: CompanySettings): ComplianceRuleSettings => ({
+    ...DEFAULT_COMPLIANCE_RULES,
+    ...companySettings?.complianceRules,
+});
+
+const toDayKey = (date: Date) => date.toLocaleDateString('sv-SE');
+
+const formatDuration = (hours: number) => formatHoursAndMinutes(hours, 'hoursMinutes');
+
+// Breaks of an entry that count as rest breaks. With recorded pause times every segment is checked
+// on its own; a remainder that was not recorded is treated as one more segment.
+const getCountedBreakMinutes = (entry: TimeEntry, minSegmentMinutes: number): number => {
+    const segmentMinutes = (entry.breakSegments || []).map(segment => getBreakSegmentsMinutes([segment]));
+    const unrecordedMinutes = (entry.breakDurationMinutes || 0) - segmentMinutes.reduce((sum, minutes) => sum + minutes, 0);
+    return [...segmentMinutes, unrecordedMinutes]
+        .filter(minutes => minutes >= minSegmentMinutes)
+        .reduce((sum, minutes) => sum + minutes, 0);
+};
+
+// Groups the entries by the day they start on. Breaks and gaps between entries only count
+// if they last at least the minimum break segment of that day's rules.
+const groupIntoWorkDays = (entries: TimeEntry[], getRulesForDay: (day: Date) => BreakRules): WorkDay[] => {
+    const byDay = new Map<string, TimeEntry[]>();
+    [...entries]
+        .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+        .forEach(entry => {
+            const key = toDayKey(new Date(entry.start));
+            byDay.set(key, [...(byDay.get(key) || []), entry]);
+        });
+
+    return [...byDay.entries()].map(([date, dayEntries]) => {
+        const { minSegmentMinutes } = getRulesForDay(new Date(dayEntries[0].start));
+        let netHours = 0;
+        let breakMinutes = 0;
+        let lastEnd = new Date(dayEntries[0].end);
+        dayEntries.forEach((entry, index) => {
+            const start = new Date(entry.start);
+            const end = new Date(entry.end);
+            netHours += (end.getTime() - start.getTime()) / 3_600_000 - (entry.breakDurationMinutes || 0) / 60;
+            breakMinutes += getCountedBreakMinutes(entry, minSegmentMinutes);
+            if (index > 0) {
+                const gapMinutes = (start.getTime() - lastEnd.getTime()) / 60_000;
+                if (gapMinutes >= minSegmentMinutes) breakMinutes += gapMinutes;
+            }
+            if (end > lastEnd) lastEnd = end;
+        });
+        return { date, entries: dayEntries, firstStart: new Date(dayEntries[0].start), lastEnd, netHours, breakMinutes };
+    });
+};
+
+/**
+ * Checks the time entries of one employee against the working time rules of the company.
+ * @param entries The entries of a single employee.
+ * @param holidays Public holidays of the affected years; without them holiday work is not detected.
+ * @param companySettings The company settings containing the rule configuration.
+ * @param employee The employee, so that break rules of their contract are used.
+ * @returns The violations sorted by date, empty if the checks are switched off.
+ */
+export const evaluateCompliance = (
+    entries: TimeEntry[],
+    holidays: Holiday[],
+    companySettings?: CompanySettings,
+    employee?: Employee,
+): ComplianceViolation[] => {
+    const rules = getComplianceRules(companySettings);
+    if (!rules.enabled || entries.length === 0) return [];
+
+    const getRulesForDay = (day: Date) => getBreakRules(companySettings, employee, day);
+    const holidayNames = new Map(holidays.map(h => [h.date, h.name]));
+    const workDays = groupIntoWorkDays(entries, getRulesForDay);
+    const violations: ComplianceViolation[] = [];
+
+    workDays.forEach((day, index) => {
+        const employeeId = day.entries[0].employeeId;
+        const entryIds = day.entries.map(e => e.id);
+        const add = (rule: ComplianceRuleId, severity: ComplianceViolation['severity'], message: string, ids = entryIds) =>
+            violations.push({ rule, severity, employeeId, date: day.date, entryIds: ids, message });
+
+        if (day.netHours > rules.maxDailyHours) {
+            add('maxDailyHours', 'violation', `Arbeitszeit von ${formatDuration(day.netHours)} überschreitet die Höchstarbeitszeit von ${formatDuration(rules.maxDailyHours)}.`);
+        }
+
+        if (rules.checkBreaks) {
+            const requiredBreak = getRequiredBreakMinutes(day.netHours, getRulesForDay(day.firstStart));
+            if (day.breakMinutes < requiredBreak) {
+                add('missingBreak', 'violation', `Bei ${formatDuration(day.netHours)} Arbeitszeit sind ${requiredBreak} Minuten Pause vorgeschrieben, erfasst sind ${Math.round(day.breakMinutes)} Minuten.`);
+            }
+        }
+
+        if (rules.flagSundayWork && day.firstStart.getDay() === 0) {
+            add('sundayWork', 'warning', 'Arbeit an einem Sonntag ist nur mit einer Ausnahme nach § 10 ArbZG zulässig.');
+        }
+
+        const holidayName = holidayNames.get(day.date);
+        if (rules.flagHolidayWork && holidayName) {
+            add('holidayWork', 'warning', `Arbeit am Feiertag (${holidayName}) ist nur mit einer Ausnahme nach § 10 ArbZG zulässig.`);
+        }
+
+        const previousDay = workDays[index - 1];
+        if (previousDay) {
+            const restHours = (day.firstStart.getTime() - previousDay.lastEnd.getTime()) / 3_600_000;
+            if (restHours < rules.minRestHours) {
+                const lastEntryOfPreviousDay = previousDay.entries.reduce((latest, e) => new Date(e.end) > new Date(latest.end) ? e : latest);
+                add('restPeriod', 'violation', `Ruhezeit von ${formatDuration(Math.max(restHours, 0))} seit dem Vortag unterschreitet die Mindestruhezeit von ${formatDuration(rules.minRestHours)}.`, [lastEntryOfPreviousDay.id, day.entries[0].id]);
+            }
+        }
+    });
+
+    return violations;
+};
+
+/**
+ * Violations a new entry would cause, checked together with the existing entries of the employee.
+ * Only violations that involve the new entry are returned.
+ */
+export const checkEntryCompliance = (
+    entry: Omit<TimeEntry, 'id' | 'employeeId'>,
+    existingEntries: TimeEntry[],
+    holidays: Holiday[],
+    companySettings?: CompanySettings,
+    employee?: Employee,
+): ComplianceViolation[] => {
+    const candidate: TimeEntry = { ...entry, id: CANDIDATE_ENTRY_ID, employeeId: employee?.id ?? existingEntries[0]?.employeeId ?? CANDIDATE_ENTRY_ID };
+    return evaluateCompliance([...existingEntries, candidate], holidays, companySettings, employee)
+        .filter(v => v.entryIds.includes(CANDIDATE_ENTRY_ID));
+};
@@ -0,0 +1,125 @@
+import type { CompanySettings, MonthClosing } from '../types';
+
+export type EditLockRule = NonNullable<CompanySettings['editLockRule']>;
+
+export interface EditLockStatus {
+    /** The date lies outside the window in which employees may change their own entries. */
+    isLocked: boolean;
+    /** Human-readable explanation for the lock, shown in the UI. */
+    reason: string | null;
+    /** Admins may still change locked entries. */
+    canOverride: boolean;
+}
+
+const LOCK_REASONS: Record<Exclude<EditLockRule, 'unlimited'>, string> = {
+    sameDay: 'Einträge können nur am selben Tag erfasst, bearbeitet oder gelöscht werden.',
+    previousWeek: 'Einträge können nur in der aktuellen und der letzten Woche erfasst, bearbeitet oder gelöscht werden.',
+    currentMonth: 'Einträge können nur im laufenden Monat erfasst, bearbeitet oder gelöscht werden.',
+};
+
+// Date-only strings (YYYY-MM-DD) are parsed as local midnight, not as UTC.
+const toLocalDay = (date: Date | string): Date => {
+    const day = typeof date === 'string'
+        ? new Date(date.length === 10 ? `${date}T00:00:00` : date)
+        : new Date(date);
+    day.setHours(0, 0, 0, 0);
+    return day;
+};
+
+const getStartOfWeek = (date: Date): Date => {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+    const day = d.getDay();
+    d.setDate(d.getDate() - day + (day === 0 ? -6 : 1)); // Monday
+    return d;
+};
+
+/**
+ * Central lock policy for employee changes to time entries, based on CompanySettings.editLockRule.
+ * Every employee mutation path (create, edit, delete) must consult this before changing an entry.
+ * A missing rule falls back to 'currentMonth'. Future dates are never locked.
+ * @param date The day of the entry (ISO string, YYYY-MM-DD or Date).
+ * @param companySettings The company settings containing the lock rule.
+ * @param isAdmin Whether the change is made from the admin view (override allowed).
+ * @param now The reference date, defaults to today.
+ * @returns The lock status including a reason for the UI.
+ */
+export const getEditLockStatus = (
+    date: Date | string,
+    companySettings: CompanySettings | undefined,
+    isAdmin = false,
+    now: Date = new Date(),
+): EditLockStatus => {
+    const rule: EditLockRule = companySettings?.editLockRule || 'currentMonth';
+    const entryDay = toLocalDay(date);
+    const today = toLocalDay(now);
+
+    let isLocked = false;
+    if (entryDay < today) {
+        switch (rule) {
+            case 'unlimited':
+                isLocked = false;
+                break;
+            case 'sameDay':
+                isLocked = true;
+                break;
+            case 'previousWeek': {
+                const startOfLastWeek = getStartOfWeek(today);
+                startOfLastWeek.setDate(startOfLastWeek.getDate() - 7);
+                isLocked = entryDay < startOfLastWeek;
+                break;
+            }
+            case 'currentMonth':
+            default:
+                isLocked = entryDay.getFullYear() !== today.getFullYear() || entryDay.getMonth() !== today.getMonth();
+                break;
+        }
+    }
+
+    return {
+        isLocked,
+        reason: isLocked && rule !== 'unlimited' ? LOCK_REASONS[rule] : null,
+        canOverride: isAdmin,
+    };
+};
+
+const MONTH_CLOSED_REASON = 'Der Monat ist abgeschlossen. Änderungen sind erst möglich, nachdem ein Administrator den Monat wieder geöffnet hat.';
+
+/**
+ * Lock caused by a month-end closing. Unlike the edit lock rule this applies to admins as well:
+ * a closed month must be reopened before entries, absences or adjustments in it can change.
+ * @param startDate First day of the affected range (ISO string, YYYY-MM-DD or Date).
+ * @param endDate Last day of the affected range, defaults to startDate.
+ * @param monthClosings The closings of the affected employee.
+ */
+export const getMonthClosingLockStatus = (
+    startDate: Date | string,
+    endDate: Date | string = startDate,
+    monthClosings: MonthClosing[] = [],
+): EditLockStatus => {
+    const start = toLocalDay(startDate);
+    const end = toLocalDay(endDate);
+    const firstMonth = start.getFullYear() * 12 + start.getMonth();
+    const lastMonth = end.getFullYear() * 12 + end.getMonth();
+    const isLocked = monthClosings.some(c => !c.reopenedAt && c.year * 12 + c.month >= firstMonth && c.year * 12 + c.month <= lastMonth);
+
+    return { isLocked, reason: isLocked ? MONTH_CLOSED_REASON : null, canOverride: false };
+};
+
+/**
+ * Combined lock status for a single day: a closed month takes precedence over the edit lock rule.
+ */
+export const getEntryLockStatus = (
+    date: Date | string,
+    companySettings: CompanySettings | undefined,
+    monthClosings: MonthClosing[] = [],
+    isAdmin = false,
+): EditLockStatus => {
+    const closingStatus = getMonthClosingLockStatus(date, date, monthClosings);
+    return closingStatus.isLocked ? closingStatus : getEditLockStatus(date, companySettings, isAdmin);
+};
+
+/**
+ * True if the change must be rejected, i.e. the date is locked and no admin override applies.
+ */
+export const isEditBlocked = (status: EditLockStatus): boolean => status.isLocked && !status.canOverride;
@@ -0,0 +1,34 @@
+import type { Customer, GeofenceBreach, GpsPosition, TimeEntry } from '../types';
+import { getDistanceFromLatLonInMeters } from './utils';
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 200;
+
+export const getGeofenceRadius = (customer: Customer): number => customer.gpsRadius || DEFAULT_GEOFENCE_RADIUS_METERS;
+
+export const hasCustomerLocation = (customer?: Customer): customer is Customer & { gpsLat: number; gpsLng: number } =>
+    !!customer?.gpsLat && !!customer?.gpsLng;
+
+/**
+ * Checks a recorded position against the customer's geofence.
+ * @returns The breach, or null if the position is inside or cannot be checked.
+ */
+export const getGeofenceBreach = (customer: Customer | undefined, position?: GpsPosition): GeofenceBreach | null => {
+    if (!hasCustomerLocation(customer) || !position) return null;
+    const distanceMeters = Math.round(getDistanceFromLatLonInMeters(position.lat, position.lng, customer.gpsLat, customer.gpsLng));
+    const radiusMeters = getGeofenceRadius(customer);
+    return distanceMeters > radiusMeters ? { distanceMeters, radiusMeters } : null;
+};
+
+/**
+ * Flags an entry whose clock-out lies outside the geofence of its customer. Runs on every save,
+ * so that the flag follows a corrected customer.
+ */
+export const applyGeofenceCheck = <T extends Pick<TimeEntry, 'customerId' | 'clockOut' | 'geofenceBreach'>>(entry: T, customers: Customer[]): T => {
+    const { clockOut } = entry;
+    const position = clockOut?.gpsLat !== undefined && clockOut.gpsLng !== undefined ? { lat: clockOut.gpsLat, lng: clockOut.gpsLng } : undefined;
+    const breach = getGeofenceBreach(customers.find(c => c.id === entry.customerId), position);
+    return { ...entry, geofenceBreach: breach ?? undefined };
+};
+
+export const formatGeofenceBreach = (breach: GeofenceBreach): string =>
+    `${breach.distanceMeters.toLocaleString('de-DE')} m entfernt (erlaubt: ${breach.radiusMeters.toLocaleString('de-DE')} m)`;
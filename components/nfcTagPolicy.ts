@@ -0,0 +1,88 @@
+import type { NfcTag, NfcTagMedium, NfcTapSettings, Customer, OpenPunch } from '../types';
+
+/**
+ * Text written to a tag or encoded in a QR code: only the registry id, everything else is looked up when it is read.
+ */
+export const createNfcTagPayload = (tag: Pick<NfcTag, 'id'>): string => JSON.stringify({ tagId: tag.id });
+
+export const isNfcTagActive = (tag: NfcTag): boolean => !tag.revokedAt;
+
+export const getNfcTagMedium = (tag: Pick<NfcTag, 'medium'>): NfcTagMedium => tag.medium ?? 'nfc';
+
+export type NfcTagResolution = { tag: NfcTag; error?: undefined } | { tag?: undefined; error: string };
+
+/**
+ * Looks up a scanned tag in the registry.
+ * @param text Content of the text record or the QR code.
+ * @param serialNumber Serial number reported by the reader, if any.
+ * @param medium How the payload was read; an NFC tag's id in a QR code is refused, since it would bypass the serial check.
+ */
+export const resolveNfcTag = (text: string, serialNumber: string | undefined, tags: NfcTag[], medium: NfcTagMedium = 'nfc'): NfcTagResolution => {
+    const name = medium === 'qr' ? 'QR-Code' : 'NFC-Tag';
+    let tagId: unknown;
+    try {
+        tagId = JSON.parse(text)?.tagId;
+    } catch {
+        return { error: `Der ${name} enthält keine gültigen Daten.` };
+    }
+    const tag = typeof tagId === 'number' ? tags.find(t => t.id === tagId) : undefined;
+    if (!tag || getNfcTagMedium(tag) !== medium) {
+        return { error: medium === 'qr'
+            ? 'Dieser QR-Code ist nicht registriert. Bitte verwenden Sie einen vom Administrator gedruckten Code.'
+            : 'Dieser NFC-Tag ist nicht registriert. Bitte lassen Sie ihn vom Administrator neu beschreiben.' };
+    }
+    if (!isNfcTagActive(tag)) {
+        return { error: `Der ${name} "${tag.label}" wurde gesperrt.` };
+    }
+    // A copy of the payload on another tag is refused if the original serial number is known.
+    if (tag.serialNumber && serialNumber && tag.serialNumber !== serialNumber) {
+        return { error: `Der NFC-Tag "${tag.label}" stimmt nicht mit dem registrierten Tag überein.` };
+    }
+    return { tag };
+};
+
+export const NFC_SAME_TAG_ACTION_LABELS: Record<Required<NfcTapSettings>['sameTag'], string> = {
+    stop: 'Zeiterfassung beenden',
+    ignore: 'Nichts tun',
+};
+
+export const NFC_OTHER_TAG_ACTION_LABELS: Record<Required<NfcTapSettings>['otherTag'], string> = {
+    switch: 'Wechseln',
+    ignore: 'Nichts tun (zuerst beenden)',
+};
+
+export const DEFAULT_NFC_TAP_SETTINGS: Required<NfcTapSettings> = { sameTag: 'stop', otherTag: 'switch' };
+
+export const isPauseTag = (tag: Pick<NfcTag, 'purpose'>): boolean => tag.purpose === 'pause';
+
+export const isBadgeTag = (tag: Pick<NfcTag, 'purpose'>): boolean => tag.purpose === 'badge';
+
+/**
+ * Settings that apply to a tag: its own, then those of its customer, then the defaults.
+ */
+export const getNfcTapSettings = (tag: NfcTag, customer?: Customer): Required<NfcTapSettings> => ({
+    sameTag: tag.tapSettings?.sameTag ?? customer?.nfcTapSettings?.sameTag ?? DEFAULT_NFC_TAP_SETTINGS.sameTag,
+    otherTag: tag.tapSettings?.otherTag ?? customer?.nfcTapSettings?.otherTag ?? DEFAULT_NFC_TAP_SETTINGS.otherTag,
+});
+
+export type NfcTapDecision =
+    | { action: 'start' | 'stop' | 'switch' | 'pause' | 'resume'; message?: undefined }
+    | { action: 'ignore'; message: string; isError: boolean };
+
+/**
+ * What a tap on a registered tag does, given the employee's running session.
+ */
+export const getNfcTapDecision = (tag: NfcTag, openPunch: OpenPunch | undefined, settings: Required<NfcTapSettings>): NfcTapDecision => {
+    if (isPauseTag(tag)) {
+        if (!openPunch) return { action: 'ignore', message: 'Es läuft keine Zeiterfassung, die pausiert werden kann.', isError: true };
+        return { action: openPunch.pauseStart ? 'resume' : 'pause' };
+    }
+    if (!openPunch) return { action: 'start' };
+    const isSameTag = openPunch.customerId === tag.customerId && openPunch.activityId === tag.activityId;
+    if (isSameTag) {
+        return settings.sameTag === 'stop' ? { action: 'stop' } : { action: 'ignore', message: 'Stempeluhr läuft bereits.', isError: false };
+    }
+    return settings.otherTag === 'switch'
+        ? { action: 'switch' }
+        : { action: 'ignore', message: 'Die Stempeluhr läuft bereits für einen anderen Eintrag. Bitte beenden Sie sie zuerst.', isError: true };
+};
@@ -0,0 +1,63 @@
+import type { OpenPunch, TimeEntry, CompanySettings, BreakSegment, PunchEvent } from '../types';
+import { getBreakSegmentsMinutes } from './utils';
+
+export const DEFAULT_OPEN_PUNCH_AUTO_CLOSE_HOURS = 12;
+
+export const getOpenPunchAutoCloseHours = (companySettings?: CompanySettings): number =>
+    companySettings?.openPunchAutoCloseHours ?? DEFAULT_OPEN_PUNCH_AUTO_CLOSE_HOURS;
+
+/**
+ * Time at which a running session is ended automatically, or null if auto-close is switched off.
+ */
+export const getOpenPunchAutoCloseTime = (punch: OpenPunch, companySettings?: CompanySettings): Date | null => {
+    const hours = getOpenPunchAutoCloseHours(companySettings);
+    return hours > 0 ? new Date(new Date(punch.start).getTime() + hours * 3_600_000) : null;
+};
+
+export const isOpenPunchOverdue = (punch: OpenPunch, companySettings?: CompanySettings, now: Date = new Date()): boolean => {
+    const autoCloseTime = getOpenPunchAutoCloseTime(punch, companySettings);
+    return autoCloseTime !== null && now >= autoCloseTime;
+};
+
+/**
+ * Pauses of the session up to `until`; a running pause is ended at that time.
+ */
+export const getOpenPunchBreakSegments = (punch: OpenPunch, until: Date): BreakSegment[] =>
+    [...punch.breakSegments, ...(punch.pauseStart ? [{ start: punch.pauseStart, end: until.toISOString() }] : [])]
+        .filter(segment => new Date(segment.start) < until)
+        .map(segment => new Date(segment.end) > until ? { ...segment, end: until.toISOString() } : segment);
+
+/**
+ * Working time of the session in milliseconds; recorded pauses do not count.
+ */
+export const getOpenPunchElapsedMs = (punch: OpenPunch, until: Date = new Date()): number =>
+    until.getTime() - new Date(punch.start).getTime() - getBreakSegmentsMinutes(getOpenPunchBreakSegments(punch, until)) * 60_000;
+
+/**
+ * Entries closed earlier in the session by switching customer or activity, oldest first.
+ */
+export const getOpenPunchChainEntries = (punch: OpenPunch, timeEntries: TimeEntry[]): TimeEntry[] =>
+    timeEntries
+        .filter(entry => punch.chainEntryIds?.includes(entry.id))
+        .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+/**
+ * Turns a session into a time entry that ends at `end`.
+ * @param clockOut How the session was ended.
+ * @param breakDurationMinutes The break entered by the employee; defaults to the recorded pauses.
+ */
+export const closeOpenPunch = (punch: OpenPunch, end: Date, clockOut: PunchEvent, breakDurationMinutes?: number): Omit<TimeEntry, 'id' | 'employeeId'> => {
+    const breakSegments = getOpenPunchBreakSegments(punch, end);
+    return {
+        start: punch.start,
+        end: end.toISOString(),
+        customerId: punch.customerId,
+        activityId: punch.activityId,
+        breakDurationMinutes: breakDurationMinutes ?? Math.round(getBreakSegmentsMinutes(breakSegments)),
+        breakSegments: breakSegments.length > 0 ? breakSegments : undefined,
+        type: 'stopwatch',
+        comment: punch.comment,
+        clockIn: punch.clockIn,
+        clockOut,
+    };
+};
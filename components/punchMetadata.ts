@@ -0,0 +1,97 @@
+import type { PunchEvent, PunchMethod, GpsPosition, TimeEntry } from '../types';
+
+export const PUNCH_METHOD_LABELS: Record<PunchMethod, string> = {
+    stopwatch: 'Stempeluhr',
+    nfc: 'NFC',
+    qr: 'QR-Code',
+    kiosk: 'Kiosk',
+    manual: 'Manuell',
+    admin: 'Administrator',
+    system: 'Automatisch',
+};
+
+/**
+ * Short description of the current device from the user agent, e.g. "Android · Chrome".
+ */
+export const getDeviceDescription = (): string => {
+    const userAgent = navigator.userAgent;
+    const platform =
+        /iPhone/.test(userAgent) ? 'iPhone'
+        : /iPad/.test(userAgent) ? 'iPad'
+        : /Android/.test(userAgent) ? 'Android'
+        : /Windows/.test(userAgent) ? 'Windows'
+        : /Mac OS X/.test(userAgent) ? 'Mac'
+        : /Linux/.test(userAgent) ? 'Linux'
+        : 'Unbekanntes Gerät';
+    const browser =
+        /Edg\//.test(userAgent) ? 'Edge'
+        : /(Chrome|CriOS)\//.test(userAgent) ? 'Chrome'
+        : /(Firefox|FxiOS)\//.test(userAgent) ? 'Firefox'
+        : /Safari\//.test(userAgent) ? 'Safari'
+        : '';
+    const isInstalled = window.matchMedia?.('(display-mode: standalone)').matches;
+    return [platform, browser, isInstalled ? 'App' : ''].filter(Boolean).join(' · ');
+};
+
+/**
+ * Records a clock-in or clock-out on this device. Punches of the system carry no device.
+ * @param recordedBy The employee who records the punch, null for the system.
+ */
+export const createPunchEvent = (method: PunchMethod, recordedBy: number | null, gps?: GpsPosition, recordedAt: Date = new Date()): PunchEvent => ({
+    method,
+    recordedAt: recordedAt.toISOString(),
+    recordedBy,
+    device: method === 'system' ? undefined : getDeviceDescription(),
+    gpsLat: gps?.lat,
+    gpsLng: gps?.lng,
+    gpsAccuracy: gps?.accuracy !== undefined ? Math.round(gps.accuracy) : undefined,
+});
+
+export const formatPunchMethod = (event?: PunchEvent): string =>
+    event ? PUNCH_METHOD_LABELS[event.method] : '';
+
+export const hasPunchLocation = (event?: PunchEvent): event is PunchEvent & { gpsLat: number; gpsLng: number } =>
+    event?.gpsLat !== undefined && event?.gpsLng !== undefined;
+
+export const formatPunchLocation = (event?: PunchEvent): string => {
+    if (!hasPunchLocation(event)) return '';
+    const coordinates = `${event.gpsLat.toFixed(5)}, ${event.gpsLng.toFixed(5)}`;
+    return event.gpsAccuracy !== undefined ? `${coordinates} (±${event.gpsAccuracy} m)` : coordinates;
+};
+
+export const getPunchMapUrl = (event: PunchEvent & { gpsLat: number; gpsLng: number }): string =>
+    `https://www.openstreetmap.org/?mlat=${event.gpsLat}&mlon=${event.gpsLng}#map=18/${event.gpsLat}/${event.gpsLng}`;
+
+/**
+ * Whether the punch was recorded noticeably later than the time it stands for, i.e. entered afterwards.
+ */
+export const isPunchRecordedLater = (event: PunchEvent, punchedAt: string): boolean =>
+    new Date(event.recordedAt).getTime() - new Date(punchedAt).getTime() > 5 * 60_000;
+
+/**
+ * Method of an entry for tables, e.g. "NFC / Stempeluhr"; a single label if both punches were recorded the same way.
+ */
+export const formatEntryPunchMethods = (entry: Pick<TimeEntry, 'clockIn' | 'clockOut'>): string => {
+    const clockIn = formatPunchMethod(entry.clockIn);
+    const clockOut = formatPunchMethod(entry.clockOut);
+    return clockIn === clockOut ? clockIn : `${clockIn || '–'} / ${clockOut || '–'}`;
+};
+
+/**
+ * Adds the clock-in and clock-out of an entry that was typed in instead of punched.
+ */
+export const recordManualPunches = <T extends Omit<TimeEntry, 'id' | 'employeeId'>>(entry: T, method: 'manual' | 'admin', recordedBy: number | null): T => ({
+    ...entry,
+    clockIn: createPunchEvent(method, recordedBy),
+    clockOut: createPunchEvent(method, recordedBy),
+});
+
+/**
+ * Replaces the clock-in or clock-out of an edited entry whose start or end was changed by hand, so that the
+ * corrected time is no longer shown with the method, device and position of the original punch.
+ */
+export const recordCorrectedPunches = <T extends Pick<TimeEntry, 'start' | 'end' | 'clockIn' | 'clockOut'>>(before: T, after: T, method: 'manual' | 'admin', recordedBy: number | null): T => ({
+    ...after,
+    clockIn: after.start !== before.start ? createPunchEvent(method, recordedBy) : after.clockIn,
+    clockOut: after.end !== before.end ? createPunchEvent(method, recordedBy) : after.clockOut,
+});
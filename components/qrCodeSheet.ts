@@ -0,0 +1,57 @@
+import type { NfcTag, Customer, Activity, Employee, CompanySettings } from '../types';
+import { createNfcTagPayload, isPauseTag, isBadgeTag } from './nfcTagPolicy';
+
+interface ExportQrCodeSheetParams {
+    tags: NfcTag[];
+    customers: Customer[];
+    activities: Activity[];
+    employees: Employee[];
+    companySettings: CompanySettings;
+}
+
+const COLUMNS = 2;
+const ROWS = 3;
+const CELL_WIDTH = 90;
+const CELL_HEIGHT = 85;
+const QR_SIZE = 55;
+
+/**
+ * Printable A4 sheet (PDF) with six QR codes per page, each with its label and assignment, to be cut out
+ * and put up at the place of work. The QR code generator is only loaded when a sheet is printed.
+ */
+export const exportQrCodeSheet = async ({ tags, customers, activities, employees, companySettings }: ExportQrCodeSheetParams) => {
+    const { default: QRCode } = await import('https://esm.sh/qrcode@1.5.4');
+    const { jsPDF } = (window as any).jspdf;
+    const doc = new jsPDF();
+    const customerLabel = companySettings.customerLabel || 'Kunde';
+
+    for (const [index, tag] of tags.entries()) {
+        const positionOnPage = index % (COLUMNS * ROWS);
+        if (index > 0 && positionOnPage === 0) doc.addPage();
+        const x = 15 + (positionOnPage % COLUMNS) * CELL_WIDTH;
+        const y = 20 + Math.floor(positionOnPage / COLUMNS) * CELL_HEIGHT;
+
+        const imageUrl: string = await QRCode.toDataURL(createNfcTagPayload(tag), { errorCorrectionLevel: 'M', margin: 1, width: 600 });
+        const customerName = customers.find(c => c.id === tag.customerId)?.name || '';
+        const employee = employees.find(e => e.id === tag.employeeId);
+        const assignment = isBadgeTag(tag)
+            ? `Ausweis · ${employee ? `${employee.firstName} ${employee.lastName}` : ''}`
+            : isPauseTag(tag)
+            ? `Pause · ${customerLabel}: ${customerName}`
+            : `${customerName} / ${activities.find(a => a.id === tag.activityId)?.name || ''}`;
+
+        doc.setDrawColor(200);
+        doc.setLineDashPattern([2, 2], 0);
+        doc.rect(x, y, CELL_WIDTH - 5, CELL_HEIGHT - 5);
+        doc.addImage(imageUrl, 'PNG', x + (CELL_WIDTH - 5 - QR_SIZE) / 2, y + 5, QR_SIZE, QR_SIZE);
+        doc.setFontSize(12);
+        doc.setTextColor(0);
+        doc.text(tag.label, x + (CELL_WIDTH - 5) / 2, y + QR_SIZE + 11, { align: 'center', maxWidth: CELL_WIDTH - 10 });
+        doc.setFontSize(9);
+        doc.setTextColor(100);
+        doc.text(assignment, x + (CELL_WIDTH - 5) / 2, y + QR_SIZE + 16, { align: 'center', maxWidth: CELL_WIDTH - 10 });
+        doc.text(isBadgeTag(tag) ? 'Zum Anmelden am Kiosk scannen' : 'Zum Stempeln mit der App scannen', x + (CELL_WIDTH - 5) / 2, y + QR_SIZE + 21, { align: 'center', maxWidth: CELL_WIDTH - 10 });
+    }
+
+    doc.save('QR-Codes.pdf');
+};
@@ -1,8 +1,10 @@
 
-import type { Employee, ContractDetails, Holiday, AbsenceRequest, TimeEntry, Customer, Activity, CompanySettings, HolidaysByYear, WeeklySchedule, TimeBalanceAdjustment } from '../types';
+import type { Employee, ContractDetails, Holiday, AbsenceRequest, TimeEntry, Customer, Activity, CompanySettings, HolidaysByYear, WeeklySchedule, TimeBalanceAdjustment, MonthClosing, MonthlyBreakdown, BreakSegment } from '../types';
 import { EmploymentType, AbsenceType, TargetHoursModel } from '../types';
 import * as XLSX from 'https://cdn.sheetjs.com/xlsx-0.20.2/package/xlsx.mjs';
 import { getHolidays, GermanState } from '../constants';
+import { formatEntryPunchMethods, formatPunchLocation } from './punchMetadata';
+import { getVacationStatement } from './vacationLedger';
 
 /**
  * Calculates the distance between two coordinates in meters using the Haversine formula.
@@ -24,6 +26,33 @@ function deg2rad(deg: number): number {
   return deg * (Math.PI / 180);
 }
 
+/**
+ * Credited working time of an entry in hours: its duration minus the unpaid part of the break.
+ */
+export const getEntryWorkedHours = (entry: TimeEntry): number =>
+    (new Date(entry.end).getTime() - new Date(entry.start).getTime()) / 3600000
+    - (entry.breakDurationMinutes - (entry.paidBreakMinutes || 0)) / 60;
+
+/**
+ * Break of an entry for reports and exports, e.g. "30 m" or "30 m (15 m bezahlt)".
+ */
+export const formatEntryBreak = (entry: TimeEntry): string =>
+    entry.paidBreakMinutes ? `${entry.breakDurationMinutes} m (${entry.paidBreakMinutes} m bezahlt)` : `${entry.breakDurationMinutes} m`;
+
+/**
+ * Total length of recorded break segments in minutes.
+ */
+export const getBreakSegmentsMinutes = (segments: BreakSegment[] = []): number =>
+    segments.reduce((sum, segment) => sum + (new Date(segment.end).getTime() - new Date(segment.start).getTime()) / 60000, 0);
+
+/**
+ * Recorded pause times, e.g. "12:00–12:30, 15:10–15:25". Empty if none were recorded.
+ */
+export const formatBreakSegments = (segments: BreakSegment[] = []): string =>
+    segments
+        .map(segment => `${new Date(segment.start).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}–${new Date(segment.end).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}`)
+        .join(', ');
+
 /**
  * Finds the currently active contract details for an employee based on a specific date.
  * It sorts the contract history by the 'validFrom' date in descending order
@@ -59,18 +88,115 @@ export const getContractDetailsForDate = (employee: Employee, date: Date): Contr
   return currentContract || sortedHistory[sortedHistory.length - 1];
 };
 
+/**
+ * Scheduled working hours of the employee on a date: from the weekly schedule if the contract has one,
+ * otherwise the daily target on weekdays. Public holidays are not taken into account.
+ */
+export const getDailyTargetHours = (employee: Employee, date: Date): number => {
+    const contract = getContractDetailsForDate(employee, date);
+    const dayOfWeek = date.getDay();
+    if (contract.targetHoursModel === TargetHoursModel.Weekly && contract.weeklySchedule) {
+        const dayKeys: (keyof WeeklySchedule)[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+        return contract.weeklySchedule[dayKeys[dayOfWeek]] || 0;
+    }
+    return dayOfWeek !== 0 && dayOfWeek !== 6 ? contract.dailyTargetHours : 0;
+};
+
+/**
+ * Length of a time range given as HH:MM, in hours.
+ */
+export const getTimeRangeHours = (startTime: string, endTime: string): number => {
+    const toMinutes = (time: string) => {
+        const [hours, minutes] = time.split(':').map(Number);
+        return hours * 60 + minutes;
+    };
+    return (toMinutes(endTime) - toMinutes(startTime)) / 60;
+};
+
+/**
+ * Hours of time off a request takes on a working day: the requested hours for hourly time off,
+ * otherwise the whole scheduled day.
+ */
+export const getTimeOffHoursOnDay = (request: Pick<AbsenceRequest, 'hours'>, dailyTargetHours: number): number =>
+    request.hours !== undefined ? Math.min(request.hours, dailyTargetHours) : dailyTargetHours;
+
+/**
+ * Hours a time-off request debits from the time balance, counting from the given date on: the
+ * scheduled hours of its working days without public holidays, or the requested hours.
+ */
+export const calculateTimeOffHours = (
+    employee: Employee,
+    request: Pick<AbsenceRequest, 'startDate' | 'endDate' | 'hours'>,
+    holidaysByYear: HolidaysByYear,
+    from: string = request.startDate,
+): number => {
+    let hours = 0;
+    const start = request.startDate > from ? request.startDate : from;
+    for (const d = new Date(`${start}T00:00:00`); d.toLocaleDateString('sv-SE') <= request.endDate; d.setDate(d.getDate() + 1)) {
+        if (holidaysByYear[d.getFullYear()]?.some(h => h.date === d.toLocaleDateString('sv-SE'))) continue;
+        hours += getTimeOffHoursOnDay(request, getDailyTargetHours(employee, d));
+    }
+    return hours;
+};
+
+/**
+ * Suffix describing the part of the day an absence covers, e.g. " (Vormittags)" or " (14:00 - 16:00)".
+ */
+export const formatAbsencePortion = (request: Pick<AbsenceRequest, 'dayPortion' | 'hours' | 'startTime' | 'endTime'>): string => {
+    if (request.startTime && request.endTime) return ` (${request.startTime} - ${request.endTime})`;
+    if (request.hours !== undefined) return ` (${formatHoursAndMinutes(request.hours)})`;
+    if (request.dayPortion === 'am') return ' (Vormittags)';
+    if (request.dayPortion === 'pm') return ' (Nachmittags)';
+    return '';
+};
+
+
+/**
+ * Returns the active (not reopened) closing of an employee for the given month.
+ */
+export const findMonthClosing = (employeeId: number, year: number, month: number, allMonthClosings: MonthClosing[]): MonthClosing | undefined =>
+    allMonthClosings.find(c => c.employeeId === employeeId && c.year === year && c.month === month && !c.reopenedAt);
+
+/**
+ * Returns the active closings of the employee for months after the closing's month. Balances build on the
+ * latest closing, so a month can only be reopened once these are reopened as well.
+ */
+export const findLaterMonthClosings = (closing: MonthClosing, allMonthClosings: MonthClosing[]): MonthClosing[] =>
+    allMonthClosings
+        .filter(c => c.employeeId === closing.employeeId && !c.reopenedAt && c.year * 12 + c.month > closing.year * 12 + closing.month)
+        .sort((a, b) => (a.year * 12 + a.month) - (b.year * 12 + b.month));
+
+/**
+ * Returns the most recent active closing of an employee whose month ends on or before endDate.
+ */
+const findLatestMonthClosing = (employeeId: number, endDate: Date, allMonthClosings: MonthClosing[]): MonthClosing | undefined => {
+    let latest: MonthClosing | undefined;
+    for (const closing of allMonthClosings) {
+        if (closing.employeeId !== employeeId || closing.reopenedAt) continue;
+        const monthEnd = new Date(closing.year, closing.month + 1, 0);
+        monthEnd.setHours(23, 59, 59, 999);
+        if (monthEnd > endDate) continue;
+        if (!latest || closing.year * 12 + closing.month > latest.year * 12 + latest.month) {
+            latest = closing;
+        }
+    }
+    return latest;
+};
 
 /**
  * Calculates the final time balance for an employee up to a specific date.
  * The balance is calculated as:
  * Starting Balance + Worked Hours + Absence/Holiday Credits + Adjustments - Payroll Target Hours.
  * This correctly reflects the model where a fixed monthly target is debited against all credited hours.
+ * Time off (Freizeitausgleich) is not credited, so its hours are debited from the balance; hourly time off
+ * leaves the rest of the day to the time entries.
  * @param employee The employee.
  * @param endDate The date up to which the balance is calculated.
  * @param allTimeEntries All time entries in the system.
  * @param allAbsenceRequests All absence requests.
  * @param allTimeBalanceAdjustments All manual adjustments.
  * @param holidaysByYear A map of years to their holidays.
+ * @param allMonthClosings All month-end closings. The calculation starts after the latest closed month up to endDate.
  * @returns The final time balance in hours.
  */
 export const calculateBalance = (
@@ -80,52 +206,50 @@ export const calculateBalance = (
     allAbsenceRequests: AbsenceRequest[],
     allTimeBalanceAdjustments: TimeBalanceAdjustment[],
     holidaysByYear: HolidaysByYear,
+    allMonthClosings: MonthClosing[] = [],
 ): number => {
     if (!employee.firstWorkDay || new Date(employee.firstWorkDay) > endDate) {
         return employee.startingTimeBalanceHours || 0;
     }
 
+    // 0. Closed months are frozen: continue from the latest snapshot instead of the first work day.
+    const latestClosing = findLatestMonthClosing(employee.id, endDate, allMonthClosings);
+    const startingBalance = latestClosing ? latestClosing.snapshot.endOfMonthBalance : (employee.startingTimeBalanceHours || 0);
+    const periodStart = latestClosing ? new Date(latestClosing.year, latestClosing.month + 1, 1) : new Date(employee.firstWorkDay);
+    const isInPeriod = (date: Date) => date <= endDate && (!latestClosing || date >= periodStart);
+
     // 1. Calculate Total Credits
     let totalCredits = 0;
 
     // 1a. Worked Hours
     const workedHours = allTimeEntries
-        .filter(e => e.employeeId === employee.id && new Date(e.start) <= endDate)
-        .reduce((sum, e) => sum + ((new Date(e.end).getTime() - new Date(e.start).getTime()) / 3600000 - (e.breakDurationMinutes / 60)), 0);
+        .filter(e => e.employeeId === employee.id && isInPeriod(new Date(e.start)))
+        .reduce((sum, e) => sum + getEntryWorkedHours(e), 0);
     totalCredits += workedHours;
 
     // 1b. Adjustments
     const adjustmentHours = allTimeBalanceAdjustments
-        .filter(adj => adj.employeeId === employee.id && new Date(adj.date) <= endDate)
+        .filter(adj => adj.employeeId === employee.id && isInPeriod(new Date(adj.date)))
         .reduce((sum, adj) => sum + adj.hours, 0);
     totalCredits += adjustmentHours;
     
     // 1c. Absence & Holiday Credits
     const approvedAbsences = allAbsenceRequests.filter(r => r.employeeId === employee.id && r.status === 'approved');
-    let loopDate = new Date(employee.firstWorkDay);
+    let loopDate = new Date(periodStart);
     while (loopDate <= endDate) {
         const year = loopDate.getFullYear();
         const holidaysForYear = holidaysByYear[year] || [];
         const holidayDates = new Set(holidaysForYear.map(h => h.date));
         const dateString = loopDate.toLocaleDateString('sv-SE');
 
-        const contract = getContractDetailsForDate(employee, loopDate);
-        const dayOfWeek = loopDate.getDay();
-        let dailyScheduledHours = 0;
-        
-        if (contract.targetHoursModel === TargetHoursModel.Weekly && contract.weeklySchedule) {
-            const dayKeys: (keyof WeeklySchedule)[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-            dailyScheduledHours = contract.weeklySchedule[dayKeys[dayOfWeek]] || 0;
-        } else {
-            if (dayOfWeek !== 0 && dayOfWeek !== 6) { dailyScheduledHours = contract.dailyTargetHours; }
-        }
+        const dailyScheduledHours = getDailyTargetHours(employee, loopDate);
 
         if (dailyScheduledHours > 0) {
             const isHoliday = holidayDates.has(dateString);
-            const absence = approvedAbsences.find(r => dateString >= r.startDate && r.endDate >= dateString);
+            const absence = approvedAbsences.find(r => dateString >= r.startDate && r.endDate >= dateString && r.type !== AbsenceType.TimeOff);
             if (isHoliday) {
                 totalCredits += dailyScheduledHours;
-            } else if (absence && (absence.type === AbsenceType.Vacation || absence.type === AbsenceType.SickLeave)) {
+            } else if (absence) {
                 if (absence.type === AbsenceType.Vacation && absence.dayPortion && absence.dayPortion !== 'full') {
                     totalCredits += dailyScheduledHours / 2;
                 } else {
@@ -138,19 +262,20 @@ export const calculateBalance = (
     
     // 2. Calculate Total Payroll Debits
     let totalPayrollTargetHours = 0;
-    let monthLoopDate = new Date(employee.firstWorkDay);
+    let monthLoopDate = new Date(periodStart);
     while (monthLoopDate <= endDate) {
         const contract = getContractDetailsForDate(employee, monthLoopDate);
         totalPayrollTargetHours += contract.monthlyTargetHours;
         monthLoopDate = new Date(monthLoopDate.getFullYear(), monthLoopDate.getMonth() + 1, 1);
     }
 
-    return (employee.startingTimeBalanceHours || 0) + totalCredits - totalPayrollTargetHours;
+    return startingBalance + totalCredits - totalPayrollTargetHours;
 };
 
 /**
  * Provides a detailed breakdown of all time balance components for a specific month.
  * This is the central source of truth for all monthly calculations.
+ * For a closed month the frozen snapshot is returned instead of recalculating.
  * @returns An object with all calculated values for the month.
  */
 export const calculateMonthlyBreakdown = (
@@ -161,7 +286,13 @@ export const calculateMonthlyBreakdown = (
     allAbsenceRequests: AbsenceRequest[],
     allTimeBalanceAdjustments: TimeBalanceAdjustment[],
     holidaysByYear: HolidaysByYear,
-) => {
+    allMonthClosings: MonthClosing[] = [],
+): MonthlyBreakdown => {
+    const closing = findMonthClosing(employee.id, year, month, allMonthClosings);
+    if (closing) {
+        return closing.snapshot;
+    }
+
     const holidaysForYear = holidaysByYear[year] || [];
     const holidayDates = new Set(holidaysForYear.map(h => h.date));
     
@@ -172,11 +303,11 @@ export const calculateMonthlyBreakdown = (
     const prevMonthEnd = new Date(year, month, 0);
     prevMonthEnd.setHours(23, 59, 59, 999);
     
-    const previousBalance = calculateBalance(employee, prevMonthEnd, allTimeEntries, allAbsenceRequests, allTimeBalanceAdjustments, holidaysByYear);
+    const previousBalance = calculateBalance(employee, prevMonthEnd, allTimeEntries, allAbsenceRequests, allTimeBalanceAdjustments, holidaysByYear, allMonthClosings);
     
     const workedHours = allTimeEntries
         .filter(e => e.employeeId === employee.id && new Date(e.start) >= monthStart && new Date(e.start) <= monthEnd)
-        .reduce((sum, e) => sum + ((new Date(e.end).getTime() - new Date(e.start).getTime()) / 3600000 - (e.breakDurationMinutes / 60)), 0);
+        .reduce((sum, e) => sum + getEntryWorkedHours(e), 0);
 
     const adjustments = allTimeBalanceAdjustments
         .filter(adj => {
@@ -190,24 +321,18 @@ export const calculateMonthlyBreakdown = (
     let vacationCreditHours = 0;
     let sickLeaveCreditHours = 0;
     let holidayCreditHours = 0;
+    let timeOffHours = 0;
     const approvedAbsences = allAbsenceRequests.filter(r => r.employeeId === employee.id && r.status === 'approved');
 
     for (let d = new Date(monthStart); d <= monthEnd; d.setDate(d.getDate() + 1)) {
-        const contract = getContractDetailsForDate(employee, d);
-        const dayOfWeek = d.getDay();
-        let dailyTarget = 0;
-
-        if (contract.targetHoursModel === TargetHoursModel.Weekly && contract.weeklySchedule) {
-            const dayKeys: (keyof WeeklySchedule)[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-            dailyTarget = contract.weeklySchedule[dayKeys[dayOfWeek]] || 0;
-        } else if (dayOfWeek !== 0 && dayOfWeek !== 6) {
-            dailyTarget = contract.dailyTargetHours;
-        }
+        const dailyTarget = getDailyTargetHours(employee, d);
         
         if (dailyTarget > 0) {
             const dateString = d.toLocaleDateString('sv-SE');
             const isHoliday = holidayDates.has(dateString);
-            const absence = approvedAbsences.find(r => dateString >= r.startDate && dateString <= r.endDate);
+            const absencesOfDay = approvedAbsences.filter(r => dateString >= r.startDate && dateString <= r.endDate);
+            const absence = absencesOfDay.find(r => r.type !== AbsenceType.TimeOff);
+            const timeOff = absencesOfDay.find(r => r.type === AbsenceType.TimeOff);
 
             if (isHoliday) {
                 holidayCreditHours += dailyTarget;
@@ -218,6 +343,8 @@ export const calculateMonthlyBreakdown = (
                  } else if (absence.type === AbsenceType.SickLeave) {
                     sickLeaveCreditHours += dailyTarget;
                  }
+            } else if (timeOff) {
+                 timeOffHours += getTimeOffHoursOnDay(timeOff, dailyTarget);
             }
         }
     }
@@ -237,6 +364,7 @@ export const calculateMonthlyBreakdown = (
         sickLeaveCreditHours,
         holidayCreditHours,
         absenceHolidayCredit,
+        timeOffHours,
         totalCredited,
         targetHours,
         monthlyBalance,
@@ -293,44 +421,6 @@ const countWorkdaysInDateRange = (startDate: Date, endDate: Date, holidays: Holi
     return count;
 };
 
-/**
- * Calculates the total number of approved vacation days for an employee within a specific year.
- * @param employeeId The ID of the employee.
- * @param absenceRequests The list of all absence requests.
- * @param year The year to calculate for.
- * @param holidays A list of public holidays to exclude from vacation day count.
- * @returns The total number of taken vacation workdays.
- */
-export const calculateAnnualVacationTaken = (employeeId: number, absenceRequests: AbsenceRequest[], year: number, holidays: Holiday[]): number => {
-    const approvedVacations = absenceRequests.filter(req => 
-        req.employeeId === employeeId &&
-        req.status === 'approved' &&
-        req.type === AbsenceType.Vacation
-    );
-    const holidayDates = new Set(holidays.map(h => h.date));
-    let totalDays = 0;
-    
-    const yearStart = new Date(year, 0, 1);
-    const yearEnd = new Date(year, 11, 31);
-
-    for (let d = new Date(yearStart); d <= yearEnd; d.setDate(d.getDate() + 1)) {
-        const dayOfWeek = d.getDay();
-        if (dayOfWeek === 0 || dayOfWeek === 6) continue;
-        const dateString = d.toLocaleDateString('sv-SE');
-        if (holidayDates.has(dateString)) continue;
-
-        const absence = approvedVacations.find(req => dateString >= req.startDate && dateString <= req.endDate);
-        if (absence) {
-            if (absence.dayPortion && absence.dayPortion !== 'full') {
-                totalDays += 0.5;
-            } else {
-                totalDays += 1;
-            }
-        }
-    }
-    return totalDays;
-};
-
 /**
  * Calculates the total number of approved sick days for an employee within a specific year.
  * @param employeeId The ID of the employee.
@@ -480,10 +570,11 @@ interface ExportTimesheetParams {
     companySettings: CompanySettings;
     holidays: Holiday[];
     timeFormat?: 'decimal' | 'hoursMinutes';
+    monthClosings?: MonthClosing[];
 }
 
 const getTimesheetExportData = (params: ExportTimesheetParams) => {
-    const { employee, year, month, allTimeEntries, allAbsenceRequests, customers, activities, selectedState, companySettings, timeFormat = 'hoursMinutes' } = params;
+    const { employee, year, month, allTimeEntries, allAbsenceRequests, customers, activities, selectedState, companySettings, timeFormat = 'hoursMinutes', monthClosings = [] } = params;
     
     const holidaysForCalc: HolidaysByYear = {};
     holidaysForCalc[year] = getHolidays(year, selectedState as GermanState);
@@ -493,13 +584,14 @@ const getTimesheetExportData = (params: ExportTimesheetParams) => {
     }
     const yearSpecificHolidays = holidaysForCalc[year] || [];
     
-    const breakdown = calculateMonthlyBreakdown(employee, year, month, allTimeEntries, allAbsenceRequests, [], holidaysForCalc);
+    const breakdown = calculateMonthlyBreakdown(employee, year, month, allTimeEntries, allAbsenceRequests, [], holidaysForCalc, monthClosings);
     const {
         previousBalance,
         workedHours: actualWorkedHours,
         vacationCreditHours,
         sickLeaveCreditHours,
         holidayCreditHours,
+        timeOffHours = 0,
         totalCredited: totalCreditedHours,
         targetHours: currentMonthTargetHours,
         endOfMonthBalance
@@ -515,25 +607,39 @@ const getTimesheetExportData = (params: ExportTimesheetParams) => {
     }).sort((a,b) => new Date(a.start).getTime() - new Date(b.start).getTime());
     
     const monthlyAbsences = calculateAbsenceDaysInMonth(employee.id, allAbsenceRequests, year, month, yearSpecificHolidays);
-    const annualVacationTaken = calculateAnnualVacationTaken(employee.id, allAbsenceRequests, year, yearSpecificHolidays);
-    const currentContract = getContractDetailsForDate(employee, new Date(year, month, 15));
-    const remainingVacation = currentContract.vacationDays - annualVacationTaken;
+    const vacationStatement = getVacationStatement(
+        employee, year, allAbsenceRequests, { ...holidaysForCalc, [year - 1]: getHolidays(year - 1, selectedState as GermanState) },
+        companySettings, new Date(year, month + 1, 0),
+    );
     
     const monthName = startDate.toLocaleString('de-DE', { month: 'long' });
 
     return {
         employee, year, monthName, customers, activities, companySettings, timeFormat,
         previousBalance, actualWorkedHours, vacationCreditHours, sickLeaveCreditHours,
-        holidayCreditHours, totalCreditedHours, currentMonthTargetHours, endOfMonthBalance,
-        monthlyAbsences, remainingVacation, employeeTimeEntriesCurrentMonth
+        holidayCreditHours, totalCreditedHours, currentMonthTargetHours, endOfMonthBalance, timeOffHours,
+        monthlyAbsences, vacationStatement, employeeTimeEntriesCurrentMonth
     };
 };
 
+/**
+ * Writes the rows as a single-sheet Excel file with a frozen header row. The keys of the first row become the column headers.
+ */
+export const exportRowsAsXlsx = (rows: Record<string, string | number>[], sheetName: string, fileName: string, columnWidths: number[] = []) => {
+    const ws = XLSX.utils.json_to_sheet(rows);
+    ws['!cols'] = columnWidths.map(wch => ({ wch }));
+    ws['!freeze'] = { ySplit: 1 };
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, sheetName);
+    XLSX.writeFile(wb, fileName);
+};
+
 export const exportTimesheet = (params: ExportTimesheetParams) => {
     const data = getTimesheetExportData(params);
     const { employee, year, monthName, customers, activities, companySettings, timeFormat,
-            previousBalance, actualWorkedHours, vacationCreditHours, sickLeaveCreditHours, holidayCreditHours,
-            totalCreditedHours, currentMonthTargetHours, endOfMonthBalance, monthlyAbsences, remainingVacation,
+            previousBalance, actualWorkedHours, vacationCreditHours, sickLeaveCreditHours, holidayCreditHours, timeOffHours,
+            totalCreditedHours, currentMonthTargetHours, endOfMonthBalance, monthlyAbsences, vacationStatement,
             employeeTimeEntriesCurrentMonth } = data;
 
     const wb = XLSX.utils.book_new();
@@ -546,27 +652,31 @@ export const exportTimesheet = (params: ExportTimesheetParams) => {
         ['Firma:', companySettings.companyName],
         ['Zeitraum:', `${monthName} ${year}`],
         [],
-        ['Datum', customerLabel, activityLabel, 'Start', 'Ende', 'Pause', 'Dauer']
+        ['Datum', customerLabel, activityLabel, 'Start', 'Ende', 'Pause', 'Pausenzeiten', 'Dauer', 'Erfassung', 'Standort Kommen', 'Standort Gehen']
     ];
 
     employeeTimeEntriesCurrentMonth.forEach(entry => {
-        const duration = (new Date(entry.end).getTime() - new Date(entry.start).getTime()) / 3600000 - (entry.breakDurationMinutes / 60);
+        const duration = getEntryWorkedHours(entry);
         timesheet_aoa.push([
             new Date(entry.start).toLocaleDateString('de-DE'),
             customers.find(c => c.id === entry.customerId)?.name || 'N/A',
             activities.find(a => a.id === entry.activityId)?.name || 'N/A',
             new Date(entry.start).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit'}),
             new Date(entry.end).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit'}),
-            entry.breakDurationMinutes > 0 ? `${entry.breakDurationMinutes} m` : '0 m',
+            formatEntryBreak(entry),
+            formatBreakSegments(entry.breakSegments),
             formatHoursAndMinutes(duration, timeFormat),
+            formatEntryPunchMethods(entry),
+            formatPunchLocation(entry.clockIn),
+            formatPunchLocation(entry.clockOut),
         ]);
     });
 
     timesheet_aoa.push([]);
-    timesheet_aoa.push(['', '', '', '', '', 'Gesamt:', formatHoursAndMinutes(actualWorkedHours, timeFormat)]);
+    timesheet_aoa.push(['', '', '', '', '', '', 'Gesamt:', formatHoursAndMinutes(actualWorkedHours, timeFormat)]);
 
     const ws_timesheet = XLSX.utils.aoa_to_sheet(timesheet_aoa);
-    ws_timesheet['!cols'] = [ { wch: 12 }, { wch: 30 }, { wch: 25 }, { wch: 8 }, { wch: 8 }, { wch: 10 }, { wch: 15 } ];
+    ws_timesheet['!cols'] = [ { wch: 12 }, { wch: 30 }, { wch: 25 }, { wch: 8 }, { wch: 8 }, { wch: 10 }, { wch: 25 }, { wch: 15 }, { wch: 22 }, { wch: 30 }, { wch: 30 } ];
     XLSX.utils.book_append_sheet(wb, ws_timesheet, `Stundenzettel ${monthName}`);
 
     const summary_aoa = [
@@ -591,9 +701,12 @@ export const exportTimesheet = (params: ExportTimesheetParams) => {
         [],
         ['Zusammenfassung Abwesenheiten'],
         [`Genommene Urlaubstage (${monthName}):`, `${monthlyAbsences.vacationDays} Tag(e)`],
-        ['Verbliebene Urlaubstage (Jahr):', `${remainingVacation} Tag(e)`],
+        ['Urlaubsanspruch (Jahr):', `${vacationStatement.entitlement} Tag(e)`],
+        ['Resturlaub Vorjahr:', `${vacationStatement.carryover} Tag(e)`],
+        ['Verfallener Resturlaub:', `${vacationStatement.expired} Tag(e)`],
+        ['Verbliebene Urlaubstage (Jahr):', `${vacationStatement.remaining} Tag(e)`],
         [`Krankheitstage (${monthName}):`, `${monthlyAbsences.sickDays} Tag(e)`],
-        [`Genommener Freizeitausgleich (${monthName}):`, `${monthlyAbsences.timeOffDays} Tag(e)`],
+        [`Genommener Freizeitausgleich (${monthName}):`, formatHoursAndMinutes(timeOffHours, timeFormat)],
     ];
     const ws_summary = XLSX.utils.aoa_to_sheet(summary_aoa);
     ws_summary['!cols'] = [ { wch: 45 }, { wch: 20 } ];
@@ -605,8 +718,8 @@ export const exportTimesheet = (params: ExportTimesheetParams) => {
 export const exportTimesheetAsPdf = (params: ExportTimesheetParams) => {
     const data = getTimesheetExportData(params);
     const { employee, year, monthName, customers, activities, companySettings, timeFormat,
-            previousBalance, actualWorkedHours, vacationCreditHours, sickLeaveCreditHours, holidayCreditHours,
-            totalCreditedHours, currentMonthTargetHours, endOfMonthBalance, monthlyAbsences, remainingVacation,
+            previousBalance, actualWorkedHours, vacationCreditHours, sickLeaveCreditHours, holidayCreditHours, timeOffHours,
+            totalCreditedHours, currentMonthTargetHours, endOfMonthBalance, monthlyAbsences, vacationStatement,
             employeeTimeEntriesCurrentMonth } = data;
 
     const { jsPDF } = (window as any).jspdf;
@@ -624,14 +737,14 @@ export const exportTimesheetAsPdf = (params: ExportTimesheetParams) => {
     const activityLabel = companySettings.activityLabel || 'Tätigkeit';
 
     const tableBody = employeeTimeEntriesCurrentMonth.map(entry => {
-        const duration = (new Date(entry.end).getTime() - new Date(entry.start).getTime()) / 3600000 - (entry.breakDurationMinutes / 60);
+        const duration = getEntryWorkedHours(entry);
         return [
             new Date(entry.start).toLocaleDateString('de-DE'),
             customers.find(c => c.id === entry.customerId)?.name || 'N/A',
             activities.find(a => a.id === entry.activityId)?.name || 'N/A',
             new Date(entry.start).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit'}),
             new Date(entry.end).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit'}),
-            entry.breakDurationMinutes > 0 ? `${entry.breakDurationMinutes} m` : '0 m',
+            entry.breakSegments?.length ? `${formatEntryBreak(entry)}\n${formatBreakSegments(entry.breakSegments)}` : formatEntryBreak(entry),
             formatHoursAndMinutes(duration, timeFormat),
         ];
     });
@@ -676,9 +789,12 @@ export const exportTimesheetAsPdf = (params: ExportTimesheetParams) => {
         startY: finalY + 10,
         body: [
              [`Genommene Urlaubstage (${monthName}):`, `${monthlyAbsences.vacationDays} Tag(e)`],
-             ['Verbliebene Urlaubstage (Jahr):', `${remainingVacation} Tag(e)`],
+             ['Urlaubsanspruch (Jahr):', `${vacationStatement.entitlement} Tag(e)`],
+             ['Resturlaub Vorjahr:', `${vacationStatement.carryover} Tag(e)`],
+             ['Verfallener Resturlaub:', `${vacationStatement.expired} Tag(e)`],
+             ['Verbliebene Urlaubstage (Jahr):', `${vacationStatement.remaining} Tag(e)`],
              [`Krankheitstage (${monthName}):`, `${monthlyAbsences.sickDays} Tag(e)`],
-             [`Genommener Freizeitausgleich (${monthName}):`, `${monthlyAbsences.timeOffDays} Tag(e)`],
+             [`Genommener Freizeitausgleich (${monthName}):`, formatHoursAndMinutes(timeOffHours, timeFormat)],
         ],
         theme: 'striped',
         styles: { cellPadding: 2.5 },
@@ -0,0 +1,190 @@
+import type { AbsenceRequest, CompanySettings, ContractDetails, Employee, HolidaysByYear, VacationRuleSettings, WeeklySchedule } from '../types';
+import { AbsenceType, TargetHoursModel } from '../types';
+import { getContractDetailsForDate } from './utils';
+
+export const DEFAULT_VACATION_RULES: VacationRuleSettings = {
+    carryoverExpiry: '03-31', // § 7 Abs. 3 BUrlG
+    extraDaysCarryOver: true,
+};
+
+// § 3 BUrlG: 24 working days in a six-day week, i.e. four weeks of the employee's working days.
+const LEGAL_MINIMUM_WEEKS = 4;
+
+const DAY_KEYS: (keyof WeeklySchedule)[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Vacation account of an employee for one calendar year, in days.
+ */
+export interface VacationStatement {
+    year: number;
+    entitlement: number; // pro-rated for the year
+    legalMinimum: number; // part of the entitlement guaranteed by law
+    extraDays: number; // contractual days on top of the legal minimum
+    carryover: number; // from the previous year
+    carryoverExpiresOn?: string; // YYYY-MM-DD, unset if the carryover does not expire
+    expiring: number; // carryover that lapses unless taken by carryoverExpiresOn
+    expired: number; // carryover that has lapsed unused
+    taken: number; // approved, up to the reference date
+    planned: number; // approved, after the reference date
+    requested: number; // pending requests
+    remaining: number; // entitlement + carryover - expired - taken - planned
+}
+
+export const getVacationRules = (companySettings?: CompanySettings): VacationRuleSettings => ({
+    ...DEFAULT_VACATION_RULES,
+    ...companySettings?.vacationRules,
+});
+
+const toDateKey = (date: Date) => date.toLocaleDateString('sv-SE');
+
+const hasWeeklySchedule = (contract: ContractDetails) =>
+    contract.targetHoursModel === TargetHoursModel.Weekly && !!contract.weeklySchedule;
+
+const getDaysPerWeek = (contract: ContractDetails): number =>
+    hasWeeklySchedule(contract) ? Object.values(contract.weeklySchedule!).filter(hours => (hours || 0) > 0).length : 5;
+
+// Part-timers with a weekly schedule only use vacation on the days they work.
+export const isScheduledWorkday = (employee: Employee, date: Date): boolean => {
+    const contract = getContractDetailsForDate(employee, date);
+    if (hasWeeklySchedule(contract)) return (contract.weeklySchedule![DAY_KEYS[date.getDay()]] || 0) > 0;
+    return date.getDay() !== 0 && date.getDay() !== 6;
+};
+
+// § 5 Abs. 2 BUrlG rounds fractions of at least half a day up to a full day; smaller fractions are kept as they are.
+const roundVacationDays = (days: number): number => {
+    const rounded = Math.round(days * 100) / 100;
+    return rounded % 1 >= 0.5 ? Math.ceil(rounded) : rounded;
+};
+
+/**
+ * Vacation days the requests use between from and to (YYYY-MM-DD, inclusive): the employee's working days
+ * without public holidays, half a day for half-day requests. The caller picks the requests by status.
+ */
+export const countVacationDays = (employee: Employee, requests: AbsenceRequest[], from: string, to: string, holidaysByYear: HolidaysByYear): number => {
+    let days = 0;
+    for (const request of requests) {
+        if (request.employeeId !== employee.id || request.type !== AbsenceType.Vacation) continue;
+        const start = request.startDate > from ? request.startDate : from;
+        const end = request.endDate < to ? request.endDate : to;
+        for (const date = new Date(`${start}T00:00:00`); toDateKey(date) <= end; date.setDate(date.getDate() + 1)) {
+            const dateKey = toDateKey(date);
+            if (!isScheduledWorkday(employee, date) || holidaysByYear[date.getFullYear()]?.some(h => h.date === dateKey)) continue;
+            days += request.dayPortion && request.dayPortion !== 'full' ? 0.5 : 1;
+        }
+    }
+    return days;
+};
+
+/**
+ * Entitlement for the year. It is full once the six-month waiting period ends within the year (§ 4 BUrlG),
+ * otherwise one twelfth per full month of employment (§ 5 BUrlG). Every month counts with the contract valid
+ * in it, so a change of vacation days or working days per week during the year is pro-rated as well.
+ */
+const getEntitlement = (employee: Employee, year: number): { entitlement: number; legalMinimum: number } => {
+    const firstWorkDay = new Date(`${employee.firstWorkDay}T00:00:00`);
+    if (firstWorkDay.getFullYear() > year) return { entitlement: 0, legalMinimum: 0 };
+
+    const waitingPeriodEnd = new Date(firstWorkDay);
+    waitingPeriodEnd.setMonth(waitingPeriodEnd.getMonth() + 6);
+    waitingPeriodEnd.setDate(waitingPeriodEnd.getDate() - 1);
+    const isPartialYear = firstWorkDay.getFullYear() === year && waitingPeriodEnd.getFullYear() > year;
+
+    const months: Date[] = [];
+    if (isPartialYear) {
+        const yearEnd = new Date(year, 11, 31);
+        for (let month = 0; ; month++) {
+            const monthStart = new Date(firstWorkDay.getFullYear(), firstWorkDay.getMonth() + month, firstWorkDay.getDate());
+            const monthEnd = new Date(firstWorkDay.getFullYear(), firstWorkDay.getMonth() + month + 1, firstWorkDay.getDate() - 1);
+            if (monthEnd > yearEnd) break;
+            months.push(monthStart);
+        }
+    } else {
+        for (let month = 0; month < 12; month++) months.push(new Date(year, month, 15));
+    }
+
+    let entitlement = 0;
+    let legalMinimum = 0;
+    for (const month of months) {
+        const contract = getContractDetailsForDate(employee, month);
+        entitlement += contract.vacationDays / 12;
+        legalMinimum += (LEGAL_MINIMUM_WEEKS * getDaysPerWeek(contract)) / 12;
+    }
+    return { entitlement: roundVacationDays(entitlement), legalMinimum: roundVacationDays(Math.min(legalMinimum, entitlement)) };
+};
+
+const buildStatement = (
+    employee: Employee,
+    year: number,
+    carryover: number,
+    absenceRequests: AbsenceRequest[],
+    holidaysByYear: HolidaysByYear,
+    rules: VacationRuleSettings,
+    referenceDate: string,
+): VacationStatement & { carryForward: number } => {
+    const { entitlement, legalMinimum } = getEntitlement(employee, year);
+    const extraDays = entitlement - legalMinimum;
+    const yearStart = `${year}-01-01`;
+    const yearEnd = `${year}-12-31`;
+    const approved = absenceRequests.filter(r => r.status === 'approved');
+    const pending = absenceRequests.filter(r => r.status === 'pending');
+
+    const approvedInYear = countVacationDays(employee, approved, yearStart, yearEnd, holidaysByYear);
+    const taken = countVacationDays(employee, approved, yearStart, referenceDate < yearEnd ? referenceDate : yearEnd, holidaysByYear);
+
+    // Vacation is taken from the carryover first, but only until it expires.
+    const carryoverExpiresOn = rules.carryoverExpiry ? `${year}-${rules.carryoverExpiry}` : undefined;
+    const carryoverUsed = Math.min(carryover, carryoverExpiresOn ? countVacationDays(employee, approved, yearStart, carryoverExpiresOn, holidaysByYear) : approvedInYear);
+    const carryoverLeft = carryover - carryoverUsed;
+    const hasExpired = !!carryoverExpiresOn && referenceDate > carryoverExpiresOn;
+
+    // Of the current entitlement, the contractual extra days are used up before the legal minimum.
+    const usedFromEntitlement = approvedInYear - carryoverUsed;
+    const extraDaysLeft = Math.max(0, extraDays - usedFromEntitlement);
+    const legalMinimumLeft = Math.max(0, legalMinimum - Math.max(0, usedFromEntitlement - extraDays));
+    const carryForward = legalMinimumLeft + (rules.extraDaysCarryOver ? extraDaysLeft : 0) + (carryoverExpiresOn ? 0 : carryoverLeft);
+
+    const expired = hasExpired ? carryoverLeft : 0;
+    return {
+        year,
+        entitlement,
+        legalMinimum,
+        extraDays,
+        carryover,
+        carryoverExpiresOn,
+        expiring: carryoverExpiresOn && !hasExpired ? carryoverLeft : 0,
+        expired,
+        taken,
+        planned: approvedInYear - taken,
+        requested: countVacationDays(employee, pending, yearStart, yearEnd, holidaysByYear),
+        remaining: entitlement + carryover - expired - approvedInYear,
+        carryForward,
+    };
+};
+
+/**
+ * Vacation statement of the employee for the year as of the reference date. The carryover is calculated year
+ * by year from the first working year on; a corrected value in `vacationCarryover` takes precedence.
+ */
+export const getVacationStatement = (
+    employee: Employee,
+    year: number,
+    absenceRequests: AbsenceRequest[],
+    holidaysByYear: HolidaysByYear,
+    companySettings?: CompanySettings,
+    referenceDate: Date = new Date(),
+): VacationStatement => {
+    const rules = getVacationRules(companySettings);
+    const employeeRequests = absenceRequests.filter(r => r.employeeId === employee.id && r.type === AbsenceType.Vacation);
+    const firstWorkYear = new Date(`${employee.firstWorkDay}T00:00:00`).getFullYear();
+
+    let carryover = 0;
+    for (let y = firstWorkYear; y < year; y++) {
+        const calculated = buildStatement(employee, y, carryover, employeeRequests, holidaysByYear, rules, `${y + 1}-12-31`).carryForward;
+        carryover = employee.vacationCarryover?.[y] ?? calculated;
+    }
+    const { carryForward, ...statement } = buildStatement(employee, year, carryover, employeeRequests, holidaysByYear, rules, toDateKey(referenceDate));
+    return statement;
+};
+
+export const formatVacationDays = (days: number): string =>
+    `${days.toLocaleString('de-DE')} ${days === 1 ? 'Tag' : 'Tage'}`;
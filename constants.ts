@@ -1,4 +1,4 @@
-import type { Customer, Activity, UserAccount, Employee, Holiday } from './types';
+import type { Customer, Activity, UserAccount, Employee, Holiday, CompanySettings } from './types';
 import { EmploymentType, TargetHoursModel, type WeeklySchedule } from './types';
 
 export const INITIAL_CUSTOMERS: Customer[] = [
@@ -20,6 +20,24 @@ export const INITIAL_USER_ACCOUNT: UserAccount = {
     vacationDaysLeft: 28,
 };
 
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+    companyName: '',
+    street: '',
+    houseNumber: '',
+    postalCode: '',
+    city: '',
+    email: '',
+    editLockRule: 'currentMonth',
+    employeeCanExport: true,
+    allowHalfDayVacations: true,
+    customerLabel: 'Zeitkategorie 1',
+    activityLabel: 'Zeitkategorie 2',
+    adminTimeFormat: 'hoursMinutes',
+    employeeTimeFormat: 'hoursMinutes',
+    shiftPlannerStartHour: 0,
+    shiftPlannerEndHour: 24,
+};
+
 export const INITIAL_EMPLOYEES: Employee[] = [
     {
         id: 0,
@@ -27,7 +45,6 @@ export const INITIAL_EMPLOYEES: Employee[] = [
         lastName: 'User',
         dateOfBirth: '1980-01-01',
         username: 'admin',
-        password: 'admin123',
         isActive: true,
         firstWorkDay: '2025-07-01',
         lastModified: new Date().toISOString(),
@@ -66,7 +83,6 @@ export const INITIAL_EMPLOYEES: Employee[] = [
         lastName: 'Demo',
         dateOfBirth: '1990-01-15',
         username: 'jdemo',
-        password: 'password2025',
         isActive: true,
         firstWorkDay: '2025-01-01',
         lastModified: new Date().toISOString(),
@@ -95,7 +111,6 @@ export const INITIAL_EMPLOYEES: Employee[] = [
         lastName: 'Teilzeit',
         dateOfBirth: '1995-05-20',
         username: 'tteilzeit',
-        password: 'password2026',
         isActive: true,
         firstWorkDay: '2026-01-01',
         lastModified: new Date().toISOString(),
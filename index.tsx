@@ -14,3 +14,17 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Caches the app so that it also starts without a connection. The scripts of this first visit were
+// loaded before the service worker existed, so they are handed to it to be cached right away.
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        const loadedUrls = performance.getEntriesByType('resource').map(entry => entry.name);
+        registration.active?.postMessage({ type: 'cache-urls', urls: [location.href, ...loadedUrls] });
+      })
+      .catch(error => console.error('Service Worker konnte nicht registriert werden:', error));
+  });
+}
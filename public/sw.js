@@ -0,0 +1,67 @@
+// Service worker for offline use. Pages, scripts and CDN libraries are loaded from the network
+// first and answered from the cache when there is no connection. API calls are never cached;
+// changes made offline are queued by the app itself (services/offlineQueue.ts).
+// The worker only sees requests once it controls the page, so the page sends the URLs it loaded
+// before that (the bundle with its hashed file name and the CDN modules) to be cached as well.
+
+const CACHE_NAME = 'timepro-v1';
+const APP_SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon-192.png', '/icon-512.png'];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(APP_SHELL)));
+    self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+const isApiRequest = (url) => url.pathname.includes('/api/');
+
+// Classic CDN scripts may not allow CORS; they are cached as opaque responses like in the fetch handler.
+const fetchForCache = (url) =>
+    fetch(url).catch(() => fetch(url, { mode: 'no-cors' }));
+
+self.addEventListener('message', (event) => {
+    if (event.data?.type !== 'cache-urls') return;
+    const urls = event.data.urls.filter(href => {
+        const url = new URL(href);
+        return url.protocol.startsWith('http') && !isApiRequest(url);
+    });
+    event.waitUntil(
+        caches.open(CACHE_NAME).then(cache => Promise.all(urls.map(url =>
+            fetchForCache(url)
+                .then(response => (response.ok || response.type === 'opaque') ? cache.put(url, response) : undefined)
+                .catch(() => undefined)
+        )))
+    );
+});
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || !url.protocol.startsWith('http') || isApiRequest(url)) return;
+
+    event.respondWith(
+        fetch(request)
+            .then(response => {
+                // Opaque responses of CDN scripts loaded without CORS are cached as well.
+                if (response.ok || response.type === 'opaque') {
+                    const copy = response.clone();
+                    caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+                }
+                return response;
+            })
+            .catch(async () => {
+                const cached = await caches.match(request);
+                if (cached) return cached;
+                // Navigations to any route fall back to the app shell.
+                if (request.mode === 'navigate') return caches.match('/index.html');
+                return Response.error();
+            })
+    );
+});
@@ -0,0 +1,182 @@
+// Minimal mock backend for TimePro that speaks the same JSON contract as services/httpApiClient.ts.
+//
+// Usage:
+//   npm run mock-server                          -> in-memory, port 3001
+//   npm run mock-server -- --data ./mock-data.json --port 4000 --mail-dir ./mail-outbox
+//
+// With --data the whole dataset is written to the given JSON file after every change.
+// Mails sent via POST /api/mail are printed to the console, with --mail-dir also saved there as .eml files.
+
+import http from 'node:http';
+import fs from 'node:fs';
+
+const COLLECTION_PATHS = {
+    'time-entries': 'timeEntries',
+    'absence-requests': 'absenceRequests',
+    'shifts': 'shifts',
+    'employees': 'employees',
+    'customers': 'customers',
+    'activities': 'activities',
+    'time-balance-adjustments': 'timeBalanceAdjustments',
+    'month-closings': 'monthClosings',
+    'audit-log': 'auditLog',
+    'credentials': 'credentials',
+    'password-reset-tokens': 'passwordResetTokens',
+    'open-punches': 'openPunches',
+    'nfc-tags': 'nfcTags',
+    'kiosk-pins': 'kioskPins',
+    'teams': 'teams',
+};
+
+// Collections whose records can only be appended, never changed or deleted.
+const APPEND_ONLY_COLLECTIONS = new Set(['auditLog']);
+
+const getArg = (name) => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const port = Number(getArg('port') || process.env.PORT || 3001);
+const dataFile = getArg('data');
+const mailDir = getArg('mail-dir');
+
+const createEmptyData = () => ({
+    ...Object.fromEntries(Object.values(COLLECTION_PATHS).map(name => [name, []])),
+    companySettings: null,
+});
+
+const loadData = () => {
+    if (dataFile && fs.existsSync(dataFile)) {
+        return { ...createEmptyData(), ...JSON.parse(fs.readFileSync(dataFile, 'utf8')) };
+    }
+    return createEmptyData();
+};
+
+let data = loadData();
+
+const saveData = () => {
+    if (dataFile) {
+        fs.writeFileSync(dataFile, JSON.stringify(data, null, 2));
+    }
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const deliverMail = (mail) => {
+    console.log(`\n--- E-Mail an ${mail.to} ---\nBetreff: ${mail.subject}\n\n${mail.text}\n---`);
+    if (!mailDir) return;
+    fs.mkdirSync(mailDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${mail.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+    const headers = `To: ${mail.to}\r\nSubject: ${mail.subject}\r\nDate: ${new Date().toUTCString()}\r\nContent-Type: text/plain; charset=utf-8\r\n\r\n`;
+    fs.writeFileSync(`${mailDir}/${fileName}`, headers + mail.text.replace(/\n/g, '\r\n'));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+        try {
+            resolve(raw ? JSON.parse(raw) : undefined);
+        } catch (error) {
+            reject(error);
+        }
+    });
+    req.on('error', reject);
+});
+
+// IDs are numbers for some entities and strings for others; compare them as strings.
+const findIndex = (items, id) => items.findIndex(item => String(item.id) === id);
+
+const handleCollection = async (req, res, collection, id, action) => {
+    const items = data[collection];
+
+    if (!id) {
+        if (req.method === 'GET') return send(res, 200, items);
+        if (req.method === 'POST') {
+            const item = await readBody(req);
+            if (!item || item.id === undefined) return send(res, 400, { error: 'Feld "id" fehlt.' });
+            if (findIndex(items, String(item.id)) !== -1) return send(res, 409, { error: `ID ${item.id} existiert bereits.` });
+            items.push(item);
+            saveData();
+            return send(res, 201, item);
+        }
+        return send(res, 405, { error: 'Methode nicht erlaubt.' });
+    }
+
+    const index = findIndex(items, id);
+    if (index === -1) return send(res, 404, { error: `ID ${id} nicht gefunden.` });
+
+    if (action === 'status' && collection === 'absenceRequests' && req.method === 'PATCH') {
+        const { status, adminComment, approvalHistory } = await readBody(req) || {};
+        items[index] = { ...items[index], status, adminComment, ...(approvalHistory ? { approvalHistory } : {}) };
+        saveData();
+        return send(res, 200, items[index]);
+    }
+    if (action) return send(res, 404, { error: 'Unbekannte Aktion.' });
+    if (APPEND_ONLY_COLLECTIONS.has(collection) && req.method !== 'GET') {
+        return send(res, 405, { error: 'Einträge dieser Ressource können nicht geändert oder gelöscht werden.' });
+    }
+
+    if (req.method === 'GET') return send(res, 200, items[index]);
+    if (req.method === 'PUT') {
+        const item = await readBody(req);
+        items[index] = { ...item, id: items[index].id };
+        saveData();
+        return send(res, 200, items[index]);
+    }
+    if (req.method === 'DELETE') {
+        items.splice(index, 1);
+        saveData();
+        return send(res, 204);
+    }
+    return send(res, 405, { error: 'Methode nicht erlaubt.' });
+};
+
+const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const [prefix, resource, id, action] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    if (prefix !== 'api') return send(res, 404, { error: 'Nicht gefunden.' });
+
+    try {
+        if (resource === 'company-settings') {
+            if (req.method === 'GET') return send(res, 200, data.companySettings);
+            if (req.method === 'PUT') {
+                data.companySettings = await readBody(req);
+                saveData();
+                return send(res, 200, data.companySettings);
+            }
+            return send(res, 405, { error: 'Methode nicht erlaubt.' });
+        }
+        if (resource === 'mail' && req.method === 'POST') {
+            const mail = await readBody(req);
+            if (!mail || !mail.to || !mail.subject) return send(res, 400, { error: 'Felder "to" und "subject" sind erforderlich.' });
+            deliverMail(mail);
+            return send(res, 204);
+        }
+        if (resource === 'data' && req.method === 'PUT') {
+            data = { ...createEmptyData(), ...await readBody(req) };
+            saveData();
+            return send(res, 204);
+        }
+        const collection = COLLECTION_PATHS[resource];
+        if (!collection) return send(res, 404, { error: `Unbekannte Ressource "${resource}".` });
+        return await handleCollection(req, res, collection, id, action);
+    } catch (error) {
+        console.error(error);
+        return send(res, 400, { error: 'Ungültige Anfrage.' });
+    }
+});
+
+server.listen(port, () => {
+    console.log(`TimePro Mock-Server läuft auf http://localhost:${port}/api${dataFile ? ` (Datei: ${dataFile})` : ' (im Arbeitsspeicher)'}`);
+});
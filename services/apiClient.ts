@@ -0,0 +1,105 @@
+import type { TimeEntry, AbsenceRequest, AbsenceApprovalEvent, Shift, Employee, Customer, Activity, TimeBalanceAdjustment, CompanySettings, MonthClosing, AuditLogEntry, PasswordCredential, PasswordResetToken, OpenPunch, NfcTag, KioskPin, Team } from '../types';
+import type { EntityCollections, CollectionName } from './repository';
+import { COLLECTION_NAMES } from './repository';
+import { createHttpApiClient } from './httpApiClient';
+import type { OutgoingMail } from './mail';
+
+/**
+ * CRUD operations for one entity type. IDs are generated by the client,
+ * so `create` receives the complete entity and the server stores it as-is.
+ */
+export interface EntityApi<T, TId> {
+    list: () => Promise<T[]>;
+    create: (item: T) => Promise<T>;
+    update: (item: T) => Promise<T>;
+    remove: (id: TId) => Promise<void>;
+}
+
+export interface AbsenceRequestApi extends EntityApi<AbsenceRequest, number> {
+    updateStatus: (id: number, status: 'approved' | 'rejected', comment?: string, approvalHistory?: AbsenceApprovalEvent[]) => Promise<AbsenceRequest>;
+}
+
+/**
+ * The change log is append-only: records can be listed and created, never updated or removed.
+ */
+export type AuditLogApi = Pick<EntityApi<AuditLogEntry, number>, 'list' | 'create'>;
+
+export interface CompanySettingsApi {
+    get: () => Promise<CompanySettings | null>;
+    update: (settings: CompanySettings) => Promise<CompanySettings>;
+}
+
+export interface ApiSnapshot extends EntityCollections {
+    companySettings: CompanySettings | null;
+}
+
+export interface ApiClient {
+    timeEntries: EntityApi<TimeEntry, number>;
+    absenceRequests: AbsenceRequestApi;
+    shifts: EntityApi<Shift, string>;
+    employees: EntityApi<Employee, number>;
+    customers: EntityApi<Customer, string>;
+    activities: EntityApi<Activity, string>;
+    timeBalanceAdjustments: EntityApi<TimeBalanceAdjustment, number>;
+    monthClosings: EntityApi<MonthClosing, number>;
+    auditLog: AuditLogApi;
+    credentials: EntityApi<PasswordCredential, number>;
+    passwordResetTokens: EntityApi<PasswordResetToken, number>;
+    openPunches: EntityApi<OpenPunch, number>;
+    nfcTags: EntityApi<NfcTag, number>;
+    kioskPins: EntityApi<KioskPin, number>;
+    teams: EntityApi<Team, number>;
+    companySettings: CompanySettingsApi;
+    /** Hands an e-mail to the server for delivery. */
+    sendMail: (mail: OutgoingMail) => Promise<void>;
+    /** Replaces the complete dataset on the server, e.g. for seeding demo data. */
+    replaceAll: (snapshot: ApiSnapshot) => Promise<void>;
+}
+
+/**
+ * URL segments of the JSON contract. Must match `server/mockServer.js`.
+ */
+export const API_COLLECTION_PATHS: Record<CollectionName, string> = {
+    timeEntries: 'time-entries',
+    absenceRequests: 'absence-requests',
+    shifts: 'shifts',
+    employees: 'employees',
+    customers: 'customers',
+    activities: 'activities',
+    timeBalanceAdjustments: 'time-balance-adjustments',
+    monthClosings: 'month-closings',
+    auditLog: 'audit-log',
+    credentials: 'credentials',
+    passwordResetTokens: 'password-reset-tokens',
+    openPunches: 'open-punches',
+    nfcTags: 'nfc-tags',
+    kioskPins: 'kiosk-pins',
+    teams: 'teams',
+};
+
+/**
+ * Fetches every collection and the company settings in parallel.
+ */
+export const loadAllFromApi = async (client: ApiClient): Promise<ApiSnapshot> => {
+    const [collections, companySettings] = await Promise.all([
+        Promise.all(COLLECTION_NAMES.map(name => client[name].list())),
+        client.companySettings.get(),
+    ]);
+    const snapshot = { companySettings } as ApiSnapshot;
+    COLLECTION_NAMES.forEach((name, index) => {
+        (snapshot as unknown as Record<CollectionName, unknown[]>)[name] = collections[index];
+    });
+    return snapshot;
+};
+
+/**
+ * Returns an HTTP client if a backend URL is configured (TIMEPRO_API_URL in .env.local), otherwise null.
+ * Without a backend the app works purely on the local IndexedDB repository.
+ */
+export const createApiClient = (): ApiClient | null => {
+    const baseUrl = process.env.TIMEPRO_API_URL;
+    if (!baseUrl) {
+        return null;
+    }
+    return createHttpApiClient(baseUrl);
+};
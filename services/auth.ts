@@ -0,0 +1,242 @@
+import type { Employee, PasswordCredential } from '../types';
+
+const PBKDF2_ITERATIONS = 600_000;
+const HASH_LENGTH_BITS = 256;
+const SALT_LENGTH_BYTES = 16;
+const SESSION_TOKEN_BYTES = 32;
+const SESSION_STORAGE_KEY = 'timepro.session';
+const KIOSK_STORAGE_KEY = 'timepro.kiosk';
+
+export const MAX_FAILED_LOGINS = 5;
+export const LOGIN_LOCKOUT_MINUTES = 15;
+export const SESSION_DURATION_HOURS = 12;
+export const DEFAULT_IDLE_LOGOUT_MINUTES = 30;
+export const KIOSK_IDLE_LOGOUT_SECONDS = 30;
+export const KIOSK_PIN_PATTERN = /^\d{4,8}$/;
+
+/**
+ * The login of one browser. Only the token and timestamps are stored, never the password.
+ */
+export interface AuthSession {
+    token: string;
+    employeeId: number;
+    createdAt: string; // ISO
+    expiresAt: string; // ISO, absolute end regardless of activity
+    lastActivityAt: string; // ISO
+}
+
+/**
+ * Returned by a failed login attempt. `lockedUntil` is set while the account is locked.
+ */
+export interface LoginFailure {
+    message: string;
+    lockedUntil?: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const derivePasswordHash = async (password: string, salt: Uint8Array, iterations: number): Promise<string> => {
+    const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, keyMaterial, HASH_LENGTH_BITS);
+    return toBase64(new Uint8Array(bits));
+};
+
+// Compares without returning early, so the duration does not reveal how many characters matched.
+const constantTimeEquals = (a: string, b: string) => {
+    if (a.length !== b.length) return false;
+    let difference = 0;
+    for (let i = 0; i < a.length; i++) {
+        difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+    return difference === 0;
+};
+
+/**
+ * Hashes a new password with a fresh random salt (PBKDF2-SHA-256 via WebCrypto).
+ * Setting a password also lifts a login lockout.
+ */
+export const createPasswordCredential = async (employeeId: number, password: string): Promise<PasswordCredential> => {
+    const salt = randomBytes(SALT_LENGTH_BYTES);
+    return {
+        id: employeeId,
+        passwordHash: await derivePasswordHash(password, salt, PBKDF2_ITERATIONS),
+        salt: toBase64(salt),
+        iterations: PBKDF2_ITERATIONS,
+        updatedAt: new Date().toISOString(),
+        failedLoginAttempts: 0,
+    };
+};
+
+/**
+ * Checks a password against a stored credential, using the iteration count it was hashed with.
+ */
+export const verifyPassword = async (password: string, credential: PasswordCredential): Promise<boolean> => {
+    const hash = await derivePasswordHash(password, fromBase64(credential.salt), credential.iterations);
+    return constantTimeEquals(hash, credential.passwordHash);
+};
+
+const DUMMY_SALT = randomBytes(SALT_LENGTH_BYTES);
+
+/**
+ * Hashes the password like a real check when there is no credential to check it against, so that an
+ * unknown username takes as long to reject as a wrong password. Always fails.
+ */
+export const verifyPasswordWithoutCredential = async (password: string): Promise<false> => {
+    await derivePasswordHash(password, DUMMY_SALT, PBKDF2_ITERATIONS);
+    return false;
+};
+
+export const isCredentialLocked = (credential: PasswordCredential, now = new Date()) =>
+    !!credential.lockedUntil && new Date(credential.lockedUntil) > now;
+
+/**
+ * Counts a failed login. After MAX_FAILED_LOGINS failures in a row the account is locked
+ * for LOGIN_LOCKOUT_MINUTES and the counter starts again.
+ */
+export const registerFailedLogin = (credential: PasswordCredential, now = new Date()): PasswordCredential => {
+    const failedLoginAttempts = credential.failedLoginAttempts + 1;
+    if (failedLoginAttempts < MAX_FAILED_LOGINS) {
+        return { ...credential, failedLoginAttempts };
+    }
+    return {
+        ...credential,
+        failedLoginAttempts: 0,
+        lockedUntil: new Date(now.getTime() + LOGIN_LOCKOUT_MINUTES * 60_000).toISOString(),
+    };
+};
+
+export const registerSuccessfulLogin = (credential: PasswordCredential): PasswordCredential => {
+    const { lockedUntil, ...rest } = credential;
+    return { ...rest, failedLoginAttempts: 0 };
+};
+
+const readSession = (): AuthSession | null => {
+    try {
+        const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+        return stored ? JSON.parse(stored) as AuthSession : null;
+    } catch {
+        return null;
+    }
+};
+
+const writeSession = (session: AuthSession) => {
+    try {
+        localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+        console.error('Sitzung konnte nicht gespeichert werden:', error);
+    }
+};
+
+/**
+ * Starts a new session for the employee and stores it in this browser.
+ */
+export const startSession = (employeeId: number, now = new Date()): AuthSession => {
+    const session: AuthSession = {
+        token: Array.from(randomBytes(SESSION_TOKEN_BYTES), byte => byte.toString(16).padStart(2, '0')).join(''),
+        employeeId,
+        createdAt: now.toISOString(),
+        expiresAt: new Date(now.getTime() + SESSION_DURATION_HOURS * 3_600_000).toISOString(),
+        lastActivityAt: now.toISOString(),
+    };
+    writeSession(session);
+    return session;
+};
+
+/**
+ * Returns why a session is no longer valid, or null if it is.
+ * @param idleLogoutMinutes Minutes without activity after which the session ends; 0 disables the idle check.
+ */
+export const getSessionEndReason = (session: AuthSession, idleLogoutMinutes: number, now = new Date()): 'expired' | 'idle' | null => {
+    if (new Date(session.expiresAt) <= now) return 'expired';
+    if (idleLogoutMinutes > 0 && now.getTime() - new Date(session.lastActivityAt).getTime() >= idleLogoutMinutes * 60_000) return 'idle';
+    return null;
+};
+
+/**
+ * Returns the stored session if it is still valid. Invalid sessions are removed.
+ */
+export const restoreSession = (idleLogoutMinutes: number, now = new Date()): AuthSession | null => {
+    const session = readSession();
+    if (!session) return null;
+    if (getSessionEndReason(session, idleLogoutMinutes, now)) {
+        endSession();
+        return null;
+    }
+    return session;
+};
+
+/**
+ * Records user activity for the idle logout. Returns the updated session, or null if there is none.
+ */
+export const touchSession = (now = new Date()): AuthSession | null => {
+    const session = readSession();
+    if (!session) return null;
+    const updated = { ...session, lastActivityAt: now.toISOString() };
+    writeSession(updated);
+    return updated;
+};
+
+export const getCurrentSession = readSession;
+
+export const endSession = () => {
+    try {
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+    } catch {
+        // Storage not available: there is nothing to remove.
+    }
+};
+
+/**
+ * Whether this browser runs as shared kiosk. The flag is kept per device, so a reload stays in kiosk mode.
+ */
+export const isKioskDevice = (): boolean => {
+    try {
+        return localStorage.getItem(KIOSK_STORAGE_KEY) === 'true';
+    } catch {
+        return false;
+    }
+};
+
+export const setKioskDevice = (isKiosk: boolean) => {
+    try {
+        if (isKiosk) {
+            localStorage.setItem(KIOSK_STORAGE_KEY, 'true');
+        } else {
+            localStorage.removeItem(KIOSK_STORAGE_KEY);
+        }
+    } catch (error) {
+        console.error('Kiosk-Modus konnte nicht gespeichert werden:', error);
+    }
+};
+
+// Employees as stored before passwords were hashed.
+type LegacyEmployee = Employee & { password?: string };
+
+/**
+ * Data stored before passwords were hashed keeps plaintext passwords on the employee.
+ * Hashes them into credentials and strips them from the employees.
+ */
+export const migrateLegacyPasswords = async (
+    employees: Employee[],
+    credentials: PasswordCredential[],
+): Promise<{ employees: Employee[]; credentials: PasswordCredential[]; migratedEmployeeIds: number[] }> => {
+    const legacyEmployees = (employees as LegacyEmployee[]).filter(e => typeof e.password === 'string');
+    if (legacyEmployees.length === 0) {
+        return { employees, credentials, migratedEmployeeIds: [] };
+    }
+
+    const newCredentials = await Promise.all(legacyEmployees
+        // 'invite-pending' was a placeholder for invited employees, not a password anyone chose.
+        .filter(e => e.password && e.password !== 'invite-pending' && !credentials.some(c => c.id === e.id))
+        .map(e => createPasswordCredential(e.id, e.password!)));
+    const migratedEmployeeIds = legacyEmployees.map(e => e.id);
+
+    return {
+        employees: (employees as LegacyEmployee[]).map(({ password, ...employee }) => employee),
+        credentials: [...credentials, ...newCredentials],
+        migratedEmployeeIds,
+    };
+};
@@ -0,0 +1,205 @@
+import type { TimeEntry, AbsenceRequest, Shift, CompanySettings, PasswordCredential } from '../types';
+import { AbsenceType } from '../types';
+import { INITIAL_CUSTOMERS, INITIAL_ACTIVITIES, INITIAL_EMPLOYEES } from '../constants';
+import type { PersistedData } from './repository';
+
+export const DEMO_COMPANY_SETTINGS: CompanySettings = {
+    companyName: 'Musterfirma GmbH',
+    street: 'Hauptstraße',
+    houseNumber: '1',
+    postalCode: '10115',
+    city: 'Berlin',
+    email: 'admin@musterfirma.de',
+    editLockRule: 'currentMonth',
+    employeeCanExport: true,
+    allowHalfDayVacations: true,
+    customerLabel: 'Zeitkategorie 1',
+    activityLabel: 'Zeitkategorie 2',
+    adminTimeFormat: 'hoursMinutes',
+    employeeTimeFormat: 'hoursMinutes',
+    shiftPlannerStartHour: 0,
+    shiftPlannerEndHour: 24,
+};
+
+/**
+ * Precomputed PBKDF2 hashes of the demo passwords (admin / admin123, jdemo / password2025,
+ * tteilzeit / password2026), so that no plaintext password ships with the app.
+ */
+const DEMO_CREDENTIALS: PasswordCredential[] = [
+    { id: 0, salt: '4Lul7fQjAZk1Es1wZy0wOw==', passwordHash: 'u4WMheRSwbv1t0T8D48kU3tBhPL1NBMhOyVEYJVMOyk=', iterations: 600_000, updatedAt: '2026-01-01T00:00:00.000Z', failedLoginAttempts: 0 },
+    { id: 1, salt: '0Q38EkA/1gBf9xqeeesWuw==', passwordHash: 'w4dL8uUPOdZxfGsPIgxXOXYDTg1BAtuDkNrmuRz7Bs4=', iterations: 600_000, updatedAt: '2026-01-01T00:00:00.000Z', failedLoginAttempts: 0 },
+    { id: 2, salt: 'UC5595lxbZ4UBSI5/7Kbhw==', passwordHash: 'jj880tbQvjVRUa94n+WH2DATT5UVcKZeJMZsGTuWZik=', iterations: 600_000, updatedAt: '2026-01-01T00:00:00.000Z', failedLoginAttempts: 0 },
+];
+
+const generateDemoData = () => {
+    const timeEntries: TimeEntry[] = [];
+    const absenceRequests: AbsenceRequest[] = [];
+    const shifts: Shift[] = [];
+    let entryIdCounter = 1000;
+
+    // --- Jan Demo 2025 ---
+    const janEmployeeId = 1;
+    const janYear = 2025;
+    
+    // Shifts for Jan (Current Week + Next Week)
+    const today = new Date();
+    const startOfWeek = new Date(today);
+    startOfWeek.setDate(today.getDate() - today.getDay() + 1); // Monday
+    
+    for (let i = 0; i < 14; i++) {
+        const d = new Date(startOfWeek);
+        d.setDate(d.getDate() + i);
+        const day = d.getDay();
+        
+        if (day >= 1 && day <= 5) { // Mon-Fri
+            const start = new Date(d);
+            start.setHours(8, 0, 0, 0);
+            const end = new Date(d);
+            end.setHours(16, 30, 0, 0);
+            
+            shifts.push({
+                id: `shift-${entryIdCounter++}`,
+                employeeId: janEmployeeId,
+                start: start.toISOString(),
+                end: end.toISOString(),
+                label: 'Frühschicht',
+                color: '#3b82f6' // Blue
+            });
+        }
+    }
+
+    absenceRequests.push({
+        id: entryIdCounter++,
+        employeeId: janEmployeeId,
+        type: AbsenceType.Vacation,
+        status: 'approved',
+        startDate: new Date(janYear, 6, 1).toLocaleDateString('sv-SE'),
+        endDate: new Date(janYear, 7, 4).toLocaleDateString('sv-SE'),
+    });
+    absenceRequests.push({
+        id: entryIdCounter++,
+        employeeId: janEmployeeId,
+        type: AbsenceType.TimeOff,
+        status: 'approved',
+        startDate: '2025-02-10', // Monday
+        endDate: '2025-02-11',   // Tuesday
+    });
+
+    let currentDateJan = new Date(janYear, 0, 1);
+    while(currentDateJan <= new Date(janYear, 11, 31)) {
+        const dayOfWeek = currentDateJan.getDay();
+        const dateStr = currentDateJan.toLocaleDateString('sv-SE');
+        const hasAbsence = absenceRequests.some(
+            req => req.employeeId === janEmployeeId && req.status !== 'rejected' && dateStr >= req.startDate && dateStr <= req.endDate
+        );
+
+        if (dayOfWeek !== 0 && dayOfWeek !== 6 && !hasAbsence) {
+            const startTime = new Date(currentDateJan);
+            startTime.setHours(8, Math.floor(Math.random() * 21) - 10, 0, 0);
+            const endTime = new Date(currentDateJan);
+            endTime.setHours(17, Math.floor(Math.random() * 41) - 20, 0, 0);
+            timeEntries.push({
+                id: entryIdCounter++, employeeId: janEmployeeId, start: startTime.toISOString(), end: endTime.toISOString(),
+                breakDurationMinutes: 60, customerId: INITIAL_CUSTOMERS[0].id, activityId: INITIAL_ACTIVITIES[0].id,
+                type: 'manual',
+            });
+        }
+        currentDateJan.setDate(currentDateJan.getDate() + 1);
+    }
+    
+    // --- Tina Teilzeit 2026 ---
+    const tinaEmployeeId = 2;
+    const tinaYear = 2026;
+    absenceRequests.push({
+        id: entryIdCounter++,
+        employeeId: tinaEmployeeId,
+        type: AbsenceType.TimeOff,
+        status: 'approved',
+        startDate: '2026-01-12', // This is a Monday
+        endDate: '2026-01-12',
+    });
+
+    let currentDateTina = new Date(tinaYear, 0, 1);
+    while (currentDateTina <= new Date(tinaYear, 11, 31)) {
+        const dayOfWeek = currentDateTina.getDay(); // 0=Sun, 1=Mon, 2=Tue, 3=Wed
+        const dateStr = currentDateTina.toLocaleDateString('sv-SE');
+        const hasAbsence = absenceRequests.some(
+            req => req.employeeId === tinaEmployeeId && req.status !== 'rejected' && dateStr >= req.startDate && dateStr <= req.endDate
+        );
+
+        let dailyHours = 0;
+        if (dayOfWeek === 1) dailyHours = 8; // Monday
+        if (dayOfWeek === 2) dailyHours = 8; // Tuesday
+        if (dayOfWeek === 3) dailyHours = 4; // Wednesday
+        
+        if (dailyHours > 0 && !hasAbsence) {
+             const startTime = new Date(currentDateTina);
+             startTime.setHours(8, 30, 0, 0); 
+             const endTime = new Date(startTime.getTime() + (dailyHours * 3600 * 1000));
+             timeEntries.push({
+                 id: entryIdCounter++, employeeId: tinaEmployeeId, start: startTime.toISOString(), end: endTime.toISOString(),
+                 breakDurationMinutes: 0, customerId: 'c4', activityId: 'a4',
+                 type: 'manual',
+             });
+        }
+        currentDateTina.setDate(currentDateTina.getDate() + 1);
+    }
+
+    // --- Admin User Demo 2025 ---
+    const adminEmployeeId = 0;
+    const adminYear = 2025;
+    const adminStartDate = new Date(adminYear, 6, 1); // July 1st
+    const adminEndDate = new Date(adminYear, 11, 31); // End of 2025
+
+    let currentDateAdmin = new Date(adminStartDate);
+    while (currentDateAdmin <= adminEndDate) {
+        const dayOfWeek = currentDateAdmin.getDay();
+        if (dayOfWeek !== 0 && dayOfWeek !== 6) { // Mon-Fri
+            const startTime = new Date(currentDateAdmin);
+            startTime.setHours(9, Math.floor(Math.random() * 15) - 5, 0, 0); // around 9 AM
+            const endTime = new Date(currentDateAdmin);
+            endTime.setHours(17, 30 + Math.floor(Math.random() * 31) - 15, 0, 0); // around 5:30 PM
+            timeEntries.push({
+                id: entryIdCounter++,
+                employeeId: adminEmployeeId,
+                start: startTime.toISOString(),
+                end: endTime.toISOString(),
+                breakDurationMinutes: 45,
+                customerId: INITIAL_CUSTOMERS[3].id, // Interne Verwaltung
+                activityId: INITIAL_ACTIVITIES[3].id, // Büroarbeit
+                type: 'manual',
+            });
+        }
+        currentDateAdmin.setDate(currentDateAdmin.getDate() + 1);
+    }
+
+    return { timeEntries, absenceRequests, shifts };
+};
+
+/**
+ * Builds a complete demo company (employees, customers, activities, entries, absences and shifts).
+ * This is only used when the user explicitly opts in on the registration screen.
+ */
+export const createDemoData = (): PersistedData => {
+    const { timeEntries, absenceRequests, shifts } = generateDemoData();
+    return {
+        timeEntries,
+        absenceRequests,
+        shifts,
+        employees: INITIAL_EMPLOYEES,
+        customers: INITIAL_CUSTOMERS,
+        activities: INITIAL_ACTIVITIES,
+        timeBalanceAdjustments: [],
+        monthClosings: [],
+        auditLog: [],
+        credentials: DEMO_CREDENTIALS,
+        passwordResetTokens: [],
+        openPunches: [],
+        nfcTags: [],
+        kioskPins: [],
+        teams: [],
+        companySettings: DEMO_COMPANY_SETTINGS,
+        preferences: null,
+        outbox: [],
+    };
+};
@@ -0,0 +1,77 @@
+import type { AbsenceRequest, AuditLogEntry, CompanySettings } from '../types';
+import type { ApiClient, EntityApi, ApiSnapshot } from './apiClient';
+import { API_COLLECTION_PATHS } from './apiClient';
+
+const request = async <T>(baseUrl: string, path: string, method = 'GET', body?: unknown): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+        const message = await response.text().catch(() => '');
+        throw new Error(`API-Fehler ${response.status} bei ${method} ${path}${message ? `: ${message}` : ''}`);
+    }
+    if (response.status === 204) {
+        return undefined as T;
+    }
+    return response.json() as Promise<T>;
+};
+
+// Attached photos are File objects and cannot be sent as JSON.
+const toAbsenceRequestPayload = (absenceRequest: AbsenceRequest) => {
+    const { photo, ...payload } = absenceRequest;
+    return payload;
+};
+
+const createEntityApi = <T extends { id: TId }, TId extends string | number>(
+    baseUrl: string,
+    path: string,
+    toPayload: (item: T) => unknown = item => item,
+): EntityApi<T, TId> => ({
+    list: () => request<T[]>(baseUrl, `/${path}`),
+    create: (item) => request<T>(baseUrl, `/${path}`, 'POST', toPayload(item)),
+    update: (item) => request<T>(baseUrl, `/${path}/${encodeURIComponent(item.id)}`, 'PUT', toPayload(item)),
+    remove: (id) => request<void>(baseUrl, `/${path}/${encodeURIComponent(id)}`, 'DELETE'),
+});
+
+/**
+ * ApiClient that talks JSON over HTTP, e.g. to `npm run mock-server`.
+ * @param baseUrl The API root including the `/api` prefix, without trailing slash.
+ */
+export const createHttpApiClient = (baseUrl: string): ApiClient => {
+    const root = baseUrl.replace(/\/+$/, '');
+    const absenceRequestsPath = API_COLLECTION_PATHS.absenceRequests;
+    const { list: listAuditLog, create: createAuditLogEntry } = createEntityApi<AuditLogEntry, number>(root, API_COLLECTION_PATHS.auditLog);
+
+    return {
+        timeEntries: createEntityApi(root, API_COLLECTION_PATHS.timeEntries),
+        absenceRequests: {
+            ...createEntityApi<AbsenceRequest, number>(root, absenceRequestsPath, toAbsenceRequestPayload),
+            updateStatus: (id, status, comment, approvalHistory) =>
+                request<AbsenceRequest>(root, `/${absenceRequestsPath}/${id}/status`, 'PATCH', { status, adminComment: comment, approvalHistory }),
+        },
+        shifts: createEntityApi(root, API_COLLECTION_PATHS.shifts),
+        employees: createEntityApi(root, API_COLLECTION_PATHS.employees),
+        customers: createEntityApi(root, API_COLLECTION_PATHS.customers),
+        activities: createEntityApi(root, API_COLLECTION_PATHS.activities),
+        timeBalanceAdjustments: createEntityApi(root, API_COLLECTION_PATHS.timeBalanceAdjustments),
+        monthClosings: createEntityApi(root, API_COLLECTION_PATHS.monthClosings),
+        auditLog: { list: listAuditLog, create: createAuditLogEntry },
+        credentials: createEntityApi(root, API_COLLECTION_PATHS.credentials),
+        passwordResetTokens: createEntityApi(root, API_COLLECTION_PATHS.passwordResetTokens),
+        openPunches: createEntityApi(root, API_COLLECTION_PATHS.openPunches),
+        nfcTags: createEntityApi(root, API_COLLECTION_PATHS.nfcTags),
+        kioskPins: createEntityApi(root, API_COLLECTION_PATHS.kioskPins),
+        teams: createEntityApi(root, API_COLLECTION_PATHS.teams),
+        companySettings: {
+            get: () => request<CompanySettings | null>(root, '/company-settings'),
+            update: (settings) => request<CompanySettings>(root, '/company-settings', 'PUT', settings),
+        },
+        sendMail: (mail) => request<void>(root, '/mail', 'POST', mail),
+        replaceAll: (snapshot: ApiSnapshot) => request<void>(root, '/data', 'PUT', {
+            ...snapshot,
+            absenceRequests: snapshot.absenceRequests.map(toAbsenceRequestPayload),
+        }),
+    };
+};
@@ -0,0 +1,105 @@
+import type { CompanySettings } from '../types';
+import type { Repository, PersistedData, AppPreferences, CollectionName } from './repository';
+import { COLLECTION_NAMES, createEmptyData } from './repository';
+import type { PendingMutation } from './offlineQueue';
+import { DB_NAME, SCHEMA_VERSION, SETTINGS_STORE, COMPANY_SETTINGS_KEY, PREFERENCES_KEY, OUTBOX_STORE, runMigrations } from './migrations';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+        const transaction = request.transaction;
+        if (!transaction) return;
+        runMigrations(request.result, transaction, event.oldVersion);
+    };
+    request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema: release our connection so the upgrade is not blocked.
+        db.onversionchange = () => db.close();
+        resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('Datenbank-Upgrade wird von einem anderen Tab blockiert.');
+});
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+export const createIndexedDbRepository = (): Repository => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const getDb = () => {
+        if (!dbPromise) {
+            dbPromise = openDatabase();
+        }
+        return dbPromise;
+    };
+
+    const putSetting = async (key: string, value: CompanySettings | AppPreferences) => {
+        const db = await getDb();
+        const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+        transaction.objectStore(SETTINGS_STORE).put(value, key);
+        await completeTransaction(transaction);
+    };
+
+    return {
+        load: async () => {
+            const db = await getDb();
+            const transaction = db.transaction([...COLLECTION_NAMES, SETTINGS_STORE, OUTBOX_STORE], 'readonly');
+            const data = createEmptyData();
+
+            // All requests are issued before the first await, otherwise the transaction auto-commits.
+            const collectionRequests = COLLECTION_NAMES.map(name => promisifyRequest(transaction.objectStore(name).getAll()));
+            const settingsStore = transaction.objectStore(SETTINGS_STORE);
+            const companySettingsRequest = promisifyRequest<CompanySettings | undefined>(settingsStore.get(COMPANY_SETTINGS_KEY));
+            const preferencesRequest = promisifyRequest<AppPreferences | undefined>(settingsStore.get(PREFERENCES_KEY));
+            const outboxRequest = promisifyRequest<PendingMutation[]>(transaction.objectStore(OUTBOX_STORE).getAll());
+
+            const collections = await Promise.all(collectionRequests);
+            COLLECTION_NAMES.forEach((name, index) => {
+                (data as Record<CollectionName, unknown[]>)[name] = collections[index];
+            });
+            data.companySettings = (await companySettingsRequest) ?? null;
+            data.preferences = (await preferencesRequest) ?? null;
+            // Keys are ascending ids, so the queue comes back in the order the changes were made.
+            data.outbox = await outboxRequest;
+            return data as PersistedData;
+        },
+        saveCollection: async (name, items) => {
+            const db = await getDb();
+            const transaction = db.transaction(name, 'readwrite');
+            const store = transaction.objectStore(name);
+            store.clear();
+            for (const item of items) {
+                store.put(item);
+            }
+            await completeTransaction(transaction);
+        },
+        saveCompanySettings: (settings) => putSetting(COMPANY_SETTINGS_KEY, settings),
+        savePreferences: (preferences) => putSetting(PREFERENCES_KEY, preferences),
+        saveOutbox: async (mutations) => {
+            const db = await getDb();
+            const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+            const store = transaction.objectStore(OUTBOX_STORE);
+            store.clear();
+            for (const mutation of mutations) {
+                store.put(mutation);
+            }
+            await completeTransaction(transaction);
+        },
+        clear: async () => {
+            const db = await getDb();
+            const transaction = db.transaction([...COLLECTION_NAMES, SETTINGS_STORE, OUTBOX_STORE], 'readwrite');
+            for (const name of [...COLLECTION_NAMES, SETTINGS_STORE, OUTBOX_STORE]) {
+                transaction.objectStore(name).clear();
+            }
+            await completeTransaction(transaction);
+        },
+    };
+};
@@ -0,0 +1,41 @@
+import type { ApiClient } from './apiClient';
+
+/**
+ * A plain-text e-mail sent by the app (password resets, invitations).
+ */
+export interface OutgoingMail {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+/**
+ * Delivers outgoing mail. Swap the transport to change how mail leaves the app;
+ * callers only depend on this interface.
+ */
+export interface MailTransport {
+    send: (mail: OutgoingMail) => Promise<void>;
+}
+
+/**
+ * Development transport without a backend: prints the mail to the browser console,
+ * so that links in it can be opened from there.
+ */
+export const createConsoleMailTransport = (): MailTransport => ({
+    send: async (mail) => {
+        console.info(`[E-Mail] An: ${mail.to}\nBetreff: ${mail.subject}\n\n${mail.text}`);
+    },
+});
+
+/**
+ * Hands the mail to the backend (`POST /api/mail`). The mock server writes it to a file or its console.
+ */
+export const createApiMailTransport = (client: ApiClient): MailTransport => ({
+    send: (mail) => client.sendMail(mail),
+});
+
+/**
+ * Returns the backend transport if a backend is configured, otherwise the console transport.
+ */
+export const createMailTransport = (client: ApiClient | null): MailTransport =>
+    client ? createApiMailTransport(client) : createConsoleMailTransport();
@@ -0,0 +1,166 @@
+export const DB_NAME = 'timepro';
+export const SETTINGS_STORE = 'settings';
+export const COMPANY_SETTINGS_KEY = 'company';
+export const PREFERENCES_KEY = 'preferences';
+export const OUTBOX_STORE = 'outbox';
+
+// Shape of time entries and open punches before v8 stored punch metadata.
+interface LegacyPunchRecord {
+    employeeId: number;
+    start: string;
+    end?: string;
+    type?: 'stopwatch' | 'manual';
+    autoClosed?: boolean;
+    startGpsLat?: number;
+    startGpsLng?: number;
+}
+
+export interface Migration {
+    version: number;
+    description: string;
+    migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * Rewrites every record of a store inside the running upgrade transaction.
+ * Returning `null` from the transform deletes the record.
+ */
+export const transformRecords = <T>(
+    transaction: IDBTransaction,
+    storeName: string,
+    transform: (record: T) => T | null,
+) => {
+    const request = transaction.objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const updated = transform(cursor.value as T);
+        if (updated === null) {
+            cursor.delete();
+        } else {
+            cursor.update(updated);
+        }
+        cursor.continue();
+    };
+};
+
+/**
+ * Ordered list of schema versions. Never edit a released migration; append a new one instead,
+ * so that existing browsers upgrade step by step from whatever version they have stored.
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Initial schema with one store per entity and a key-value settings store',
+        migrate: (db) => {
+            // Fixed list: stores added later are created by their own migration.
+            for (const name of ['timeEntries', 'absenceRequests', 'shifts', 'employees', 'customers', 'activities', 'timeBalanceAdjustments']) {
+                db.createObjectStore(name, { keyPath: 'id' });
+            }
+            db.createObjectStore(SETTINGS_STORE);
+        },
+    },
+    {
+        version: 2,
+        description: 'Store for month-end closings',
+        migrate: (db) => {
+            db.createObjectStore('monthClosings', { keyPath: 'id' });
+        },
+    },
+    {
+        version: 3,
+        description: 'Store for the change log (audit trail)',
+        migrate: (db) => {
+            db.createObjectStore('auditLog', { keyPath: 'id' });
+        },
+    },
+    {
+        version: 4,
+        description: 'Store for hashed login credentials',
+        migrate: (db) => {
+            // Plaintext passwords on employees are hashed by the app after loading, see migrateLegacyPasswords.
+            db.createObjectStore('credentials', { keyPath: 'id' });
+        },
+    },
+    {
+        version: 5,
+        description: 'Store for password reset and invitation tokens',
+        migrate: (db) => {
+            db.createObjectStore('passwordResetTokens', { keyPath: 'id' });
+        },
+    },
+    {
+        version: 6,
+        description: 'Store for running stopwatch sessions (open punches)',
+        migrate: (db) => {
+            db.createObjectStore('openPunches', { keyPath: 'id' });
+        },
+    },
+    {
+        version: 7,
+        description: 'Store for changes made offline that still have to be sent to the server',
+        migrate: (db) => {
+            db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        },
+    },
+    {
+        version: 8,
+        description: 'Clock-in and clock-out metadata on time entries and open punches',
+        migrate: (_db, transaction) => {
+            // Only stopwatch records can be attributed: they were always punched by the employee, with the
+            // stopwatch (NFC sessions were not told apart). Typed-in entries could also come from an admin.
+            const toClockIn = ({ startGpsLat, startGpsLng, ...record }: LegacyPunchRecord) => ({
+                ...record,
+                clockIn: { method: 'stopwatch', recordedAt: record.start, recordedBy: record.employeeId, gpsLat: startGpsLat, gpsLng: startGpsLng },
+            });
+            transformRecords<LegacyPunchRecord>(transaction, 'timeEntries', (entry) => {
+                if (entry.type !== 'stopwatch') {
+                    const { startGpsLat, startGpsLng, ...record } = entry;
+                    return record;
+                }
+                return {
+                    ...toClockIn(entry),
+                    clockOut: entry.autoClosed
+                        ? { method: 'system', recordedAt: entry.end, recordedBy: null }
+                        : { method: 'stopwatch', recordedAt: entry.end, recordedBy: entry.employeeId },
+                };
+            });
+            transformRecords<LegacyPunchRecord>(transaction, 'openPunches', toClockIn);
+        },
+    },
+    {
+        version: 9,
+        description: 'Store for the NFC tag registry',
+        migrate: (db, transaction) => {
+            db.createObjectStore('nfcTags', { keyPath: 'id' });
+            // The free-text tag id on customers was never read by the app; tags are registered instead.
+            transformRecords<{ nfcTagId?: string }>(transaction, 'customers', ({ nfcTagId, ...customer }) => customer);
+        },
+    },
+    {
+        version: 10,
+        description: 'Store for the PINs of the kiosk mode',
+        migrate: (db) => {
+            db.createObjectStore('kioskPins', { keyPath: 'id' });
+        },
+    },
+    {
+        version: 11,
+        description: 'Store for teams and departments',
+        migrate: (db) => {
+            db.createObjectStore('teams', { keyPath: 'id' });
+        },
+    },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const runMigrations = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => {
+    MIGRATIONS
+        .filter(m => m.version > oldVersion)
+        .sort((a, b) => a.version - b.version)
+        .forEach(m => {
+            console.info(`Datenbank-Migration v${m.version}: ${m.description}`);
+            m.migrate(db, transaction);
+        });
+};
@@ -0,0 +1,201 @@
+import type { TimeEntry, AbsenceRequest, OpenPunch, AuditLogEntry } from '../types';
+import type { ApiClient } from './apiClient';
+import type { EntityCollections } from './repository';
+
+/**
+ * Collections whose changes are queued while the server cannot be reached.
+ */
+export type QueuedCollection = 'timeEntries' | 'absenceRequests' | 'openPunches' | 'auditLog';
+
+export type QueuedEntity = TimeEntry | AbsenceRequest | OpenPunch | AuditLogEntry;
+
+export interface SyncConflict {
+    detectedAt: string; // ISO String
+    message: string;
+    // Version currently stored on the server; null if the record was deleted there,
+    // undefined if the server rejected the change for another reason.
+    serverItem?: QueuedEntity | null;
+}
+
+/**
+ * A change that has been applied locally and still has to be sent to the server.
+ * Changes are replayed strictly in the order they were made.
+ */
+export interface PendingMutation {
+    id: number;
+    collection: QueuedCollection;
+    action: 'create' | 'update' | 'updateStatus' | 'remove';
+    entityId: number;
+    item?: QueuedEntity; // new version for create and update
+    // Version the change was made on. If the server holds a different version on replay,
+    // the record was changed elsewhere in the meantime.
+    base?: QueuedEntity | null;
+    queuedAt: string; // ISO String
+    // Set once the user decided to overwrite the server version.
+    force?: boolean;
+    // Made by the app itself rather than the user, e.g. an escalation. Another device may have made the
+    // same change already, so on a conflict the server version is kept instead of asking the user.
+    automatic?: boolean;
+    conflict?: SyncConflict;
+}
+
+export type NewPendingMutation = Omit<PendingMutation, 'id' | 'queuedAt'>;
+
+let lastMutationId = 0;
+// Several changes can be queued within the same millisecond (e.g. an entry and its change log record).
+const nextMutationId = () => {
+    lastMutationId = Math.max(Date.now(), lastMutationId + 1);
+    return lastMutationId;
+};
+
+export const createPendingMutation = (mutation: NewPendingMutation): PendingMutation => ({
+    ...mutation,
+    id: nextMutationId(),
+    queuedAt: new Date().toISOString(),
+});
+
+// Attached photos are not sent to the server and therefore not compared.
+const toComparable = (item: QueuedEntity) => {
+    const { photo, ...record } = item as QueuedEntity & { photo?: unknown };
+    return JSON.stringify(record, (_key, value) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+            ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+            : value);
+};
+
+const isSameEntity = (a: QueuedEntity, b: QueuedEntity) => toComparable(a) === toComparable(b);
+
+/**
+ * Applies the queued changes of one collection to its records as loaded from the server, so that
+ * changes which have not been sent yet do not disappear from the UI.
+ */
+export const applyPendingMutations = <K extends QueuedCollection>(collection: K, items: EntityCollections[K], mutations: PendingMutation[]): EntityCollections[K] =>
+    mutations
+        .filter(mutation => mutation.collection === collection)
+        .reduce((result: QueuedEntity[], mutation) => {
+            const others = result.filter(item => item.id !== mutation.entityId);
+            return mutation.action === 'remove' || !mutation.item ? others : [...others, mutation.item];
+        }, items) as EntityCollections[K];
+
+export const QUEUED_COLLECTIONS: QueuedCollection[] = ['timeEntries', 'absenceRequests', 'openPunches', 'auditLog'];
+
+/**
+ * Fetch fails with a TypeError if the network is down; HTTP errors are reported as plain Errors.
+ */
+export const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+const sendMutation = (client: ApiClient, mutation: PendingMutation): Promise<unknown> => {
+    const { collection, action, entityId, item } = mutation;
+    if (action === 'remove') {
+        if (collection === 'auditLog') return Promise.resolve();
+        return client[collection].remove(entityId);
+    }
+    if (!item) return Promise.resolve();
+    switch (collection) {
+        case 'timeEntries':
+            return action === 'create' ? client.timeEntries.create(item as TimeEntry) : client.timeEntries.update(item as TimeEntry);
+        case 'absenceRequests': {
+            const request = item as AbsenceRequest;
+            if (action === 'updateStatus' && request.status !== 'pending') {
+                return client.absenceRequests.updateStatus(request.id, request.status, request.adminComment, request.approvalHistory);
+            }
+            return action === 'create' ? client.absenceRequests.create(request) : client.absenceRequests.update(request);
+        }
+        case 'openPunches':
+            return action === 'create' ? client.openPunches.create(item as OpenPunch) : client.openPunches.update(item as OpenPunch);
+        case 'auditLog':
+            return client.auditLog.create(item as AuditLogEntry);
+    }
+};
+
+/**
+ * Compares the server version with the version the change was based on.
+ * @returns The conflict, or null if the change can be sent.
+ */
+const findConflict = (mutation: PendingMutation, serverItem: QueuedEntity | null): SyncConflict | null => {
+    if (mutation.force || mutation.collection === 'auditLog') return null;
+    const detectedAt = new Date().toISOString();
+    if (mutation.action === 'create') {
+        return serverItem && mutation.item && !isSameEntity(serverItem, mutation.item)
+            ? { detectedAt, message: 'Ein Datensatz mit derselben Kennung wurde auf einem anderen Gerät angelegt.', serverItem }
+            : null;
+    }
+    if (mutation.base === undefined) return null;
+    if (!serverItem) {
+        return mutation.action === 'remove'
+            ? null
+            : { detectedAt, message: 'Der Eintrag wurde in der Zwischenzeit auf einem anderen Gerät gelöscht.', serverItem: null };
+    }
+    if (mutation.base && !isSameEntity(serverItem, mutation.base)) {
+        return { detectedAt, message: 'Der Eintrag wurde in der Zwischenzeit auf einem anderen Gerät geändert.', serverItem };
+    }
+    return null;
+};
+
+// Server state that can be skipped: the change is already stored there.
+const isAlreadyApplied = (mutation: PendingMutation, serverItem: QueuedEntity | null) =>
+    mutation.action === 'remove'
+        ? !serverItem
+        : !!serverItem && !!mutation.item && isSameEntity(serverItem, mutation.item);
+
+export interface ReplayCallbacks {
+    /** Returns the first change that has not been sent yet; changes queued during the replay are included. */
+    getNext: () => PendingMutation | undefined;
+    onSent: (mutation: PendingMutation) => void;
+    onConflict: (mutation: PendingMutation, conflict: SyncConflict) => void;
+    /** Drops an automatic change in favour of the server version, which is null if the record was deleted there. */
+    onSuperseded: (mutation: PendingMutation, serverItem: QueuedEntity | null) => void;
+}
+
+/**
+ * Sends the queued changes to the server one after the other. The replay stops at the first
+ * conflict, which has to be resolved before later changes are sent, and when the network is down.
+ * Each collection is fetched at most once per replay to detect changes made elsewhere.
+ */
+export const replayPendingMutations = async (client: ApiClient, callbacks: ReplayCallbacks): Promise<void> => {
+    const serverState = new Map<QueuedCollection, Map<number, QueuedEntity>>();
+    const getServerItems = async (collection: QueuedCollection) => {
+        let items = serverState.get(collection);
+        if (!items) {
+            const list: QueuedEntity[] = await client[collection].list();
+            items = new Map(list.map(item => [item.id, item]));
+            serverState.set(collection, items);
+        }
+        return items;
+    };
+
+    for (let mutation = callbacks.getNext(); mutation && !mutation.conflict; mutation = callbacks.getNext()) {
+        try {
+            const serverItems = await getServerItems(mutation.collection);
+            const serverItem = serverItems.get(mutation.entityId) ?? null;
+            const conflict = findConflict(mutation, serverItem);
+            if (conflict && mutation.automatic) {
+                // The app redoes the change on the current data if it is still due.
+                callbacks.onSuperseded(mutation, serverItem);
+                continue;
+            }
+            if (conflict) {
+                callbacks.onConflict(mutation, conflict);
+                return;
+            }
+            if (mutation.force || !isAlreadyApplied(mutation, serverItem)) {
+                // Overwriting a record that was deleted elsewhere recreates it.
+                const toSend = mutation.force && !serverItem && mutation.action === 'update' ? { ...mutation, action: 'create' as const } : mutation;
+                await sendMutation(client, toSend);
+            }
+            if (mutation.action === 'remove') {
+                serverItems.delete(mutation.entityId);
+            } else if (mutation.item) {
+                serverItems.set(mutation.entityId, mutation.item);
+            }
+            callbacks.onSent(mutation);
+        } catch (error) {
+            if (isNetworkError(error)) return;
+            callbacks.onConflict(mutation, {
+                detectedAt: new Date().toISOString(),
+                message: `Der Server hat die Änderung abgelehnt: ${error instanceof Error ? error.message : String(error)}`,
+            });
+            return;
+        }
+    }
+};
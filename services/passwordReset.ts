@@ -0,0 +1,94 @@
+import type { Employee, PasswordResetToken } from '../types';
+import type { OutgoingMail } from './mail';
+
+const TOKEN_BYTES = 32;
+const TOKEN_QUERY_PARAM = 'passwordToken';
+
+export const RESET_TOKEN_VALIDITY_HOURS = 1;
+export const INVITATION_TOKEN_VALIDITY_DAYS = 7;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Only the SHA-256 hash of a token is stored, so a leaked dataset does not contain usable links.
+ */
+export const hashResetToken = async (token: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+    return toHex(new Uint8Array(digest));
+};
+
+/**
+ * Creates a new single-use token. The plain token only goes into the link; the record keeps its hash.
+ * @param purpose 'reset' for a forgotten password, 'invitation' for a new employee setting their first password.
+ */
+export const createPasswordResetToken = async (
+    employeeId: number,
+    purpose: PasswordResetToken['purpose'],
+    now = new Date(),
+): Promise<{ token: string; record: PasswordResetToken }> => {
+    const token = toHex(crypto.getRandomValues(new Uint8Array(TOKEN_BYTES)));
+    const validityMs = purpose === 'invitation'
+        ? INVITATION_TOKEN_VALIDITY_DAYS * 24 * 3_600_000
+        : RESET_TOKEN_VALIDITY_HOURS * 3_600_000;
+    return {
+        token,
+        record: {
+            id: now.getTime(),
+            employeeId,
+            purpose,
+            tokenHash: await hashResetToken(token),
+            createdAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + validityMs).toISOString(),
+        },
+    };
+};
+
+export const isResetTokenUsable = (record: PasswordResetToken, now = new Date()) =>
+    !record.usedAt && new Date(record.expiresAt) > now;
+
+export const buildPasswordTokenLink = (token: string) =>
+    `${window.location.origin}${window.location.pathname}?${TOKEN_QUERY_PARAM}=${token}`;
+
+export const readPasswordTokenFromUrl = () => new URLSearchParams(window.location.search).get(TOKEN_QUERY_PARAM);
+
+// Removes the token from the address bar so it does not stay in the history.
+export const clearPasswordTokenFromUrl = () => {
+    const url = new URL(window.location.href);
+    url.searchParams.delete(TOKEN_QUERY_PARAM);
+    window.history.replaceState(null, '', url.toString());
+};
+
+/**
+ * Address that receives mails for the employee. Admins without an own address fall back
+ * to the company e-mail ("Firmen-E-Mail (für Passwort-Reset)").
+ */
+export const getAccountMailAddress = (employee: Employee, companyEmail?: string) =>
+    employee.email || (employee.role === 'admin' ? companyEmail : undefined) || null;
+
+export const buildPasswordResetMail = (employee: Employee, to: string, link: string, companyName: string): OutgoingMail => ({
+    to,
+    subject: `${companyName}: Passwort zurücksetzen`,
+    text: [
+        `Hallo ${employee.firstName},`,
+        '',
+        `für Ihren Benutzer "${employee.username}" wurde ein neues Passwort angefordert.`,
+        `Über diesen Link können Sie es innerhalb von ${RESET_TOKEN_VALIDITY_HOURS} Stunde festlegen:`,
+        link,
+        '',
+        'Der Link kann nur einmal verwendet werden. Falls Sie kein neues Passwort angefordert haben, können Sie diese E-Mail ignorieren.',
+    ].join('\n'),
+});
+
+export const buildInvitationMail = (employee: Employee, to: string, link: string, companyName: string): OutgoingMail => ({
+    to,
+    subject: `Einladung zur Zeiterfassung von ${companyName}`,
+    text: [
+        `Hallo ${employee.firstName},`,
+        '',
+        `Sie wurden zur Zeiterfassung von ${companyName} eingeladen. Ihr Benutzername lautet "${employee.username}".`,
+        `Über diesen Link legen Sie innerhalb von ${INVITATION_TOKEN_VALIDITY_DAYS} Tagen Ihr Passwort fest:`,
+        link,
+        '',
+        'Der Link kann nur einmal verwendet werden.',
+    ].join('\n'),
+});
@@ -0,0 +1,130 @@
+import type { TimeEntry, AbsenceRequest, Shift, Employee, Customer, Activity, TimeBalanceAdjustment, CompanySettings, MonthClosing, AuditLogEntry, PasswordCredential, PasswordResetToken, OpenPunch, NfcTag, KioskPin, Team } from '../types';
+import type { GermanState } from '../constants';
+import { createIndexedDbRepository } from './indexedDbRepository';
+import type { PendingMutation } from './offlineQueue';
+
+/**
+ * All entity lists that the app keeps in memory and persists as a whole.
+ */
+export interface EntityCollections {
+    timeEntries: TimeEntry[];
+    absenceRequests: AbsenceRequest[];
+    shifts: Shift[];
+    employees: Employee[];
+    customers: Customer[];
+    activities: Activity[];
+    timeBalanceAdjustments: TimeBalanceAdjustment[];
+    monthClosings: MonthClosing[];
+    auditLog: AuditLogEntry[];
+    credentials: PasswordCredential[];
+    passwordResetTokens: PasswordResetToken[];
+    openPunches: OpenPunch[];
+    nfcTags: NfcTag[];
+    kioskPins: KioskPin[];
+    teams: Team[];
+}
+
+export type CollectionName = keyof EntityCollections;
+
+export const COLLECTION_NAMES: CollectionName[] = [
+    'timeEntries',
+    'absenceRequests',
+    'shifts',
+    'employees',
+    'customers',
+    'activities',
+    'timeBalanceAdjustments',
+    'monthClosings',
+    'auditLog',
+    'credentials',
+    'passwordResetTokens',
+    'openPunches',
+    'nfcTags',
+    'kioskPins',
+    'teams',
+];
+
+/**
+ * App-wide settings that are not part of CompanySettings but must survive a reload.
+ */
+export interface AppPreferences {
+    selectedState: GermanState;
+    timeTrackingMethod: 'all' | 'manual';
+}
+
+export interface PersistedData extends EntityCollections {
+    companySettings: CompanySettings | null;
+    preferences: AppPreferences | null;
+    // Changes of this device that have not reached the server yet
+    outbox: PendingMutation[];
+}
+
+/**
+ * Storage backend for the whole company dataset.
+ * Implementations must replace a collection atomically in `saveCollection`.
+ */
+export interface Repository {
+    load: () => Promise<PersistedData>;
+    saveCollection: <K extends CollectionName>(name: K, items: EntityCollections[K]) => Promise<void>;
+    saveCompanySettings: (settings: CompanySettings) => Promise<void>;
+    savePreferences: (preferences: AppPreferences) => Promise<void>;
+    saveOutbox: (mutations: PendingMutation[]) => Promise<void>;
+    clear: () => Promise<void>;
+}
+
+export const createEmptyData = (): PersistedData => ({
+    timeEntries: [],
+    absenceRequests: [],
+    shifts: [],
+    employees: [],
+    customers: [],
+    activities: [],
+    timeBalanceAdjustments: [],
+    monthClosings: [],
+    auditLog: [],
+    credentials: [],
+    passwordResetTokens: [],
+    openPunches: [],
+    nfcTags: [],
+    kioskPins: [],
+    teams: [],
+    companySettings: null,
+    preferences: null,
+    outbox: [],
+});
+
+/**
+ * Non-persistent fallback, e.g. for browsers where IndexedDB is disabled (private mode).
+ */
+export const createMemoryRepository = (): Repository => {
+    let data = createEmptyData();
+    return {
+        load: async () => ({ ...data }),
+        saveCollection: async (name, items) => {
+            data = { ...data, [name]: items };
+        },
+        saveCompanySettings: async (settings) => {
+            data = { ...data, companySettings: settings };
+        },
+        savePreferences: async (preferences) => {
+            data = { ...data, preferences };
+        },
+        saveOutbox: async (mutations) => {
+            data = { ...data, outbox: mutations };
+        },
+        clear: async () => {
+            data = createEmptyData();
+        },
+    };
+};
+
+/**
+ * Returns the IndexedDB repository if the browser supports it, otherwise an in-memory one.
+ */
+export const createRepository = (): Repository => {
+    if (typeof indexedDB === 'undefined') {
+        console.warn('IndexedDB ist nicht verfügbar. Daten werden nur im Arbeitsspeicher gehalten.');
+        return createMemoryRepository();
+    }
+    return createIndexedDbRepository();
+};
@@ -10,12 +10,12 @@ export interface Customer {
   city?: string;
   email?: string;
   phone?: string;
-  nfcTagId?: string;
   // Geofencing fields
   gpsLat?: number;
   gpsLng?: number;
   gpsRadius?: number; // meters
   enforceGeofencing?: boolean;
+  nfcTapSettings?: NfcTapSettings; // behaviour of this customer's NFC tags while the stopwatch runs
 }
 
 export interface Activity {
@@ -23,6 +23,40 @@ export interface Activity {
   name: string;
 }
 
+export interface BreakSegment {
+  start: string; // ISO String
+  end: string;   // ISO String
+}
+
+export type PunchMethod = 'stopwatch' | 'nfc' | 'qr' | 'kiosk' | 'manual' | 'admin' | 'system';
+
+/**
+ * How, where and by whom the start ("clock-in") or end ("clock-out") of a time entry was recorded.
+ */
+export interface PunchEvent {
+  method: PunchMethod;
+  recordedAt: string; // ISO String; later than the punched time if the entry was made afterwards
+  recordedBy?: number | null; // employee who recorded it, null for the system, undefined if unknown
+  device?: string; // e.g. "Android · Chrome"
+  gpsLat?: number;
+  gpsLng?: number;
+  gpsAccuracy?: number; // meters
+}
+
+/**
+ * Position of a clock-out outside the customer's geofence, fixed when the entry is saved.
+ */
+export interface GeofenceBreach {
+  distanceMeters: number; // distance to the customer's location
+  radiusMeters: number;   // allowed radius at that time
+}
+
+export interface GpsPosition {
+  lat: number;
+  lng: number;
+  accuracy?: number; // meters
+}
+
 export interface TimeEntry {
   id: number;
   employeeId: number;
@@ -31,11 +65,63 @@ export interface TimeEntry {
   customerId: string;
   activityId: string;
   breakDurationMinutes: number;
+  paidBreakMinutes?: number; // part of breakDurationMinutes that counts as working time, fixed when the entry is saved
+  breakSegments?: BreakSegment[]; // actual pause times recorded with the stopwatch
+  autoClosed?: boolean; // ended automatically because the stopwatch was left running
   type: 'stopwatch' | 'manual';
   comment?: string;
-  // Captured GPS Data
-  startGpsLat?: number;
-  startGpsLng?: number;
+  clockIn?: PunchEvent;
+  clockOut?: PunchEvent;
+  geofenceBreach?: GeofenceBreach; // set if the entry ended outside the customer's geofence
+}
+
+/**
+ * An NFC tag handed out for clock-in. The tag only carries its id in this registry; customer and
+ * activity are looked up here, so that revoked or unknown tags are refused.
+ */
+export type NfcTagPurpose = 'work' | 'pause' | 'badge';
+
+export type NfcTagMedium = 'nfc' | 'qr';
+
+/**
+ * What tapping an NFC tag does while the stopwatch is already running. Unset fields fall back to the
+ * settings of the customer, then to stopping on the same tag and switching on another one.
+ */
+export interface NfcTapSettings {
+  sameTag?: 'stop' | 'ignore'; // tag of the running customer and activity
+  otherTag?: 'switch' | 'ignore'; // tag of another customer or activity
+}
+
+export interface NfcTag {
+  id: number;
+  label: string; // e.g. "Eingang Halle 2"
+  medium?: NfcTagMedium; // default 'nfc'; printed QR codes share the registry and are only accepted by the camera scanner
+  purpose?: NfcTagPurpose; // default 'work'; pause tags start and end a pause of the running session, badges log in at the kiosk
+  customerId: string; // empty for badges
+  activityId: string; // empty for pause tags and badges
+  employeeId?: number; // owner of a badge
+  tapSettings?: NfcTapSettings; // overrides the customer's settings
+  serialNumber?: string; // hardware serial number read while writing, if the device reports it
+  createdAt: string; // ISO String
+  revokedAt?: string; // ISO String, set once the tag was lost or replaced
+  revokedReason?: string;
+}
+
+/**
+ * A running stopwatch session ("open punch"). There is at most one per employee; its id equals the
+ * employee id, so that every device of the employee reads and writes the same record.
+ */
+export interface OpenPunch {
+  id: number;
+  employeeId: number;
+  start: string; // ISO String
+  customerId: string;
+  activityId: string;
+  comment?: string;
+  breakSegments: BreakSegment[];
+  pauseStart?: string; // set while a pause is running
+  clockIn?: PunchEvent; // carried over to the time entry when the session is closed
+  chainEntryIds?: number[]; // entries closed earlier in this session by switching customer or activity
 }
 
 export interface Shift {
@@ -62,9 +148,72 @@ export interface AbsenceRequest {
   startDate: string;
   endDate: string;
   dayPortion?: 'full' | 'am' | 'pm';
+  hours?: number; // hourly time off on a single day; unset for whole days
+  startTime?: string; // HH:MM, with endTime the part of the day hourly time off was taken
+  endTime?: string;
   photo?: File;
   status: 'pending' | 'approved' | 'rejected';
   adminComment?: string;
+  approvalHistory?: AbsenceApprovalEvent[]; // oldest first; missing for requests from before approval chains
+}
+
+/**
+ * A step in the processing of an absence request. The approved events count the completed steps of the
+ * chain, so the current step is derived from the history.
+ */
+export interface AbsenceApprovalEvent {
+  action: 'submitted' | 'approved' | 'rejected' | 'escalated';
+  step?: number; // index of the approval step; missing for 'submitted'
+  stepLabel?: string; // label of the step at the time, e.g. "Teamleitung"
+  byEmployeeId: number | null; // null for the automatic escalation
+  onBehalfOfId?: number; // the regular approver when a deputy decided
+  at: string; // ISO String
+  comment?: string;
+}
+
+export interface AbsenceApprovalStep {
+  label: string; // e.g. "Teamleitung", "Personalabteilung"
+  approver: 'supervisor' | 'employee'; // the supervisor of the requesting employee or a fixed employee
+  approverId?: number; // for 'employee'
+}
+
+export interface AbsenceApprovalSettings {
+  steps: AbsenceApprovalStep[]; // in order; without steps any admin decides in one step
+  escalationDays?: number; // a step pending longer than this may be decided by any admin, 0 = never
+}
+
+/**
+ * Carryover of unused vacation into the following year.
+ */
+export interface VacationRuleSettings {
+  carryoverExpiry: string; // MM-DD in the following year until which the carryover can be taken, '' = never
+  extraDaysCarryOver: boolean; // contractual days beyond the legal minimum carry over; otherwise they lapse at year end
+}
+
+/**
+ * Minimum staffing on working days, for one team or the whole company. Requests for vacation or time off
+ * that would leave fewer employees present are flagged.
+ */
+export interface StaffingRule {
+  teamId?: number; // unset for the whole company
+  minPresent: number;
+  enforcement: 'warn' | 'block';
+}
+
+/**
+ * Period in which vacation and time off should not be taken, e.g. inventory week.
+ */
+export interface AbsenceBlackout {
+  label: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  teamId?: number; // unset for the whole company
+  enforcement: 'warn' | 'block';
+}
+
+export interface AbsenceConflictSettings {
+  staffingRules: StaffingRule[];
+  blackouts: AbsenceBlackout[];
 }
 
 export enum TimeBalanceAdjustmentType {
@@ -81,12 +230,164 @@ export interface TimeBalanceAdjustment {
   note: string;
 }
 
+/**
+ * Result of calculateMonthlyBreakdown; frozen into a MonthClosing when a month is closed.
+ */
+export interface MonthlyBreakdown {
+  previousBalance: number;
+  workedHours: number;
+  adjustments: number;
+  vacationCreditHours: number;
+  sickLeaveCreditHours: number;
+  holidayCreditHours: number;
+  absenceHolidayCredit: number;
+  timeOffHours?: number; // approved time off, debited by not being credited; missing in closings from before hourly time off
+  totalCredited: number;
+  targetHours: number;
+  monthlyBalance: number;
+  endOfMonthBalance: number;
+}
+
+/**
+ * Month-end closing (Monatsabschluss) of one employee. Records are never deleted:
+ * reopening sets the reopen fields, closing again creates a new record.
+ */
+export interface MonthClosing {
+  id: number;
+  employeeId: number;
+  year: number;
+  month: number; // 0-11
+  snapshot: MonthlyBreakdown;
+  closedAt: string; // ISO
+  closedBy: number; // employee id of the admin
+  reopenedAt?: string; // ISO
+  reopenedBy?: number;
+  reopenReason?: string;
+}
+
+export type AuditEntityType = 'timeEntry' | 'absenceRequest' | 'timeBalanceAdjustment' | 'shift' | 'employeeContract';
+export type AuditAction = 'create' | 'update' | 'delete';
+
+/**
+ * Immutable change log record (Änderungsprotokoll). Records are only ever appended.
+ * `before` is null for creations, `after` is null for deletions.
+ * For contract changes both hold `{ contractHistory }` of the employee.
+ */
+export interface AuditLogEntry {
+  id: number;
+  entityType: AuditEntityType;
+  entityId: number | string;
+  employeeId: number; // the employee the changed data belongs to
+  action: AuditAction;
+  changedAt: string; // ISO
+  changedBy: number | null; // null for system changes
+  changedByName: string; // kept so the log stays readable after the user is deleted or renamed
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason?: string;
+}
+
+/**
+ * Login data of one employee. Kept apart from Employee so that the employee list never carries
+ * password data; only a PBKDF2 hash is stored, never the password itself.
+ */
+export interface PasswordCredential {
+  id: number; // employee id
+  passwordHash: string; // base64
+  salt: string; // base64
+  iterations: number;
+  updatedAt: string; // ISO
+  failedLoginAttempts: number;
+  lockedUntil?: string; // ISO, set while the login is locked after too many failed attempts
+}
+
+/**
+ * The PIN an employee logs in with at the shared kiosk. It is hashed and locked after failed attempts
+ * exactly like a password, see PasswordCredential.
+ */
+export type KioskPin = PasswordCredential;
+
+/**
+ * A team or department. Its leads manage its members in the admin area, within the permissions of the
+ * 'teamLead' role.
+ */
+export interface Team {
+  id: number;
+  name: string;
+  leadIds: number[];
+}
+
+export type AdminRole = Exclude<Employee['role'], 'employee'>;
+
+export type AdminPermission = 'view' | 'approve' | 'editTime' | 'export' | 'manageSettings';
+
+export type PermissionMatrix = Record<AdminRole, AdminPermission[]>;
+
+/**
+ * Single-use link token for setting a password: 'reset' after "Passwort vergessen?",
+ * 'invitation' for a newly created employee. Only the hash of the token is stored.
+ */
+export interface PasswordResetToken {
+  id: number;
+  employeeId: number;
+  purpose: 'reset' | 'invitation';
+  tokenHash: string; // SHA-256, hex
+  createdAt: string; // ISO
+  expiresAt: string; // ISO
+  usedAt?: string; // ISO, also set when the token was superseded by a newer one
+}
+
+/**
+ * Required break once the working time exceeds `afterHours`.
+ */
+export interface BreakRuleTier {
+  afterHours: number;
+  breakMinutes: number;
+}
+
+/**
+ * Break rules of a company, or of a single contract (e.g. JArbSchG for minors).
+ */
+export interface BreakRules {
+  tiers: BreakRuleTier[];
+  minSegmentMinutes: number; // shorter interruptions do not count as a break
+  paidBreakMinutes: number; // minutes of the break per entry that are paid, i.e. count as working time
+}
+
+export type ComplianceRuleId = 'maxDailyHours' | 'restPeriod' | 'missingBreak' | 'sundayWork' | 'holidayWork';
+
+/**
+ * Working time checks (Arbeitszeitgesetz) of a company. Missing values fall back to the statutory defaults.
+ */
+export interface ComplianceRuleSettings {
+  enabled: boolean;
+  maxDailyHours: number; // § 3 ArbZG
+  minRestHours: number; // § 5 ArbZG, between the end of one working day and the start of the next
+  checkBreaks: boolean; // § 4 ArbZG
+  flagSundayWork: boolean; // § 9 ArbZG
+  flagHolidayWork: boolean;
+}
+
+/**
+ * A rule violation found in the time entries of one employee on one day.
+ * 'violation' breaks a statutory limit, 'warning' needs a permitted exception (e.g. Sunday work).
+ */
+export interface ComplianceViolation {
+  rule: ComplianceRuleId;
+  severity: 'warning' | 'violation';
+  employeeId: number;
+  date: string; // YYYY-MM-DD
+  entryIds: number[];
+  message: string;
+}
 
 export interface UserAccount {
     timeBalanceHours: number;
     vacationDaysLeft: number;
     vacationAnnualEntitlement?: number;
     vacationCarryover?: number;
+    vacationCarryoverExpiring?: number; // part of the carryover not yet taken or planned
+    vacationCarryoverExpiresOn?: string; // YYYY-MM-DD
 }
 
 export enum EmploymentType {
@@ -122,6 +423,7 @@ export interface ContractDetails {
   city: string;
   targetHoursModel?: TargetHoursModel;
   weeklySchedule?: WeeklySchedule;
+  breakRules?: BreakRules; // overrides the company break rules
 }
 
 export interface Employee {
@@ -130,18 +432,20 @@ export interface Employee {
   lastName: string;
   dateOfBirth: string;
   username: string;
-  password?: string;
   email?: string; // Added email field
   isActive: boolean;
   firstWorkDay: string;
   lastModified: string;
   contractHistory: ContractDetails[];
-  role: 'admin' | 'employee';
+  role: 'admin' | 'teamLead' | 'employee'; // team leads only manage the members of the teams they lead
+  teamId?: number;
   startingTimeBalanceHours?: number;
   dashboardType?: 'standard' | 'simplified';
-  vacationCarryover?: { [year: number]: number };
+  vacationCarryover?: { [year: number]: number }; // corrected carryover out of that year, overrides the calculated one
   automaticBreakDeduction?: boolean;
   showVacationWarning?: boolean;
+  supervisorId?: number; // team lead who approves absence requests in the 'supervisor' step
+  deputyId?: number; // decides in place of this employee while they are absent
 }
 
 
@@ -156,6 +460,8 @@ export enum AdminViewType {
     ShiftPlanner = 'shift_planner', // New View
     TimeTracking = 'time_tracking',
     Reports = 'reports',
+    Compliance = 'compliance',
+    Map = 'map',
     Employees = 'employees',
     Customers = 'customers',
     Activities = 'activities',
@@ -187,4 +493,12 @@ export interface CompanySettings {
   // Shift Planner Settings
   shiftPlannerStartHour?: number;
   shiftPlannerEndHour?: number;
+  idleLogoutMinutes?: number; // automatic logout after inactivity, 0 = never
+  complianceRules?: Partial<ComplianceRuleSettings>;
+  breakRules?: BreakRules;
+  openPunchAutoCloseHours?: number; // running stopwatch sessions are ended after this many hours, 0 = never
+  absenceApproval?: AbsenceApprovalSettings;
+  permissionMatrix?: Partial<PermissionMatrix>;
+  vacationRules?: Partial<VacationRuleSettings>;
+  absenceConflicts?: AbsenceConflictSettings;
 }